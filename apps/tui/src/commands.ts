@@ -3,7 +3,20 @@ import type { Command } from "./types"
 export const COMMANDS: Omit<Command, "action">[] = [
 	{ name: "/new", description: "Start a new chat" },
 	{ name: "/history", description: "Browse chat history" },
+	{
+		name: "/rewind",
+		description: "Undo file changes since an earlier message",
+	},
+	{ name: "/edit", description: "Edit a message in a new branch" },
+	{
+		name: "/regenerate",
+		description: "Generate a response again in a new branch",
+	},
 	{ name: "/agent", description: "Select an agent to use" },
+	{
+		name: "/mcp-trust",
+		description: "Start the MCP server commands in agents.json",
+	},
 	{ name: "/help", description: "List all available commands" },
 	{ name: "/clear", description: "Clear terminal history" },
 	{ name: "/summarize", description: "Summarize the current conversation" },
@@ -13,8 +26,11 @@ export const COMMANDS: Omit<Command, "action">[] = [
 	{ name: "/reset", description: "Reset agent to initial state" },
 	{ name: "/model", description: "Change the AI model" },
 	{ name: "/temperature", description: "Adjust response temperature" },
-	{ name: "/context", description: "Show current context window" },
-	{ name: "/tokens", description: "Display token usage stats" },
+	{ name: "/max-tokens", description: "Limit the tokens of each response" },
+	{ name: "/reasoning", description: "Set the reasoning effort" },
+	{ name: "/thinking", description: "Set the thinking budget" },
+	{ name: "/context", description: "Show what fills the context window" },
+	{ name: "/tokens", description: "Show token usage and cost" },
 	{ name: "/save", description: "Save conversation to file" },
 	{ name: "/load", description: "Load conversation from file" },
 	{ name: "/theme", description: "Change color theme" },
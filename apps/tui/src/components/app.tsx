@@ -19,6 +19,7 @@ import {
 	showCommandsAtom,
 	showDebugAtom,
 	showModelSelectorAtom,
+	showRewindPickerAtom,
 	showShortcutsAtom,
 } from "./atoms"
 import { ChatPicker, handleChatPickerKey } from "./chat-picker"
@@ -27,9 +28,10 @@ import { DebugOverlay } from "./debug-overlay"
 import { Footer } from "./footer"
 import { Header } from "./header"
 import { InputArea } from "./input-area"
-import { MessageList } from "./message-list"
+import { handleMessageListKey, MessageList } from "./message-list"
 import { handleModelSelectorKey, ModelSelector } from "./model-selector"
 import { handlePromptApproval, PromptApproval } from "./prompt-approval"
+import { handleRewindPickerKey, RewindPicker } from "./rewind-picker"
 import { ShortcutsPanel } from "./shortcuts-panel"
 import { AlertContainer } from "./ui/alert"
 
@@ -40,6 +42,7 @@ function Chat() {
 	const [showAgentSelector] = useAtom(showAgentSelectorAtom)
 	const [showModelSelector] = useAtom(showModelSelectorAtom)
 	const [showChatPicker] = useAtom(showChatPickerAtom)
+	const [showRewindPicker] = useAtom(showRewindPickerAtom)
 	const [currentAgent] = useAtom(currentAgentAtom)
 	const renderer = useRenderer()
 
@@ -62,6 +65,12 @@ function Chat() {
 			return
 		}
 
+		// Handle rewind picker keyboard events
+		if (handleRewindPickerKey(key)) {
+			key.preventDefault()
+			return
+		}
+
 		// Ctrl+C to exit
 		if (key.name === "c" && key.ctrl) {
 			key.preventDefault()
@@ -126,6 +135,25 @@ function Chat() {
 			return
 		}
 
+		// Alt+E, Alt+P and Alt+O to approve pending tool and remember it
+		if (key.name === "e" && (key.meta || key.option)) {
+			key.preventDefault()
+			handleToolApproval(true, "exact")
+			return
+		}
+
+		if (key.name === "p" && (key.meta || key.option)) {
+			key.preventDefault()
+			handleToolApproval(true, "prefix")
+			return
+		}
+
+		if (key.name === "o" && (key.meta || key.option)) {
+			key.preventDefault()
+			handleToolApproval(true, "session")
+			return
+		}
+
 		// Alt+R to deny pending tool (reject)
 		if (key.name === "r" && (key.meta || key.option)) {
 			key.preventDefault()
@@ -154,6 +182,13 @@ function Chat() {
 			return
 		}
 
+		// Alt+arrows to select messages and switch their branches, Escape to
+		// cancel editing or clear the selection
+		if (handleMessageListKey(key)) {
+			key.preventDefault()
+			return
+		}
+
 		// Copy selected text with Option+C (⌥C)
 		if (key.name === "c" && key.meta) {
 			const globalSelection = renderer.getSelection()
@@ -197,6 +232,7 @@ function Chat() {
 			{showAgentSelector && <AgentSelector />}
 			{showModelSelector && <ModelSelector />}
 			{showChatPicker && <ChatPicker />}
+			{showRewindPicker && <RewindPicker />}
 
 			<AlertContainer />
 		</box>
@@ -6,7 +6,9 @@ import type {
 } from "@opentui/core"
 import type { TUIMessage } from "../types"
 import type { DiscoveredAgent } from "../utils/agent-discovery"
+import type { MessageNode } from "../utils/branches"
 import type { AvailableModel } from "../utils/models"
+import type { StepUsage } from "../utils/usage"
 
 export type MessageAtom = Atom<TUIMessage>
 
@@ -26,13 +28,26 @@ export function setMessages(messages: TUIMessage[]) {
 	messagesAtom.set(messages.map((msg) => atom(msg)))
 }
 
+// Messages of the inactive branches of the conversation
+export const branchesAtom = atom<MessageNode[]>([])
+// Message selected with ⌥ ↑↓ to switch its branch, edit or regenerate it
+export const selectedMessageIdAtom = atom<string | null>(null)
+// User message being edited in the input, sending it starts a new branch
+export const editingMessageIdAtom = atom<string | null>(null)
+
 export const isLoadingAtom = atom(false)
 export const showDebugAtom = atom(false)
 export const debugLogsAtom = atom<string[]>([])
 // Default model - will be overridden by settings if available
 export const selectedModelAtom = atom("anthropic/claude-opus-4.5")
+// Token usage of every step in the current chat
+export const chatUsageAtom = atom<StepUsage[]>([])
+// Tokens in the context window after the last step, null when unknown
+export const contextTokensAtom = atom<number | null>(null)
 // Store cwd for settings persistence
 export const cwdAtom = atom<string>(process.cwd())
+// Directories agents, tools and prompts are installed in
+export const protectedDirectoriesAtom = atom<string[]>([])
 export const showCommandsAtom = atom(false)
 export const commandFilterAtom = atom("")
 export const selectedCommandAtom = atom(0)
@@ -75,10 +90,15 @@ export const chatListAtom = atom<
 >([])
 export const selectedChatIndexAtom = atom(0)
 
+// Rewind picker
+export const showRewindPickerAtom = atom(false)
+export const selectedRewindIndexAtom = atom(0)
+
 export interface PendingApproval {
 	toolCallId: string
 	approvalId: string
 	toolName: string
+	input?: unknown
 	messageAtom: MessageAtom
 }
 export const pendingApprovalsAtom = atom<PendingApproval[]>([])
@@ -5,7 +5,9 @@ import { colors } from "../theme"
 import { startNewChat, syncConversationMessages } from "../utils/agent"
 import { saveWorkspaceSettings } from "../utils/settings"
 import { deleteChat, listChats, loadChat } from "../utils/storage"
+import { setChatUsage } from "../utils/usage"
 import {
+	branchesAtom,
 	chatListAtom,
 	currentChatIdAtom,
 	inputAtom,
@@ -133,6 +135,8 @@ export async function selectChat(chatId: string) {
 	if (chat) {
 		currentChatIdAtom.set(chat.id)
 		setMessages(chat.messages)
+		branchesAtom.set(chat.branches ?? [])
+		setChatUsage(chat.usage)
 		// Sync conversation messages from loaded UI messages instead of resetting
 		// This ensures tool calls and results are properly reconstructed
 		syncConversationMessages()
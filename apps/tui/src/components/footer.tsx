@@ -1,6 +1,53 @@
 import { useAtom } from "@lfades/atom"
+import { useEffect, useState } from "react"
 import { colors } from "../theme"
-import { selectedModelAtom, showDebugAtom } from "./atoms"
+import {
+	formatCost,
+	formatTokens,
+	getContextWindow,
+	getSessionUsage,
+} from "../utils/usage"
+import {
+	chatUsageAtom,
+	contextTokensAtom,
+	selectedModelAtom,
+	showDebugAtom,
+} from "./atoms"
+
+// Share of the context window above which the meter turns amber
+const CONTEXT_WARNING_RATIO = 0.8
+
+function UsageMeter() {
+	const [model] = useAtom(selectedModelAtom)
+	const [steps] = useAtom(chatUsageAtom)
+	const [contextTokens] = useAtom(contextTokensAtom)
+	const [contextWindow, setContextWindow] = useState<number | null>(null)
+
+	useEffect(() => {
+		getContextWindow(model).then(setContextWindow)
+	}, [model])
+
+	if (steps.length === 0) return null
+
+	const session = getSessionUsage(steps)
+	const ratio =
+		contextTokens !== null && contextWindow ? contextTokens / contextWindow : 0
+
+	return (
+		<>
+			{contextTokens !== null && contextWindow && (
+				<span fg={ratio >= CONTEXT_WARNING_RATIO ? "#f59e0b" : colors.muted}>
+					{formatTokens(contextTokens)}/{formatTokens(contextWindow)} (
+					{Math.round(ratio * 100)}%) │{" "}
+				</span>
+			)}
+			<span fg={colors.muted}>
+				{formatCost(session.cost)}
+				{session.incompleteCost ? "+" : ""} │{" "}
+			</span>
+		</>
+	)
+}
 
 export function Footer() {
 	const [model] = useAtom(selectedModelAtom)
@@ -20,7 +67,12 @@ export function Footer() {
 				<span fg={colors.green}>{model}</span>
 				<span fg={colors.muted}> │ / commands │ ↑ ↓ history</span>
 			</text>
-			<text fg={colors.muted}>{showDebug ? "debug on" : "session active"}</text>
+			<text>
+				<UsageMeter />
+				<span fg={colors.muted}>
+					{showDebug ? "debug on" : "session active"}
+				</span>
+			</text>
 		</box>
 	)
 }
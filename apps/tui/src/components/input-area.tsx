@@ -4,17 +4,34 @@ import { COMMANDS } from "../commands"
 import { colors } from "../theme"
 import { createSystemMessage, type TUIMessage } from "../types"
 import {
+	editMessage,
+	getConversationMessages,
+	regenerateResponse,
+	reloadAgent,
 	resetConversation,
 	sendMessage,
 	startNewChat,
 	stopGeneration,
+	summarizeConversation,
 } from "../utils/agent"
 import { copyToClipboard } from "../utils/clipboard"
+import { GENERATION_COMMANDS, runGenerationCommand } from "../utils/generation"
+import { trustMcpServers } from "../utils/mcp-servers"
+import {
+	formatContextBreakdown,
+	formatTokenUsage,
+	getContextBreakdown,
+	getContextWindow,
+} from "../utils/usage"
 import {
 	addMessage,
+	chatUsageAtom,
 	clearMessages,
 	commandFilterAtom,
+	contextTokensAtom,
 	currentAgentAtom,
+	debugLog,
+	editingMessageIdAtom,
 	inputAtom,
 	isLoadingAtom,
 	messagesAtom,
@@ -26,7 +43,9 @@ import {
 	showChatPickerAtom,
 	showCommandsAtom,
 	showModelSelectorAtom,
+	showRewindPickerAtom,
 } from "./atoms"
+import { getBranchTarget } from "./message-list"
 
 const chatKeyBindings = [
 	{ name: "return", action: "submit" as const },
@@ -36,7 +55,7 @@ const chatKeyBindings = [
 // Max lines before scrolling within textarea
 const MAX_INPUT_LINES = 10
 
-function executeCommand(commandName: string) {
+function executeCommand(commandName: string, arg?: string) {
 	const addSystemMsg = (content: string) => {
 		addMessage(createSystemMessage(content))
 	}
@@ -51,12 +70,30 @@ function executeCommand(commandName: string) {
 		case "/history":
 			showChatPickerAtom.set(true)
 			break
+		case "/rewind":
+			showRewindPickerAtom.set(true)
+			break
 		case "/agent":
 			showAgentSelectorAtom.set(true)
 			break
 		case "/model":
 			showModelSelectorAtom.set(true)
 			break
+		case "/mcp-trust":
+			trustMcpServers()
+				.then(async (servers) => {
+					if (servers.length === 0) {
+						addSystemMsg("No MCP server commands in agents.json.")
+						return
+					}
+					addSystemMsg(`Trusted MCP servers: ${servers.join(", ")}`)
+					await reloadAgent()
+				})
+				.catch((error) => {
+					debugLog("Failed to trust the MCP servers:", error)
+					showAlert("Failed to trust the MCP servers", "error")
+				})
+			break
 		case "/help":
 			addSystemMsg(
 				`Available commands:\n${COMMANDS.map((c) => `  ${c.name} - ${c.description}`).join("\n")}`,
@@ -68,8 +105,20 @@ function executeCommand(commandName: string) {
 			resetConversation()
 			break
 		case "/summarize":
-			addSystemMsg("Summarizing conversation... (not implemented)")
+			summarizeConversation()
+			break
+		case "/edit": {
+			const message = getBranchTarget("user")
+			if (message) editMessage(message.id)
+			else addSystemMsg("No message to edit. Select one with ⌥ ↑↓.")
+			break
+		}
+		case "/regenerate": {
+			const message = getBranchTarget("assistant")
+			if (message) regenerateResponse(message.id)
+			else addSystemMsg("No response to regenerate. Select one with ⌥ ↑↓.")
 			break
+		}
 		case "/export": {
 			const messages = messagesAtom.get().reduce<TUIMessage[]>((acc, atom) => {
 				const msg = atom.get()
@@ -96,6 +145,35 @@ function executeCommand(commandName: string) {
 		case "/time":
 			addSystemMsg(`Current time: ${new Date().toLocaleString()}`)
 			break
+		case "/tokens":
+			addSystemMsg(formatTokenUsage(chatUsageAtom.get()))
+			break
+		case "/context":
+			getContextWindow(selectedModelAtom.get())
+				.then((limit) => {
+					addSystemMsg(
+						formatContextBreakdown(
+							getContextBreakdown(
+								getConversationMessages(),
+								contextTokensAtom.get(),
+								limit,
+							),
+						),
+					)
+				})
+				.catch((error) => {
+					debugLog("Failed to get the context window:", error)
+					showAlert("Failed to show the context window", "error")
+				})
+			break
+		case "/temperature":
+		case "/max-tokens":
+		case "/reasoning":
+		case "/thinking":
+			runGenerationCommand(GENERATION_COMMANDS[commandName]!, arg).then(
+				addSystemMsg,
+			)
+			break
 		case "/version": {
 			const model = selectedModelAtom.get()
 			addSystemMsg(
@@ -113,6 +191,7 @@ export function InputArea() {
 	const [commandFilter, setCommandFilter] = useAtom(commandFilterAtom)
 	const [selectedCommand, setSelectedCommand] = useAtom(selectedCommandAtom)
 	const [isLoading] = useAtom(isLoadingAtom)
+	const [editingMessageId] = useAtom(editingMessageIdAtom)
 	const [lineCount, setLineCount] = useState(1)
 	const filteredCommands = COMMANDS.filter((cmd) =>
 		cmd.name.toLowerCase().includes(commandFilter.toLowerCase()),
@@ -134,8 +213,8 @@ export function InputArea() {
 		scrollToBottom()
 
 		if (value.startsWith("/")) {
-			const commandName = value.split(" ")[0]!
-			executeCommand(commandName)
+			const [commandName, arg] = value.trim().split(/\s+/)
+			executeCommand(commandName!, arg)
 			return
 		}
 
@@ -227,7 +306,13 @@ export function InputArea() {
 			)}
 			<textarea
 				ref={(ref) => inputAtom.set(ref)}
-				placeholder={isLoading ? "⌥ X to stop" : "Enter prompt, / for commands"}
+				placeholder={
+					isLoading
+						? "⌥ X to stop"
+						: editingMessageId
+							? "Edit the message, Esc to cancel"
+							: "Enter prompt, / for commands"
+				}
 				focused
 				wrapMode="word"
 				keyBindings={chatKeyBindings}
@@ -1,10 +1,16 @@
 import { useAtom } from "@lfades/atom"
+import type { KeyEvent } from "@opentui/core"
 import { colors } from "../theme"
-import { formatTimestamp, getMessageText } from "../types"
+import { formatTimestamp, getMessageText, type TUIMessage } from "../types"
+import { cancelEdit, switchBranch } from "../utils/agent"
+import { getSiblings, type MessageTree } from "../utils/branches"
 import {
+	branchesAtom,
+	editingMessageIdAtom,
 	type MessageAtom,
 	messageListScrollboxAtom,
 	messagesAtom,
+	selectedMessageIdAtom,
 } from "./atoms"
 import { Markdown } from "./markdown"
 import { ThinkingSection } from "./thinking-section"
@@ -27,7 +33,41 @@ function hasContent(msg: {
 	)
 }
 
-function Message({ messageAtom }: { messageAtom: MessageAtom }) {
+interface BranchPosition {
+	index: number
+	count: number
+}
+
+/**
+ * Get the position of a message among its siblings, undefined when it has
+ * none.
+ */
+function getBranchPosition(
+	tree: MessageTree,
+	messageId: string,
+): BranchPosition | undefined {
+	const siblings = getSiblings(tree, messageId)
+	if (siblings.length < 2) return undefined
+
+	return {
+		index: siblings.findIndex((m) => m.id === messageId) + 1,
+		count: siblings.length,
+	}
+}
+
+function formatBranch(branch?: BranchPosition) {
+	return branch ? ` ‹ ${branch.index}/${branch.count} ›` : ""
+}
+
+function Message({
+	messageAtom,
+	branch,
+	highlighted,
+}: {
+	messageAtom: MessageAtom
+	branch?: BranchPosition
+	highlighted: boolean
+}) {
 	const [msg] = useAtom(messageAtom)
 	const text = getMessageText(msg)
 	const streaming = msg.metadata?.streaming
@@ -43,6 +83,8 @@ function Message({ messageAtom }: { messageAtom: MessageAtom }) {
 				backgroundColor: msg.role === "assistant" ? colors.bgLight : undefined,
 				paddingLeft: msg.role === "assistant" ? 1 : 0,
 				paddingRight: msg.role === "assistant" ? 1 : 0,
+				border: highlighted ? ["left"] : false,
+				borderColor: colors.pink,
 			}}
 		>
 			{msg.role === "system" ? (
@@ -52,7 +94,11 @@ function Message({ messageAtom }: { messageAtom: MessageAtom }) {
 			) : msg.role === "user" ? (
 				<text>
 					<span fg={colors.text}>{text}</span>
-					<span fg={colors.muted}> {timestamp}</span>
+					<span fg={colors.muted}>
+						{" "}
+						{timestamp}
+						{formatBranch(branch)}
+					</span>
 				</text>
 			) : showThinking ? (
 				<ThinkingDots />
@@ -99,6 +145,7 @@ function Message({ messageAtom }: { messageAtom: MessageAtom }) {
 					) : (
 						<text fg={colors.muted} style={{ width: "100%" }}>
 							{timestamp}
+							{formatBranch(branch)}
 						</text>
 					)}
 				</box>
@@ -109,6 +156,13 @@ function Message({ messageAtom }: { messageAtom: MessageAtom }) {
 
 export function MessageList() {
 	const [messageAtoms] = useAtom(messagesAtom)
+	const [branches] = useAtom(branchesAtom)
+	const [selectedMessageId] = useAtom(selectedMessageIdAtom)
+	const [editingMessageId] = useAtom(editingMessageIdAtom)
+	const tree: MessageTree = {
+		messages: messageAtoms.map((atom) => atom.get()),
+		branches,
+	}
 
 	return (
 		<scrollbox
@@ -123,9 +177,107 @@ export function MessageList() {
 			}}
 			focused={false}
 		>
-			{messageAtoms.map((msgAtom) => (
-				<Message key={msgAtom.get().id} messageAtom={msgAtom} />
+			{tree.messages.map((msg, i) => (
+				<Message
+					key={msg.id}
+					messageAtom={messageAtoms[i]!}
+					branch={getBranchPosition(tree, msg.id)}
+					highlighted={
+						msg.id === selectedMessageId || msg.id === editingMessageId
+					}
+				/>
 			))}
 		</scrollbox>
 	)
 }
+
+/**
+ * Get the user and assistant messages of the active branch, the ones that can
+ * be selected.
+ */
+function getSelectableMessages(): TUIMessage[] {
+	return messagesAtom
+		.get()
+		.map((atom) => atom.get())
+		.filter((message) => message.role !== "system")
+}
+
+/**
+ * Get the message to edit or regenerate: the selected message, or the last
+ * one with the role when none is selected.
+ */
+export function getBranchTarget(role: "user" | "assistant") {
+	const messages = getSelectableMessages()
+	const selectedId = selectedMessageIdAtom.get()
+	const selected = messages.find((m) => m.id === selectedId)
+
+	if (selected) return selected.role === role ? selected : undefined
+	return messages.findLast((m) => m.role === role)
+}
+
+/**
+ * Move the selection to the previous or next message. Moving past the last
+ * message clears the selection.
+ */
+function selectMessage(direction: -1 | 1) {
+	const messages = getSelectableMessages()
+	const index = messages.findIndex((m) => m.id === selectedMessageIdAtom.get())
+	const next =
+		index === -1
+			? direction === -1
+				? messages.length - 1
+				: -1
+			: Math.max(0, index + direction)
+
+	selectedMessageIdAtom.set(messages[next]?.id ?? null)
+}
+
+/**
+ * Switch the branch of the selected message or, when none is selected, of the
+ * last message that has siblings.
+ */
+function switchSelectedBranch(direction: -1 | 1) {
+	const tree: MessageTree = {
+		messages: messagesAtom.get().map((atom) => atom.get()),
+		branches: branchesAtom.get(),
+	}
+	const selectedId = selectedMessageIdAtom.get()
+	const message = selectedId
+		? tree.messages.find((m) => m.id === selectedId)
+		: tree.messages.findLast((m) => getSiblings(tree, m.id).length > 1)
+
+	if (message) switchBranch(message.id, direction)
+}
+
+export function handleMessageListKey(key: KeyEvent): boolean {
+	if (key.name === "escape") {
+		if (cancelEdit()) return true
+		if (!selectedMessageIdAtom.get()) return false
+
+		selectedMessageIdAtom.set(null)
+		return true
+	}
+
+	if (!key.meta && !key.option) return false
+
+	switch (key.name) {
+		case "up":
+			selectMessage(-1)
+			return true
+
+		case "down":
+			selectMessage(1)
+			return true
+
+		case "left":
+			switchSelectedBranch(-1)
+			return true
+
+		case "right":
+			switchSelectedBranch(1)
+			return true
+
+		default:
+			return false
+	}
+}
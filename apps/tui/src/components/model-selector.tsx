@@ -2,6 +2,7 @@ import { useAtom } from "@lfades/atom"
 import type { KeyEvent, ScrollBoxRenderable } from "@opentui/core"
 import { useEffect, useRef, useState } from "react"
 import { colors } from "../theme"
+import { reloadAgent } from "../utils/agent"
 import { fetchAvailableModels, isUsingFallbackModels } from "../utils/models"
 import { saveWorkspaceSettings } from "../utils/settings"
 import {
@@ -71,15 +72,12 @@ export function ModelSelector() {
 				<DialogTitle color={colors.pink}>Select Model</DialogTitle>
 				<DialogText muted>No models found.</DialogText>
 				<DialogText muted>
-					Make sure you have valid gateway credentials.
+					Make sure you have valid gateway credentials or configured providers.
 				</DialogText>
 			</Dialog>
 		)
 	}
 
-	// Get provider from model id (e.g., "anthropic/claude-sonnet-4" -> "anthropic")
-	const getProvider = (id: string) => id.split("/")[0] || "unknown"
-
 	// Group models by provider for display
 	let lastProvider = ""
 
@@ -125,7 +123,7 @@ export function ModelSelector() {
 				focused
 			>
 				{models.map((model, i) => {
-					const provider = getProvider(model.id)
+					const provider = model.provider
 					const showProvider = provider !== lastProvider
 					lastProvider = provider
 
@@ -193,6 +191,8 @@ export function handleModelSelectorKey(key: KeyEvent): boolean {
 				showModelSelectorAtom.set(false)
 				selectedModelIndexAtom.set(0)
 				saveWorkspaceSettings({ selectedModel: selectedModel.id })
+				// Create the agent again with the new model
+				reloadAgent()
 			}
 			return true
 		}
@@ -0,0 +1,195 @@
+import { useAtom } from "@lfades/atom"
+import type { KeyEvent, ScrollBoxRenderable } from "@opentui/core"
+import { useEffect, useRef, useState } from "react"
+import { colors } from "../theme"
+import { getMessageText, type TUIMessage } from "../types"
+import { rewindToMessage } from "../utils/agent"
+import { listCheckpoints } from "../utils/checkpoints"
+import {
+	currentChatIdAtom,
+	inputAtom,
+	type MessageAtom,
+	messagesAtom,
+	selectedRewindIndexAtom,
+	showRewindPickerAtom,
+} from "./atoms"
+import { Dialog, DialogText, DialogTitle } from "./ui/dialog"
+
+const MAX_PROMPT_LENGTH = 36
+
+/**
+ * Get the user messages of the conversation, newest first. Each one starts a
+ * turn that can be rewound.
+ */
+function getTurns(messages: MessageAtom[]): TUIMessage[] {
+	return messages
+		.map((atom) => atom.get())
+		.filter((message) => message.role === "user")
+		.reverse()
+}
+
+function formatPrompt(message: TUIMessage) {
+	const text = getMessageText(message).split("\n")[0] ?? ""
+	if (text.length <= MAX_PROMPT_LENGTH) return text
+	return `${text.slice(0, MAX_PROMPT_LENGTH - 3)}...`
+}
+
+function formatTime(timestamp = 0) {
+	return new Date(timestamp).toLocaleTimeString("en-US", {
+		hour: "2-digit",
+		minute: "2-digit",
+		hour12: false,
+	})
+}
+
+export function RewindPicker() {
+	const [messages] = useAtom(messagesAtom)
+	const [selectedIndex] = useAtom(selectedRewindIndexAtom)
+	const [changedFiles, setChangedFiles] = useState(new Map<string, number>())
+	const scrollRef = useRef<ScrollBoxRenderable>(null)
+	const turns = getTurns(messages)
+	const panelWidth = 60
+	const panelHeight = Math.min(turns.length + 6, 20)
+
+	// Load how many files each turn changed
+	useEffect(() => {
+		const chatId = currentChatIdAtom.get()
+		if (!chatId) return
+
+		listCheckpoints(chatId).then((checkpoints) => {
+			setChangedFiles(
+				new Map(checkpoints.map((c) => [c.messageId, c.files.length])),
+			)
+		})
+	}, [])
+
+	// Auto-scroll to keep selected item visible
+	useEffect(() => {
+		if (scrollRef.current && turns.length > 0) {
+			const visibleItems = panelHeight - 6
+			const scrollTop = Math.max(0, selectedIndex - visibleItems + 1)
+			scrollRef.current.scrollTo(scrollTop)
+		}
+	}, [selectedIndex, turns.length, panelHeight])
+
+	// Refocus input when picker closes
+	useEffect(() => {
+		return () => {
+			inputAtom.get()?.focus()
+		}
+	}, [])
+
+	if (turns.length === 0) {
+		return (
+			<Dialog width={panelWidth}>
+				<DialogTitle color={colors.pink}>Rewind</DialogTitle>
+				<DialogText muted>No messages to rewind to.</DialogText>
+			</Dialog>
+		)
+	}
+
+	return (
+		<Dialog width={panelWidth} height={panelHeight} maxHeight={20}>
+			<DialogTitle
+				color={colors.pink}
+				hint="↑↓ navigate, Enter rewind, f files only"
+			>
+				Rewind
+			</DialogTitle>
+			<scrollbox
+				ref={scrollRef}
+				style={{
+					flexGrow: 1,
+					contentOptions: {
+						backgroundColor: colors.bg,
+					},
+					scrollbarOptions: {
+						showArrows: true,
+						trackOptions: {
+							foregroundColor: colors.pink,
+							backgroundColor: colors.bgLight,
+						},
+					},
+				}}
+				focused
+			>
+				{turns.map((message, i) => {
+					const files = changedFiles.get(message.id) ?? 0
+					return (
+						<box
+							key={message.id}
+							style={{
+								height: 1,
+								backgroundColor:
+									i === selectedIndex ? colors.bgLight : colors.bg,
+								paddingLeft: 1,
+								paddingRight: 1,
+							}}
+						>
+							<text>
+								<span fg={colors.muted}>
+									{formatTime(message.metadata?.timestamp)}{" "}
+								</span>
+								<span fg={i === selectedIndex ? colors.pink : colors.text}>
+									{formatPrompt(message)}
+								</span>
+								{files > 0 && (
+									<span fg={colors.muted}>
+										{" "}
+										{files} file{files === 1 ? "" : "s"}
+									</span>
+								)}
+							</text>
+						</box>
+					)
+				})}
+			</scrollbox>
+		</Dialog>
+	)
+}
+
+function closeRewindPicker() {
+	showRewindPickerAtom.set(false)
+	selectedRewindIndexAtom.set(0)
+}
+
+export function handleRewindPickerKey(key: KeyEvent): boolean {
+	const showPicker = showRewindPickerAtom.get()
+	if (!showPicker) return false
+
+	const turns = getTurns(messagesAtom.get())
+	const selectedIndex = selectedRewindIndexAtom.get()
+
+	switch (key.name) {
+		case "up":
+			selectedRewindIndexAtom.set(
+				selectedIndex > 0 ? selectedIndex - 1 : turns.length - 1,
+			)
+			return true
+
+		case "down":
+			selectedRewindIndexAtom.set(
+				selectedIndex < turns.length - 1 ? selectedIndex + 1 : 0,
+			)
+			return true
+
+		case "return":
+		case "f": {
+			const selectedTurn = turns[selectedIndex]
+			if (selectedTurn) {
+				closeRewindPicker()
+				rewindToMessage(selectedTurn.id, {
+					conversation: key.name === "return",
+				})
+			}
+			return true
+		}
+
+		case "escape":
+			closeRewindPicker()
+			return true
+
+		default:
+			return false
+	}
+}
@@ -11,9 +11,14 @@ const SHORTCUTS = {
 		{ action: "Toggle debug overlay", keys: ["⌥ D"] },
 		{ action: "Copy selected text", keys: ["⌥ C"] },
 		{ action: "Approve pending tool", keys: ["⌥ Y"] },
+		{ action: "Always allow exact command or file", keys: ["⌥ E"] },
+		{ action: "Always allow command prefix or directory", keys: ["⌥ P"] },
+		{ action: "Allow prefix for this session", keys: ["⌥ O"] },
 		{ action: "Deny pending tool", keys: ["⌥ R"] },
 		{ action: "Stop generation", keys: ["⌥ X"] },
 		{ action: "Scroll to bottom", keys: ["⌥ B"] },
+		{ action: "Select previous / next message", keys: ["⌥ ↑", "⌥ ↓"] },
+		{ action: "Switch to previous / next branch", keys: ["⌥ ←", "⌥ →"] },
 		{ action: "Previous command in history", keys: ["↑"] },
 		{ action: "Next command in history", keys: ["↓"] },
 		{ action: "Autocomplete command", keys: ["Tab"] },
@@ -24,8 +29,14 @@ const SHORTCUTS = {
 	commands: [
 		{ action: "List all available commands", keys: ["/help"] },
 		{ action: "Select AI model", keys: ["/model"] },
+		{ action: "Rewind files and conversation", keys: ["/rewind"] },
+		{ action: "Edit selected or last message", keys: ["/edit"] },
+		{ action: "Regenerate selected or last response", keys: ["/regenerate"] },
 		{ action: "Clear terminal history", keys: ["/clear"] },
 		{ action: "Summarize conversation", keys: ["/summarize"] },
+		{ action: "Adjust temperature of the agent", keys: ["/temperature"] },
+		{ action: "Show token usage and cost", keys: ["/tokens"] },
+		{ action: "Show context window usage", keys: ["/context"] },
 		{ action: "Export to clipboard", keys: ["/export"] },
 		{ action: "Show current timestamp", keys: ["/time"] },
 		{ action: "Show version info", keys: ["/version"] },
@@ -1,8 +1,20 @@
 import { useAtom } from "@lfades/atom"
 import { useEffect, useState } from "react"
 import { colors } from "../theme"
-import { getToolError, getToolMessage, getToolStatus } from "../types"
+import {
+	getToolActivity,
+	getToolError,
+	getToolMessage,
+	getToolStatus,
+	type ToolActivity,
+} from "../types"
 import { handleToolApproval } from "../utils/agent"
+import {
+	type AllowScope,
+	getAllowPattern,
+	getPermissionRequests,
+	type PermissionRequest,
+} from "../utils/permissions"
 import {
 	addPendingApproval,
 	type MessageAtom,
@@ -73,6 +85,58 @@ function getStatusIndicator(
 	}
 }
 
+const ACTIVITY_INDICATORS: Record<
+	ToolActivity["status"],
+	{ icon: string; color: string }
+> = {
+	running: { icon: "•", color: colors.muted },
+	success: { icon: "✓", color: colors.green },
+	error: { icon: "✗", color: "#ef4444" },
+	denied: { icon: "⊘", color: "#f59e0b" },
+}
+
+// Sub-agent tool calls shown while the tool part is collapsed
+const COLLAPSED_ACTIVITY_LIMIT = 5
+
+/**
+ * Tool calls of a sub-agent started by the task tool, nested under its tool
+ * part. Collapsed parts only show the latest calls.
+ */
+function SubAgentActivity({
+	activity,
+	expanded,
+}: {
+	activity: ToolActivity[]
+	expanded: boolean
+}) {
+	const hidden = expanded
+		? 0
+		: Math.max(0, activity.length - COLLAPSED_ACTIVITY_LIMIT)
+
+	return (
+		<box style={{ flexDirection: "column", paddingLeft: 2 }}>
+			{hidden > 0 && (
+				<text fg={colors.muted}>
+					... {hidden} earlier tool {hidden === 1 ? "call" : "calls"}
+				</text>
+			)}
+			{activity.slice(hidden).map((item) => {
+				const { icon, color } = ACTIVITY_INDICATORS[item.status]
+				const mcpTool = parseMcpToolName(item.toolName)
+				return (
+					<text key={item.toolCallId}>
+						<span fg={color}>{icon}</span>
+						<span fg={colors.green}> {mcpTool?.tool ?? item.toolName}</span>
+						{item.message && (
+							<span fg={colors.muted}> {formatValue(item.message, 80)}</span>
+						)}
+					</text>
+				)
+			})}
+		</box>
+	)
+}
+
 function formatValue(value: unknown, maxLength = 200): string {
 	if (value === undefined || value === null) return ""
 	if (typeof value === "string") {
@@ -82,6 +146,46 @@ function formatValue(value: unknown, maxLength = 200): string {
 	return json.length > maxLength ? `${json.slice(0, maxLength)}...` : json
 }
 
+/**
+ * MCP tools are named `mcp__<server>__<tool>`, show them as the tool name
+ * with the server they come from.
+ */
+function parseMcpToolName(toolName: string) {
+	const match = toolName.match(/^mcp__(.+?)__(.+)$/)
+	return match ? { server: match[1]!, tool: match[2]! } : null
+}
+
+const ALLOW_OPTIONS: { key: string; scope: AllowScope; label: string }[] = [
+	{ key: "E", scope: "exact", label: "Always allow" },
+	{ key: "P", scope: "prefix", label: "Always allow" },
+	{ key: "O", scope: "session", label: "This session, allow" },
+]
+
+function AllowOptions({ requests }: { requests: PermissionRequest[] }) {
+	return (
+		<box style={{ flexDirection: "column", marginTop: 1 }}>
+			{ALLOW_OPTIONS.map(({ key, scope, label }) => (
+				<box key={scope} onMouseDown={() => handleToolApproval(true, scope)}>
+					<text>
+						<span fg={colors.green}>⌥ {key}</span>
+						<span fg={colors.muted}> {label} </span>
+						<span fg={colors.text}>
+							{formatValue(
+								[
+									...new Set(
+										requests.map((request) => getAllowPattern(request, scope)),
+									),
+								].join(", "),
+								60,
+							)}
+						</span>
+					</text>
+				</box>
+			))}
+		</box>
+	)
+}
+
 export interface ToolPartProps {
 	data: ToolData
 	messageAtom?: MessageAtom
@@ -95,10 +199,12 @@ export function ToolPart({ data, messageAtom }: ToolPartProps) {
 		data.type === "dynamic-tool"
 			? data.toolName || "unknown"
 			: data.type.replace("tool-", "")
+	const mcpTool = parseMcpToolName(toolName)
 	const [expanded, setExpanded] = useState(false)
 	const toolStatus = getToolStatus(output)
 	const toolMessage = getToolMessage(output)
 	const toolError = getToolError(output)
+	const activity = getToolActivity(output)
 	const inProgress = isInProgress(state, toolStatus)
 	const { icon, color } = getStatusIndicator(state, toolStatus)
 
@@ -106,6 +212,9 @@ export function ToolPart({ data, messageAtom }: ToolPartProps) {
 	const isFirstPending =
 		state === "approval-requested" &&
 		pendingApprovals[0]?.toolCallId === data.toolCallId
+	const permissionRequests = isFirstPending
+		? getPermissionRequests(toolName, input)
+		: []
 
 	// Register this approval request when it becomes active
 	useEffect(() => {
@@ -114,6 +223,7 @@ export function ToolPart({ data, messageAtom }: ToolPartProps) {
 				toolCallId: data.toolCallId,
 				approvalId: approval.id,
 				toolName,
+				input,
 				messageAtom,
 			}
 			addPendingApproval(pendingApproval)
@@ -122,7 +232,7 @@ export function ToolPart({ data, messageAtom }: ToolPartProps) {
 				removePendingApproval(data.toolCallId)
 			}
 		}
-	}, [state, approval?.id, data.toolCallId, toolName, messageAtom])
+	}, [state, approval?.id, data.toolCallId, toolName, input, messageAtom])
 
 	// Determine display message
 	let displayMessage = toolMessage
@@ -150,6 +260,9 @@ export function ToolPart({ data, messageAtom }: ToolPartProps) {
 		typeof output === "object" &&
 		Object.keys(output).length > 0
 	const hasDetails = hasInput || hasOutput || toolError
+	// MCP tools return the server's text, show it instead of the JSON wrapper
+	const outputValue =
+		mcpTool && hasOutput && "output" in output ? output.output : output
 
 	// Force expanded when this is the first pending approval
 	const isExpanded = isFirstPending || expanded
@@ -173,7 +286,8 @@ export function ToolPart({ data, messageAtom }: ToolPartProps) {
 			<box onMouseDown={toggle} style={{ flexDirection: "row" }}>
 				{inProgress ? <Spinner /> : <text fg={color}>{icon}</text>}
 				<text>
-					<span fg={colors.green}> {toolName}</span>
+					<span fg={colors.green}> {mcpTool?.tool ?? toolName}</span>
+					{mcpTool && <span fg={colors.muted}> ({mcpTool.server} MCP)</span>}
 					{displayMessage && <span fg={colors.muted}> {displayMessage}</span>}
 					{canToggle && (
 						<span fg={colors.border}>
@@ -184,6 +298,10 @@ export function ToolPart({ data, messageAtom }: ToolPartProps) {
 				</text>
 			</box>
 
+			{activity.length > 0 && (
+				<SubAgentActivity activity={activity} expanded={isExpanded} />
+			)}
+
 			{isExpanded && hasDetails && (
 				<box style={{ flexDirection: "column", marginTop: 1 }}>
 					{hasInput && (
@@ -196,7 +314,7 @@ export function ToolPart({ data, messageAtom }: ToolPartProps) {
 					{hasOutput && (
 						<box style={{ flexDirection: "column" }}>
 							<text fg={colors.muted}>Output:</text>
-							<text fg={colors.text}>{formatValue(output, 500)}</text>
+							<text fg={colors.text}>{formatValue(outputValue, 500)}</text>
 						</box>
 					)}
 
@@ -236,6 +354,10 @@ export function ToolPart({ data, messageAtom }: ToolPartProps) {
 					</box>
 				</box>
 			)}
+
+			{permissionRequests.length > 0 && (
+				<AllowOptions requests={permissionRequests} />
+			)}
 		</box>
 	)
 }
@@ -1,8 +1,44 @@
 import { type DiscoveredAgent, discoverAgents } from "./utils/agent-discovery"
+import {
+	type ApprovalPolicy,
+	HEADLESS_EXIT_CODES,
+	type OutputFormat,
+	type RunHeadlessOptions,
+	runHeadless,
+} from "./utils/headless"
+import {
+	type PendingApproval,
+	type StartServerOptions,
+	startServer,
+} from "./utils/server"
+import {
+	STREAM_EVENT_VERSION,
+	type StreamEvent,
+	type StreamUsage,
+	streamEventSchema,
+} from "./utils/stream-events"
 import { type RunTuiOptions, runTui } from "./utils/tui"
 
-export { runTui, discoverAgents }
-export type { RunTuiOptions, DiscoveredAgent }
+export {
+	runTui,
+	runHeadless,
+	startServer,
+	discoverAgents,
+	HEADLESS_EXIT_CODES,
+	STREAM_EVENT_VERSION,
+	streamEventSchema,
+}
+export type {
+	RunTuiOptions,
+	RunHeadlessOptions,
+	StartServerOptions,
+	PendingApproval,
+	ApprovalPolicy,
+	OutputFormat,
+	StreamEvent,
+	StreamUsage,
+	DiscoveredAgent,
+}
 
 // Run when executed directly (for testing without CLI)
 if (import.meta.main) {
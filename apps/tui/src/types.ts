@@ -1,9 +1,14 @@
-import type { UIMessage, UIMessagePart } from "ai"
+import type { ModelMessage, UIMessage, UIMessagePart } from "ai"
 
 // Message metadata includes timestamp for display
 export interface TUIMessageMetadata {
 	timestamp: number
 	streaming?: true
+	/**
+	 * Set on the message marking where the conversation was summarized, with
+	 * the messages that replaced the ones before it
+	 */
+	compaction?: { messages: ModelMessage[] }
 }
 
 export type TUIMessage = UIMessage<TUIMessageMetadata>
@@ -138,3 +143,29 @@ export function getToolError(output: unknown): string | undefined {
 	}
 	return undefined
 }
+
+/**
+ * A tool call made by a sub-agent, listed in the output of the task tool.
+ */
+export interface ToolActivity {
+	toolCallId: string
+	toolName: string
+	status: "running" | "success" | "error" | "denied"
+	message?: string
+}
+
+/**
+ * Extract the sub-agent tool calls from a tool output, empty for tools that
+ * don't run sub-agents.
+ */
+export function getToolActivity(output: unknown): ToolActivity[] {
+	if (
+		output &&
+		typeof output === "object" &&
+		"activity" in output &&
+		Array.isArray(output.activity)
+	) {
+		return output.activity as ToolActivity[]
+	}
+	return []
+}
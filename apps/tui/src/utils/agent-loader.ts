@@ -0,0 +1,125 @@
+import type { Agent, ModelMessage } from "ai"
+import type { FileTracker } from "./file-tracker"
+import type { McpStdioServerConfig } from "./mcp-servers"
+import type { ToolPermissions } from "./permissions"
+import { createLanguageModel } from "./providers"
+import type {
+	CompactionOptions,
+	GenerationOptions,
+	SandboxOptions,
+} from "./settings"
+
+export interface CreateAgentOptions {
+	modelId: string
+	cwd: string
+	/** Permission patterns merged over the agent's defaults */
+	permissions?: ToolPermissions
+	/** Directories the agent's file tools are limited to */
+	sandbox?: SandboxOptions
+	/** Snapshots files before the agent's write and edit tools change them */
+	checkpoints?: { snapshot: (filePath: string) => Promise<void> }
+	/**
+	 * Get the tracker of the files the agent has read, kept when the agent is
+	 * created again. Called with the module's `createFileTracker`, agents that
+	 * don't export one track files themselves.
+	 */
+	getFileTracker?: (createFileTracker: () => FileTracker) => FileTracker
+	/** When to summarize the conversation */
+	compaction?: CompactionOptions & { contextWindow?: number }
+	/** Temperature, max output tokens and provider options */
+	generation?: Omit<GenerationOptions, "model">
+	/** Closes the agent's MCP servers when aborted */
+	signal?: AbortSignal
+	/** Whether to start a stdio MCP server from agents.json */
+	trustMcpServer?: (
+		name: string,
+		config: McpStdioServerConfig,
+	) => boolean | Promise<boolean>
+	/** Called for every MCP server that fails to connect */
+	onMcpError?: (error: { server: string; error: string }) => void
+}
+
+/**
+ * Resolve the model IDs of the compaction options to models.
+ */
+async function getCompactionSettings(
+	compaction: CreateAgentOptions["compaction"],
+) {
+	if (!compaction?.summaryModel) return compaction
+
+	return {
+		...compaction,
+		summaryModel: await createLanguageModel(compaction.summaryModel),
+	}
+}
+
+/**
+ * Import an agent module and create the agent.
+ *
+ * Agents typically export a `createAgent({ model, cwd })` function. Some
+ * export the agent directly as the default export instead.
+ */
+export async function createAgentFromModule(
+	agentPath: string,
+	{
+		modelId,
+		cwd,
+		permissions,
+		sandbox,
+		checkpoints,
+		getFileTracker,
+		compaction,
+		generation,
+		signal,
+		trustMcpServer,
+		onMcpError,
+	}: CreateAgentOptions,
+): Promise<Agent | null> {
+	const agentModule = await import(agentPath)
+
+	if (typeof agentModule.createAgent === "function") {
+		const model = await createLanguageModel(modelId)
+
+		return agentModule.createAgent({
+			model,
+			cwd,
+			permissions,
+			sandbox,
+			checkpoints,
+			fileTracker:
+				typeof agentModule.createFileTracker === "function"
+					? getFileTracker?.(agentModule.createFileTracker)
+					: undefined,
+			compaction: await getCompactionSettings(compaction),
+			signal,
+			trustMcpServer,
+			onMcpError,
+			...generation,
+		})
+	}
+
+	if (agentModule.default && agentModule.default.version === "agent-v1") {
+		return agentModule.default
+	}
+
+	return null
+}
+
+/**
+ * Summarize a conversation with the agent module's `summarize` function.
+ * Returns undefined when the agent doesn't export one, and null when the
+ * conversation is too short to summarize.
+ */
+export async function summarizeWithModule(
+	agentPath: string,
+	messages: ModelMessage[],
+	{ modelId, compaction }: Pick<CreateAgentOptions, "modelId" | "compaction">,
+): Promise<ModelMessage[] | null | undefined> {
+	const agentModule = await import(agentPath)
+	if (typeof agentModule.summarize !== "function") return undefined
+
+	return agentModule.summarize(messages, {
+		model: await createLanguageModel(modelId),
+		compaction: await getCompactionSettings(compaction),
+	})
+}
@@ -2,26 +2,65 @@ import { type Agent, convertToModelMessages, type ModelMessage } from "ai"
 import {
 	addMessage,
 	availableAgentsAtom,
+	branchesAtom,
+	chatUsageAtom,
+	contextTokensAtom,
 	currentAgentAtom,
 	currentChatIdAtom,
 	cwdAtom,
 	debugLog,
+	editingMessageIdAtom,
+	inputAtom,
 	isLoadingAtom,
 	type MessageAtom,
 	messagesAtom,
+	type PendingApproval,
 	pendingApprovalsAtom,
+	protectedDirectoriesAtom,
 	removePendingApproval,
+	selectedMessageIdAtom,
 	selectedModelAtom,
+	setMessages,
+	showAlert,
 } from "../components/atoms"
 import type { ToolData } from "../components/tool-part"
 import {
 	createAssistantMessage,
 	createSystemMessage,
 	createUserMessage,
+	getMessageText,
 	type TUIMessage,
 } from "../types"
-import { saveWorkspaceSettings } from "./settings"
+import { createAgentFromModule, summarizeWithModule } from "./agent-loader"
+import {
+	checkoutBranch,
+	forkBranch,
+	getSiblings,
+	type MessageTree,
+	pruneBranches,
+} from "./branches"
+import { checkpointStorage, restoreCheckpoints } from "./checkpoints"
+import { getChatFileTracker } from "./file-tracker"
+import { isMcpServerTrusted } from "./mcp-servers"
+import { fetchAvailableModels } from "./models"
+import {
+	type AllowScope,
+	allowPermissions,
+	getPermissionRequests,
+	isAllowedThisSession,
+	loadPermissions,
+} from "./permissions"
+import {
+	type GenerationOptions,
+	getAgentGeneration,
+	getCompactionOptions,
+	getSandboxOptions,
+	loadSettings,
+	saveAgentGeneration,
+	saveWorkspaceSettings,
+} from "./settings"
 import { createChat, type StoredChat, saveChat } from "./storage"
+import { recordStepUsage, setChatUsage } from "./usage"
 
 // Global state for agent and conversation
 let currentAgentInstance: Agent | null = null
@@ -29,6 +68,10 @@ let conversationMessages: ModelMessage[] = []
 let currentAbortController: AbortController | null = null
 let currentStreamingMessageAtom: MessageAtom | null = null
 let agentLoadPromise: Promise<boolean> | null = null
+// Aborted when the agent is replaced, to close its MCP servers
+let agentController: AbortController | null = null
+// Name of the loaded agent, its model is only selected when switching to it
+let loadedAgentName: string | null = null
 // Track approval responses to batch them before continuing
 let pendingApprovalResponses: Array<{
 	approvalId: string
@@ -39,24 +82,57 @@ let pendingApprovalResponses: Array<{
 export function resetConversation() {
 	conversationMessages = []
 	pendingApprovalResponses = []
+	contextTokensAtom.set(null)
+	branchesAtom.set([])
+	selectedMessageIdAtom.set(null)
+	editingMessageIdAtom.set(null)
 	// Note: We intentionally don't reset currentAgentInstance here
 	// The agent can be reused across conversations
 }
 
+/**
+ * Get the messages the agent sees, for showing the context window.
+ */
+export function getConversationMessages(): readonly ModelMessage[] {
+	return conversationMessages
+}
+
 function getMessages(): TUIMessage[] {
 	return messagesAtom.get().map((atom) => atom.get())
 }
 
+function getMessageTree(): MessageTree {
+	return { messages: getMessages(), branches: branchesAtom.get() }
+}
+
+/**
+ * Replace the conversation with a new active branch, e.g. after forking or
+ * switching branches. The agent only sees the active branch.
+ */
+function setMessageTree(tree: MessageTree) {
+	setMessages(tree.messages)
+	branchesAtom.set(tree.branches)
+	pendingApprovalsAtom.set([])
+	pendingApprovalResponses = []
+	syncConversationMessages()
+	contextTokensAtom.set(null)
+}
+
 /**
- * Rebuild conversationMessages from UI messages when loading a chat from storage
- * or switching between chats.
+ * Rebuild conversationMessages from the UI messages of the active branch when
+ * loading a chat from storage, switching between chats or switching branches.
  *
  * If a previous session was interrupted (app crashed, closed mid-stream), the
  * saved messages might have incomplete tool calls. These are filtered out since
  * they can't be continued and would cause API errors.
+ *
+ * Messages before the last summary are replaced by the summarized messages.
  */
 export function syncConversationMessages() {
-	const uiMessages = getMessages()
+	const allMessages = getMessages()
+	const boundary = allMessages.findLastIndex((m) => m.metadata?.compaction)
+	const summarized = allMessages[boundary]?.metadata?.compaction?.messages
+	const uiMessages = allMessages.slice(boundary + 1)
 	// Filter out system messages (used for TUI notifications, not model context)
 	// and filter out incomplete tool calls from assistant messages
 	const completedToolStates = new Set([
@@ -82,9 +158,12 @@ export function syncConversationMessages() {
 			return { ...m, parts: filteredParts }
 		})
 
-	conversationMessages = convertToModelMessages(modelableMessages, {
-		tools: currentAgentInstance?.tools,
-	})
+	conversationMessages = [
+		...(summarized ?? []),
+		...convertToModelMessages(modelableMessages, {
+			tools: currentAgentInstance?.tools,
+		}),
+	]
 	debugLog(
 		`Synced conversationMessages: ${conversationMessages.length} messages`,
 	)
@@ -99,6 +178,8 @@ async function saveCurrentChat() {
 		id: chatId,
 		title: "", // Will be set by saveChat based on first user message
 		messages,
+		branches: branchesAtom.get(),
+		usage: chatUsageAtom.get(),
 		createdAt: Date.now(),
 		updatedAt: Date.now(),
 	}
@@ -110,10 +191,203 @@ export async function startNewChat() {
 	currentChatIdAtom.set(chat.id)
 	messagesAtom.set([])
 	resetConversation()
+	setChatUsage()
 	saveWorkspaceSettings({ lastChatId: chat.id })
 	return chat
 }
 
+/**
+ * Rewind to before a user message: restore the files the agent changed since
+ * then and, with `conversation`, remove the message and everything after it.
+ * The removed message is put back in the input to edit or send again.
+ */
+export async function rewindToMessage(
+	messageId: string,
+	{ conversation }: { conversation: boolean },
+) {
+	const chatId = currentChatIdAtom.get()
+	const messages = getMessages()
+	const index = messages.findIndex((m) => m.id === messageId)
+	const message = messages[index]
+	if (!chatId || !message) return
+
+	if (isLoadingAtom.get()) {
+		showAlert("Stop the agent before rewinding", "error")
+		return
+	}
+
+	const restored = await restoreCheckpoints(chatId, message)
+
+	if (conversation) {
+		setMessageTree(
+			pruneBranches({
+				messages: messages.slice(0, index),
+				branches: branchesAtom.get(),
+			}),
+		)
+		await saveCurrentChat()
+		inputAtom.get()?.setText(getMessageText(message))
+	}
+
+	const files = `${restored.length} file${restored.length === 1 ? "" : "s"}`
+	addMessage(
+		createSystemMessage(
+			conversation
+				? `Rewound the conversation and restored ${files}.`
+				: `Restored ${files}.`,
+		),
+	)
+}
+
+/**
+ * Fork the conversation before a message, keeping the message and the ones
+ * after it as a branch. Returns false when the message isn't in the active
+ * branch.
+ */
+function forkConversation(messageId: string) {
+	const tree = getMessageTree()
+	const index = tree.messages.findIndex((m) => m.id === messageId)
+	if (index === -1) return false
+
+	setMessageTree(forkBranch(tree, index))
+	selectedMessageIdAtom.set(null)
+	return true
+}
+
+/**
+ * Put a user message in the input to edit it. Sending it adds the edited
+ * message as a new branch, the original one and its responses are kept.
+ */
+export function editMessage(messageId: string) {
+	const message = getMessages().find((m) => m.id === messageId)
+	const input = inputAtom.get()
+	if (!message || message.role !== "user" || !input) return
+
+	if (isLoadingAtom.get()) {
+		showAlert("Stop the agent before editing", "error")
+		return
+	}
+
+	editingMessageIdAtom.set(messageId)
+	input.setText(getMessageText(message))
+	input.gotoBufferEnd()
+	input.focus()
+}
+
+export function cancelEdit() {
+	if (!editingMessageIdAtom.get()) return false
+
+	editingMessageIdAtom.set(null)
+	inputAtom.get()?.setText("")
+	return true
+}
+
+/**
+ * Switch a message of the active branch to its previous or next sibling, and
+ * continue the conversation from that branch. Files are not restored.
+ */
+export async function switchBranch(messageId: string, direction: -1 | 1) {
+	if (isLoadingAtom.get()) {
+		showAlert("Stop the agent before switching branches", "error")
+		return
+	}
+
+	const tree = getMessageTree()
+	const siblings = getSiblings(tree, messageId)
+	const index = siblings.findIndex((m) => m.id === messageId)
+	const sibling = siblings[index + direction]
+	if (!sibling) return
+
+	setMessageTree(checkoutBranch(tree, messageId, sibling.id))
+	selectedMessageIdAtom.set(sibling.id)
+	await saveCurrentChat()
+}
+
+/**
+ * Get the compaction options of an agent for the selected model.
+ */
+async function getAgentCompaction(agentName: string) {
+	const modelId = selectedModelAtom.get()
+	const models = await fetchAvailableModels()
+
+	return {
+		...getCompactionOptions(await loadSettings(), agentName),
+		contextWindow: models.find((m) => m.id === modelId)?.contextWindow,
+	}
+}
+
+/**
+ * Replace the conversation with a summary and the most recent messages. The
+ * boundary is marked in the message list, messages above it are kept for
+ * display but the agent only sees the summary.
+ */
+export async function summarizeConversation() {
+	const agentName = currentAgentAtom.get()
+	const agentInfo = availableAgentsAtom
+		.get()
+		.find((agent) => agent.name === agentName)
+
+	if (!agentName || !agentInfo || !currentAgentInstance) {
+		addMessage(createSystemMessage("No agent loaded to summarize with."))
+		return
+	}
+	if (isLoadingAtom.get()) {
+		showAlert("Stop the agent before summarizing", "error")
+		return
+	}
+
+	isLoadingAtom.set(true)
+	addMessage(createSystemMessage("Summarizing conversation..."))
+
+	try {
+		const summarized = await summarizeWithModule(
+			agentInfo.path,
+			conversationMessages,
+			{
+				modelId: selectedModelAtom.get(),
+				compaction: await getAgentCompaction(agentName),
+			},
+		)
+
+		if (summarized === undefined) {
+			addMessage(
+				createSystemMessage(
+					`${agentName} doesn't export a summarize function.`,
+				),
+			)
+			return
+		}
+		if (!summarized) {
+			addMessage(
+				createSystemMessage("The conversation is too short to summarize."),
+			)
+			return
+		}
+
+		const replaced = conversationMessages.length - summarized.length + 1
+		conversationMessages = summarized
+		contextTokensAtom.set(null)
+
+		const boundary = createSystemMessage(
+			`── Summarized ${replaced} messages, the agent only sees the summary and the recent messages ──`,
+		)
+		boundary.metadata = {
+			timestamp: Date.now(),
+			compaction: { messages: summarized },
+		}
+		addMessage(boundary)
+		await saveCurrentChat()
+	} catch (error) {
+		addMessage(
+			createSystemMessage(
+				`Failed to summarize: ${error instanceof Error ? error.message : String(error)}`,
+			),
+		)
+	} finally {
+		isLoadingAtom.set(false)
+	}
+}
+
 export function isAgentLoaded() {
 	return currentAgentInstance !== null
 }
@@ -147,6 +421,33 @@ interface ToolCallState {
 	dynamic?: boolean
 }
 
+function hasRequestedApprovals(messageAtom: MessageAtom) {
+	return messageAtom
+		.get()
+		.parts.some((part) => (part as ToolData).state === "approval-requested")
+}
+
+/**
+ * Add the answered approvals to the conversation, so the next response runs
+ * (or skips) the tool calls.
+ */
+function addApprovalResponses() {
+	for (const response of pendingApprovalResponses) {
+		conversationMessages.push({
+			role: "tool",
+			content: [
+				{
+					type: "tool-approval-response",
+					approvalId: response.approvalId,
+					approved: response.approved,
+					reason: response.reason,
+				},
+			],
+		})
+	}
+	pendingApprovalResponses = []
+}
+
 /**
  * Stream an agent response and update the message atom with the results.
  */
@@ -353,6 +654,25 @@ async function streamAgentResponse(messageAtom: MessageAtom): Promise<void> {
 				}
 
 				case "tool-approval-request": {
+					// Rules learned after the agent was created aren't in its
+					// permissions yet, so answer for it
+					if (
+						isAllowedThisSession(chunk.toolCall.toolName, chunk.toolCall.input)
+					) {
+						addOrUpdateToolPart(chunk.toolCall.toolCallId, {
+							state: "approval-responded",
+							approval: { id: chunk.approvalId, approved: true },
+						})
+						pendingApprovalResponses.push({
+							approvalId: chunk.approvalId,
+							approved: true,
+						})
+						debugLog(
+							`Tool approval allowed by session rule: ${chunk.toolCall.toolName}`,
+						)
+						break
+					}
+
 					addOrUpdateToolPart(chunk.toolCall.toolCallId, {
 						state: "approval-requested",
 						approval: {
@@ -366,6 +686,10 @@ async function streamAgentResponse(messageAtom: MessageAtom): Promise<void> {
 					break
 				}
 
+				case "finish-step":
+					await recordStepUsage(chunk.usage)
+					break
+
 				case "error":
 					throw new Error(String(chunk.error))
 
@@ -394,6 +718,15 @@ async function streamAgentResponse(messageAtom: MessageAtom): Promise<void> {
 
 		// Save chat after response completes
 		await saveCurrentChat()
+
+		// Continue right away when every approval was answered by a rule
+		if (
+			pendingApprovalResponses.length > 0 &&
+			!hasRequestedApprovals(messageAtom)
+		) {
+			addApprovalResponses()
+			await streamAgentResponse(messageAtom)
+		}
 	} catch (error) {
 		// Clear streaming flag on error so "thinking..." disappears
 		const errorMsg = messageAtom.get()
@@ -417,22 +750,49 @@ export async function loadAgent(agentName: string): Promise<boolean> {
 		return false
 	}
 
+	const controller = new AbortController()
+	const untrustedServers: string[] = []
 	const loadPromise = (async () => {
 		try {
-			// Dynamically import the agent module
-			const agentModule = await import(agentInfo.path)
-
-			// Agents typically export a createAgent function
-			if (typeof agentModule.createAgent === "function") {
-				const { gateway } = await import("@ai-sdk/gateway")
-				const modelId = selectedModelAtom.get()
-				const model = gateway(modelId)
-
-				const agent = await agentModule.createAgent({
-					model,
-					cwd: cwdAtom.get(),
-				})
+			const settings = await loadSettings()
+			const { model, ...generation } = getAgentGeneration(settings, agentName)
+			if (model && agentName !== loadedAgentName) {
+				selectedModelAtom.set(model)
+			}
+
+			const agent = await createAgentFromModule(agentInfo.path, {
+				modelId: selectedModelAtom.get(),
+				cwd: cwdAtom.get(),
+				permissions: await loadPermissions(),
+				sandbox: getSandboxOptions(
+					settings.sandbox,
+					protectedDirectoriesAtom.get(),
+				),
+				checkpoints: checkpointStorage,
+				getFileTracker: getChatFileTracker,
+				compaction: await getAgentCompaction(agentName),
+				generation,
+				signal: controller.signal,
+				trustMcpServer: async (name, config) => {
+					const trusted = await isMcpServerTrusted(name, config)
+					if (!trusted) untrustedServers.push(name)
+					return trusted
+				},
+				onMcpError: ({ server, error }) => {
+					showAlert(
+						untrustedServers.includes(server)
+							? `MCP server "${server}" isn't trusted, run /mcp-trust to start it`
+							: `MCP server "${server}" failed: ${error}`,
+						"error",
+					)
+				},
+			})
+
+			if (agent) {
+				agentController?.abort()
+				agentController = controller
 				currentAgentInstance = agent
+				loadedAgentName = agentName
 				// Sync from existing UI messages if available (e.g., loaded from storage)
 				// Otherwise start with empty conversation
 				const existingMessages = getMessages()
@@ -444,21 +804,10 @@ export async function loadAgent(agentName: string): Promise<boolean> {
 				return true
 			}
 
-			// Some agents might export the agent directly
-			if (agentModule.default && agentModule.default.version === "agent-v1") {
-				currentAgentInstance = agentModule.default
-				// Sync from existing UI messages if available
-				const existingMessages = getMessages()
-				if (existingMessages.length > 0) {
-					syncConversationMessages()
-				} else {
-					conversationMessages = []
-				}
-				return true
-			}
-
+			controller.abort()
 			return false
 		} catch (error) {
+			controller.abort()
 			debugLog(`Failed to load agent ${agentName}:`, error)
 			return false
 		} finally {
@@ -470,7 +819,37 @@ export async function loadAgent(agentName: string): Promise<boolean> {
 	return loadPromise
 }
 
-export async function sendMessage(userPrompt: string): Promise<void> {
+/**
+ * Create the current agent again, e.g. after changing its model or settings.
+ * The conversation carries over.
+ */
+export async function reloadAgent() {
+	const agentName = currentAgentAtom.get()
+	if (!agentName) return false
+	if (agentLoadPromise) await agentLoadPromise
+	return loadAgent(agentName)
+}
+
+/**
+ * Change a model setting of the current agent, save it in the workspace
+ * settings and reload the agent with it. `undefined` resets the setting to
+ * the agent's default.
+ */
+export async function setAgentGeneration<K extends keyof GenerationOptions>(
+	key: K,
+	value: GenerationOptions[K],
+) {
+	const agentName = currentAgentAtom.get()
+	if (!agentName) return false
+
+	await saveAgentGeneration(agentName, { [key]: value })
+	return reloadAgent()
+}
+
+/**
+ * Wait for the agent to load, showing a message when there's none.
+ */
+async function waitForAgent() {
 	// Wait for any in-progress agent loading
 	if (agentLoadPromise) {
 		await agentLoadPromise
@@ -482,23 +861,61 @@ export async function sendMessage(userPrompt: string): Promise<void> {
 				"No agent loaded. Select an agent with /agent or ⌥ A",
 			),
 		)
-		return
+		return false
 	}
+	return true
+}
+
+export async function sendMessage(userPrompt: string): Promise<void> {
+	if (!(await waitForAgent())) return
 
 	// Ensure we have a chat to save to
 	if (!currentChatIdAtom.get()) {
 		await startNewChat()
 	}
 
+	// An edited message takes the place of the original one, in a new branch
+	const editingMessageId = editingMessageIdAtom.get()
+	if (editingMessageId) {
+		editingMessageIdAtom.set(null)
+		forkConversation(editingMessageId)
+	}
+
 	addMessage(createUserMessage(userPrompt))
 
 	// Save after user message
 	await saveCurrentChat()
 
+	conversationMessages.push({ role: "user", content: userPrompt })
+	await respond()
+}
+
+/**
+ * Generate an assistant message again, in a new branch. The original one is
+ * kept as a sibling.
+ */
+export async function regenerateResponse(messageId: string) {
+	const message = getMessages().find((m) => m.id === messageId)
+	if (!message || message.role !== "assistant") return
+
+	if (isLoadingAtom.get()) {
+		showAlert("Stop the agent before regenerating", "error")
+		return
+	}
+	if (!(await waitForAgent())) return
+
+	forkConversation(messageId)
+	await saveCurrentChat()
+	await respond()
+}
+
+/**
+ * Stream a new assistant message for the current conversation.
+ */
+async function respond() {
 	isLoadingAtom.set(true)
 
 	try {
-		conversationMessages.push({ role: "user", content: userPrompt })
 		// Create assistant message with streaming flag already set
 		const assistantMsg = createAssistantMessage()
 		assistantMsg.metadata = {
@@ -535,18 +952,11 @@ currentAgentAtom.sub((agentName) => {
 })
 
 /**
- * Handle a tool approval response.
- * Updates the message part to approval-responded.
- * Only continues the agent stream after ALL pending approvals are resolved.
+ * Mark a pending approval as answered in its message and queue the response.
  */
-export async function handleToolApproval(approved: boolean): Promise<boolean> {
-	const pendingApproval = pendingApprovalsAtom.get()[0]
-	if (!pendingApproval) {
-		debugLog("No pending approval to handle")
-		return false
-	}
-
+function answerApproval(pendingApproval: PendingApproval, approved: boolean) {
 	const { toolCallId, approvalId, messageAtom, toolName } = pendingApproval
+	const reason = approved ? undefined : "Denied by user"
 
 	// Update the message part to approval-responded
 	const message = messageAtom.get()
@@ -560,11 +970,7 @@ export async function handleToolApproval(approved: boolean): Promise<boolean> {
 			return {
 				...toolPart,
 				state: "approval-responded",
-				approval: {
-					id: approvalId,
-					approved,
-					reason: approved ? undefined : "Denied by user",
-				},
+				approval: { id: approvalId, approved, reason },
 			}
 		}
 		return part
@@ -576,11 +982,50 @@ export async function handleToolApproval(approved: boolean): Promise<boolean> {
 		`Tool ${toolName} ${approved ? "approved" : "denied"} (${toolCallId})`,
 	)
 
-	pendingApprovalResponses.push({
-		approvalId,
-		approved,
-		reason: approved ? undefined : "Denied by user",
-	})
+	pendingApprovalResponses.push({ approvalId, approved, reason })
+}
+
+/**
+ * Handle a tool approval response.
+ * Updates the message part to approval-responded.
+ * Only continues the agent stream after ALL pending approvals are resolved.
+ *
+ * With a `scope`, the approval is also remembered as an "allow" rule, which
+ * answers the other pending approvals it matches and the ones that come next.
+ */
+export async function handleToolApproval(
+	approved: boolean,
+	scope?: AllowScope,
+): Promise<boolean> {
+	const pendingApproval = pendingApprovalsAtom.get()[0]
+	if (!pendingApproval) {
+		debugLog("No pending approval to handle")
+		return false
+	}
+
+	const { messageAtom } = pendingApproval
+	answerApproval(pendingApproval, approved)
+
+	const requests =
+		approved && scope
+			? getPermissionRequests(pendingApproval.toolName, pendingApproval.input)
+			: []
+
+	if (requests.length > 0 && scope) {
+		const patterns = await allowPermissions(requests, scope)
+		const rule = `${requests[0]!.tool} ${patterns.map((p) => `"${p}"`).join(", ")}`
+		showAlert(
+			scope === "session"
+				? `Allowed ${rule} for this session`
+				: `Always allowing ${rule}`,
+		)
+
+		for (const other of pendingApprovalsAtom.get()) {
+			if (isAllowedThisSession(other.toolName, other.input)) {
+				answerApproval(other, true)
+			}
+		}
+	}
 
 	// Save after tool approval state change
 	await saveCurrentChat()
@@ -600,22 +1045,7 @@ export async function handleToolApproval(approved: boolean): Promise<boolean> {
 	if (hasApproved && currentAgentInstance) {
 		isLoadingAtom.set(true)
 		try {
-			// Add all approval responses to conversationMessages
-			for (const response of pendingApprovalResponses) {
-				conversationMessages.push({
-					role: "tool",
-					content: [
-						{
-							type: "tool-approval-response",
-							approvalId: response.approvalId,
-							approved: response.approved,
-							reason: response.reason,
-						},
-					],
-				})
-			}
-			pendingApprovalResponses = []
-
+			addApprovalResponses()
 			await streamAgentResponse(messageAtom)
 		} catch (error) {
 			// Ignore abort errors (user stopped generation)
@@ -0,0 +1,111 @@
+import type { TUIMessage } from "../types"
+
+/**
+ * A message of an inactive branch, with the message it follows.
+ */
+export interface MessageNode {
+	message: TUIMessage
+	/** Null for the first message of the conversation */
+	parentId: string | null
+}
+
+/**
+ * The conversation as a tree. `messages` is the active branch, where every
+ * message follows the one before it, and `branches` has the messages of the
+ * other branches.
+ */
+export interface MessageTree {
+	messages: TUIMessage[]
+	branches: MessageNode[]
+}
+
+function byTimestamp(a: TUIMessage, b: TUIMessage) {
+	return (a.metadata?.timestamp ?? 0) - (b.metadata?.timestamp ?? 0)
+}
+
+/**
+ * Get a message of the active branch and its siblings, the messages that
+ * follow the same one, oldest first.
+ */
+export function getSiblings(tree: MessageTree, messageId: string) {
+	const index = tree.messages.findIndex((m) => m.id === messageId)
+	const message = tree.messages[index]
+	if (!message) return []
+
+	const parentId = tree.messages[index - 1]?.id ?? null
+	const siblings = tree.branches
+		.filter((node) => node.parentId === parentId)
+		.map((node) => node.message)
+
+	return [message, ...siblings].sort(byTimestamp)
+}
+
+/**
+ * Fork the active branch before a message. The message and the ones after it
+ * are kept as an inactive branch, so a new message can take its place.
+ */
+export function forkBranch(tree: MessageTree, index: number): MessageTree {
+	const forked = tree.messages.slice(index).map((message, i) => ({
+		message,
+		parentId: tree.messages[index + i - 1]?.id ?? null,
+	}))
+
+	return {
+		messages: tree.messages.slice(0, index),
+		branches: [...tree.branches, ...forked],
+	}
+}
+
+/**
+ * Make the branch of a sibling active, in place of the branch of a message.
+ * After the sibling it follows the branch that was active last at every fork.
+ */
+export function checkoutBranch(
+	tree: MessageTree,
+	messageId: string,
+	siblingId: string,
+): MessageTree {
+	const index = tree.messages.findIndex((m) => m.id === messageId)
+	if (index === -1) return tree
+
+	const { messages, branches } = forkBranch(tree, index)
+	const remaining = [...branches]
+	let node = remaining.find((n) => n.message.id === siblingId)
+
+	while (node) {
+		const { message } = node
+		messages.push(message)
+		remaining.splice(remaining.indexOf(node), 1)
+		// Branches are added when they're left, the last one was active last
+		node = remaining.findLast((n) => n.parentId === message.id)
+	}
+
+	return { messages, branches: remaining }
+}
+
+/**
+ * Remove the branches that can't be reached from the active branch anymore,
+ * e.g. after rewinding the messages they follow.
+ */
+export function pruneBranches(tree: MessageTree): MessageTree {
+	const reachable = new Set<string | null>([
+		null,
+		...tree.messages.map((m) => m.id),
+	])
+	let found = true
+
+	while (found) {
+		found = false
+		for (const node of tree.branches) {
+			if (reachable.has(node.parentId) && !reachable.has(node.message.id)) {
+				reachable.add(node.message.id)
+				found = true
+			}
+		}
+	}
+
+	return {
+		messages: tree.messages,
+		branches: tree.branches.filter((node) => reachable.has(node.message.id)),
+	}
+}
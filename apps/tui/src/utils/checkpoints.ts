@@ -0,0 +1,180 @@
+import { createHash } from "node:crypto"
+import { promises as fs } from "node:fs"
+import path from "node:path"
+import { currentChatIdAtom, messagesAtom } from "../components/atoms"
+import type { TUIMessage } from "../types"
+import { getChatsDir, readJson, writeJson } from "./storage"
+
+interface CheckpointFile {
+	/** Absolute path of the file */
+	path: string
+	/** Hash of the file's content before the turn, null if it didn't exist */
+	blob: string | null
+}
+
+/**
+ * Files changed by the agent in one turn, with their content from before the
+ * turn. A turn starts with a user message and ends with the next one.
+ */
+export interface Checkpoint {
+	/** The user message that started the turn */
+	messageId: string
+	createdAt: number
+	files: CheckpointFile[]
+}
+
+// The checkpoint of the current turn, kept to skip reading it for every file
+let currentCheckpoint: (Checkpoint & { chatId: string }) | null = null
+// Snapshots run one at a time, so parallel tool calls don't lose files
+let snapshotQueue: Promise<void> = Promise.resolve()
+
+/**
+ * Get the directory with the checkpoints of a chat. They're stored with the
+ * chat, so deleting the chat deletes them too.
+ */
+async function getCheckpointsDir(chatId: string) {
+	return path.join(await getChatsDir(), chatId, "checkpoints")
+}
+
+function getLastUserMessage(): TUIMessage | undefined {
+	const messages = messagesAtom.get()
+	for (let i = messages.length - 1; i >= 0; i--) {
+		const message = messages[i]!.get()
+		if (message.role === "user") return message
+	}
+}
+
+async function getCurrentCheckpoint() {
+	const chatId = currentChatIdAtom.get()
+	const message = getLastUserMessage()
+	if (!chatId || !message) return null
+
+	if (
+		!currentCheckpoint ||
+		currentCheckpoint.chatId !== chatId ||
+		currentCheckpoint.messageId !== message.id
+	) {
+		const checkpointPath = path.join(
+			await getCheckpointsDir(chatId),
+			message.id,
+			"checkpoint.json",
+		)
+		const checkpoint = (await readJson<Checkpoint>(checkpointPath)) ?? {
+			messageId: message.id,
+			createdAt: message.metadata?.timestamp ?? Date.now(),
+			files: [],
+		}
+		currentCheckpoint = { ...checkpoint, chatId }
+	}
+
+	return currentCheckpoint
+}
+
+async function saveSnapshot(filePath: string) {
+	const checkpoint = await getCurrentCheckpoint()
+	if (!checkpoint) return
+
+	// Only the content from before the turn is needed
+	const filepath = path.resolve(filePath)
+	if (checkpoint.files.some((file) => file.path === filepath)) return
+
+	const dir = path.join(
+		await getCheckpointsDir(checkpoint.chatId),
+		checkpoint.messageId,
+	)
+	let blob: string | null = null
+
+	try {
+		const content = await fs.readFile(filepath)
+		blob = createHash("sha256").update(content).digest("hex")
+		await fs.mkdir(dir, { recursive: true })
+		await fs.writeFile(path.join(dir, blob), content)
+	} catch (error) {
+		// A file that doesn't exist yet is deleted on rewind
+		if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+	}
+
+	checkpoint.files.push({ path: filepath, blob })
+
+	const { chatId: _chatId, ...stored } = checkpoint
+	await writeJson(path.join(dir, "checkpoint.json"), stored)
+}
+
+/**
+ * Snapshots files into the checkpoint of the current turn before the agent's
+ * write and edit tools change them. Passed to agents as `checkpoints`.
+ */
+export const checkpointStorage = {
+	snapshot(filePath: string): Promise<void> {
+		const snapshot = snapshotQueue.then(() => saveSnapshot(filePath))
+		snapshotQueue = snapshot.catch(() => {})
+		return snapshot
+	},
+}
+
+/**
+ * List the checkpoints of a chat, oldest first.
+ */
+export async function listCheckpoints(chatId: string): Promise<Checkpoint[]> {
+	const dir = await getCheckpointsDir(chatId)
+
+	try {
+		const entries = await fs.readdir(dir, { withFileTypes: true })
+		const checkpoints: Checkpoint[] = []
+
+		for (const entry of entries) {
+			if (!entry.isDirectory()) continue
+			const checkpoint = await readJson<Checkpoint>(
+				path.join(dir, entry.name, "checkpoint.json"),
+			)
+			if (checkpoint) checkpoints.push(checkpoint)
+		}
+
+		return checkpoints.sort((a, b) => a.createdAt - b.createdAt)
+	} catch {
+		return []
+	}
+}
+
+/**
+ * Restore the files the agent changed since a user message, including its
+ * own turn, to their content from before it. Files the agent created are
+ * deleted. The restored checkpoints are removed, and the restored paths are
+ * returned.
+ *
+ * This doesn't use git, so it works for uncommitted changes and outside
+ * repositories. Changes made by bash commands aren't recorded.
+ */
+export async function restoreCheckpoints(
+	chatId: string,
+	message: TUIMessage,
+): Promise<string[]> {
+	await snapshotQueue
+
+	const dir = await getCheckpointsDir(chatId)
+	const since = message.metadata?.timestamp ?? 0
+	const checkpoints = (await listCheckpoints(chatId)).filter(
+		(checkpoint) => checkpoint.createdAt >= since,
+	)
+	const restored = new Set<string>()
+
+	// Newest first, so each file ends up with its oldest snapshot
+	for (const checkpoint of checkpoints.reverse()) {
+		const checkpointDir = path.join(dir, checkpoint.messageId)
+
+		for (const file of checkpoint.files) {
+			if (file.blob) {
+				await fs.mkdir(path.dirname(file.path), { recursive: true })
+				await fs.copyFile(path.join(checkpointDir, file.blob), file.path)
+			} else {
+				await fs.rm(file.path, { force: true })
+			}
+			restored.add(file.path)
+		}
+
+		await fs.rm(checkpointDir, { recursive: true, force: true })
+	}
+
+	currentCheckpoint = null
+	return [...restored]
+}
@@ -0,0 +1,35 @@
+import { currentChatIdAtom } from "../components/atoms"
+
+/** Same as `FileTracker` in the registry file-tracker lib */
+export interface FileTracker {
+	record: (filePath: string) => Promise<void>
+	check: (filePath: string) => Promise<void>
+}
+
+// The files read in every chat, kept here so reloading the agent, e.g. after
+// changing its model, doesn't make it read them again
+const fileTrackers = new Map<string | null, FileTracker>()
+
+/**
+ * Get a tracker for the files the agent reads in the current chat, that
+ * follows the chat when it changes. Trackers are created with the agent
+ * module's `createFileTracker`.
+ */
+export function getChatFileTracker(
+	createFileTracker: () => FileTracker,
+): FileTracker {
+	const getTracker = () => {
+		const chatId = currentChatIdAtom.get()
+		let tracker = fileTrackers.get(chatId)
+		if (!tracker) {
+			tracker = createFileTracker()
+			fileTrackers.set(chatId, tracker)
+		}
+		return tracker
+	}
+
+	return {
+		record: (filePath) => getTracker().record(filePath),
+		check: (filePath) => getTracker().check(filePath),
+	}
+}
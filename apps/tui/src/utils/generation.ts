@@ -0,0 +1,95 @@
+import { currentAgentAtom } from "../components/atoms"
+import { setAgentGeneration } from "./agent"
+import {
+	type GenerationOptions,
+	getAgentGeneration,
+	loadSettings,
+} from "./settings"
+
+type GenerationKey = Exclude<keyof GenerationOptions, "model">
+
+interface GenerationCommand<K extends GenerationKey = GenerationKey> {
+	key: K
+	label: string
+	usage: string
+	/** Parse the command's argument, undefined when it's invalid */
+	parse: (arg: string) => GenerationOptions[K] | undefined
+}
+
+const REASONING_EFFORTS = ["minimal", "low", "medium", "high"] as const
+
+function parseNumber(arg: string, min: number, max: number) {
+	const value = Number(arg)
+	return Number.isFinite(value) && value >= min && value <= max
+		? value
+		: undefined
+}
+
+function parseTokens(arg: string) {
+	const value = parseNumber(arg, 0, Number.MAX_SAFE_INTEGER)
+	return value !== undefined && Number.isInteger(value) ? value : undefined
+}
+
+/**
+ * Commands that change a model setting of the current agent, by name.
+ */
+export const GENERATION_COMMANDS: Record<string, GenerationCommand> = {
+	"/temperature": {
+		key: "temperature",
+		label: "Temperature",
+		usage: "/temperature <0-2|default>",
+		parse: (arg) => parseNumber(arg, 0, 2),
+	},
+	"/max-tokens": {
+		key: "maxOutputTokens",
+		label: "Max output tokens",
+		usage: "/max-tokens <tokens|default>",
+		parse: (arg) => parseTokens(arg) || undefined,
+	},
+	"/reasoning": {
+		key: "reasoningEffort",
+		label: "Reasoning effort",
+		usage: `/reasoning <${REASONING_EFFORTS.join("|")}|default>`,
+		parse: (arg) =>
+			REASONING_EFFORTS.find((effort) => effort === arg.toLowerCase()),
+	},
+	"/thinking": {
+		key: "thinkingBudget",
+		label: "Thinking budget",
+		usage: "/thinking <tokens|off|default>",
+		parse: (arg) => (arg.toLowerCase() === "off" ? 0 : parseTokens(arg)),
+	},
+}
+
+/**
+ * Run a generation command. Without an argument it shows the current value,
+ * `default` resets it. Returns the message to show.
+ */
+export async function runGenerationCommand(
+	command: GenerationCommand,
+	arg: string | undefined,
+) {
+	const agentName = currentAgentAtom.get()
+	if (!agentName) return "No agent selected. Select an agent with /agent."
+
+	if (!arg) {
+		const options = getAgentGeneration(await loadSettings(), agentName)
+		const value = options[command.key]
+		return `${command.label} for ${agentName}: ${value ?? "agent default"}\nUsage: ${command.usage}`
+	}
+
+	const isDefault = arg.toLowerCase() === "default"
+	const value = isDefault ? undefined : command.parse(arg)
+	if (!isDefault && value === undefined) {
+		return `Invalid value "${arg}". Usage: ${command.usage}`
+	}
+
+	const loaded = await setAgentGeneration(command.key, value)
+	const change = isDefault
+		? `${command.label} reset to the agent's default`
+		: `${command.label} set to ${value}`
+
+	return loaded
+		? `${change} for ${agentName}.`
+		: `${change} for ${agentName}, but the agent failed to reload.`
+}
@@ -0,0 +1,324 @@
+import type { Agent, ModelMessage } from "ai"
+import { cwdAtom, selectedModelAtom } from "../components/atoms"
+import { discoverAgents } from "./agent-discovery"
+import { createAgentFromModule } from "./agent-loader"
+import { isMcpServerTrusted } from "./mcp-servers"
+import { loadPromptContent } from "./prompt-loader"
+import {
+	getAgentGeneration,
+	getCompactionOptions,
+	getSandboxOptions,
+	loadSettings,
+} from "./settings"
+import {
+	STREAM_EVENT_VERSION,
+	type StreamEvent,
+	toStreamEvent,
+} from "./stream-events"
+
+/**
+ * How tool calls that need approval are answered when there's no one to ask.
+ * - "none": Deny every approval request
+ * - "read-only": Approve tools that only read, deny everything else
+ * - "all": Approve every request
+ */
+export type ApprovalPolicy = "none" | "read-only" | "all"
+
+/** Tools that never change the workspace */
+export const READ_ONLY_TOOLS = new Set([
+	"read",
+	"list",
+	"glob",
+	"grep",
+	"todoRead",
+])
+
+/**
+ * - "text": The response as plain text, tool calls on stderr
+ * - "stream-json": One JSON event per line, see `StreamEvent`
+ */
+export type OutputFormat = "text" | "stream-json"
+
+export const HEADLESS_EXIT_CODES = {
+	success: 0,
+	error: 1,
+	/** A tool call was denied by the approval policy */
+	denied: 2,
+} as const
+
+export interface RunHeadlessOptions {
+	/** Array of paths to look for agents, order matters (earlier paths take precedence) */
+	agentPaths: string[]
+	initialAgent?: string
+	cwd: string
+	/** Directories agents, tools and prompts are installed in */
+	protectedDirectories?: string[]
+	/** The message sent to the agent */
+	prompt?: string
+	/** Load the message from a prompt module instead, like exec mode in the TUI */
+	promptsPaths?: string[]
+	promptName?: string
+	approve?: ApprovalPolicy
+	outputFormat?: OutputFormat
+}
+
+interface ApprovalRequest {
+	approvalId: string
+	toolName: string
+}
+
+const MAX_INPUT_LENGTH = 200
+
+function isApproved(policy: ApprovalPolicy, toolName: string) {
+	if (policy === "all") return true
+	if (policy === "read-only") return READ_ONLY_TOOLS.has(toolName)
+	return false
+}
+
+function formatInput(input: unknown) {
+	const text = typeof input === "string" ? input : JSON.stringify(input)
+	if (!text) return ""
+
+	return text.length > MAX_INPUT_LENGTH
+		? `${text.slice(0, MAX_INPUT_LENGTH)}...`
+		: text
+}
+
+async function resolvePrompt(options: RunHeadlessOptions) {
+	if (options.prompt) return options.prompt
+
+	const { promptsPaths = [], promptName } = options
+	if (!promptName) return null
+
+	for (const promptPath of promptsPaths) {
+		const content = await loadPromptContent(promptPath, promptName)
+		if (content) return content
+	}
+
+	return null
+}
+
+function writeEvent(event: StreamEvent) {
+	process.stdout.write(`${JSON.stringify(event)}\n`)
+}
+
+/**
+ * Stream one agent turn. With the text format, text goes to stdout and tool
+ * activity to stderr. With stream-json, every chunk is written as an event.
+ * Returns the tool calls that are waiting for approval.
+ */
+async function streamTurn(
+	agent: Agent,
+	messages: ModelMessage[],
+	outputFormat: OutputFormat,
+) {
+	const result = await agent.stream({ messages })
+	const toolNames = new Map<string, string>()
+	const approvals: ApprovalRequest[] = []
+	let endsWithNewline = true
+
+	for await (const chunk of result.fullStream) {
+		if (chunk.type === "error") {
+			throw new Error(String(chunk.error))
+		}
+
+		if (chunk.type === "tool-approval-request") {
+			approvals.push({
+				approvalId: chunk.approvalId,
+				toolName: chunk.toolCall.toolName,
+			})
+		}
+
+		if (outputFormat === "stream-json") {
+			const event = toStreamEvent(chunk, toolNames)
+			if (event) writeEvent(event)
+			continue
+		}
+
+		switch (chunk.type) {
+			case "text-delta":
+				if (!chunk.text) break
+				process.stdout.write(chunk.text)
+				endsWithNewline = chunk.text.endsWith("\n")
+				break
+
+			case "tool-call":
+				toolNames.set(chunk.toolCallId, chunk.toolName)
+				if (!endsWithNewline) {
+					process.stdout.write("\n")
+					endsWithNewline = true
+				}
+				process.stderr.write(
+					`→ ${chunk.toolName} ${formatInput(chunk.input)}\n`,
+				)
+				break
+
+			case "tool-error":
+				process.stderr.write(
+					`✗ ${toolNames.get(chunk.toolCallId) ?? chunk.toolCallId}: ${
+						chunk.error instanceof Error
+							? chunk.error.message
+							: String(chunk.error)
+					}\n`,
+				)
+				break
+		}
+	}
+
+	if (!endsWithNewline) {
+		process.stdout.write("\n")
+	}
+
+	const response = await result.response
+	messages.push(...response.messages)
+
+	return approvals
+}
+
+/**
+ * Run an agent without the TUI, e.g. in scripts, git hooks, and CI.
+ * Approval requests are answered by `approve` instead of prompting.
+ * Returns the exit code, see `HEADLESS_EXIT_CODES`.
+ */
+export async function runHeadless(options: RunHeadlessOptions) {
+	const {
+		agentPaths,
+		initialAgent,
+		cwd,
+		protectedDirectories = [],
+		approve = "none",
+		outputFormat = "text",
+	} = options
+
+	cwdAtom.set(cwd)
+	const settings = await loadSettings()
+
+	const agents = await discoverAgents(agentPaths)
+	const agentName = initialAgent || settings.agent || agents[0]?.name
+	const agentInfo = agents.find((a) => a.name === agentName)
+
+	if (!agentInfo) {
+		process.stderr.write(
+			agentName
+				? `Agent "${agentName}" not found. Available agents: ${agents.map((a) => a.name).join(", ") || "none"}\n`
+				: `No agents found in ${agentPaths.join(" or ")}. Add agent files with 'awesome-ai add [agent-name]' or use --remote\n`,
+		)
+		return HEADLESS_EXIT_CODES.error
+	}
+
+	const prompt = await resolvePrompt(options)
+	if (!prompt) {
+		process.stderr.write(
+			options.promptName
+				? `Prompt "${options.promptName}" not found or could not be loaded from ${options.promptsPaths?.join(" or ")}\n`
+				: "A prompt is required to run an agent without the TUI.\n",
+		)
+		return HEADLESS_EXIT_CODES.error
+	}
+
+	const { model, ...generation } = getAgentGeneration(settings, agentInfo.name)
+	const modelId = model ?? settings.model ?? selectedModelAtom.get()
+
+	const controller = new AbortController()
+	const mcpErrors: { server: string; error: string }[] = []
+
+	try {
+		const agent = await createAgentFromModule(agentInfo.path, {
+			modelId,
+			cwd,
+			sandbox: getSandboxOptions(settings.sandbox, protectedDirectories),
+			compaction: getCompactionOptions(settings, agentInfo.name),
+			generation,
+			signal: controller.signal,
+			trustMcpServer: isMcpServerTrusted,
+			onMcpError: (error) => mcpErrors.push(error),
+		})
+
+		if (!agent) {
+			process.stderr.write(
+				`Failed to load agent "${agentInfo.name}". Agent modules must export createAgent or a default agent.\n`,
+			)
+			return HEADLESS_EXIT_CODES.error
+		}
+
+		if (outputFormat === "stream-json") {
+			writeEvent({
+				type: "start",
+				version: STREAM_EVENT_VERSION,
+				agent: agentInfo.name,
+				model: modelId,
+			})
+		}
+
+		for (const { server, error } of mcpErrors) {
+			if (outputFormat === "stream-json") {
+				writeEvent({ type: "mcp-error", server, error })
+			} else {
+				process.stderr.write(`MCP server "${server}" failed: ${error}\n`)
+			}
+		}
+
+		const messages: ModelMessage[] = [{ role: "user", content: prompt }]
+		let denied = false
+
+		while (true) {
+			const approvals = await streamTurn(agent, messages, outputFormat)
+			if (approvals.length === 0) break
+
+			const responses = approvals.map((request) => {
+				const approved = isApproved(approve, request.toolName)
+				return {
+					...request,
+					approved,
+					reason: approved ? undefined : `Denied by --approve=${approve}`,
+				}
+			})
+
+			for (const response of responses) {
+				if (!response.approved) denied = true
+
+				if (outputFormat === "stream-json") {
+					writeEvent({
+						type: "approval-response",
+						approvalId: response.approvalId,
+						approved: response.approved,
+						reason: response.reason,
+					})
+				} else if (!response.approved) {
+					process.stderr.write(
+						`✗ ${response.toolName}: denied by --approve=${approve}\n`,
+					)
+				}
+
+				messages.push({
+					role: "tool",
+					content: [
+						{
+							type: "tool-approval-response",
+							approvalId: response.approvalId,
+							approved: response.approved,
+							reason: response.reason,
+						},
+					],
+				})
+			}
+
+			// Like the TUI, only continue when at least one tool was approved
+			if (!responses.some((response) => response.approved)) break
+		}
+
+		return denied ? HEADLESS_EXIT_CODES.denied : HEADLESS_EXIT_CODES.success
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error)
+
+		if (outputFormat === "stream-json") {
+			writeEvent({ type: "error", error: message })
+		} else {
+			process.stderr.write(`Error: ${message}\n`)
+		}
+		return HEADLESS_EXIT_CODES.error
+	} finally {
+		// Stdio MCP servers would keep the process alive
+		controller.abort()
+	}
+}
@@ -0,0 +1,63 @@
+import path from "node:path"
+import { cwdAtom } from "../components/atoms"
+import { loadWorkspaceSettings, saveWorkspaceSettings } from "./settings"
+import { readJson } from "./storage"
+
+/** Same as `McpStdioServerConfig` in the registry MCP lib */
+export interface McpStdioServerConfig {
+	command: string
+	args?: string[]
+	env?: Record<string, string>
+	cwd?: string
+}
+
+/**
+ * Everything that decides what a server runs, so changing the server in
+ * agents.json makes it untrusted again.
+ */
+function getServerCommand({
+	command,
+	args = [],
+	env = {},
+	cwd,
+}: McpStdioServerConfig) {
+	return JSON.stringify({ command, args, env, cwd })
+}
+
+/**
+ * Check whether a stdio MCP server from agents.json was trusted with
+ * /mcp-trust, as it is now.
+ */
+export async function isMcpServerTrusted(
+	name: string,
+	config: McpStdioServerConfig,
+): Promise<boolean> {
+	const { trustedMcpServers } = await loadWorkspaceSettings()
+	return trustedMcpServers?.[name] === getServerCommand(config)
+}
+
+/**
+ * Trust the stdio MCP servers in agents.json, as they are now, and return
+ * their names. Saved to the workspace settings, like "always allow" rules.
+ */
+export async function trustMcpServers(): Promise<string[]> {
+	const config = await readJson<{
+		mcpServers?: Record<string, McpStdioServerConfig | { url: string }>
+	}>(path.join(cwdAtom.get(), "agents.json"))
+	const servers = Object.entries(config?.mcpServers ?? {}).filter(
+		(entry): entry is [string, McpStdioServerConfig] => !("url" in entry[1]),
+	)
+	if (servers.length === 0) return []
+
+	const { trustedMcpServers } = await loadWorkspaceSettings()
+	await saveWorkspaceSettings({
+		trustedMcpServers: {
+			...trustedMcpServers,
+			...Object.fromEntries(
+				servers.map(([name, server]) => [name, getServerCommand(server)]),
+			),
+		},
+	})
+
+	return servers.map(([name]) => name)
+}
@@ -1,4 +1,5 @@
 import { debugLog } from "../components/atoms"
+import { fetchProviderModels } from "./providers"
 
 export interface AvailableModel {
 	id: string
@@ -11,6 +12,8 @@ export interface AvailableModel {
 		cachedInputTokens?: string
 		cacheCreationInputTokens?: string
 	} | null
+	/** Maximum tokens in the model's context window, when known */
+	contextWindow?: number
 }
 
 interface GatewayModelResponse {
@@ -24,6 +27,7 @@ interface GatewayModelResponse {
 			input_cache_read?: string | null
 			input_cache_write?: string | null
 		} | null
+		context_window?: number | null
 		specification: {
 			specificationVersion: string
 			provider: string
@@ -95,7 +99,67 @@ export function isUsingFallbackModels(): boolean {
 }
 
 /**
- * Fetch available models from the AI Gateway.
+ * Fetch the models of the AI Gateway, or a curated list if it's unavailable.
+ */
+async function fetchGatewayModels(): Promise<AvailableModel[]> {
+	// Log API key presence for debugging
+	const apiKey = process.env.AI_GATEWAY_API_KEY
+
+	try {
+		// Direct fetch to bypass SDK parsing issues
+		const response = await fetch("https://ai-gateway.vercel.sh/v1/ai/config", {
+			headers: {
+				Authorization: `Bearer ${apiKey}`,
+				"Content-Type": "application/json",
+				"ai-gateway-protocol-version": "0.0.1",
+			},
+		})
+
+		if (!response.ok) {
+			const errorText = await response.text()
+			debugLog("Gateway error response:", errorText.slice(0, 200))
+			throw new Error(`Gateway returned ${response.status}: ${errorText}`)
+		}
+
+		const data = (await response.json()) as GatewayModelResponse
+		debugLog("Gateway returned", data.models?.length ?? 0, "models")
+
+		usedFallback = false
+		return data.models
+			.filter((m) => m.modelType === "language" || m.modelType === null)
+			.map((m) => ({
+				id: m.id,
+				name: m.name,
+				description: m.description,
+				provider: m.specification.provider,
+				pricing: m.pricing
+					? {
+							input: m.pricing.input,
+							output: m.pricing.output,
+							cachedInputTokens: m.pricing.input_cache_read ?? undefined,
+							cacheCreationInputTokens:
+								m.pricing.input_cache_write ?? undefined,
+						}
+					: null,
+				contextWindow: m.context_window ?? undefined,
+			}))
+	} catch (error) {
+		// Log detailed error for debugging
+		debugLog("Failed to fetch models from gateway:")
+		debugLog("  Error type:", error?.constructor?.name)
+		debugLog(
+			"  Message:",
+			error instanceof Error ? error.message : String(error),
+		)
+
+		// Return fallback models
+		usedFallback = true
+		return FALLBACK_MODELS
+	}
+}
+
+/**
+ * Fetch available models from the AI Gateway and the configured providers.
  * Results are cached to avoid repeated API calls.
  * Falls back to a curated list if gateway is unavailable.
  */
@@ -106,71 +170,28 @@ export async function fetchAvailableModels(): Promise<AvailableModel[]> {
 	if (fetchPromise) return fetchPromise
 
 	fetchPromise = (async () => {
-		// Log API key presence for debugging
-		const apiKey = process.env.AI_GATEWAY_API_KEY
-
 		try {
-			// Direct fetch to bypass SDK parsing issues
-			const response = await fetch(
-				"https://ai-gateway.vercel.sh/v1/ai/config",
-				{
-					headers: {
-						Authorization: `Bearer ${apiKey}`,
-						"Content-Type": "application/json",
-						"ai-gateway-protocol-version": "0.0.1",
-					},
-				},
-			)
-
-			if (!response.ok) {
-				const errorText = await response.text()
-				debugLog("Gateway error response:", errorText.slice(0, 200))
-				throw new Error(`Gateway returned ${response.status}: ${errorText}`)
-			}
-
-			const data = (await response.json()) as GatewayModelResponse
-			debugLog("Gateway returned", data.models?.length ?? 0, "models")
-
-			const models: AvailableModel[] = data.models
-				.filter((m) => m.modelType === "language" || m.modelType === null)
-				.map((m) => ({
-					id: m.id,
-					name: m.name,
-					description: m.description,
-					provider: m.specification.provider,
-					pricing: m.pricing
-						? {
-								input: m.pricing.input,
-								output: m.pricing.output,
-								cachedInputTokens: m.pricing.input_cache_read ?? undefined,
-								cacheCreationInputTokens:
-									m.pricing.input_cache_write ?? undefined,
-							}
-						: null,
-				}))
-				.sort((a, b) => {
-					// Sort by provider first, then by name
-					const providerCompare = a.provider.localeCompare(b.provider)
-					if (providerCompare !== 0) return providerCompare
-					return a.name.localeCompare(b.name)
-				})
+			const [gatewayModels, providers] = await Promise.all([
+				fetchGatewayModels(),
+				fetchProviderModels(),
+			])
+
+			// Models with a provider's prefix use it instead of the gateway
+			const models = [
+				...gatewayModels.filter(
+					(m) =>
+						!providers.prefixes.some((prefix) => m.id.startsWith(`${prefix}/`)),
+				),
+				...providers.models,
+			].sort((a, b) => {
+				// Sort by provider first, then by name
+				const providerCompare = a.provider.localeCompare(b.provider)
+				if (providerCompare !== 0) return providerCompare
+				return a.name.localeCompare(b.name)
+			})
 
 			cachedModels = models
-			usedFallback = false
 			return models
-		} catch (error) {
-			// Log detailed error for debugging
-			debugLog("Failed to fetch models from gateway:")
-			debugLog("  Error type:", error?.constructor?.name)
-			debugLog(
-				"  Message:",
-				error instanceof Error ? error.message : String(error),
-			)
-
-			// Return fallback models
-			cachedModels = FALLBACK_MODELS
-			usedFallback = true
-			return FALLBACK_MODELS
 		} finally {
 			fetchPromise = null
 		}
@@ -0,0 +1,230 @@
+import path from "node:path"
+import { cwdAtom } from "../components/atoms"
+import { loadWorkspaceSettings, saveWorkspaceSettings } from "./settings"
+
+/** Same as `Permission` in the registry permissions lib */
+export type Permission = "allow" | "deny" | "ask"
+
+/** Permission patterns for each tool, keyed by tool name */
+export type ToolPermissions = Record<string, Record<string, Permission>>
+
+/**
+ * How an approval is remembered:
+ * - "exact": Always allow this exact command, file or MCP tool
+ * - "prefix": Always allow commands with the same prefix, files in the same
+ *   directory, or every tool of the same MCP server
+ * - "session": Allow the prefix pattern until the TUI exits
+ */
+export type AllowScope = "exact" | "prefix" | "session"
+
+export interface PermissionRequest {
+	/** The rule set the tool call is checked against */
+	tool: "bash" | "read" | "edit" | "write" | "mcp"
+	/** The command, absolute file path or MCP tool name patterns match */
+	value: string
+}
+
+// Rules learned in this session. Agents only get rules when they're created,
+// so these also answer approvals for the agent that's already running
+let learnedPermissions: ToolPermissions = {}
+
+// Operators, substitutions and redirections that make a command line more
+// than one simple command
+const SHELL_SYNTAX = /[;&|<>()`$\n\\]/
+
+function addRule(
+	permissions: ToolPermissions | undefined,
+	tool: string,
+	pattern: string,
+): ToolPermissions {
+	return {
+		...permissions,
+		[tool]: { ...permissions?.[tool], [pattern]: "allow" },
+	}
+}
+
+function mergePermissions(...sources: (ToolPermissions | undefined)[]) {
+	const merged: ToolPermissions = {}
+	for (const source of sources) {
+		for (const [tool, rules] of Object.entries(source ?? {})) {
+			merged[tool] = { ...merged[tool], ...rules }
+		}
+	}
+	return merged
+}
+
+/**
+ * Match a value against a wildcard pattern, like `matchWildcard` in the
+ * registry permissions lib.
+ */
+function matchWildcard(value: string, pattern: string) {
+	if (pattern === "*") return true
+	const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+	return new RegExp(`^${escaped.replace(/\*/g, ".*")}$`).test(value)
+}
+
+/**
+ * Get the files a patch touches, from its `diff --git` and `---`/`+++` lines,
+ * like `parsePatch` in the registry apply-patch tool.
+ */
+function getPatchPaths(patch: string) {
+	const paths = new Set<string>()
+
+	for (const line of patch.replaceAll("\r\n", "\n").split("\n")) {
+		const gitMatch = line.match(/^diff --git a\/(.+) b\/(.+)$/)
+		if (gitMatch) {
+			paths.add(gitMatch[1]!)
+			paths.add(gitMatch[2]!)
+			continue
+		}
+
+		if (line.startsWith("--- ") || line.startsWith("+++ ")) {
+			// Drop the timestamp some diff tools add after a tab
+			const name = line.slice(4).split("\t")[0]!.trim()
+			if (name !== "/dev/null") paths.add(name.replace(/^[ab]\//, ""))
+		}
+	}
+
+	return [...paths]
+}
+
+/**
+ * Get what the permission patterns of a tool call are matched against, one
+ * request for every value that's checked. Patches are checked against the
+ * edit rules for every file they touch. Returns an empty list for tools that
+ * can't be allowed with a rule.
+ */
+export function getPermissionRequests(
+	toolName: string,
+	input: unknown,
+): PermissionRequest[] {
+	if (toolName.startsWith("mcp__")) {
+		return [{ tool: "mcp", value: toolName }]
+	}
+
+	const args = (input ?? {}) as {
+		command?: unknown
+		filePath?: unknown
+		patch?: unknown
+	}
+	// Tools resolve relative paths against the agent's working directory
+	const resolve = (filePath: string) => path.resolve(cwdAtom.get(), filePath)
+
+	if (toolName === "bash" && typeof args.command === "string") {
+		const command = args.command.trim()
+		// Agents check each part of a command line against the rules, so a
+		// pattern learned from a pipe or chain would allow more than was approved
+		if (SHELL_SYNTAX.test(command)) return []
+		return [{ tool: "bash", value: command }]
+	}
+
+	if (
+		(toolName === "read" || toolName === "edit" || toolName === "write") &&
+		typeof args.filePath === "string"
+	) {
+		return [{ tool: toolName, value: resolve(args.filePath) }]
+	}
+
+	// Multi-edits are checked against the edit rules
+	if (toolName === "multiEdit" && typeof args.filePath === "string") {
+		return [{ tool: "edit", value: resolve(args.filePath) }]
+	}
+
+	if (toolName === "applyPatch" && typeof args.patch === "string") {
+		return getPatchPaths(args.patch).map((filePath) => ({
+			tool: "edit",
+			value: resolve(filePath),
+		}))
+	}
+
+	return []
+}
+
+/**
+ * Get the pattern an approval with the given scope adds.
+ *
+ * @example
+ * getAllowPattern({ tool: "bash", value: "pnpm test --watch" }, "prefix") // "pnpm test*"
+ * getAllowPattern({ tool: "bash", value: "rm -rf dist" }, "prefix") // "rm -rf dist"
+ * getAllowPattern({ tool: "edit", value: "/repo/src/a.ts" }, "prefix") // "/repo/src/*"
+ */
+export function getAllowPattern(
+	{ tool, value }: PermissionRequest,
+	scope: AllowScope,
+) {
+	if (scope === "exact") return value
+
+	if (tool === "mcp") {
+		const server = value.match(/^mcp__.+?__/)?.[0]
+		return server ? `${server}*` : value
+	}
+
+	if (tool === "bash") {
+		const [command, subcommand] = value.split(/\s+/)
+		// Keep subcommands like `pnpm test` or `git commit`. Without one, a
+		// prefix like `rm*` or `python*` would allow any command, so the
+		// approval is only for the exact command
+		return subcommand && /^[a-z][\w:-]*$/i.test(subcommand)
+			? `${command} ${subcommand}*`
+			: value
+	}
+
+	return path.join(path.dirname(value), "*")
+}
+
+/**
+ * Check if a tool call is allowed by a rule learned in this session.
+ */
+export function isAllowedThisSession(toolName: string, input: unknown) {
+	const requests = getPermissionRequests(toolName, input)
+	if (requests.length === 0) return false
+
+	return requests.every((request) => {
+		const rules = learnedPermissions[request.tool] ?? {}
+		return Object.keys(rules).some((pattern) =>
+			matchWildcard(request.value, pattern),
+		)
+	})
+}
+
+/**
+ * Load the rules agents are created with: the ones saved in the workspace
+ * settings and the ones learned in this session. Agents merge them over the
+ * policy in agents.json, which they load themselves.
+ */
+export async function loadPermissions(): Promise<ToolPermissions> {
+	const workspaceSettings = await loadWorkspaceSettings()
+	return mergePermissions(workspaceSettings.permissions, learnedPermissions)
+}
+
+/**
+ * Remember an approval as "allow" rules, one for every request of the tool
+ * call, and return their patterns.
+ *
+ * Rules are saved to the workspace settings, never to agents.json, which is
+ * the project's committed policy. Session rules aren't saved.
+ */
+export async function allowPermissions(
+	requests: PermissionRequest[],
+	scope: AllowScope,
+) {
+	const rules = requests.map((request) => ({
+		tool: request.tool,
+		pattern: getAllowPattern(request, scope),
+	}))
+	for (const { tool, pattern } of rules) {
+		learnedPermissions = addRule(learnedPermissions, tool, pattern)
+	}
+
+	const patterns = [...new Set(rules.map((rule) => rule.pattern))]
+	if (scope === "session") return patterns
+
+	const workspaceSettings = await loadWorkspaceSettings()
+	let { permissions } = workspaceSettings
+	for (const { tool, pattern } of rules) {
+		permissions = addRule(permissions, tool, pattern)
+	}
+	await saveWorkspaceSettings({ permissions })
+
+	return patterns
+}
@@ -0,0 +1,175 @@
+import { debugLog } from "../components/atoms"
+import type { AvailableModel } from "./models"
+import { loadRootSettings, type ProviderSettings } from "./settings"
+
+type ProviderType = NonNullable<ProviderSettings["type"]>
+
+const PROVIDER_DEFAULTS: Record<
+	ProviderType,
+	{ baseURL?: string; apiKeyEnv?: string }
+> = {
+	ollama: { baseURL: "http://localhost:11434/v1" },
+	anthropic: {
+		baseURL: "https://api.anthropic.com/v1",
+		apiKeyEnv: "ANTHROPIC_API_KEY",
+	},
+	openai: {
+		baseURL: "https://api.openai.com/v1",
+		apiKeyEnv: "OPENAI_API_KEY",
+	},
+	"openai-compatible": {},
+}
+
+interface Provider {
+	prefix: string
+	type: ProviderType
+	baseURL?: string
+	apiKey?: string
+	models?: string[]
+	contextWindow?: number
+}
+
+interface ModelsResponse {
+	data: Array<{ id: string; display_name?: string }>
+}
+
+function getProviderType(
+	prefix: string,
+	settings: ProviderSettings,
+): ProviderType | undefined {
+	if (settings.type) return settings.type
+	if (prefix === "ollama" || prefix === "anthropic" || prefix === "openai") {
+		return prefix
+	}
+	if (prefix.startsWith("openai-compatible/")) return "openai-compatible"
+}
+
+/**
+ * Load the providers from the root settings, skipping the ones whose type
+ * can't be known from the prefix.
+ */
+async function loadProviders(): Promise<Provider[]> {
+	const { providers = {} } = await loadRootSettings()
+
+	return Object.entries(providers).flatMap(([key, settings]) => {
+		const prefix = key.replace(/\/+$/, "")
+		const type = getProviderType(prefix, settings)
+		if (!type) {
+			debugLog(`Unknown type for provider "${prefix}", set its "type"`)
+			return []
+		}
+
+		const defaults = PROVIDER_DEFAULTS[type]
+		const apiKeyEnv = settings.apiKeyEnv ?? defaults.apiKeyEnv
+		return {
+			prefix,
+			type,
+			baseURL: settings.baseURL ?? defaults.baseURL,
+			apiKey: apiKeyEnv ? process.env[apiKeyEnv] : undefined,
+			models: settings.models,
+			contextWindow: settings.contextWindow,
+		}
+	})
+}
+
+/**
+ * Find the provider of a model ID, the one with the longest matching prefix.
+ */
+function findProvider(providers: Provider[], modelId: string) {
+	return providers
+		.filter((provider) => modelId.startsWith(`${provider.prefix}/`))
+		.sort((a, b) => b.prefix.length - a.prefix.length)[0]
+}
+
+/**
+ * Create the language model for a model ID. Models with the prefix of a
+ * configured provider use it, the rest use the AI Gateway.
+ */
+export async function createLanguageModel(modelId: string) {
+	const provider = findProvider(await loadProviders(), modelId)
+
+	if (!provider) {
+		const { gateway } = await import("@ai-sdk/gateway")
+		return gateway(modelId)
+	}
+
+	const modelName = modelId.slice(provider.prefix.length + 1)
+	const { baseURL, apiKey } = provider
+
+	switch (provider.type) {
+		case "anthropic": {
+			const { createAnthropic } = await import("@ai-sdk/anthropic")
+			return createAnthropic({ baseURL, apiKey })(modelName)
+		}
+		case "openai": {
+			const { createOpenAI } = await import("@ai-sdk/openai")
+			return createOpenAI({ baseURL, apiKey })(modelName)
+		}
+		default: {
+			if (!baseURL) {
+				throw new Error(`Provider "${provider.prefix}" needs a baseURL`)
+			}
+			const { createOpenAICompatible } = await import(
+				"@ai-sdk/openai-compatible"
+			)
+			return createOpenAICompatible({ name: provider.prefix, baseURL, apiKey })(
+				modelName,
+			)
+		}
+	}
+}
+
+/**
+ * List the models of a provider from its models endpoint, or the models set
+ * in its settings.
+ */
+async function fetchModels(provider: Provider): Promise<AvailableModel[]> {
+	const toModel = (id: string, name = id): AvailableModel => ({
+		id: `${provider.prefix}/${id}`,
+		name,
+		provider: provider.prefix,
+		contextWindow: provider.contextWindow,
+	})
+
+	if (provider.models) return provider.models.map((id) => toModel(id))
+	if (!provider.baseURL) return []
+
+	const headers: Record<string, string> =
+		provider.type === "anthropic"
+			? {
+					"x-api-key": provider.apiKey ?? "",
+					"anthropic-version": "2023-06-01",
+				}
+			: provider.apiKey
+				? { Authorization: `Bearer ${provider.apiKey}` }
+				: {}
+
+	try {
+		const response = await fetch(`${provider.baseURL}/models`, { headers })
+		if (!response.ok) {
+			throw new Error(`${response.status}: ${await response.text()}`)
+		}
+
+		const { data } = (await response.json()) as ModelsResponse
+		return data.map((model) => toModel(model.id, model.display_name))
+	} catch (error) {
+		debugLog(
+			`Failed to list models of provider "${provider.prefix}":`,
+			error instanceof Error ? error.message : String(error),
+		)
+		return []
+	}
+}
+
+/**
+ * List the models of every configured provider, and the prefixes they handle.
+ */
+export async function fetchProviderModels() {
+	const providers = await loadProviders()
+	const models = await Promise.all(providers.map(fetchModels))
+
+	return {
+		prefixes: providers.map((provider) => provider.prefix),
+		models: models.flat(),
+	}
+}
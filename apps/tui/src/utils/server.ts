@@ -0,0 +1,500 @@
+import { randomBytes, timingSafeEqual } from "node:crypto"
+import os from "node:os"
+import type { Agent, ModelMessage } from "ai"
+import { z } from "zod"
+import { cwdAtom, selectedModelAtom } from "../components/atoms"
+import { type DiscoveredAgent, discoverAgents } from "./agent-discovery"
+import { createAgentFromModule } from "./agent-loader"
+import { isMcpServerTrusted } from "./mcp-servers"
+import {
+	getAgentGeneration,
+	getCompactionOptions,
+	getSandboxOptions,
+	loadSettings,
+} from "./settings"
+
+export interface StartServerOptions {
+	/** Array of paths to look for agents, order matters (earlier paths take precedence) */
+	agentPaths: string[]
+	/** Agent used by sessions that don't ask for one */
+	initialAgent?: string
+	cwd: string
+	/** Directories agents, tools and prompts are installed in */
+	protectedDirectories?: string[]
+	port?: number
+	hostname?: string
+	/** Bearer token clients must send, a random one is generated by default */
+	token?: string
+}
+
+export interface PendingApproval {
+	approvalId: string
+	toolCallId: string
+	toolName: string
+	input: unknown
+}
+
+interface ApprovalResponse {
+	approvalId: string
+	approved: boolean
+	reason?: string
+}
+
+interface Session {
+	id: string
+	agentName: string
+	modelId: string
+	agent: Agent
+	messages: ModelMessage[]
+	pendingApprovals: PendingApproval[]
+	approvalResponses: ApprovalResponse[]
+	streaming: boolean
+	createdAt: number
+	/** MCP servers of the agent that failed to connect */
+	mcpErrors: { server: string; error: string }[]
+	/** Aborted when the session is deleted, to close its MCP servers */
+	controller: AbortController
+}
+
+const LOOPBACK_HOSTNAMES = new Set(["localhost", "127.0.0.1", "[::1]"])
+
+const createSessionSchema = z.object({
+	agent: z.string().optional(),
+	model: z.string().optional(),
+})
+
+const postMessageSchema = z.object({
+	content: z.string().min(1).optional(),
+})
+
+const approvalSchema = z.object({
+	approved: z.boolean(),
+	reason: z.string().optional(),
+})
+
+class HttpError extends Error {
+	constructor(
+		public status: number,
+		message: string,
+	) {
+		super(message)
+		this.name = "HttpError"
+	}
+}
+
+function json(data: unknown, status = 200) {
+	return Response.json(data, { status })
+}
+
+/**
+ * Get the hostname of a Host header or an Origin, e.g. "localhost:4242" or
+ * "http://localhost:4242" are both "localhost".
+ */
+function parseHostname(value: string) {
+	try {
+		return new URL(value.includes("://") ? value : `http://${value}`).hostname
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Get the Host values requests to the server can use: the loopback names and
+ * the address it listens on. Servers listening on every interface can also be
+ * reached through the machine's hostname and the addresses of its interfaces.
+ */
+function getAllowedHosts(hostname: string) {
+	const allowedHosts = new Set(LOOPBACK_HOSTNAMES)
+
+	if (hostname !== "0.0.0.0" && hostname !== "::") {
+		allowedHosts.add(parseHostname(hostname) ?? hostname)
+		return allowedHosts
+	}
+
+	allowedHosts.add(os.hostname().toLowerCase())
+	for (const addresses of Object.values(os.networkInterfaces())) {
+		for (const { address, family } of addresses ?? []) {
+			allowedHosts.add(family === "IPv6" ? `[${address}]` : address)
+		}
+	}
+
+	return allowedHosts
+}
+
+/**
+ * Only accept requests from clients that were given the token. The Host and
+ * Origin checks stop web pages from reaching the server through DNS
+ * rebinding or cross-site requests, even before they could guess the token.
+ */
+function authorize(request: Request, allowedHosts: Set<string>, token: string) {
+	const host = parseHostname(request.headers.get("host") ?? "")
+	if (!host || !allowedHosts.has(host)) {
+		throw new HttpError(403, "Forbidden: invalid Host header")
+	}
+
+	const origin = request.headers.get("origin")
+	if (origin !== null) {
+		const originHost = parseHostname(origin)
+		if (!originHost || !allowedHosts.has(originHost)) {
+			throw new HttpError(403, "Forbidden: invalid Origin header")
+		}
+	}
+
+	const expected = Buffer.from(`Bearer ${token}`)
+	const received = Buffer.from(request.headers.get("authorization") ?? "")
+	if (
+		received.length !== expected.length ||
+		!timingSafeEqual(received, expected)
+	) {
+		throw new HttpError(
+			401,
+			"Unauthorized: send the server token as Authorization: Bearer <token>",
+		)
+	}
+}
+
+async function readBody<T>(request: Request, schema: z.ZodType<T>) {
+	const text = await request.text()
+	let body: unknown = {}
+
+	if (text) {
+		const contentType = request.headers.get("content-type") ?? ""
+		if (!contentType.startsWith("application/json")) {
+			throw new HttpError(
+				415,
+				"Invalid request: Content-Type must be application/json",
+			)
+		}
+
+		try {
+			body = JSON.parse(text)
+		} catch {
+			throw new HttpError(400, "Invalid request: body must be JSON")
+		}
+	}
+
+	const result = schema.safeParse(body)
+	if (!result.success) {
+		throw new HttpError(
+			400,
+			`Invalid request: ${result.error.issues.map((issue) => issue.message).join(", ")}`,
+		)
+	}
+
+	return result.data
+}
+
+function serializeSession(session: Session) {
+	return {
+		id: session.id,
+		agent: session.agentName,
+		model: session.modelId,
+		messages: session.messages,
+		pendingApprovals: session.pendingApprovals,
+		streaming: session.streaming,
+		createdAt: session.createdAt,
+		mcpErrors: session.mcpErrors,
+	}
+}
+
+/**
+ * Find the approval requests of the last response, with the tool calls they
+ * belong to.
+ */
+function findPendingApprovals(messages: ModelMessage[]): PendingApproval[] {
+	const toolCalls = new Map<string, { toolName: string; input: unknown }>()
+	const approvals: PendingApproval[] = []
+
+	for (const message of messages) {
+		if (message.role !== "assistant" || typeof message.content === "string") {
+			continue
+		}
+
+		for (const part of message.content) {
+			if (part.type === "tool-call") {
+				toolCalls.set(part.toolCallId, {
+					toolName: part.toolName,
+					input: part.input,
+				})
+			} else if (part.type === "tool-approval-request") {
+				const toolCall = toolCalls.get(part.toolCallId)
+				approvals.push({
+					approvalId: part.approvalId,
+					toolCallId: part.toolCallId,
+					toolName: toolCall?.toolName ?? "unknown",
+					input: toolCall?.input,
+				})
+			}
+		}
+	}
+
+	return approvals
+}
+
+/**
+ * Serve agents over HTTP, so editors and other tools can drive them without
+ * the TUI. Sessions live in memory until the server stops. Every request
+ * needs the token as `Authorization: Bearer <token>`, a loopback Host (or an
+ * address of the server, see `getAllowedHosts`) and bodies sent as JSON.
+ *
+ * - `GET /agents`: List the available agents
+ * - `POST /sessions`: Create a session, `{ agent?, model? }`
+ * - `GET /sessions/:id`: Get a session with its messages and pending approvals
+ * - `DELETE /sessions/:id`: Delete a session
+ * - `POST /sessions/:id/messages`: Send `{ content }` and stream the response
+ *   as a UI message stream over SSE. Without `content`, the response continues
+ *   after pending approvals were answered
+ * - `POST /sessions/:id/approvals/:approvalId`: Approve or deny a tool call,
+ *   `{ approved, reason? }`
+ */
+export async function startServer(options: StartServerOptions) {
+	const {
+		agentPaths,
+		initialAgent,
+		cwd,
+		protectedDirectories = [],
+		port = 4242,
+		hostname = "127.0.0.1",
+		token = randomBytes(32).toString("base64url"),
+	} = options
+
+	const allowedHosts = getAllowedHosts(hostname)
+
+	cwdAtom.set(cwd)
+	const settings = await loadSettings()
+	const sessions = new Map<string, Session>()
+
+	async function findAgent(name?: string): Promise<DiscoveredAgent> {
+		const agents = await discoverAgents(agentPaths)
+		const agentName = name || initialAgent || settings.agent || agents[0]?.name
+		const agentInfo = agents.find((a) => a.name === agentName)
+
+		if (!agentInfo) {
+			throw new HttpError(
+				404,
+				agentName
+					? `Agent "${agentName}" not found. Available agents: ${agents.map((a) => a.name).join(", ") || "none"}`
+					: `No agents found in ${agentPaths.join(" or ")}`,
+			)
+		}
+
+		return agentInfo
+	}
+
+	function getSession(id: string) {
+		const session = sessions.get(id)
+		if (!session) {
+			throw new HttpError(404, `Session "${id}" not found`)
+		}
+		return session
+	}
+
+	async function createSession(request: Request) {
+		const body = await readBody(request, createSessionSchema)
+		const agentInfo = await findAgent(body.agent)
+		const { model, ...generation } = getAgentGeneration(
+			settings,
+			agentInfo.name,
+		)
+		const modelId =
+			body.model ?? model ?? settings.model ?? selectedModelAtom.get()
+		const controller = new AbortController()
+		const mcpErrors: Session["mcpErrors"] = []
+		const agent = await createAgentFromModule(agentInfo.path, {
+			modelId,
+			cwd,
+			sandbox: getSandboxOptions(settings.sandbox, protectedDirectories),
+			compaction: getCompactionOptions(settings, agentInfo.name),
+			generation,
+			signal: controller.signal,
+			trustMcpServer: isMcpServerTrusted,
+			onMcpError: (error) => mcpErrors.push(error),
+		}).catch((error) => {
+			controller.abort()
+			throw error
+		})
+
+		if (!agent) {
+			controller.abort()
+			throw new HttpError(
+				500,
+				`Failed to load agent "${agentInfo.name}". Agent modules must export createAgent or a default agent.`,
+			)
+		}
+
+		const session: Session = {
+			id: crypto.randomUUID(),
+			agentName: agentInfo.name,
+			modelId,
+			agent,
+			messages: [],
+			pendingApprovals: [],
+			approvalResponses: [],
+			streaming: false,
+			createdAt: Date.now(),
+			mcpErrors,
+			controller,
+		}
+		sessions.set(session.id, session)
+
+		return json(serializeSession(session), 201)
+	}
+
+	async function postMessage(session: Session, request: Request) {
+		const body = await readBody(request, postMessageSchema)
+
+		if (session.streaming) {
+			throw new HttpError(409, "The session is already streaming a response")
+		}
+
+		if (session.pendingApprovals.length > 0) {
+			throw new HttpError(
+				409,
+				`Answer the pending approvals first: ${session.pendingApprovals.map((a) => a.approvalId).join(", ")}`,
+			)
+		}
+
+		if (session.approvalResponses.length > 0) {
+			// Answered approvals must follow the response that requested them
+			session.messages.push({
+				role: "tool",
+				content: session.approvalResponses.map((response) => ({
+					type: "tool-approval-response" as const,
+					...response,
+				})),
+			})
+			session.approvalResponses = []
+		} else if (!body.content) {
+			throw new HttpError(400, "Invalid request: content is required")
+		}
+
+		if (body.content) {
+			session.messages.push({ role: "user", content: body.content })
+		}
+
+		session.streaming = true
+
+		try {
+			const result = await session.agent.stream({
+				messages: session.messages,
+			})
+
+			// Keep the session up to date even if the client disconnects
+			result.consumeStream()
+			result.response.then(
+				(response) => {
+					session.messages.push(...response.messages)
+					session.pendingApprovals = findPendingApprovals(response.messages)
+					session.streaming = false
+				},
+				() => {
+					session.streaming = false
+				},
+			)
+
+			return result.toUIMessageStreamResponse()
+		} catch (error) {
+			session.streaming = false
+			throw error
+		}
+	}
+
+	async function answerApproval(
+		session: Session,
+		approvalId: string,
+		request: Request,
+	) {
+		const body = await readBody(request, approvalSchema)
+		const approval = session.pendingApprovals.find(
+			(a) => a.approvalId === approvalId,
+		)
+
+		if (!approval) {
+			throw new HttpError(
+				404,
+				`Approval "${approvalId}" not found or already answered`,
+			)
+		}
+
+		session.pendingApprovals = session.pendingApprovals.filter(
+			(a) => a !== approval,
+		)
+		session.approvalResponses.push({
+			approvalId,
+			approved: body.approved,
+			reason: body.reason,
+		})
+
+		return json({
+			approvalId,
+			approved: body.approved,
+			pendingApprovals: session.pendingApprovals,
+		})
+	}
+
+	async function handle(request: Request) {
+		const { pathname } = new URL(request.url)
+		const segments = pathname.split("/").filter(Boolean)
+		const [resource, id, action, actionId] = segments
+		const method = request.method
+
+		if (resource === "agents" && segments.length === 1 && method === "GET") {
+			const agents = await discoverAgents(agentPaths)
+			return json(agents.map((a) => ({ name: a.name })))
+		}
+
+		if (resource !== "sessions") {
+			throw new HttpError(404, `Not found: ${method} ${pathname}`)
+		}
+
+		if (!id) {
+			if (method === "POST") return createSession(request)
+			if (method === "GET") {
+				return json([...sessions.values()].map(serializeSession))
+			}
+		} else if (!action) {
+			const session = getSession(id)
+			if (method === "GET") return json(serializeSession(session))
+			if (method === "DELETE") {
+				session.controller.abort()
+				sessions.delete(id)
+				return new Response(null, { status: 204 })
+			}
+		} else if (action === "messages" && !actionId && method === "POST") {
+			return postMessage(getSession(id), request)
+		} else if (action === "approvals" && actionId && method === "POST") {
+			return answerApproval(getSession(id), actionId, request)
+		}
+
+		throw new HttpError(404, `Not found: ${method} ${pathname}`)
+	}
+
+	const server = Bun.serve({
+		port,
+		hostname,
+		idleTimeout: 0,
+		async fetch(request) {
+			try {
+				authorize(request, allowedHosts, token)
+				return await handle(request)
+			} catch (error) {
+				if (error instanceof HttpError) {
+					return json({ error: error.message }, error.status)
+				}
+				return json(
+					{ error: error instanceof Error ? error.message : String(error) },
+					500,
+				)
+			}
+		},
+	})
+
+	return {
+		url: server.url.toString(),
+		token,
+		stop: () => {
+			for (const session of sessions.values()) session.controller.abort()
+			return server.stop(true)
+		},
+	}
+}
@@ -1,5 +1,6 @@
 import path from "node:path"
 import { cwdAtom } from "../components/atoms"
+import type { ToolPermissions } from "./permissions"
 import {
 	getStoragePaths,
 	getWorkspaceCachePath,
@@ -7,6 +8,114 @@ import {
 	writeJson,
 } from "./storage"
 
+/**
+ * Directories the agent's file tools are limited to. Same as `SandboxOptions`
+ * in the registry sandbox lib.
+ */
+export interface SandboxOptions {
+	/** Workspace roots, defaults to the current directory */
+	roots?: string[]
+	/** Extra directories outside the roots the tools can access */
+	allowedDirectories?: string[]
+	/** Whether paths outside need approval ("ask", default) or are blocked */
+	outside?: "ask" | "deny"
+	/** Also run bash commands in the sandbox with bubblewrap, on Linux */
+	bash?:
+		| boolean
+		| {
+				network?: boolean
+				allowedEnv?: string[]
+				autoAllow?: boolean
+				protectedDirectories?: string[]
+		  }
+}
+
+/**
+ * Adds the directories agents, tools and prompts are installed in to the
+ * sandbox options, so commands run without approval can't change them.
+ */
+export function getSandboxOptions(
+	sandbox: SandboxOptions | undefined,
+	protectedDirectories: string[],
+): SandboxOptions | undefined {
+	if (!sandbox?.bash) return sandbox
+
+	const bash = sandbox.bash === true ? {} : sandbox.bash
+	return {
+		...sandbox,
+		bash: {
+			...bash,
+			protectedDirectories: [
+				...(bash.protectedDirectories ?? []),
+				...protectedDirectories,
+			],
+		},
+	}
+}
+
+/**
+ * When agents summarize the conversation. Same as `CompactionSettings` in the
+ * registry context lib, with a model ID for the summary model.
+ */
+export interface CompactionOptions {
+	/** Input tokens that trigger summarization, defaults to 80% of the context window */
+	threshold?: number
+	/** Recent messages to preserve untouched */
+	keepRecent?: number
+	/** Tool output tokens to protect from pruning */
+	protectTokens?: number
+	/** Cheaper model to write the summary, e.g. "openai/gpt-4o-mini" */
+	summaryModel?: string
+}
+
+/**
+ * Compaction options for all agents, and overrides for agents by name.
+ */
+export interface CompactionSettings extends CompactionOptions {
+	agents?: Record<string, CompactionOptions>
+}
+
+/**
+ * Model settings of an agent. Same as `GenerationSettings` in the registry
+ * generation lib, with the model to use.
+ */
+export interface GenerationOptions {
+	/** Model ID used when the agent is selected */
+	model?: string
+	temperature?: number
+	maxOutputTokens?: number
+	/** Reasoning effort of OpenAI reasoning models */
+	reasoningEffort?: "minimal" | "low" | "medium" | "high"
+	/** Tokens Anthropic models can use for thinking, 0 disables thinking */
+	thinkingBudget?: number
+}
+
+/**
+ * Model settings for all agents, and overrides for agents by name.
+ */
+export interface GenerationSettings extends Omit<GenerationOptions, "model"> {
+	agents?: Record<string, GenerationOptions>
+}
+
+/**
+ * A model provider used instead of the AI Gateway for models with its prefix.
+ */
+export interface ProviderSettings {
+	/**
+	 * The provider's API. Defaults to the prefix for "ollama", "anthropic" and
+	 * "openai", and to "openai-compatible" for "openai-compatible/<name>".
+	 */
+	type?: "ollama" | "anthropic" | "openai" | "openai-compatible"
+	/** Base URL of the API, required for "openai-compatible" */
+	baseURL?: string
+	/** Environment variable with the API key */
+	apiKeyEnv?: string
+	/** Models to list, instead of asking the provider */
+	models?: string[]
+	/** Tokens in the context window of the provider's models */
+	contextWindow?: number
+}
+
 /**
  * Root settings stored in ~/.config/awesome-ai/settings.json
  * These are global defaults that apply to all workspaces
@@ -14,6 +123,14 @@ import {
 export interface RootSettings {
 	defaultModel?: string
 	defaultAgent?: string
+	sandbox?: SandboxOptions
+	compaction?: CompactionSettings
+	generation?: GenerationSettings
+	/**
+	 * Providers by model ID prefix, e.g. "ollama" for "ollama/llama3.2". Other
+	 * models use the AI Gateway.
+	 */
+	providers?: Record<string, ProviderSettings>
 }
 
 /**
@@ -24,6 +141,14 @@ export interface WorkspaceSettings {
 	selectedAgent?: string
 	selectedModel?: string
 	lastChatId?: string
+	/** Rules learned from "always allow" approvals */
+	permissions?: ToolPermissions
+	/** Stdio MCP servers trusted with /mcp-trust, with what they run */
+	trustedMcpServers?: Record<string, string>
+	sandbox?: SandboxOptions
+	compaction?: CompactionSettings
+	/** Model settings changed with commands like /temperature */
+	generation?: GenerationSettings
 }
 
 /**
@@ -33,6 +158,9 @@ export interface ResolvedSettings {
 	model?: string
 	agent?: string
 	lastChatId?: string
+	sandbox?: SandboxOptions
+	compaction?: CompactionSettings
+	generation?: GenerationSettings
 }
 
 function getRootSettingsPath(): string {
@@ -75,9 +203,52 @@ export async function loadSettings(): Promise<ResolvedSettings> {
 		model: workspaceSettings.selectedModel || rootSettings.defaultModel,
 		agent: workspaceSettings.selectedAgent || rootSettings.defaultAgent,
 		lastChatId: workspaceSettings.lastChatId,
+		sandbox: workspaceSettings.sandbox || rootSettings.sandbox,
+		compaction: workspaceSettings.compaction || rootSettings.compaction,
+		generation: mergeGenerationSettings(
+			rootSettings.generation,
+			workspaceSettings.generation,
+		),
 	}
 }
 
+/**
+ * Merge generation settings option by option, so changing one option in the
+ * workspace keeps the others from the root settings.
+ */
+function mergeGenerationSettings(
+	root: GenerationSettings = {},
+	workspace: GenerationSettings = {},
+): GenerationSettings {
+	const agents = { ...root.agents }
+	for (const [name, options] of Object.entries(workspace.agents ?? {})) {
+		agents[name] = { ...agents[name], ...options }
+	}
+	return { ...root, ...workspace, agents }
+}
+
+/**
+ * Get the model settings of an agent, with its overrides applied.
+ */
+export function getAgentGeneration(
+	settings: ResolvedSettings,
+	agent: string,
+): GenerationOptions {
+	const { agents, ...options } = settings.generation ?? {}
+	return { ...options, ...agents?.[agent] }
+}
+
+/**
+ * Get the compaction options of an agent, with its overrides applied.
+ */
+export function getCompactionOptions(
+	settings: ResolvedSettings,
+	agent: string,
+): CompactionOptions {
+	const { agents, ...options } = settings.compaction ?? {}
+	return { ...options, ...agents?.[agent] }
+}
+
 export async function saveWorkspaceSettings(
 	settings: Partial<WorkspaceSettings>,
 ) {
@@ -89,3 +260,24 @@ export async function saveWorkspaceSettings(
 		...settings,
 	})
 }
+
+/**
+ * Save model settings of an agent in the workspace settings. Options set to
+ * undefined are removed, so the agent uses its default again.
+ */
+export async function saveAgentGeneration(
+	agent: string,
+	options: Partial<GenerationOptions>,
+) {
+	const { generation = {} } = await loadWorkspaceSettings()
+
+	await saveWorkspaceSettings({
+		generation: {
+			...generation,
+			agents: {
+				...generation.agents,
+				[agent]: { ...generation.agents?.[agent], ...options },
+			},
+		},
+	})
+}
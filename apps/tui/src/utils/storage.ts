@@ -5,13 +5,20 @@ import path from "node:path"
 import { $ } from "bun"
 import { cwdAtom } from "../components/atoms"
 import type { TUIMessage } from "../types"
+import type { MessageNode } from "./branches"
+import type { StepUsage } from "./usage"
 
 const APP_NAME = "awesome-ai"
 
 export interface StoredChat {
 	id: string
 	title: string
+	/** Messages of the active branch */
 	messages: TUIMessage[]
+	/** Messages of the other branches, older chats don't have them */
+	branches?: MessageNode[]
+	/** Token usage of every step, older chats don't have it */
+	usage?: StepUsage[]
 	createdAt: number
 	updatedAt: number
 }
@@ -137,7 +144,7 @@ function getFirstUserPrompt(messages: TUIMessage[]) {
 	return textPart?.text || "New Chat"
 }
 
-async function getChatsDir() {
+export async function getChatsDir() {
 	const cwd = cwdAtom.get()
 	const workspacePath = await getWorkspaceCachePath(cwd)
 
@@ -0,0 +1,177 @@
+import type { LanguageModelUsage, TextStreamPart, ToolSet } from "ai"
+import { z } from "zod"
+
+/**
+ * Events written by `--output-format stream-json`, one JSON object per line.
+ *
+ * This is a public format: tools parse it to build dashboards and replay
+ * agent runs. Only add optional fields or new event types, and bump
+ * `STREAM_EVENT_VERSION` for anything that breaks existing readers.
+ */
+export const STREAM_EVENT_VERSION = 1
+
+export const streamUsageSchema = z.object({
+	inputTokens: z.number().optional(),
+	outputTokens: z.number().optional(),
+	totalTokens: z.number().optional(),
+	reasoningTokens: z.number().optional(),
+	cachedInputTokens: z.number().optional(),
+})
+
+export const streamEventSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.literal("start"),
+		version: z.literal(STREAM_EVENT_VERSION),
+		agent: z.string(),
+		model: z.string(),
+	}),
+	z.object({
+		type: z.literal("reasoning-delta"),
+		text: z.string(),
+	}),
+	z.object({
+		type: z.literal("text-delta"),
+		text: z.string(),
+	}),
+	z.object({
+		type: z.literal("tool-input-start"),
+		toolCallId: z.string(),
+		toolName: z.string(),
+	}),
+	z.object({
+		type: z.literal("tool-call"),
+		toolCallId: z.string(),
+		toolName: z.string(),
+		input: z.unknown(),
+	}),
+	z.object({
+		type: z.literal("tool-result"),
+		toolCallId: z.string(),
+		toolName: z.string(),
+		output: z.unknown(),
+		/** Intermediate output of a tool that streams its results */
+		preliminary: z.boolean(),
+	}),
+	z.object({
+		type: z.literal("tool-error"),
+		toolCallId: z.string(),
+		toolName: z.string(),
+		error: z.string(),
+	}),
+	z.object({
+		type: z.literal("approval-request"),
+		approvalId: z.string(),
+		toolCallId: z.string(),
+		toolName: z.string(),
+		input: z.unknown(),
+	}),
+	z.object({
+		type: z.literal("approval-response"),
+		approvalId: z.string(),
+		approved: z.boolean(),
+		reason: z.string().optional(),
+	}),
+	z.object({
+		type: z.literal("finish"),
+		finishReason: z.string(),
+		usage: streamUsageSchema,
+	}),
+	z.object({
+		type: z.literal("error"),
+		error: z.string(),
+	}),
+	z.object({
+		type: z.literal("mcp-error"),
+		server: z.string(),
+		error: z.string(),
+	}),
+])
+
+export type StreamUsage = z.infer<typeof streamUsageSchema>
+export type StreamEvent = z.infer<typeof streamEventSchema>
+
+function toStreamUsage(usage: LanguageModelUsage): StreamUsage {
+	return {
+		inputTokens: usage.inputTokens,
+		outputTokens: usage.outputTokens,
+		totalTokens: usage.totalTokens,
+		reasoningTokens: usage.reasoningTokens,
+		cachedInputTokens: usage.cachedInputTokens,
+	}
+}
+
+/**
+ * Convert a `fullStream` chunk to its event. Chunks without an event, like
+ * tool input deltas and step boundaries, return null.
+ */
+export function toStreamEvent(
+	chunk: TextStreamPart<ToolSet>,
+	toolNames: Map<string, string>,
+): StreamEvent | null {
+	switch (chunk.type) {
+		case "reasoning-delta":
+			return { type: "reasoning-delta", text: chunk.text }
+
+		case "text-delta":
+			return { type: "text-delta", text: chunk.text }
+
+		case "tool-input-start":
+			toolNames.set(chunk.id, chunk.toolName)
+			return {
+				type: "tool-input-start",
+				toolCallId: chunk.id,
+				toolName: chunk.toolName,
+			}
+
+		case "tool-call":
+			toolNames.set(chunk.toolCallId, chunk.toolName)
+			return {
+				type: "tool-call",
+				toolCallId: chunk.toolCallId,
+				toolName: chunk.toolName,
+				input: chunk.input,
+			}
+
+		case "tool-result":
+			return {
+				type: "tool-result",
+				toolCallId: chunk.toolCallId,
+				toolName: chunk.toolName,
+				output: chunk.output,
+				preliminary: chunk.preliminary ?? false,
+			}
+
+		case "tool-error":
+			return {
+				type: "tool-error",
+				toolCallId: chunk.toolCallId,
+				toolName: toolNames.get(chunk.toolCallId) ?? chunk.toolName,
+				error:
+					chunk.error instanceof Error
+						? chunk.error.message
+						: String(chunk.error),
+			}
+
+		case "tool-approval-request":
+			return {
+				type: "approval-request",
+				approvalId: chunk.approvalId,
+				toolCallId: chunk.toolCall.toolCallId,
+				toolName: chunk.toolCall.toolName,
+				input: chunk.toolCall.input,
+			}
+
+		case "finish":
+			return {
+				type: "finish",
+				finishReason: chunk.finishReason,
+				usage: toStreamUsage(chunk.totalUsage),
+			}
+
+		case "error":
+			return { type: "error", error: String(chunk.error) }
+
+		default:
+			return null
+	}
+}
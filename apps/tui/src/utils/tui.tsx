@@ -4,11 +4,13 @@ import { App } from "../components/app"
 import {
 	addMessage,
 	availableAgentsAtom,
+	branchesAtom,
 	currentAgentAtom,
 	currentChatIdAtom,
 	cwdAtom,
 	execModeAtom,
 	execPromptAtom,
+	protectedDirectoriesAtom,
 	rendererAtom,
 	selectedModelAtom,
 	setMessages,
@@ -18,12 +20,15 @@ import { discoverAgents } from "./agent-discovery"
 import { loadPromptContent } from "./prompt-loader"
 import { loadSettings } from "./settings"
 import { loadChat } from "./storage"
+import { setChatUsage } from "./usage"
 
 export interface RunTuiOptions {
 	/** Array of paths to look for agents, order matters (earlier paths take precedence) */
 	agentPaths: string[]
 	initialAgent?: string
 	cwd: string
+	/** Directories agents, tools and prompts are installed in */
+	protectedDirectories?: string[]
 	// Exec mode options (when both are provided, exec mode is enabled)
 	/** Array of paths to look for prompts, order matters (earlier paths take precedence) */
 	promptsPaths?: string[]
@@ -35,6 +40,7 @@ export async function runTui(options: RunTuiOptions) {
 	const isExecMode = promptsPaths && promptsPaths.length > 0 && promptName
 
 	cwdAtom.set(cwd)
+	protectedDirectoriesAtom.set(options.protectedDirectories ?? [])
 
 	const settings = await loadSettings()
 
@@ -48,6 +54,8 @@ export async function runTui(options: RunTuiOptions) {
 		if (chat) {
 			currentChatIdAtom.set(chat.id)
 			setMessages(chat.messages)
+			branchesAtom.set(chat.branches ?? [])
+			setChatUsage(chat.usage)
 		}
 	}
 
@@ -0,0 +1,225 @@
+import type { LanguageModelUsage, ModelMessage } from "ai"
+import {
+	chatUsageAtom,
+	contextTokensAtom,
+	selectedModelAtom,
+} from "../components/atoms"
+import { type AvailableModel, fetchAvailableModels } from "./models"
+
+// Used when the model's context window isn't known
+const DEFAULT_CONTEXT_WINDOW = 200_000
+
+// Rough token count for text, used where the provider doesn't report one
+const CHARS_PER_TOKEN = 4
+
+export interface TokenUsage {
+	inputTokens: number
+	outputTokens: number
+	/** Input tokens read from the provider's cache, part of `inputTokens` */
+	cachedInputTokens: number
+	/** Reasoning tokens, part of `outputTokens` */
+	reasoningTokens: number
+}
+
+/**
+ * Tokens used by one step of the agent, a single model call.
+ */
+export interface StepUsage extends TokenUsage {
+	modelId: string
+	/** Cost in dollars, undefined when the model's pricing isn't known */
+	cost?: number
+	timestamp: number
+}
+
+export interface SessionUsage extends TokenUsage {
+	steps: number
+	cost: number
+	/** Whether some steps used a model without pricing, so `cost` is too low */
+	incompleteCost: boolean
+}
+
+export interface ContextBreakdown {
+	limit: number
+	used: number
+	/** Unknown until a step reports the real usage */
+	systemAndTools?: number
+	messages: number
+	toolOutputs: number
+}
+
+function getStepCost(
+	usage: TokenUsage,
+	pricing: AvailableModel["pricing"],
+): number | undefined {
+	if (!pricing) return undefined
+
+	// Prices are in dollars per token
+	const input = Number(pricing.input)
+	const output = Number(pricing.output)
+	const cached = Number(pricing.cachedInputTokens ?? pricing.input)
+	if (Number.isNaN(input) || Number.isNaN(output)) return undefined
+
+	return (
+		(usage.inputTokens - usage.cachedInputTokens) * input +
+		usage.cachedInputTokens * cached +
+		usage.outputTokens * output
+	)
+}
+
+/**
+ * Record the usage of a step from the agent's `finish-step` event, with its
+ * cost from the selected model's pricing.
+ */
+export async function recordStepUsage(usage: LanguageModelUsage) {
+	const modelId = selectedModelAtom.get()
+	const models = await fetchAvailableModels()
+	const model = models.find((m) => m.id === modelId)
+
+	const tokens: TokenUsage = {
+		inputTokens: usage.inputTokens ?? 0,
+		outputTokens: usage.outputTokens ?? 0,
+		cachedInputTokens: usage.cachedInputTokens ?? 0,
+		reasoningTokens: usage.reasoningTokens ?? 0,
+	}
+	const step: StepUsage = {
+		...tokens,
+		modelId,
+		cost: getStepCost(tokens, model?.pricing),
+		timestamp: Date.now(),
+	}
+
+	chatUsageAtom.set([...chatUsageAtom.get(), step])
+	// The step's output is part of the context of the next one
+	contextTokensAtom.set(tokens.inputTokens + tokens.outputTokens)
+}
+
+/**
+ * Set the usage of the current chat, e.g. after loading it from storage.
+ */
+export function setChatUsage(steps: StepUsage[] = []) {
+	const lastStep = steps.at(-1)
+	chatUsageAtom.set(steps)
+	contextTokensAtom.set(
+		lastStep ? lastStep.inputTokens + lastStep.outputTokens : null,
+	)
+}
+
+export function getSessionUsage(steps: StepUsage[]): SessionUsage {
+	const session: SessionUsage = {
+		steps: steps.length,
+		inputTokens: 0,
+		outputTokens: 0,
+		cachedInputTokens: 0,
+		reasoningTokens: 0,
+		cost: 0,
+		incompleteCost: false,
+	}
+
+	for (const step of steps) {
+		session.inputTokens += step.inputTokens
+		session.outputTokens += step.outputTokens
+		session.cachedInputTokens += step.cachedInputTokens
+		session.reasoningTokens += step.reasoningTokens
+		if (step.cost === undefined) session.incompleteCost = true
+		else session.cost += step.cost
+	}
+
+	return session
+}
+
+export async function getContextWindow(modelId: string) {
+	const models = await fetchAvailableModels()
+	const model = models.find((m) => m.id === modelId)
+	return model?.contextWindow ?? DEFAULT_CONTEXT_WINDOW
+}
+
+function estimateTokens(value: unknown) {
+	const text = typeof value === "string" ? value : JSON.stringify(value)
+	return Math.ceil((text?.length ?? 0) / CHARS_PER_TOKEN)
+}
+
+/**
+ * Break down the current context window. Messages and tool outputs are
+ * estimated from the conversation, the system prompt and tool definitions are
+ * what's left of the real usage reported by the last step.
+ */
+export function getContextBreakdown(
+	messages: readonly ModelMessage[],
+	contextTokens: number | null,
+	limit: number,
+): ContextBreakdown {
+	let messageTokens = 0
+	let toolOutputTokens = 0
+
+	for (const message of messages) {
+		if (message.role === "tool") {
+			toolOutputTokens += estimateTokens(message.content)
+		} else {
+			messageTokens += estimateTokens(message.content)
+		}
+	}
+
+	const estimated = messageTokens + toolOutputTokens
+	return {
+		limit,
+		used: contextTokens ?? estimated,
+		systemAndTools:
+			contextTokens === null
+				? undefined
+				: Math.max(0, contextTokens - estimated),
+		messages: messageTokens,
+		toolOutputs: toolOutputTokens,
+	}
+}
+
+export function formatTokens(tokens: number) {
+	if (tokens < 1000) return String(tokens)
+	if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`
+	return `${(tokens / 1_000_000).toFixed(1)}M`
+}
+
+export function formatCost(cost: number) {
+	return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`
+}
+
+function formatPercent(part: number, total: number) {
+	return `${Math.round((part / total) * 100)}%`
+}
+
+/**
+ * Format the token usage of a chat for the /tokens command.
+ */
+export function formatTokenUsage(steps: StepUsage[]) {
+	if (steps.length === 0) return "No tokens used in this chat yet."
+
+	const session = getSessionUsage(steps)
+	const lastStep = steps.at(-1)!
+	const cost = `${formatCost(session.cost)}${session.incompleteCost ? " (some models have no pricing)" : ""}`
+
+	return [
+		`Token usage (${session.steps} ${session.steps === 1 ? "step" : "steps"}):`,
+		`  Input      ${formatTokens(session.inputTokens)} (${formatTokens(session.cachedInputTokens)} cached)`,
+		`  Output     ${formatTokens(session.outputTokens)} (${formatTokens(session.reasoningTokens)} reasoning)`,
+		`  Cost       ${cost}`,
+		`Last step: ${formatTokens(lastStep.inputTokens)} in, ${formatTokens(lastStep.outputTokens)} out${lastStep.cost === undefined ? "" : `, ${formatCost(lastStep.cost)}`} (${lastStep.modelId})`,
+	].join("\n")
+}
+
+/**
+ * Format a context breakdown for the /context command.
+ */
+export function formatContextBreakdown(breakdown: ContextBreakdown) {
+	const { limit, used } = breakdown
+	const row = (label: string, tokens: number) =>
+		`  ${label.padEnd(26)}${formatTokens(tokens).padStart(7)}  ${formatPercent(tokens, limit)}`
+
+	return [
+		`Context window: ${formatTokens(used)} / ${formatTokens(limit)} tokens (${formatPercent(used, limit)})`,
+		breakdown.systemAndTools === undefined
+			? "  System prompt and tools   unknown until the first response"
+			: row("System prompt and tools", breakdown.systemAndTools),
+		row("Messages", breakdown.messages),
+		row("Tool outputs", breakdown.toolOutputs),
+		row("Free", Math.max(0, limit - used)),
+	].join("\n")
+}
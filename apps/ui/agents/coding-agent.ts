@@ -8,17 +8,21 @@ import {
 	DANGEROUS_COMMANDS,
 	FILE_READ_COMMANDS,
 	GIT_READ_COMMANDS,
+	loadPermissions,
 	type Permission,
 	SEARCH_COMMANDS,
 	TEXT_PROCESSING_COMMANDS,
+	type ToolPermissions,
 } from "@/agents/lib/permissions"
+import { createSandbox, type SandboxOptions } from "@/agents/lib/sandbox"
 import { prompt } from "@/prompts/coding-agent"
 import { createBashTool } from "@/tools/bash"
 import { createEditTool } from "@/tools/edit"
-import { globTool } from "@/tools/glob"
-import { grepTool } from "@/tools/grep"
-import { listTool } from "@/tools/list"
-import { readTool } from "@/tools/read"
+import { createGlobTool } from "@/tools/glob"
+import { createGrepTool } from "@/tools/grep"
+import { createFileTracker, type FileTracker } from "@/tools/lib/file-tracker"
+import { createListTool } from "@/tools/list"
+import { createReadTool } from "@/tools/read"
 import { createTodoTools, type TodoStorage } from "@/tools/todo"
 import { createWriteTool } from "@/tools/write"
 
@@ -36,6 +40,18 @@ export interface AgentSettings {
 	cwd?: string
 	environment?: EnvironmentOptions
 	todoStorage?: TodoStorage
+	/** Permission patterns merged over the agents.json policy */
+	permissions?: ToolPermissions
+	/**
+	 * Directories the file tools, and optionally bash, are limited to.
+	 * Defaults to `cwd`.
+	 */
+	sandbox?: SandboxOptions
+	/**
+	 * Files the agent has read. Pass the same tracker when the agent is created
+	 * again for a conversation, so it doesn't have to read them again.
+	 */
+	fileTracker?: FileTracker
 }
 
 export async function createAgent({
@@ -43,18 +59,41 @@ export async function createAgent({
 	cwd,
 	environment,
 	todoStorage,
+	permissions,
+	sandbox: sandboxOptions,
+	fileTracker = createFileTracker(),
 }: AgentSettings) {
 	const env = await getEnvironmentContext({ cwd, ...environment })
+	const policy = await loadPermissions({
+		cwd,
+		agent: "coding-agent",
+		permissions,
+	})
+	const sandbox = createSandbox(sandboxOptions, cwd)
 	const instructions = prompt(env)
 	const { todoRead, todoWrite } = createTodoTools(todoStorage)
 	const tools = {
-		read: readTool,
-		write: createWriteTool(),
-		edit: createEditTool(),
-		bash: createBashTool(BASH_PERMISSIONS),
-		list: listTool,
-		grep: grepTool,
-		glob: globTool,
+		read: createReadTool(
+			{ "*": "allow", ...policy.read },
+			sandbox,
+			fileTracker,
+		),
+		write: createWriteTool(
+			{ "*": "ask", ...policy.write },
+			sandbox,
+			undefined,
+			fileTracker,
+		),
+		edit: createEditTool(
+			{ "*": "ask", ...policy.edit },
+			sandbox,
+			undefined,
+			fileTracker,
+		),
+		bash: createBashTool({ ...BASH_PERMISSIONS, ...policy.bash }, sandbox),
+		list: createListTool({ "*": "allow", ...policy.read }, sandbox),
+		grep: createGrepTool({ "*": "allow", ...policy.read }, sandbox),
+		glob: createGlobTool({ "*": "allow", ...policy.read }, sandbox),
 		todoRead,
 		todoWrite,
 	}
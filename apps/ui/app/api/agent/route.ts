@@ -5,6 +5,10 @@ import { agentDB } from "@/lib/agent"
 import { DEFAULT_CHAT_MODEL } from "@/lib/ai/models"
 import { generateId } from "@/lib/storage/utils"
 import type { AgentMessage } from "@/lib/types"
+import { createFileTracker, type FileTracker } from "@/tools/lib/file-tracker"
+
+// The files read in every chat, the agent is created again for each message
+const fileTrackers = new Map<string, FileTracker>()
 
 export async function POST(request: Request) {
 	const body = (await request.json()) as {
@@ -26,16 +30,25 @@ export async function POST(request: Request) {
 		)
 	}
 
-	const agent = await createAgent({ model: gateway(selectedChatModel) })
-	const messages = convertToModelMessages(uiMessages, {
-		tools: agent.tools,
-	})
-
 	if (!chatId) {
 		const chat = await agentDB.createChat()
 		chatId = chat.id
 	}
 
+	let fileTracker = fileTrackers.get(chatId)
+	if (!fileTracker) {
+		fileTracker = createFileTracker()
+		fileTrackers.set(chatId, fileTracker)
+	}
+
+	const agent = await createAgent({
+		model: gateway(selectedChatModel),
+		fileTracker,
+	})
+	const messages = convertToModelMessages(uiMessages, {
+		tools: agent.tools,
+	})
+
 	const lastUIMessage = uiMessages[uiMessages.length - 1]
 	let userMessageId: string | undefined
 
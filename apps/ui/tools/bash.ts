@@ -1,11 +1,20 @@
 import { tool } from "ai"
 import { spawn } from "child_process"
+import { existsSync } from "fs"
 import { z } from "zod"
 import {
-	checkPermission,
+	checkCommandPermission,
 	type Permission,
 	PermissionDeniedError,
 } from "@/agents/lib/permissions"
+import type { BashSandboxOptions, Sandbox } from "@/agents/lib/sandbox"
+import {
+	getBubblewrapArgs,
+	getBubblewrapPath,
+	getProtectedPaths,
+	getSandboxEnv,
+	removeMountPoints,
+} from "@/tools/lib/bubblewrap"
 import { toolOutput } from "@/tools/lib/tool-output"
 
 const MAX_OUTPUT_LENGTH = 30_000
@@ -102,6 +111,66 @@ async function killProcessTree(
 
 const shell = detectShell()
 
+/** Where sandboxed commands run, see `createBashTool` */
+type BashSandbox = Required<BashSandboxOptions> & {
+	bubblewrap: string
+	directories: string[]
+}
+
+/**
+ * Spawn a command in the shell, in bubblewrap when it's sandboxed. Commands
+ * that run without approval can't change project files that run code outside
+ * the sandbox, or create them.
+ */
+function spawnCommand(
+	command: string,
+	bashSandbox?: BashSandbox,
+	autoAllowed = false,
+) {
+	const cwd = process.cwd()
+
+	if (!bashSandbox) {
+		return spawn(command, {
+			shell,
+			cwd,
+			env: process.env,
+			stdio: ["ignore", "pipe", "pipe"],
+			// Detach on Unix to create process group for clean killing
+			detached: process.platform !== "win32",
+		})
+	}
+
+	const protectedPaths = autoAllowed
+		? getProtectedPaths(
+				bashSandbox.directories,
+				bashSandbox.protectedDirectories,
+			)
+		: []
+	const missingPaths = protectedPaths.filter(
+		(protectedPath) => !existsSync(protectedPath.path),
+	)
+	const args = getBubblewrapArgs(
+		[typeof shell === "string" ? shell : "/bin/sh", "-c", command],
+		{
+			writableDirectories: bashSandbox.directories,
+			network: bashSandbox.network,
+			protectedPaths,
+			cwd,
+		},
+	)
+
+	const proc = spawn(bashSandbox.bubblewrap, args, {
+		cwd,
+		env: getSandboxEnv(process.env, bashSandbox.allowedEnv),
+		stdio: ["ignore", "pipe", "pipe"],
+		detached: true,
+	})
+	proc.once("close", () => {
+		removeMountPoints(missingPaths, bashSandbox.directories)
+	})
+	return proc
+}
+
 const description = `Executes shell commands with real-time output streaming.
 
 Usage:
@@ -112,6 +181,11 @@ Usage:
 - Use this tool for running builds, tests, installations, git commands, etc.
 - On timeout, processes are gracefully terminated (SIGTERM, then SIGKILL)`
 
+function getSandboxDescription(network: boolean, autoAllow: boolean) {
+	return `
+- Commands run in a sandbox: only the project directories and /tmp are writable${network ? "" : " and there is no network access"}, and secrets are removed from the environment${autoAllow ? "\n- Commands that would need approval run without it, but can't create or change agents.json, the installed agents, tools and prompts, .git/hooks, .git/config, .husky, .envrc or package.json. Commands allowed by a permission pattern aren't limited this way" : ""}`
+}
+
 const inputSchema = z.object({
 	command: z.string().describe("The command to execute"),
 	timeout: z.number().optional().describe("Optional timeout in milliseconds"),
@@ -151,6 +225,9 @@ const outputSchema = toolOutput({
  *
  * @param permissions - Command pattern to permission mapping. Patterns support
  * wildcards (*) for matching. Default allows safe read-only commands.
+ * @param sandbox - With `sandbox.bash`, commands run in the sandbox
+ * directories with bubblewrap, and commands that would ask can be
+ * auto-allowed. Without bubblewrap, commands run as usual.
  *
  * @example
  * // Allow read commands, ask for everything else
@@ -162,13 +239,29 @@ const outputSchema = toolOutput({
  */
 export function createBashTool(
 	permissions: Record<string, Permission> = { "*": "ask" },
+	sandbox?: Sandbox,
 ) {
+	// Without bubblewrap, commands run and need approval as usual
+	const bubblewrap = sandbox?.bash ? getBubblewrapPath() : null
+	const bashSandbox: BashSandbox | undefined =
+		bubblewrap && sandbox?.bash
+			? { ...sandbox.bash, bubblewrap, directories: sandbox.directories }
+			: undefined
+
 	return tool({
-		description,
+		description: bashSandbox
+			? description +
+				getSandboxDescription(bashSandbox.network, bashSandbox.autoAllow)
+			: description,
 		inputSchema,
 		outputSchema,
 		needsApproval: ({ command }) => {
-			const permission = checkPermission(command, permissions)
+			let permission = checkCommandPermission(command, permissions)
+
+			// The sandbox limits what commands can do, denied ones stay denied
+			if (permission === "ask" && bashSandbox?.autoAllow) {
+				permission = "allow"
+			}
 
 			if (permission === "deny") {
 				throw new PermissionDeniedError("bash", command)
@@ -208,14 +301,10 @@ export function createBashTool(
 			}
 
 			// Use an async iterator pattern with events
-			const proc = spawn(command, {
-				shell,
-				cwd: process.cwd(),
-				env: process.env,
-				stdio: ["ignore", "pipe", "pipe"],
-				// Detach on Unix to create process group for clean killing
-				detached: process.platform !== "win32",
-			})
+			const autoAllowed =
+				!!bashSandbox?.autoAllow &&
+				checkCommandPermission(command, permissions) === "ask"
+			const proc = spawnCommand(command, bashSandbox, autoAllowed)
 
 			let output = ""
 			let timedOut = false
@@ -2,6 +2,11 @@ import { tool } from "ai"
 import { promises as fs } from "fs"
 import * as path from "path"
 import { z } from "zod"
+import {
+	type Permission,
+	PermissionDeniedError,
+} from "@/agents/lib/permissions"
+import { checkPathPermission, type Sandbox } from "@/agents/lib/sandbox"
 import * as ripgrep from "@/tools/lib/ripgrep"
 import { toolOutput } from "@/tools/lib/tool-output"
 
@@ -20,6 +25,7 @@ interface Match {
 async function searchFiles(
 	searchPath: string,
 	pattern: string,
+	permissions: Record<string, Permission>,
 	include?: string,
 ): Promise<Match[]> {
 	const glob = include ? [include] : undefined
@@ -32,6 +38,9 @@ async function searchFiles(
 		glob,
 	})) {
 		const fullPath = path.join(searchPath, match.path)
+		if (checkPathPermission(path.resolve(fullPath), permissions) === "deny") {
+			continue
+		}
 
 		// Get file modification time for sorting
 		let modTime = 0
@@ -100,94 +109,137 @@ Usage:
 - Respects .gitignore rules
 - Useful for finding specific code patterns, function definitions, variable usage, etc.`
 
-export const grepTool = tool({
-	description,
-	inputSchema: z.object({
-		pattern: z
-			.string()
-			.describe("The regex pattern to search for in file contents"),
-		path: z
-			.string()
-			.optional()
-			.describe(
-				"The directory to search in. Defaults to the current working directory.",
-			),
-		include: z
-			.string()
-			.optional()
-			.describe(
-				'File pattern to include in the search (e.g. "*.js", "*.{ts,tsx}")',
-			),
-	}),
-	outputSchema: toolOutput({
-		pending: {
-			pattern: z.string(),
-			searchPath: z.string(),
-			result: z.undefined(),
-		},
-		success: {
-			pattern: z.string(),
-			searchPath: z.string(),
-			result: z.string(),
-			matchCount: z.number(),
-		},
-		error: {
-			pattern: z.string(),
-			searchPath: z.string(),
+/**
+ * Create a grep tool with custom permission patterns.
+ *
+ * @param permissions - File path pattern to permission mapping, or a single
+ * permission for all files, like the read tool's. Searching a denied
+ * directory fails and matches in denied files are left out. By default
+ * everything can be searched.
+ * @param sandbox - Directories the tool can search. Searching others needs
+ * approval or is denied.
+ */
+export function createGrepTool(
+	permissions: Permission | Record<string, Permission> = "allow",
+	sandbox?: Sandbox,
+) {
+	const permissionPatterns =
+		typeof permissions === "string" ? { "*": permissions } : permissions
+
+	return tool({
+		description,
+		inputSchema: z.object({
+			pattern: z
+				.string()
+				.describe("The regex pattern to search for in file contents"),
+			path: z
+				.string()
+				.optional()
+				.describe(
+					"The directory to search in. Defaults to the current working directory.",
+				),
+			include: z
+				.string()
+				.optional()
+				.describe(
+					'File pattern to include in the search (e.g. "*.js", "*.{ts,tsx}")',
+				),
+		}),
+		outputSchema: toolOutput({
+			pending: {
+				pattern: z.string(),
+				searchPath: z.string(),
+				result: z.undefined(),
+			},
+			success: {
+				pattern: z.string(),
+				searchPath: z.string(),
+				result: z.string(),
+				matchCount: z.number(),
+			},
+			error: {
+				pattern: z.string(),
+				searchPath: z.string(),
+			},
+		}),
+		needsApproval: ({ path: searchPath = "." }) => {
+			const resolvedPath = path.resolve(process.cwd(), searchPath)
+			const permission = checkPathPermission(
+				resolvedPath,
+				permissionPatterns,
+				sandbox,
+			)
+
+			if (permission === "deny") {
+				throw new PermissionDeniedError("grep", resolvedPath)
+			}
+
+			// Return true if approval needed (ask), false if auto-allowed
+			return permission === "ask"
 		},
-	}),
-	toModelOutput: (output) => {
-		if (output.status === "error") {
-			return {
-				type: "error-text",
-				value: `Error searching for "${output.pattern}" in ${output.searchPath}: ${output.error}`,
+		toModelOutput: (output) => {
+			if (output.status === "error") {
+				return {
+					type: "error-text",
+					value: `Error searching for "${output.pattern}" in ${output.searchPath}: ${output.error}`,
+				}
 			}
-		}
-		if (output.status === "success") {
-			if (output.matchCount === 0) {
+			if (output.status === "success") {
+				if (output.matchCount === 0) {
+					return {
+						type: "text",
+						value: `No matches found for pattern "${output.pattern}"`,
+					}
+				}
 				return {
 					type: "text",
-					value: `No matches found for pattern "${output.pattern}"`,
+					value: `Found ${output.matchCount} matches for "${output.pattern}":\n${output.result}`,
 				}
 			}
-			return {
-				type: "text",
-				value: `Found ${output.matchCount} matches for "${output.pattern}":\n${output.result}`,
-			}
-		}
-		throw new Error("Invalid output status in toModelOutput")
-	},
-	async *execute({ pattern, path: searchPath, include }) {
-		const cwd = searchPath || process.cwd()
-
-		yield {
-			status: "pending",
-			message: `Searching for pattern: ${pattern}`,
-			pattern,
-			searchPath: cwd,
-			result: undefined,
-		}
-
-		try {
-			const matches = await searchFiles(cwd, pattern, include)
-			const result = formatMatches(matches)
+			throw new Error("Invalid output status in toModelOutput")
+		},
+		async *execute({ pattern, path: searchPath, include }) {
+			const cwd = searchPath || process.cwd()
 
 			yield {
-				status: "success",
-				message: `Found ${matches.length} matches for pattern: ${pattern}`,
+				status: "pending",
+				message: `Searching for pattern: ${pattern}`,
 				pattern,
 				searchPath: cwd,
-				result,
-				matchCount: matches.length,
+				result: undefined,
 			}
-		} catch (error) {
-			yield {
-				status: "error",
-				message: `Failed to search for pattern: ${pattern}`,
-				pattern,
-				searchPath: cwd,
-				error: error instanceof Error ? error.message : String(error),
+
+			try {
+				const matches = await searchFiles(
+					cwd,
+					pattern,
+					permissionPatterns,
+					include,
+				)
+				const result = formatMatches(matches)
+
+				yield {
+					status: "success",
+					message: `Found ${matches.length} matches for pattern: ${pattern}`,
+					pattern,
+					searchPath: cwd,
+					result,
+					matchCount: matches.length,
+				}
+			} catch (error) {
+				yield {
+					status: "error",
+					message: `Failed to search for pattern: ${pattern}`,
+					pattern,
+					searchPath: cwd,
+					error: error instanceof Error ? error.message : String(error),
+				}
 			}
-		}
-	},
-})
+		},
+	})
+}
+
+/**
+ * Default grep tool without a sandbox.
+ */
+export const grepTool = createGrepTool()
@@ -0,0 +1,268 @@
+import { spawnSync } from "child_process"
+import {
+	accessSync,
+	constants,
+	readdirSync,
+	rmdirSync,
+	statSync,
+	unlinkSync,
+} from "fs"
+import * as os from "os"
+import * as path from "path"
+
+// Names of environment variables that usually hold secrets
+const SECRET_ENV_PATTERN =
+	/SECRET|TOKEN|PASSWORD|PASSWD|CREDENTIAL|API_?KEY|PRIVATE_?KEY|ACCESS_?KEY|AUTH|COOKIE|SESSION/i
+
+// Secrets, or access to them, with names the pattern doesn't catch
+const SECRET_ENV_NAMES = new Set([
+	"DATABASE_URL",
+	"SSH_AUTH_SOCK",
+	"GPG_AGENT_INFO",
+])
+
+// Credentials in the home directory, hidden in the sandbox
+const SECRET_HOME_PATHS = [
+	".ssh",
+	".gnupg",
+	".aws",
+	".azure",
+	".kube",
+	".docker",
+	".config/gcloud",
+	".config/gh",
+	".netrc",
+	".npmrc",
+	".pypirc",
+	".git-credentials",
+]
+
+// Paths in the project that run code outside the sandbox later, when git runs
+// its hooks, husky installs them, direnv loads .envrc, a package manager runs
+// a script or an agent starts the MCP servers of agents.json
+const PROTECTED_PROJECT_PATHS = [
+	{ path: ".git/hooks", directory: true },
+	{ path: ".git/config", directory: false },
+	{ path: ".husky", directory: true },
+	{ path: ".envrc", directory: false },
+	{ path: "package.json", directory: false },
+	{ path: "agents.json", directory: false },
+]
+
+export interface ProtectedPath {
+	path: string
+	directory: boolean
+}
+
+let cachedBubblewrapPath: string | null | undefined
+
+/**
+ * Get the path to the bubblewrap (`bwrap`) binary. Returns null when it isn't
+ * installed, on other platforms than Linux, or when it can't create a
+ * sandbox, e.g. because unprivileged user namespaces are disabled.
+ */
+export function getBubblewrapPath(): string | null {
+	if (cachedBubblewrapPath !== undefined) return cachedBubblewrapPath
+	cachedBubblewrapPath = null
+
+	if (process.platform !== "linux") return null
+
+	for (const dir of (process.env.PATH ?? "").split(path.delimiter)) {
+		const candidate = path.join(dir, "bwrap")
+		try {
+			accessSync(candidate, constants.X_OK)
+		} catch {
+			continue
+		}
+
+		// Check that it works here, it's installed but unusable in some containers
+		const probe = spawnSync(
+			candidate,
+			["--ro-bind", "/", "/", "--unshare-all", "true"],
+			{ stdio: "ignore", timeout: 5000 },
+		)
+		if (probe.status === 0) cachedBubblewrapPath = candidate
+		break
+	}
+
+	return cachedBubblewrapPath
+}
+
+export interface BubblewrapOptions {
+	/** Directories mounted read-write, everything else is read-only */
+	writableDirectories: string[]
+	/** Keep network access */
+	network: boolean
+	/**
+	 * Paths in the writable directories that are kept read-only, see
+	 * `getProtectedPaths`. Missing ones are blocked, so they can't be created.
+	 */
+	protectedPaths?: ProtectedPath[]
+	cwd: string
+}
+
+function isInside(filepath: string, dir: string) {
+	const relative = path.relative(dir, filepath)
+	return !relative.startsWith("..") && !path.isAbsolute(relative)
+}
+
+function exists(filepath: string) {
+	try {
+		statSync(filepath)
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Get the paths in the writable directories that run code outside the
+ * sandbox later, like git hooks, `.envrc`, `package.json` and agents.json,
+ * and the extra directories inside them, like the ones agents, tools and
+ * prompts are installed in.
+ */
+export function getProtectedPaths(
+	writableDirectories: string[],
+	directories: string[] = [],
+): ProtectedPath[] {
+	const paths = writableDirectories.flatMap((dir) =>
+		PROTECTED_PROJECT_PATHS.map((protectedPath) => ({
+			...protectedPath,
+			path: path.join(dir, protectedPath.path),
+		})),
+	)
+
+	for (const dir of directories) {
+		if (writableDirectories.some((writable) => isInside(dir, writable))) {
+			paths.push({ path: dir, directory: true })
+		}
+	}
+
+	return paths
+}
+
+/**
+ * Remove the empty files and directories bubblewrap creates to mount over
+ * protected paths that were missing, and the empty directories above them.
+ * Call it with the paths that were missing before the command ran.
+ */
+export function removeMountPoints(
+	missingPaths: ProtectedPath[],
+	writableDirectories: string[],
+) {
+	for (const { path: filepath, directory } of missingPaths) {
+		try {
+			if (directory) rmdirSync(filepath)
+			else if (statSync(filepath).size === 0) unlinkSync(filepath)
+			else continue
+		} catch {
+			// Created by the user in the meantime, or not there
+			continue
+		}
+
+		let dir = path.dirname(filepath)
+		while (
+			!writableDirectories.includes(dir) &&
+			writableDirectories.some((writable) => isInside(dir, writable))
+		) {
+			try {
+				if (readdirSync(dir).length > 0) break
+				rmdirSync(dir)
+			} catch {
+				break
+			}
+			dir = path.dirname(dir)
+		}
+	}
+}
+
+/**
+ * Get the bubblewrap arguments that run a command in a sandbox. The
+ * filesystem is read-only except for the writable directories and a private
+ * `/tmp`, credentials in the home directory are hidden, and every namespace
+ * is unshared, which disables the network unless it's allowed.
+ *
+ * The rest of the filesystem stays readable, so secrets outside the hidden
+ * paths, like `.env` files or `/etc` configs, can still be read by commands
+ * and end up in the model's context.
+ *
+ * @example
+ * spawn(getBubblewrapPath()!, getBubblewrapArgs(["bash", "-c", command], {
+ *   writableDirectories: [cwd],
+ *   network: false,
+ *   cwd,
+ * }))
+ */
+export function getBubblewrapArgs(
+	command: string[],
+	{ writableDirectories, network, protectedPaths = [], cwd }: BubblewrapOptions,
+): string[] {
+	const args = [
+		"--ro-bind",
+		"/",
+		"/",
+		"--dev",
+		"/dev",
+		"--proc",
+		"/proc",
+		"--tmpfs",
+		"/tmp",
+	]
+
+	for (const secretPath of SECRET_HOME_PATHS) {
+		const fullPath = path.join(os.homedir(), secretPath)
+		try {
+			const stats = statSync(fullPath)
+			args.push(
+				...(stats.isDirectory()
+					? ["--tmpfs", fullPath]
+					: ["--ro-bind", "/dev/null", fullPath]),
+			)
+		} catch {
+			// Doesn't exist
+		}
+	}
+
+	// After /tmp and the hidden paths, so projects inside them stay writable
+	for (const dir of writableDirectories) {
+		args.push("--bind-try", dir, dir)
+	}
+
+	// Mounted over the writable directories. Missing paths are blocked with an
+	// empty read-only directory or /dev/null, or commands could create them
+	for (const { path: filepath, directory } of protectedPaths) {
+		if (exists(filepath)) {
+			args.push("--ro-bind", filepath, filepath)
+		} else if (directory) {
+			args.push("--tmpfs", filepath, "--remount-ro", filepath)
+		} else {
+			args.push("--ro-bind", "/dev/null", filepath)
+		}
+	}
+
+	args.push("--unshare-all")
+	if (network) args.push("--share-net")
+
+	args.push("--die-with-parent", "--new-session", "--chdir", cwd, "--")
+	return [...args, ...command]
+}
+
+/**
+ * Remove environment variables that look like secrets, like API keys, tokens
+ * and passwords, except the allowed ones.
+ */
+export function getSandboxEnv(
+	env: NodeJS.ProcessEnv,
+	allowed: string[] = [],
+): NodeJS.ProcessEnv {
+	const result: NodeJS.ProcessEnv = {}
+
+	for (const [name, value] of Object.entries(env)) {
+		const isSecret = SECRET_ENV_PATTERN.test(name) || SECRET_ENV_NAMES.has(name)
+		if (!isSecret || allowed.includes(name)) {
+			result[name] = value
+		}
+	}
+
+	return result
+}
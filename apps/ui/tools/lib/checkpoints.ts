@@ -0,0 +1,22 @@
+/**
+ * Records files before the write and edit tools change them, so their
+ * changes can be undone. The app running the agent decides where snapshots
+ * are stored and how they're grouped, e.g. the TUI keeps one checkpoint per
+ * user message for `/rewind`.
+ *
+ * @example
+ * const checkpoints: CheckpointStorage = {
+ *   snapshot: async (filePath) => {
+ *     const content = await fs.readFile(filePath).catch(() => null)
+ *     snapshots.push({ filePath, content })
+ *   },
+ * }
+ * const write = createWriteTool("ask", sandbox, checkpoints)
+ */
+export interface CheckpointStorage {
+	/**
+	 * Save the current content of a file, or that it doesn't exist yet. Called
+	 * before every change to the file, and the change fails if it throws.
+	 */
+	snapshot: (filePath: string) => Promise<void>
+}
@@ -5,12 +5,12 @@ import * as path from "path"
 
 const RIPGREP_VERSION = "14.1.1"
 
-// Note: Windows is not supported in this build (requires unzipper for .zip extraction)
-const PLATFORM: Record<string, string> = {
-	"arm64-darwin": "aarch64-apple-darwin",
-	"arm64-linux": "aarch64-unknown-linux-gnu",
-	"x64-darwin": "x86_64-apple-darwin",
-	"x64-linux": "x86_64-unknown-linux-musl",
+const PLATFORM: Record<string, { name: string; ext: "tar.gz" | "zip" }> = {
+	"arm64-darwin": { name: "aarch64-apple-darwin", ext: "tar.gz" },
+	"arm64-linux": { name: "aarch64-unknown-linux-gnu", ext: "tar.gz" },
+	"x64-darwin": { name: "x86_64-apple-darwin", ext: "tar.gz" },
+	"x64-linux": { name: "x86_64-unknown-linux-musl", ext: "tar.gz" },
+	"x64-win32": { name: "x86_64-pc-windows-msvc", ext: "zip" },
 }
 
 function getBinDir(): string {
@@ -28,9 +28,8 @@ export async function getRipgrepPath(): Promise<string> {
 
 	// 1. Check for system ripgrep
 	try {
-		const systemRg = execSync("which rg", { encoding: "utf-8" })
-			.split("\n")[0]
-			?.trim()
+		const cmd = process.platform === "win32" ? "where rg" : "which rg"
+		const systemRg = execSync(cmd, { encoding: "utf-8" }).split("\n")[0]?.trim()
 		if (systemRg) {
 			cachedRgPath = systemRg
 			return systemRg
@@ -41,7 +40,10 @@ export async function getRipgrepPath(): Promise<string> {
 
 	// 2. Check if already downloaded
 	const binDir = getBinDir()
-	const rgPath = path.join(binDir, "rg")
+	const rgPath = path.join(
+		binDir,
+		process.platform === "win32" ? "rg.exe" : "rg",
+	)
 
 	try {
 		await fs.access(rgPath, fs.constants.X_OK)
@@ -59,10 +61,10 @@ export async function getRipgrepPath(): Promise<string> {
 
 async function downloadRipgrep(binDir: string, rgPath: string): Promise<void> {
 	const platformKey = `${process.arch}-${process.platform}`
-	const platformName = PLATFORM[platformKey]
-	if (!platformName) throw new Error(`Unsupported platform: ${platformKey}`)
+	const config = PLATFORM[platformKey]
+	if (!config) throw new Error(`Unsupported platform: ${platformKey}`)
 
-	const filename = `ripgrep-${RIPGREP_VERSION}-${platformName}.tar.gz`
+	const filename = `ripgrep-${RIPGREP_VERSION}-${config.name}.${config.ext}`
 	const url = `https://github.com/BurntSushi/ripgrep/releases/download/${RIPGREP_VERSION}/${filename}`
 
 	await fs.mkdir(binDir, { recursive: true })
@@ -75,11 +77,17 @@ async function downloadRipgrep(binDir: string, rgPath: string): Promise<void> {
 	await fs.writeFile(archivePath, Buffer.from(await response.arrayBuffer()))
 
 	// Extract
-	await extractTarGz(archivePath, binDir, platformKey)
+	if (config.ext === "tar.gz") {
+		await extractTarGz(archivePath, binDir, platformKey)
+	} else {
+		await extractZip(archivePath, rgPath)
+	}
 
 	// Cleanup & permissions
 	await fs.unlink(archivePath)
-	await fs.chmod(rgPath, 0o755)
+	if (process.platform !== "win32") {
+		await fs.chmod(rgPath, 0o755)
+	}
 }
 
 async function extractTarGz(
@@ -119,6 +127,23 @@ async function extractTarGz(
 	})
 }
 
+async function extractZip(archivePath: string, rgPath: string): Promise<void> {
+	// Dynamic import to avoid loading unzipper on non-Windows platforms
+	const unzipper = (await import("unzipper")) as typeof import("unzipper")
+
+	const directory = await unzipper.Open.file(archivePath)
+	const rgEntry = directory.files.find((f: { path: string }) =>
+		f.path.endsWith("rg.exe"),
+	)
+
+	if (!rgEntry) {
+		throw new Error("rg.exe not found in zip archive")
+	}
+
+	const content = await rgEntry.buffer()
+	await fs.writeFile(rgPath, content)
+}
+
 export interface FilesOptions {
 	cwd: string
 	glob?: string[]
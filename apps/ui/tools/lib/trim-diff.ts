@@ -1,3 +1,7 @@
+/**
+ * Trim common indentation from diff output for cleaner display.
+ * Removes the minimum shared indentation from all diff content lines.
+ */
 export function trimDiff(diff: string): string {
 	const lines = diff.split("\n")
 	const contentLines = lines.filter(
@@ -2,6 +2,15 @@ import { tool } from "ai"
 import { promises as fs } from "fs"
 import * as path from "path"
 import { z } from "zod"
+import {
+	type Permission,
+	PermissionDeniedError,
+} from "@/agents/lib/permissions"
+import {
+	checkPathPermission,
+	isPathInSandbox,
+	type Sandbox,
+} from "@/agents/lib/sandbox"
 import * as ripgrep from "@/tools/lib/ripgrep"
 import { toolOutput } from "@/tools/lib/tool-output"
 
@@ -40,6 +49,8 @@ async function listFiles(
 	searchPath: string,
 	ignorePatterns: string[],
 	limit: number,
+	permissions: Record<string, Permission>,
+	sandbox?: Sandbox,
 ): Promise<string[]> {
 	// Convert ignore patterns to ripgrep glob format
 	// Handles patterns that already start with `!` to avoid double negation
@@ -47,6 +58,11 @@ async function listFiles(
 
 	const files: string[] = []
 	for await (const file of ripgrep.files({ cwd: searchPath, glob: globs })) {
+		// ripgrep follows symlinks, skip the ones that lead out of the sandbox
+		const fullPath = path.join(searchPath, file)
+		if (sandbox && !isPathInSandbox(sandbox, fullPath)) continue
+		if (checkPathPermission(fullPath, permissions) === "deny") continue
+
 		files.push(file)
 		if (files.length >= limit) break
 	}
@@ -116,93 +132,142 @@ Usage:
 - Results are limited to 100 files
 - Displays directory structure in a tree format`
 
-export const listTool = tool({
-	description,
-	inputSchema: z.object({
-		path: z
-			.string()
-			.optional()
-			.describe(
-				"The path to the directory to list (defaults to current directory)",
-			),
-		ignore: z
-			.array(z.string())
-			.optional()
-			.describe(
-				"Additional patterns to ignore. Can be directory names (e.g., 'logs') or full glob patterns (e.g., '!*.tmp')",
-			),
-	}),
-	outputSchema: toolOutput({
-		pending: {
-			dirPath: z.string(),
-			result: z.undefined(),
-		},
-		success: {
-			dirPath: z.string(),
-			result: z.string(),
-			fileCount: z.number(),
+/**
+ * Create a list tool with custom permission patterns.
+ *
+ * @param permissions - File path pattern to permission mapping, or a single
+ * permission for all files, like the read tool's. Listing a denied directory
+ * fails and denied files are left out. By default everything can be listed.
+ * @param sandbox - Directories the tool can list. Listing others needs
+ * approval or is denied, and files reached through symlinks that lead out of
+ * the sandbox are skipped.
+ */
+export function createListTool(
+	permissions: Permission | Record<string, Permission> = "allow",
+	sandbox?: Sandbox,
+) {
+	const permissionPatterns =
+		typeof permissions === "string" ? { "*": permissions } : permissions
+
+	return tool({
+		description,
+		inputSchema: z.object({
+			path: z
+				.string()
+				.optional()
+				.describe(
+					"The path to the directory to list (defaults to current directory)",
+				),
+			ignore: z
+				.array(z.string())
+				.optional()
+				.describe(
+					"Additional patterns to ignore. Can be directory names (e.g., 'logs') or full glob patterns (e.g., '!*.tmp')",
+				),
+		}),
+		outputSchema: toolOutput({
+			pending: {
+				dirPath: z.string(),
+				result: z.undefined(),
+			},
+			success: {
+				dirPath: z.string(),
+				result: z.string(),
+				fileCount: z.number(),
+			},
+			error: {
+				dirPath: z.string(),
+			},
+		}),
+		needsApproval: ({ path: searchPath = "." }) => {
+			const resolvedPath = path.resolve(process.cwd(), searchPath)
+			const permission = checkPathPermission(
+				resolvedPath,
+				permissionPatterns,
+				sandbox,
+			)
+
+			if (permission === "deny") {
+				throw new PermissionDeniedError("list", resolvedPath)
+			}
+
+			// Return true if approval needed (ask), false if auto-allowed
+			return permission === "ask"
 		},
-		error: {
-			dirPath: z.string(),
+		toModelOutput: (output) => {
+			if (output.status === "error") {
+				return {
+					type: "error-text",
+					value: `Error listing ${output.dirPath}: ${output.error}`,
+				}
+			}
+			if (output.status === "success") {
+				return { type: "text", value: output.result }
+			}
+			throw new Error("Invalid output status in toModelOutput")
 		},
-	}),
-	toModelOutput: (output) => {
-		if (output.status === "error") {
-			return {
-				type: "error-text",
-				value: `Error listing ${output.dirPath}: ${output.error}`,
+		async *execute({ path: searchPath = ".", ignore = [] }) {
+			const resolvedPath = path.resolve(process.cwd(), searchPath)
+
+			yield {
+				status: "pending",
+				message: `Listing directory: ${resolvedPath}`,
+				dirPath: resolvedPath,
+				result: undefined,
 			}
-		}
-		if (output.status === "success") {
-			return { type: "text", value: output.result }
-		}
-		throw new Error("Invalid output status in toModelOutput")
-	},
-	async *execute({ path: searchPath = ".", ignore = [] }) {
-		const resolvedPath = path.resolve(process.cwd(), searchPath)
-
-		yield {
-			status: "pending",
-			message: `Listing directory: ${resolvedPath}`,
-			dirPath: resolvedPath,
-			result: undefined,
-		}
 
-		try {
-			// Verify directory exists
 			try {
-				await fs.access(resolvedPath)
-			} catch {
-				throw new Error(`Directory not found: ${resolvedPath}`)
-			}
+				// Verify directory exists
+				try {
+					await fs.access(resolvedPath)
+				} catch {
+					throw new Error(`Directory not found: ${resolvedPath}`)
+				}
 
-			const stats = await fs.stat(resolvedPath)
-			if (!stats.isDirectory()) {
-				throw new Error(`Path is not a directory: ${resolvedPath}`)
-			}
+				const stats = await fs.stat(resolvedPath)
+				if (!stats.isDirectory()) {
+					throw new Error(`Path is not a directory: ${resolvedPath}`)
+				}
 
-			const allIgnorePatterns = [...IGNORE_PATTERNS, ...ignore]
-			const files = await listFiles(resolvedPath, allIgnorePatterns, LIMIT)
+				const allIgnorePatterns = [...IGNORE_PATTERNS, ...ignore]
+				// Searches outside the sandbox were approved, only filter inside it
+				const searchSandbox =
+					sandbox && isPathInSandbox(sandbox, resolvedPath)
+						? sandbox
+						: undefined
+				const files = await listFiles(
+					resolvedPath,
+					allIgnorePatterns,
+					LIMIT,
+					permissionPatterns,
+					searchSandbox,
+				)
 
-			const output = buildTree(files, resolvedPath)
-			const truncated = files.length >= LIMIT
-			const result =
-				output + (truncated ? "\n(Results truncated to 100 files)" : "")
+				const output = buildTree(files, resolvedPath)
+				const truncated = files.length >= LIMIT
+				const result =
+					output + (truncated ? "\n(Results truncated to 100 files)" : "")
 
-			yield {
-				status: "success",
-				message: `Found ${files.length} files in ${resolvedPath}`,
-				dirPath: resolvedPath,
-				result,
-				fileCount: files.length,
-			}
-		} catch (error) {
-			yield {
-				status: "error",
-				message: `Failed to list ${resolvedPath}`,
-				dirPath: resolvedPath,
-				error: error instanceof Error ? error.message : String(error),
+				yield {
+					status: "success",
+					message: `Found ${files.length} files in ${resolvedPath}`,
+					dirPath: resolvedPath,
+					result,
+					fileCount: files.length,
+				}
+			} catch (error) {
+				yield {
+					status: "error",
+					message: `Failed to list ${resolvedPath}`,
+					dirPath: resolvedPath,
+					error: error instanceof Error ? error.message : String(error),
+				}
 			}
-		}
-	},
-})
+		},
+	})
+}
+
+/**
+ * Default list tool without a sandbox.
+ */
+export const listTool = createListTool()
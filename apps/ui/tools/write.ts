@@ -4,10 +4,12 @@ import { promises as fs } from "fs"
 import * as path from "path"
 import { z } from "zod"
 import {
-	checkPermission,
 	type Permission,
 	PermissionDeniedError,
 } from "@/agents/lib/permissions"
+import { checkPathPermission, type Sandbox } from "@/agents/lib/sandbox"
+import type { CheckpointStorage } from "@/tools/lib/checkpoints"
+import type { FileTracker } from "@/tools/lib/file-tracker"
 import { toolOutput } from "@/tools/lib/tool-output"
 import { trimDiff } from "@/tools/lib/trim-diff"
 
@@ -23,7 +25,7 @@ const description = `Writes a file to the local filesystem.
 
 Usage:
 - This tool will overwrite the existing file if there is one at the provided path.
-- If this is an existing file, you MUST use the Read tool first to read the file's contents. This tool will fail if you did not read the file first.
+- If this is an existing file, you MUST use the Read tool first to read the file's contents. This tool will fail if you did not read the file first, or if the file changed since you read it.
 - ALWAYS prefer editing existing files in the codebase. NEVER write new files unless explicitly required.
 - NEVER proactively create documentation files (*.md) or README files. Only create documentation files if explicitly requested by the User.
 - Only use emojis if the user explicitly requests it. Avoid writing emojis to files unless asked.
@@ -64,6 +66,13 @@ const outputSchema = toolOutput({
  * @param permissions - File path pattern to permission mapping, or a single permission for all files.
  *                     Patterns support wildcards (*) for matching.
  *                     Default requires approval for all writes.
+ * @param sandbox - Directories writes are limited to. Writes outside them need
+ *                  approval or are denied, see `checkPathPermission`.
+ * @param checkpoints - Snapshots files before they're written, so the writes
+ *                      can be undone.
+ * @param fileTracker - Files read in the session. Existing files can only be
+ *                      overwritten after they're read, and not when they
+ *                      changed on disk since.
  *
  * @example
  * // Allow writing all .ts files without approval
@@ -79,6 +88,9 @@ const outputSchema = toolOutput({
  */
 export function createWriteTool(
 	permissions: Permission | Record<string, Permission> = "ask",
+	sandbox?: Sandbox,
+	checkpoints?: CheckpointStorage,
+	fileTracker?: FileTracker,
 ) {
 	const permissionPatterns =
 		typeof permissions === "string" ? { "*": permissions } : permissions
@@ -92,7 +104,11 @@ export function createWriteTool(
 				? filePath
 				: path.join(process.cwd(), filePath)
 
-			const permission = checkPermission(filepath, permissionPatterns)
+			const permission = checkPathPermission(
+				filepath,
+				permissionPatterns,
+				sandbox,
+			)
 
 			if (permission === "deny") {
 				throw new PermissionDeniedError("write", filepath)
@@ -109,19 +125,11 @@ export function createWriteTool(
 				}
 			}
 			if (output.status === "success") {
-				let result = output.result
-
-				// Add warning if present
 				if (output.warning) {
-					result = `⚠️ ${output.warning}\n\n${result}`
-				}
-
-				// Add diff if overwriting
-				if (output.diff && output.wasOverwrite) {
-					result += `\n\nChanges:\n${output.diff}`
+					return { type: "text", value: `⚠️ ${output.warning}` }
 				}
-
-				return { type: "text", value: result }
+				// Only the UI needs the diff for display purposes
+				return { type: "text", value: "" }
 			}
 			throw new Error("Invalid output status in toModelOutput")
 		},
@@ -145,6 +153,9 @@ export function createWriteTool(
 					warning = `Writing file outside working directory: ${filepath}`
 				}
 
+				// Don't overwrite changes the agent hasn't seen
+				await fileTracker?.check(filepath)
+
 				// Create directory if it doesn't exist
 				const dir = path.dirname(filepath)
 				await fs.mkdir(dir, { recursive: true })
@@ -161,7 +172,9 @@ export function createWriteTool(
 				}
 
 				// Write the file
+				await checkpoints?.snapshot(filepath)
 				await fs.writeFile(filepath, content, "utf-8")
+				await fileTracker?.record(filepath)
 
 				// Calculate stats
 				const lineCount = content.split("\n").length
@@ -235,6 +235,29 @@ describe("add command", () => {
 		expect(content).toContain("testTool")
 	})
 
+	it("records added items in agents-lock.json", async () => {
+		const project = await createProjectWithRegistry()
+
+		const result = await runCLI(["add", "@test/full-agent", "--yes"], {
+			cwd: project.path,
+		})
+
+		expect(result.exitCode).toBe(0)
+		expect(await project.exists("agents-lock.json")).toBe(true)
+
+		const lockfile = JSON.parse(await project.readFile("agents-lock.json"))
+		const agent = lockfile.items["agents/full-agent"]
+		expect(agent.source).toBe("@test/full-agent")
+		expect(agent.resolved).toBe(`${registryUrl}/agents/full-agent.json`)
+		expect(agent.direct).toBe(true)
+		expect(agent.registryDependencies).toEqual(["prompts:full-agent"])
+		expect(agent.files[0].target).toBe("agents/full-agent.ts")
+		expect(agent.files[0].hash).toMatch(/^sha256-/)
+
+		// Dependencies are locked too
+		expect(lockfile.items["prompts/full-agent"].direct).toBe(false)
+	})
+
 	it("requires item names", async () => {
 		// Simple test - doesn't need registry
 		const project = await createTestProject({
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest"
 import {
 	getConfig,
+	getInstalledDirectories,
 	getRawConfig,
 	resolveConfigPaths,
 } from "../utils/get-config"
@@ -80,6 +81,114 @@ describe("config loading", () => {
 			)
 		})
 
+		it("handles MCP servers in config", async () => {
+			const project = await createTestProject({
+				files: {
+					"agents.json": JSON.stringify({
+						tsx: true,
+						aliases: {
+							agents: "@/agents",
+							tools: "@/tools",
+							prompts: "@/prompts",
+						},
+						mcpServers: {
+							github: {
+								command: "npx",
+								args: ["-y", "@modelcontextprotocol/server-github"],
+								// biome-ignore lint/suspicious/noTemplateCurlyInString: This is an intentional literal string, not a template
+								env: { GITHUB_TOKEN: "${GITHUB_TOKEN}" },
+							},
+							docs: {
+								type: "http",
+								url: "https://docs.example.com/mcp",
+							},
+						},
+					}),
+				},
+			})
+
+			const config = await getRawConfig(project.path)
+
+			expect(config?.mcpServers?.github).toEqual({
+				command: "npx",
+				args: ["-y", "@modelcontextprotocol/server-github"],
+				// biome-ignore lint/suspicious/noTemplateCurlyInString: This is an intentional literal string, not a template
+				env: { GITHUB_TOKEN: "${GITHUB_TOKEN}" },
+			})
+			expect(config?.mcpServers?.docs).toEqual({
+				type: "http",
+				url: "https://docs.example.com/mcp",
+			})
+		})
+
+		it("rejects MCP servers without a command or url", async () => {
+			const project = await createTestProject({
+				files: {
+					"agents.json": JSON.stringify({
+						tsx: true,
+						aliases: {
+							agents: "@/agents",
+							tools: "@/tools",
+							prompts: "@/prompts",
+						},
+						mcpServers: { broken: { args: ["serve"] } },
+					}),
+				},
+			})
+
+			await expect(getRawConfig(project.path)).rejects.toThrow()
+		})
+
+		it("handles tool permissions in config", async () => {
+			const project = await createTestProject({
+				files: {
+					"agents.json": JSON.stringify({
+						tsx: true,
+						aliases: {
+							agents: "@/agents",
+							tools: "@/tools",
+							prompts: "@/prompts",
+						},
+						permissions: {
+							bash: { "pnpm test*": "allow", "git push*": "deny" },
+							edit: { "*": "ask" },
+							agents: {
+								"planning-agent": { bash: { "pnpm test*": "deny" } },
+							},
+						},
+					}),
+				},
+			})
+
+			const config = await getRawConfig(project.path)
+
+			expect(config?.permissions).toEqual({
+				bash: { "pnpm test*": "allow", "git push*": "deny" },
+				edit: { "*": "ask" },
+				agents: {
+					"planning-agent": { bash: { "pnpm test*": "deny" } },
+				},
+			})
+		})
+
+		it("rejects unknown permission levels", async () => {
+			const project = await createTestProject({
+				files: {
+					"agents.json": JSON.stringify({
+						tsx: true,
+						aliases: {
+							agents: "@/agents",
+							tools: "@/tools",
+							prompts: "@/prompts",
+						},
+						permissions: { bash: { "*": "always" } },
+					}),
+				},
+			})
+
+			await expect(getRawConfig(project.path)).rejects.toThrow()
+		})
+
 		it("accepts registries without placeholders (auto-appended)", async () => {
 			const project = await createTestProject({
 				files: {
@@ -271,6 +380,40 @@ describe("config loading", () => {
 		})
 	})
 
+	describe("getInstalledDirectories", () => {
+		it("returns the resolved agents, tools and prompts directories", async () => {
+			const project = await createTestProject({
+				tsconfig: {
+					compilerOptions: {
+						baseUrl: ".",
+						paths: {
+							"@/*": ["./src/*"],
+						},
+					},
+				},
+			})
+
+			const config = await resolveConfigPaths(project.path, {
+				tsx: true,
+				aliases: {
+					agents: "@/agents",
+					tools: "@/tools",
+					prompts: "@/prompts",
+				},
+			})
+
+			expect(getInstalledDirectories(config)).toEqual([
+				config.resolvedPaths.agents,
+				config.resolvedPaths.tools,
+				config.resolvedPaths.prompts,
+			])
+		})
+
+		it("returns nothing without a config", () => {
+			expect(getInstalledDirectories(null)).toEqual([])
+		})
+	})
+
 	describe("tsx detection", () => {
 		it("defaults tsx to true", async () => {
 			const project = await createTestProject({
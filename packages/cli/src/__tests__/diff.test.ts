@@ -62,22 +62,22 @@ describe("diff command", () => {
 			})
 		})
 
-		it("requires item name", async () => {
+		it("checks all installed items without an item name", async () => {
 			const result = await runCLI(["diff", "--type", "tools"], {
 				cwd: project.path,
 			})
 
-			expect(result.exitCode).toBe(1)
-			expect(result.stdout).toContain("specify both item name and type")
+			expect(result.exitCode).toBe(0)
+			expect(result.stdout).toContain("No installed items found")
 		})
 
-		it("requires --type option", async () => {
+		it("requires --type option for items that aren't installed", async () => {
 			const result = await runCLI(["diff", "test-tool"], {
 				cwd: project.path,
 			})
 
 			expect(result.exitCode).toBe(1)
-			expect(result.stdout).toContain("specify both item name and type")
+			expect(result.stdout).toContain("specify the item type")
 		})
 	})
 
@@ -187,6 +187,81 @@ describe("diff command", () => {
 		})
 	})
 
+	describe("without an item name", () => {
+		async function createProjectWithTool() {
+			const project = await createProjectWithRegistry()
+			await runCLI(["add", "@test/test-tool", "--tool", "--yes"], {
+				cwd: project.path,
+			})
+			return project
+		}
+
+		async function getStatus(project: { path: string }) {
+			const result = await runCLI(["diff", "--json"], { cwd: project.path })
+			return { result, items: JSON.parse(result.stdout) }
+		}
+
+		it("reports up to date items", async () => {
+			const project = await createProjectWithTool()
+
+			const { result, items } = await getStatus(project)
+
+			expect(result.exitCode).toBe(0)
+			expect(items).toEqual([
+				expect.objectContaining({
+					name: "test-tool",
+					type: "tools",
+					status: "up-to-date",
+				}),
+			])
+		})
+
+		it("prints a summary table", async () => {
+			const project = await createProjectWithTool()
+
+			const result = await runCLI(["diff"], { cwd: project.path })
+
+			expect(result.exitCode).toBe(0)
+			expect(result.stdout).toContain("test-tool")
+			expect(result.stdout).toContain("up to date")
+		})
+
+		it("reports local changes and exits with an error", async () => {
+			const project = await createProjectWithTool()
+			await project.writeFile("tools/test-tool.ts", "// modified content")
+
+			const { result, items } = await getStatus(project)
+
+			expect(result.exitCode).toBe(1)
+			expect(items[0].status).toBe("modified-locally")
+		})
+
+		it("reports available updates", async () => {
+			const project = await createProjectWithTool()
+			const lockfile = JSON.parse(await project.readFile("agents-lock.json"))
+			lockfile.items["tools/test-tool"].files[0].hash = "sha256-outdated"
+			await project.writeFile("agents-lock.json", JSON.stringify(lockfile))
+			await project.writeFile("tools/test-tool.ts", "// outdated content")
+
+			const { result, items } = await getStatus(project)
+
+			expect(result.exitCode).toBe(1)
+			expect(items[0].status).toBe("update-available")
+		})
+
+		it("reports items removed from the registry", async () => {
+			const project = await createProjectWithTool()
+			const lockfile = JSON.parse(await project.readFile("agents-lock.json"))
+			lockfile.items["tools/test-tool"].source = "@test/removed-tool"
+			await project.writeFile("agents-lock.json", JSON.stringify(lockfile))
+
+			const { result, items } = await getStatus(project)
+
+			expect(result.exitCode).toBe(1)
+			expect(items[0].status).toBe("removed-upstream")
+		})
+	})
+
 	it("respects --cwd option", async () => {
 		const project = await createProjectWithRegistry()
 
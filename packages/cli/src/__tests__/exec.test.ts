@@ -3,10 +3,12 @@ import {
 	createMockConfig,
 	mockGetCachedItemsPaths,
 	mockGetConfig,
+	mockGetInstalledDirectories,
 	mockHandleError,
 	mockLogger,
 	mockPerformRemoteSync,
 	mockProcessExit,
+	mockRunHeadless,
 	mockRunTui,
 	ProcessExitError,
 	resetAllMocks,
@@ -16,10 +18,12 @@ import {
 // Set up module mocks
 vi.mock("awesome-ai-tui", () => ({
 	runTui: mockRunTui,
+	runHeadless: mockRunHeadless,
 }))
 
 vi.mock("@/src/utils/get-config", () => ({
 	getConfig: mockGetConfig,
+	getInstalledDirectories: mockGetInstalledDirectories,
 }))
 
 vi.mock("@/src/utils/remote-approval", () => ({
@@ -194,6 +198,7 @@ describe("exec command", () => {
 				promptName: "my-prompt",
 				initialAgent: "my-agent",
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 
@@ -214,6 +219,7 @@ describe("exec command", () => {
 				promptName: "my-prompt",
 				initialAgent: "my-agent",
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 	})
@@ -232,6 +238,7 @@ describe("exec command", () => {
 				promptName: "my-prompt",
 				initialAgent: undefined,
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 
@@ -254,6 +261,7 @@ describe("exec command", () => {
 				promptName: "my-prompt",
 				initialAgent: "my-agent",
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 
@@ -281,4 +289,68 @@ describe("exec command", () => {
 			)
 		})
 	})
+
+	describe("headless mode", () => {
+		it("calls runHeadless instead of runTui with --print", async () => {
+			mockGetConfig.mockResolvedValue(createMockConfig())
+
+			await expect(
+				exec.parseAsync([
+					"bun",
+					"test",
+					"my-prompt",
+					"my-agent",
+					"--print",
+					"--approve",
+					"read-only",
+				]),
+			).rejects.toThrow(ProcessExitError)
+
+			expect(mockRunHeadless).toHaveBeenCalledWith({
+				agentPaths: ["/test/agents"],
+				promptsPaths: ["/test/prompts"],
+				promptName: "my-prompt",
+				initialAgent: "my-agent",
+				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
+				approve: "read-only",
+				outputFormat: "text",
+			})
+			expect(mockRunTui).not.toHaveBeenCalled()
+			expect(process.exit).toHaveBeenCalledWith(0)
+		})
+
+		it("runs headless with --output-format stream-json", async () => {
+			mockGetConfig.mockResolvedValue(createMockConfig())
+
+			await expect(
+				exec.parseAsync([
+					"bun",
+					"test",
+					"my-prompt",
+					"--output-format",
+					"stream-json",
+				]),
+			).rejects.toThrow(ProcessExitError)
+
+			expect(mockRunHeadless).toHaveBeenCalledWith(
+				expect.objectContaining({ outputFormat: "stream-json" }),
+			)
+			expect(mockRunTui).not.toHaveBeenCalled()
+		})
+
+		it("exits with the status of the headless run", async () => {
+			mockGetConfig.mockResolvedValue(createMockConfig())
+			mockRunHeadless.mockResolvedValue(2)
+
+			await expect(
+				exec.parseAsync(["bun", "test", "my-prompt", "--print"]),
+			).rejects.toThrow(ProcessExitError)
+
+			expect(mockRunHeadless).toHaveBeenCalledWith(
+				expect.objectContaining({ approve: "none" }),
+			)
+			expect(process.exit).toHaveBeenCalledWith(2)
+		})
+	})
 })
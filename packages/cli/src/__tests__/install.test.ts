@@ -0,0 +1,143 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { startMockRegistry, stopMockRegistry } from "./lib/mock-registry"
+import { createTestProject, runCLI } from "./lib/test-utils"
+
+describe("install command", () => {
+	let registryUrl: string
+
+	beforeAll(async () => {
+		const registry = await startMockRegistry()
+		registryUrl = registry.url
+	})
+
+	afterAll(async () => {
+		await stopMockRegistry()
+	})
+
+	function createProjectWithRegistry() {
+		return createTestProject({
+			packageJson: { name: "test-project" },
+			tsconfig: {
+				compilerOptions: {
+					baseUrl: ".",
+					paths: {
+						"@/*": ["./*"],
+					},
+				},
+			},
+			files: {
+				"agents.json": JSON.stringify({
+					tsx: true,
+					aliases: {
+						agents: "@/agents",
+						tools: "@/tools",
+						prompts: "@/prompts",
+					},
+					registries: {
+						"@test": `${registryUrl}/{type}/{name}.json`,
+					},
+				}),
+			},
+		})
+	}
+
+	it("requires agents-lock.json", async () => {
+		const project = await createProjectWithRegistry()
+
+		const result = await runCLI(["install"], { cwd: project.path })
+
+		expect(result.exitCode).toBe(1)
+		expect(result.stdout + result.stderr).toContain("agents-lock.json")
+	})
+
+	it("restores items recorded in the lockfile", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/tool-with-lib", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		await fs.rm(path.join(project.path, "tools"), {
+			recursive: true,
+			force: true,
+		})
+
+		const result = await runCLI(["install", "--yes"], { cwd: project.path })
+
+		expect(result.exitCode).toBe(0)
+		expect(await project.exists("tools/tool-with-lib.ts")).toBe(true)
+		expect(await project.exists("tools/lib/helper.ts")).toBe(true)
+	})
+
+	it("installs files to their locked targets", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/test-tool", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		const lockfile = JSON.parse(await project.readFile("agents-lock.json"))
+		lockfile.items["tools/test-tool"].files[0].target = "custom/test-tool.ts"
+		await project.writeFile("agents-lock.json", JSON.stringify(lockfile))
+		await fs.rm(path.join(project.path, "tools"), {
+			recursive: true,
+			force: true,
+		})
+
+		const result = await runCLI(["install", "--yes"], { cwd: project.path })
+
+		expect(result.exitCode).toBe(0)
+		expect(await project.exists("custom/test-tool.ts")).toBe(true)
+		expect(await project.exists("tools/test-tool.ts")).toBe(false)
+		expect(await project.readFile("agents-lock.json")).toBe(
+			JSON.stringify(lockfile),
+		)
+	})
+
+	it("fails when the registry content changed", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/test-tool", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		const lockfile = JSON.parse(await project.readFile("agents-lock.json"))
+		lockfile.items["tools/test-tool"].files[0].hash = "sha256-outdated"
+		await project.writeFile("agents-lock.json", JSON.stringify(lockfile))
+
+		const result = await runCLI(["install", "--yes"], {
+			cwd: project.path,
+		})
+
+		expect(result.exitCode).toBe(1)
+		expect(result.stdout + result.stderr).toContain(
+			"no longer matches agents-lock.json",
+		)
+		expect(await project.readFile("agents-lock.json")).toBe(
+			JSON.stringify(lockfile),
+		)
+	})
+
+	it("updates the lockfile with --resolve", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/test-tool", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		const lockfile = JSON.parse(await project.readFile("agents-lock.json"))
+		const hash = lockfile.items["tools/test-tool"].files[0].hash
+		lockfile.items["tools/test-tool"].files[0].hash = "sha256-outdated"
+		await project.writeFile("agents-lock.json", JSON.stringify(lockfile))
+
+		const result = await runCLI(["install", "--yes", "--resolve"], {
+			cwd: project.path,
+		})
+
+		expect(result.exitCode).toBe(0)
+		const updated = JSON.parse(await project.readFile("agents-lock.json"))
+		expect(updated.items["tools/test-tool"].files[0].hash).toBe(hash)
+	})
+})
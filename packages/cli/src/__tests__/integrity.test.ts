@@ -0,0 +1,154 @@
+import { generateKeyPairSync, sign } from "crypto"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { configWithDefaults } from "../registry/config"
+import { RegistryIntegrityError } from "../registry/errors"
+import {
+	computeFileIntegrity,
+	computeItemIntegrity,
+	verifyRegistryItem,
+} from "../registry/integrity"
+import { resolveRegistryTree } from "../registry/resolver"
+import type { RegistryItem } from "../registry/schema"
+import {
+	getRegistryPattern,
+	startMockRegistry,
+	stopMockRegistry,
+} from "./lib/mock-registry"
+
+function createItem(): RegistryItem {
+	const content = 'export const tool = "test"\n'
+
+	const item: RegistryItem = {
+		name: "test-tool",
+		type: "registry:tool",
+		dependencies: ["zod"],
+		files: [
+			{
+				path: "tools/test-tool.ts",
+				type: "registry:tool",
+				content,
+				integrity: computeFileIntegrity(content),
+			},
+		],
+	}
+	item.integrity = computeItemIntegrity(item)
+
+	return item
+}
+
+function createKeyPair() {
+	const { publicKey, privateKey } = generateKeyPairSync("ed25519")
+
+	return {
+		privateKey,
+		publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+	}
+}
+
+function signItem(item: RegistryItem, privateKey: Parameters<typeof sign>[2]) {
+	item.signature = sign(
+		null,
+		Buffer.from(item.integrity!),
+		privateKey,
+	).toString("base64")
+}
+
+describe("verifyRegistryItem", () => {
+	it("accepts items that match their integrity", () => {
+		expect(() => verifyRegistryItem(createItem(), "test-tool")).not.toThrow()
+	})
+
+	it("accepts items without integrity metadata", () => {
+		const item = createItem()
+		delete item.integrity
+		delete item.files[0]!.integrity
+
+		expect(() => verifyRegistryItem(item, "test-tool")).not.toThrow()
+	})
+
+	it("rejects files that don't match their integrity", () => {
+		const item = createItem()
+		item.files[0]!.content += "// injected\n"
+
+		expect(() => verifyRegistryItem(item, "test-tool")).toThrow(
+			/tools\/test-tool\.ts doesn't match its integrity hash/,
+		)
+	})
+
+	it("rejects items whose metadata changed", () => {
+		const item = createItem()
+		item.dependencies = ["zod", "malicious-package"]
+
+		expect(() => verifyRegistryItem(item, "test-tool")).toThrow(
+			RegistryIntegrityError,
+		)
+	})
+
+	it("verifies signatures against the registry public key", () => {
+		const { privateKey, publicKey } = createKeyPair()
+		const item = createItem()
+		signItem(item, privateKey)
+
+		expect(() =>
+			verifyRegistryItem(item, "test-tool", { publicKey }),
+		).not.toThrow()
+	})
+
+	it("rejects unsigned items when the registry has a public key", () => {
+		const { publicKey } = createKeyPair()
+
+		expect(() =>
+			verifyRegistryItem(createItem(), "test-tool", { publicKey }),
+		).toThrow(/has no signature/)
+	})
+
+	it("rejects items signed with another key", () => {
+		const item = createItem()
+		signItem(item, createKeyPair().privateKey)
+
+		expect(() =>
+			verifyRegistryItem(item, "test-tool", {
+				publicKey: createKeyPair().publicKey,
+			}),
+		).toThrow(/signature doesn't match/)
+	})
+})
+
+describe("resolveRegistryTree integrity", () => {
+	beforeAll(async () => {
+		await startMockRegistry()
+	})
+
+	afterAll(async () => {
+		await stopMockRegistry()
+	})
+
+	it("fails when a fetched item doesn't match its integrity", async () => {
+		await expect(
+			resolveRegistryTree(
+				["@test/tampered-tool"],
+				"tools",
+				configWithDefaults({
+					registries: { "@test": getRegistryPattern() },
+				}),
+			),
+		).rejects.toThrow(RegistryIntegrityError)
+	})
+
+	it("requires signatures from registries with a public key", async () => {
+		await expect(
+			resolveRegistryTree(
+				["@test/test-tool"],
+				"tools",
+				configWithDefaults({
+					registries: {
+						"@test": {
+							url: getRegistryPattern(),
+							publicKey: createKeyPair().publicKey,
+						},
+					},
+				}),
+			),
+		).rejects.toThrow(/has no signature/)
+	})
+})
@@ -12,14 +12,24 @@ export class ProcessExitError extends Error {
 // Mock functions for TUI module
 export const mockRunTui: MockInstance = vi.fn().mockResolvedValue(undefined)
 export const mockDiscoverAgents: MockInstance = vi.fn().mockResolvedValue([])
+export const mockRunHeadless: MockInstance = vi.fn().mockResolvedValue(0)
+export const mockStartServer: MockInstance = vi.fn().mockResolvedValue({
+	url: "http://127.0.0.1:4242/",
+	token: "test-token",
+	stop: vi.fn(),
+})
 
 // Mock functions for dependencies
 export const mockGetConfig: MockInstance = vi.fn()
+export const mockGetInstalledDirectories: MockInstance = vi
+	.fn()
+	.mockReturnValue(["/installed"])
 export const mockPerformRemoteSync: MockInstance = vi.fn().mockResolvedValue({
 	success: true,
 	cancelled: false,
 	plan: { needsSync: false, toSync: [], dependencies: [], devDependencies: [] },
 })
+export const mockReadStdin: MockInstance = vi.fn().mockResolvedValue(null)
 export const mockGetCachedItemsPaths: MockInstance = vi.fn().mockReturnValue({
 	agents: "/cache/agents",
 	tools: "/cache/tools",
@@ -62,7 +72,15 @@ export function resetAllMocks(): void {
 	vi.clearAllMocks()
 	mockRunTui.mockResolvedValue(undefined)
 	mockDiscoverAgents.mockResolvedValue([])
+	mockRunHeadless.mockResolvedValue(0)
+	mockStartServer.mockResolvedValue({
+		url: "http://127.0.0.1:4242/",
+		token: "test-token",
+		stop: vi.fn(),
+	})
+	mockReadStdin.mockResolvedValue(null)
 	mockGetConfig.mockResolvedValue(null)
+	mockGetInstalledDirectories.mockReturnValue(["/installed"])
 	mockPerformRemoteSync.mockResolvedValue({
 		success: true,
 		cancelled: false,
@@ -6,6 +6,9 @@ import path from "path"
 // Use TypeScript source directly with bun
 const CLI_PATH = path.resolve(__dirname, "../../index.ts")
 
+// Keep the content store of the CLI out of the user's cache directory
+const CACHE_DIR = path.join(tmpdir(), "cli-test-cache")
+
 interface TestProject {
 	path: string
 	readFile: (filePath: string) => Promise<string>
@@ -126,6 +129,7 @@ export async function runCLI(
 			timeout: options.timeout ?? 10000, // 10 second timeout by default
 			env: {
 				...process.env,
+				XDG_CACHE_HOME: CACHE_DIR,
 				...options.env,
 				// Disable colors for easier testing
 				NO_COLOR: "1",
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest"
+import {
+	findLockfileItems,
+	getLockedFileHashes,
+	getLockedTargets,
+	hashContent,
+	LOCKFILE_NAME,
+	type LockfileItem,
+	mergeLockfileItems,
+	readLockfile,
+	writeLockfile,
+} from "../utils/lockfile"
+import { createTestProject } from "./lib/test-utils"
+
+function createLockfileItem(overrides: Partial<LockfileItem> = {}) {
+	return {
+		name: "test-agent",
+		type: "registry:agent",
+		category: "agents",
+		source: "test-agent",
+		resolved: "http://localhost/agents/test-agent.json",
+		direct: true,
+		registryDependencies: [],
+		dependencies: [],
+		devDependencies: [],
+		files: [
+			{
+				path: "agents/test-agent.ts",
+				target: "agents/test-agent.ts",
+				hash: hashContent("export const agent = {}\n"),
+			},
+		],
+		...overrides,
+	} satisfies LockfileItem
+}
+
+describe("lockfile", () => {
+	describe("hashContent", () => {
+		it("produces a sha256 hash", () => {
+			expect(hashContent("hello")).toMatch(/^sha256-[a-f0-9]{64}$/)
+		})
+
+		it("ignores line ending differences", () => {
+			expect(hashContent("a\r\nb\r\n")).toBe(hashContent("a\nb\n"))
+		})
+	})
+
+	describe("readLockfile / writeLockfile", () => {
+		it("returns null when the lockfile does not exist", async () => {
+			const project = await createTestProject()
+
+			expect(await readLockfile(project.path)).toBeNull()
+
+			await project.cleanup()
+		})
+
+		it("writes and reads back a lockfile", async () => {
+			const project = await createTestProject()
+			const lockfile = mergeLockfileItems(null, [createLockfileItem()])
+
+			await writeLockfile(project.path, lockfile)
+
+			expect(await project.exists(LOCKFILE_NAME)).toBe(true)
+			expect(await readLockfile(project.path)).toEqual(lockfile)
+
+			await project.cleanup()
+		})
+
+		it("sorts items by key", async () => {
+			const project = await createTestProject()
+			const lockfile = mergeLockfileItems(null, [
+				createLockfileItem({ name: "z-tool", category: "tools" }),
+				createLockfileItem({ name: "a-agent" }),
+			])
+
+			await writeLockfile(project.path, lockfile)
+
+			const content = JSON.parse(await project.readFile(LOCKFILE_NAME))
+			expect(Object.keys(content.items)).toEqual([
+				"agents/a-agent",
+				"tools/z-tool",
+			])
+
+			await project.cleanup()
+		})
+
+		it("throws for an invalid lockfile", async () => {
+			const project = await createTestProject({
+				files: {
+					[LOCKFILE_NAME]: JSON.stringify({ lockfileVersion: 99 }),
+				},
+			})
+
+			await expect(readLockfile(project.path)).rejects.toThrow(
+				`Invalid ${LOCKFILE_NAME}`,
+			)
+
+			await project.cleanup()
+		})
+	})
+
+	describe("mergeLockfileItems", () => {
+		it("keeps the direct flag of existing items", () => {
+			const lockfile = mergeLockfileItems(null, [createLockfileItem()])
+			const merged = mergeLockfileItems(lockfile, [
+				createLockfileItem({ direct: false, resolved: "http://new" }),
+			])
+
+			expect(merged.items["agents/test-agent"]?.direct).toBe(true)
+			expect(merged.items["agents/test-agent"]?.resolved).toBe("http://new")
+		})
+
+		it("keeps items that were not reinstalled", () => {
+			const lockfile = mergeLockfileItems(null, [createLockfileItem()])
+			const merged = mergeLockfileItems(lockfile, [
+				createLockfileItem({ name: "bash", category: "tools" }),
+			])
+
+			expect(Object.keys(merged.items).sort()).toEqual([
+				"agents/test-agent",
+				"tools/bash",
+			])
+		})
+	})
+
+	describe("findLockfileItems", () => {
+		it("finds items by name and category", () => {
+			const lockfile = mergeLockfileItems(null, [
+				createLockfileItem(),
+				createLockfileItem({ category: "prompts", type: "registry:prompt" }),
+			])
+
+			expect(findLockfileItems(lockfile, "test-agent")).toHaveLength(2)
+			expect(findLockfileItems(lockfile, "test-agent", "prompts")).toHaveLength(
+				1,
+			)
+			expect(findLockfileItems(lockfile, "missing")).toHaveLength(0)
+			expect(findLockfileItems(null, "test-agent")).toHaveLength(0)
+		})
+	})
+
+	describe("getLockedFileHashes", () => {
+		it("maps absolute file paths to hashes", () => {
+			const item = createLockfileItem()
+			const lockfile = mergeLockfileItems(null, [item])
+
+			const hashes = getLockedFileHashes(lockfile, "/project")
+
+			expect(hashes.get("/project/agents/test-agent.ts")).toBe(
+				item.files[0]?.hash,
+			)
+		})
+	})
+
+	describe("getLockedTargets", () => {
+		it("maps registry file paths to their targets", () => {
+			const item = createLockfileItem({
+				files: [
+					{
+						path: "agents/test-agent.ts",
+						target: "custom/test-agent.ts",
+						hash: hashContent("export const agent = {}\n"),
+					},
+				],
+			})
+
+			const targets = getLockedTargets([item])
+
+			expect(targets.get("agents/test-agent.ts")).toBe("custom/test-agent.ts")
+		})
+	})
+})
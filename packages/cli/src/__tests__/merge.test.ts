@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest"
+import {
+	CONFLICT_MARKERS,
+	formatMergeResult,
+	hasConflicts,
+	mergeThreeWay,
+} from "../utils/merge"
+
+function lines(...values: string[]) {
+	return `${values.join("\n")}\n`
+}
+
+const base = lines("a", "b", "c", "d", "e", "f", "g")
+
+describe("mergeThreeWay", () => {
+	it("returns the content unchanged when nothing changed", () => {
+		const chunks = mergeThreeWay(base, base, base)
+
+		expect(hasConflicts(chunks)).toBe(false)
+		expect(formatMergeResult(chunks).content).toBe(base)
+	})
+
+	it("applies registry changes when there are no local changes", () => {
+		const registry = lines("a", "B", "c", "d", "e", "f", "g")
+		const chunks = mergeThreeWay(base, base, registry)
+
+		expect(formatMergeResult(chunks).content).toBe(registry)
+	})
+
+	it("keeps local changes when the registry didn't change", () => {
+		const local = lines("a", "b", "c", "local", "e", "f", "g")
+		const chunks = mergeThreeWay(base, local, base)
+
+		expect(formatMergeResult(chunks).content).toBe(local)
+	})
+
+	it("merges non-overlapping changes from both sides", () => {
+		const local = lines("a", "local", "c", "d", "e", "f", "g")
+		const registry = lines("a", "b", "c", "d", "e", "registry", "g", "h")
+		const chunks = mergeThreeWay(base, local, registry)
+
+		expect(hasConflicts(chunks)).toBe(false)
+		expect(formatMergeResult(chunks).content).toBe(
+			lines("a", "local", "c", "d", "e", "registry", "g", "h"),
+		)
+	})
+
+	it("merges identical changes on both sides", () => {
+		const changed = lines("a", "b", "same", "d", "e", "f", "g")
+		const chunks = mergeThreeWay(base, changed, changed)
+
+		expect(hasConflicts(chunks)).toBe(false)
+		expect(formatMergeResult(chunks).content).toBe(changed)
+	})
+
+	it("handles deletions", () => {
+		const local = lines("a", "b", "c", "d", "e", "f")
+		const registry = lines("b", "c", "d", "e", "f", "g")
+		const chunks = mergeThreeWay(base, local, registry)
+
+		expect(formatMergeResult(chunks).content).toBe(
+			lines("b", "c", "d", "e", "f"),
+		)
+	})
+
+	it("reports overlapping changes as conflicts", () => {
+		const local = lines("a", "b", "local", "d", "e", "f", "g")
+		const registry = lines("a", "b", "registry", "d", "e", "f", "g")
+		const chunks = mergeThreeWay(base, local, registry)
+
+		expect(hasConflicts(chunks)).toBe(true)
+
+		const conflict = chunks.find((chunk) => chunk.type === "conflict")
+		expect(conflict).toEqual({
+			type: "conflict",
+			base: ["c"],
+			local: ["local"],
+			registry: ["registry"],
+		})
+	})
+
+	it("treats the whole file as a conflict without a base", () => {
+		const chunks = mergeThreeWay("", lines("local"), lines("registry"))
+
+		expect(chunks).toEqual([
+			{ type: "conflict", base: [], local: ["local"], registry: ["registry"] },
+		])
+	})
+})
+
+describe("formatMergeResult", () => {
+	const local = lines("a", "b", "local", "d", "e", "f", "g")
+	const registry = lines("a", "b", "registry", "d", "e", "f", "g")
+
+	it("writes conflict markers by default", () => {
+		const result = formatMergeResult(mergeThreeWay(base, local, registry))
+
+		expect(result.conflicts).toBe(1)
+		expect(result.content).toBe(
+			lines(
+				"a",
+				"b",
+				CONFLICT_MARKERS.start,
+				"local",
+				CONFLICT_MARKERS.base,
+				"c",
+				CONFLICT_MARKERS.separator,
+				"registry",
+				CONFLICT_MARKERS.end,
+				"d",
+				"e",
+				"f",
+				"g",
+			),
+		)
+	})
+
+	it("resolves conflicts with the local version", () => {
+		const result = formatMergeResult(
+			mergeThreeWay(base, local, registry),
+			() => "local",
+		)
+
+		expect(result.conflicts).toBe(0)
+		expect(result.content).toBe(local)
+	})
+
+	it("resolves conflicts with the registry version", () => {
+		const result = formatMergeResult(
+			mergeThreeWay(base, local, registry),
+			() => "registry",
+		)
+
+		expect(result.conflicts).toBe(0)
+		expect(result.content).toBe(registry)
+	})
+})
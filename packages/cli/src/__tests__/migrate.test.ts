@@ -5,6 +5,7 @@ import {
 	mockDiscoverAgents,
 	mockGetCachedItemsPaths,
 	mockGetConfig,
+	mockGetInstalledDirectories,
 	mockHandleError,
 	mockLogger,
 	mockPerformRemoteSync,
@@ -23,6 +24,7 @@ vi.mock("awesome-ai-tui", () => ({
 
 vi.mock("@/src/utils/get-config", () => ({
 	getConfig: mockGetConfig,
+	getInstalledDirectories: mockGetInstalledDirectories,
 }))
 
 vi.mock("@/src/utils/remote-approval", () => ({
@@ -244,6 +246,7 @@ describe("migrate command", () => {
 				promptName: "my-migration",
 				initialAgent: "migration-planning-agent",
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 
@@ -258,6 +261,7 @@ describe("migrate command", () => {
 				promptName: "my-migration",
 				initialAgent: "migration-planning-agent",
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 	})
@@ -279,6 +283,7 @@ describe("migrate command", () => {
 				promptName: "my-migration",
 				initialAgent: "migration-planning-agent",
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 
@@ -298,6 +303,7 @@ describe("migrate command", () => {
 				promptName: "my-migration",
 				initialAgent: "migration-planning-agent",
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 
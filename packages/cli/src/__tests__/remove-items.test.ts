@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest"
+import { createConfig } from "../utils/get-config"
+import {
+	getLockfileKey,
+	hashContent,
+	type Lockfile,
+	type LockfileItem,
+	mergeLockfileItems,
+} from "../utils/lockfile"
+import { planRemoval, removeFiles } from "../utils/remove-items"
+import { createTestProject } from "./lib/test-utils"
+
+function createItem(
+	category: LockfileItem["category"],
+	name: string,
+	overrides: Partial<LockfileItem> = {},
+): LockfileItem {
+	return {
+		name,
+		type: "registry:agent",
+		category,
+		source: name,
+		resolved: `http://localhost/${category}/${name}.json`,
+		direct: false,
+		registryDependencies: [],
+		dependencies: [],
+		devDependencies: [],
+		files: [
+			{
+				path: `${category}/${name}.ts`,
+				target: `${category}/${name}.ts`,
+				hash: "sha256-test",
+			},
+		],
+		...overrides,
+	}
+}
+
+function libFile(path: string) {
+	return { path, target: path, hash: "sha256-test" }
+}
+
+async function setup() {
+	const project = await createTestProject({
+		packageJson: {
+			name: "test-project",
+			dependencies: { ai: "^6.0.0", zod: "^4.0.0" },
+		},
+	})
+	const config = createConfig({ resolvedPaths: { cwd: project.path } })
+
+	const codingAgent = createItem("agents", "coding-agent", {
+		direct: true,
+		registryDependencies: ["tools:bash", "prompts:coding-agent"],
+		dependencies: ["ai@beta"],
+		files: [
+			libFile("agents/coding-agent.ts"),
+			libFile("agents/lib/context.ts"),
+			libFile("agents/lib/permissions.ts"),
+		],
+	})
+	const planningAgent = createItem("agents", "planning-agent", {
+		direct: true,
+		registryDependencies: ["tools:bash"],
+		dependencies: ["zod"],
+		files: [
+			libFile("agents/planning-agent.ts"),
+			libFile("agents/lib/context.ts"),
+		],
+	})
+	const bash = createItem("tools", "bash", { type: "registry:tool" })
+	const prompt = createItem("prompts", "coding-agent", {
+		type: "registry:prompt",
+	})
+
+	const lockfile: Lockfile = mergeLockfileItems(
+		null,
+		[codingAgent, planningAgent, bash, prompt],
+		["ai", "zod"],
+	)
+
+	return { project, config, lockfile, codingAgent, planningAgent }
+}
+
+describe("planRemoval", () => {
+	it("removes files that only the item uses", async () => {
+		const { project, config, lockfile, codingAgent } = await setup()
+
+		const plan = planRemoval(lockfile, [codingAgent], config)
+
+		expect(plan.files).toEqual(["agents/coding-agent.ts"])
+
+		await project.cleanup()
+	})
+
+	it("finds lib files and dependencies that are no longer used", async () => {
+		const { project, config, lockfile, codingAgent } = await setup()
+
+		const plan = planRemoval(lockfile, [codingAgent], config)
+
+		// context.ts is still used by the planning agent
+		expect(plan.orphanedFiles.sort()).toEqual([
+			"agents/lib/permissions.ts",
+			"prompts/coding-agent.ts",
+		])
+		// bash is still a dependency of the planning agent
+		expect(plan.orphanedItems.map(getLockfileKey)).toEqual([
+			"prompts/coding-agent",
+		])
+		expect(plan.orphanedDependencies).toEqual(["ai"])
+
+		await project.cleanup()
+	})
+
+	it("orphans shared dependencies when every dependent is removed", async () => {
+		const { project, config, lockfile, codingAgent, planningAgent } =
+			await setup()
+
+		const plan = planRemoval(lockfile, [codingAgent, planningAgent], config)
+
+		expect(plan.orphanedItems.map(getLockfileKey).sort()).toEqual([
+			"prompts/coding-agent",
+			"tools/bash",
+		])
+		expect(plan.orphanedFiles).toContain("agents/lib/context.ts")
+		expect(plan.orphanedFiles).toContain("tools/bash.ts")
+		expect(plan.orphanedDependencies.sort()).toEqual(["ai", "zod"])
+
+		await project.cleanup()
+	})
+
+	it("only orphans dependencies that were added for items", async () => {
+		const { project, config, lockfile, codingAgent, planningAgent } =
+			await setup()
+		lockfile.addedDependencies = ["ai"]
+
+		const plan = planRemoval(lockfile, [codingAgent, planningAgent], config)
+
+		expect(plan.orphanedDependencies).toEqual(["ai"])
+
+		await project.cleanup()
+	})
+
+	it("finds files that were changed since they were installed", async () => {
+		const { project, config, lockfile, codingAgent } = await setup()
+		const content = "export const agent = {}\n"
+		codingAgent.files[0]!.hash = hashContent(content)
+		await project.writeFile("agents/coding-agent.ts", content)
+		await project.writeFile("agents/lib/permissions.ts", "// local\n")
+
+		const plan = planRemoval(lockfile, [codingAgent], config)
+
+		expect(plan.modifiedFiles).toEqual(["agents/lib/permissions.ts"])
+
+		await project.cleanup()
+	})
+
+	it("keeps dependencies that were also added directly", async () => {
+		const { project, config, lockfile, codingAgent, planningAgent } =
+			await setup()
+		const bash = lockfile.items["tools/bash"]!
+		bash.direct = true
+
+		const plan = planRemoval(lockfile, [codingAgent, planningAgent], config)
+
+		expect(plan.orphanedItems.map(getLockfileKey)).toEqual([
+			"prompts/coding-agent",
+		])
+
+		await project.cleanup()
+	})
+
+	it("keeps removed items that other items still depend on", async () => {
+		const { project, config, lockfile } = await setup()
+		const bash = lockfile.items["tools/bash"]!
+		bash.direct = true
+
+		const plan = planRemoval(lockfile, [bash], config)
+
+		expect(plan.dependedItems.map(getLockfileKey)).toEqual(["tools/bash"])
+		expect(plan.files).toEqual([])
+		expect(plan.orphanedItems).toEqual([])
+
+		await project.cleanup()
+	})
+})
+
+describe("removeFiles", () => {
+	it("removes files and the folders they leave empty", async () => {
+		const project = await createTestProject({
+			files: {
+				"tools/nested/tool.ts": "export {}",
+				"tools/other.ts": "export {}",
+			},
+		})
+		const config = createConfig({
+			resolvedPaths: { cwd: project.path, tools: `${project.path}/tools` },
+		})
+
+		await removeFiles(["tools/nested/tool.ts"], config)
+
+		expect(await project.exists("tools/nested")).toBe(false)
+		expect(await project.exists("tools/other.ts")).toBe(true)
+
+		await project.cleanup()
+	})
+})
@@ -0,0 +1,110 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { startMockRegistry, stopMockRegistry } from "./lib/mock-registry"
+import { createTestProject, runCLI } from "./lib/test-utils"
+
+describe("remove command", () => {
+	let registryUrl: string
+
+	beforeAll(async () => {
+		const registry = await startMockRegistry()
+		registryUrl = registry.url
+	})
+
+	afterAll(async () => {
+		await stopMockRegistry()
+	})
+
+	function createProjectWithRegistry() {
+		return createTestProject({
+			packageJson: { name: "test-project" },
+			tsconfig: {
+				compilerOptions: {
+					baseUrl: ".",
+					paths: {
+						"@/*": ["./*"],
+					},
+				},
+			},
+			files: {
+				"agents.json": JSON.stringify({
+					tsx: true,
+					aliases: {
+						agents: "@/agents",
+						tools: "@/tools",
+						prompts: "@/prompts",
+					},
+					registries: {
+						"@test": `${registryUrl}/{type}/{name}.json`,
+					},
+				}),
+			},
+		})
+	}
+
+	it("requires agents-lock.json", async () => {
+		const project = await createProjectWithRegistry()
+
+		const result = await runCLI(["remove", "test-tool"], { cwd: project.path })
+
+		expect(result.exitCode).toBe(1)
+		expect(result.stdout).toContain("agents-lock.json")
+	})
+
+	it("previews the files with --dry-run", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/tool-with-lib", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		const result = await runCLI(["remove", "tool-with-lib", "--dry-run"], {
+			cwd: project.path,
+		})
+
+		expect(result.exitCode).toBe(0)
+		expect(result.stdout).toContain("tools/tool-with-lib.ts")
+		expect(result.stdout).toContain("tools/lib/helper.ts")
+		expect(await project.exists("tools/tool-with-lib.ts")).toBe(true)
+	})
+
+	it("removes the item, its orphaned files and the lockfile entry", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/tool-with-lib", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+		await runCLI(["add", "@test/test-tool", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		const result = await runCLI(["remove", "tool-with-lib", "--yes"], {
+			cwd: project.path,
+		})
+
+		expect(result.exitCode).toBe(0)
+		expect(await project.exists("tools/tool-with-lib.ts")).toBe(false)
+		expect(await project.exists("tools/lib/helper.ts")).toBe(false)
+		expect(await project.exists("tools/test-tool.ts")).toBe(true)
+
+		const lockfile = JSON.parse(await project.readFile("agents-lock.json"))
+		expect(Object.keys(lockfile.items)).toEqual(["tools/test-tool"])
+	})
+
+	it("keeps files with local changes", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/tool-with-lib", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+		await project.writeFile("tools/lib/helper.ts", "// local\n")
+
+		const result = await runCLI(["remove", "tool-with-lib", "--yes"], {
+			cwd: project.path,
+		})
+
+		expect(result.exitCode).toBe(0)
+		expect(result.stdout).toContain("changed since they were installed")
+		expect(await project.exists("tools/tool-with-lib.ts")).toBe(false)
+		expect(await project.readFile("tools/lib/helper.ts")).toBe("// local\n")
+	})
+})
@@ -5,10 +5,13 @@ import {
 	mockDiscoverAgents,
 	mockGetCachedItemsPaths,
 	mockGetConfig,
+	mockGetInstalledDirectories,
 	mockHandleError,
 	mockLogger,
 	mockPerformRemoteSync,
 	mockProcessExit,
+	mockReadStdin,
+	mockRunHeadless,
 	mockRunTui,
 	ProcessExitError,
 	resetAllMocks,
@@ -18,11 +21,13 @@ import {
 // Set up module mocks
 vi.mock("awesome-ai-tui", () => ({
 	runTui: mockRunTui,
+	runHeadless: mockRunHeadless,
 	discoverAgents: mockDiscoverAgents,
 }))
 
 vi.mock("@/src/utils/get-config", () => ({
 	getConfig: mockGetConfig,
+	getInstalledDirectories: mockGetInstalledDirectories,
 }))
 
 vi.mock("@/src/utils/remote-approval", () => ({
@@ -37,6 +42,10 @@ vi.mock("@/src/utils/logger", () => ({
 	logger: mockLogger,
 }))
 
+vi.mock("@/src/utils/read-stdin", () => ({
+	readStdin: mockReadStdin,
+}))
+
 vi.mock("@/src/utils/handle-error", () => ({
 	handleError: mockHandleError,
 }))
@@ -214,6 +223,7 @@ describe("run command", () => {
 				agentPaths: ["/cache/agents"],
 				initialAgent: "my-agent",
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 
@@ -226,6 +236,7 @@ describe("run command", () => {
 				agentPaths: ["/cache/agents"],
 				initialAgent: "my-agent",
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 	})
@@ -242,6 +253,7 @@ describe("run command", () => {
 				agentPaths: ["/my/agents"],
 				initialAgent: "my-agent",
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 
@@ -256,6 +268,7 @@ describe("run command", () => {
 				agentPaths: ["/my/agents", "/cache/agents"],
 				initialAgent: "my-agent",
 				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
 			})
 		})
 
@@ -277,4 +290,130 @@ describe("run command", () => {
 			)
 		})
 	})
+
+	describe("headless mode", () => {
+		it("calls runHeadless with the prompt from --print", async () => {
+			mockGetConfig.mockResolvedValue(
+				createMockConfig({ agents: "/my/agents" }),
+			)
+
+			await expect(
+				run.parseAsync([
+					"bun",
+					"test",
+					"my-agent",
+					"--print",
+					"fix the build",
+					"--approve",
+					"all",
+				]),
+			).rejects.toThrow(ProcessExitError)
+
+			expect(mockRunHeadless).toHaveBeenCalledWith({
+				agentPaths: ["/my/agents"],
+				initialAgent: "my-agent",
+				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
+				prompt: "fix the build",
+				approve: "all",
+				outputFormat: "text",
+			})
+			expect(mockRunTui).not.toHaveBeenCalled()
+			expect(process.exit).toHaveBeenCalledWith(0)
+		})
+
+		it("reads the prompt from stdin when --print has no value", async () => {
+			mockGetConfig.mockResolvedValue(createMockConfig())
+			mockReadStdin.mockResolvedValue("summarize the changes")
+
+			await expect(
+				run.parseAsync(["bun", "test", "my-agent", "--print"]),
+			).rejects.toThrow(ProcessExitError)
+
+			expect(mockRunHeadless).toHaveBeenCalledWith(
+				expect.objectContaining({
+					prompt: "summarize the changes",
+					approve: "none",
+				}),
+			)
+		})
+
+		it("exits with error when there is no prompt", async () => {
+			mockGetConfig.mockResolvedValue(createMockConfig())
+
+			await expect(
+				run.parseAsync(["bun", "test", "my-agent", "--print"]),
+			).rejects.toThrow(ProcessExitError)
+
+			expect(mockLogger.error).toHaveBeenCalledWith(
+				"A prompt is required with --print. Pass it as an argument or pipe it to stdin.",
+			)
+			expect(mockRunHeadless).not.toHaveBeenCalled()
+			expect(process.exit).toHaveBeenCalledWith(1)
+		})
+
+		it("uses the default agent instead of listing agents", async () => {
+			mockGetConfig.mockResolvedValue(createMockConfig())
+
+			await expect(
+				run.parseAsync(["bun", "test", "--print", "hello"]),
+			).rejects.toThrow(ProcessExitError)
+
+			expect(mockLogger.info).not.toHaveBeenCalledWith("Available agents:")
+			expect(mockRunHeadless).toHaveBeenCalledWith(
+				expect.objectContaining({ initialAgent: undefined }),
+			)
+		})
+
+		it("exits with the status of the headless run", async () => {
+			mockGetConfig.mockResolvedValue(createMockConfig())
+			mockRunHeadless.mockResolvedValue(2)
+
+			await expect(
+				run.parseAsync(["bun", "test", "my-agent", "--print", "deploy"]),
+			).rejects.toThrow(ProcessExitError)
+
+			expect(process.exit).toHaveBeenCalledWith(2)
+		})
+
+		it("runs headless with --output-format stream-json", async () => {
+			mockGetConfig.mockResolvedValue(createMockConfig())
+			mockReadStdin.mockResolvedValue("list the routes")
+
+			await expect(
+				run.parseAsync([
+					"bun",
+					"test",
+					"my-agent",
+					"--output-format",
+					"stream-json",
+				]),
+			).rejects.toThrow(ProcessExitError)
+
+			expect(mockRunHeadless).toHaveBeenCalledWith(
+				expect.objectContaining({
+					prompt: "list the routes",
+					outputFormat: "stream-json",
+				}),
+			)
+			expect(mockRunTui).not.toHaveBeenCalled()
+		})
+
+		it("rejects unknown approval policies", async () => {
+			mockGetConfig.mockResolvedValue(createMockConfig())
+
+			await run.parseAsync([
+				"bun",
+				"test",
+				"my-agent",
+				"--print",
+				"hello",
+				"--approve",
+				"sometimes",
+			])
+
+			expect(mockHandleError).toHaveBeenCalled()
+			expect(mockRunHeadless).not.toHaveBeenCalled()
+		})
+	})
 })
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+	createMockConfig,
+	mockGetCachedItemsPaths,
+	mockGetConfig,
+	mockGetInstalledDirectories,
+	mockHandleError,
+	mockLogger,
+	mockPerformRemoteSync,
+	mockProcessExit,
+	mockStartServer,
+	ProcessExitError,
+	resetAllMocks,
+	restoreProcessExit,
+} from "./lib/mock-tui"
+
+// Set up module mocks
+vi.mock("awesome-ai-tui", () => ({
+	startServer: mockStartServer,
+}))
+
+vi.mock("@/src/utils/get-config", () => ({
+	getConfig: mockGetConfig,
+	getInstalledDirectories: mockGetInstalledDirectories,
+}))
+
+vi.mock("@/src/utils/remote-approval", () => ({
+	performRemoteSync: mockPerformRemoteSync,
+}))
+
+vi.mock("@/src/utils/remote-cache", () => ({
+	getCachedItemsPaths: mockGetCachedItemsPaths,
+}))
+
+vi.mock("@/src/utils/logger", () => ({
+	logger: mockLogger,
+}))
+
+vi.mock("@/src/utils/handle-error", () => ({
+	handleError: mockHandleError,
+}))
+
+// Import after mocks are set up
+import { serve } from "../commands/serve"
+
+describe("serve command", () => {
+	beforeEach(() => {
+		resetAllMocks()
+		mockProcessExit()
+	})
+
+	afterEach(() => {
+		restoreProcessExit()
+	})
+
+	describe("validation errors", () => {
+		it("exits with error when --remote used without agent name", async () => {
+			await expect(
+				serve.parseAsync(["bun", "test", "--remote"]),
+			).rejects.toThrow(ProcessExitError)
+
+			expect(mockLogger.error).toHaveBeenCalledWith(
+				"An agent name is required when using --remote or --remote-only.",
+			)
+			expect(process.exit).toHaveBeenCalledWith(1)
+		})
+
+		it("exits with error when there is no config", async () => {
+			mockGetConfig.mockResolvedValue(null)
+
+			await expect(serve.parseAsync(["bun", "test"])).rejects.toThrow(
+				ProcessExitError,
+			)
+
+			expect(mockLogger.error).toHaveBeenCalledWith(
+				expect.stringContaining("agents.json not found"),
+			)
+			expect(mockStartServer).not.toHaveBeenCalled()
+		})
+
+		it("rejects invalid ports", async () => {
+			mockGetConfig.mockResolvedValue(createMockConfig())
+
+			await serve.parseAsync(["bun", "test", "--port", "not-a-port"])
+
+			expect(mockHandleError).toHaveBeenCalled()
+			expect(mockStartServer).not.toHaveBeenCalled()
+		})
+	})
+
+	describe("startServer invocation", () => {
+		it("serves local agents on the default address", async () => {
+			mockGetConfig.mockResolvedValue(
+				createMockConfig({ agents: "/my/agents" }),
+			)
+
+			await serve.parseAsync(["bun", "test"])
+
+			expect(mockStartServer).toHaveBeenCalledWith({
+				agentPaths: ["/my/agents"],
+				initialAgent: undefined,
+				cwd: expect.any(String),
+				protectedDirectories: ["/installed"],
+				port: 4242,
+				hostname: "127.0.0.1",
+			})
+			expect(mockLogger.success).toHaveBeenCalledWith(
+				"Serving agents at http://127.0.0.1:4242/",
+			)
+			expect(mockLogger.info).toHaveBeenCalledWith("Token: test-token")
+			expect(mockLogger.warn).not.toHaveBeenCalled()
+		})
+
+		it("passes the agent, port, and host", async () => {
+			mockGetConfig.mockResolvedValue(createMockConfig())
+
+			await serve.parseAsync([
+				"bun",
+				"test",
+				"coding-agent",
+				"--port",
+				"8080",
+				"--host",
+				"0.0.0.0",
+			])
+
+			expect(mockStartServer).toHaveBeenCalledWith(
+				expect.objectContaining({
+					initialAgent: "coding-agent",
+					port: 8080,
+					hostname: "0.0.0.0",
+				}),
+			)
+			expect(mockLogger.warn).toHaveBeenCalledWith(
+				expect.stringContaining("reachable from other machines"),
+			)
+		})
+
+		it("serves local + remote agents with --remote", async () => {
+			mockGetConfig.mockResolvedValue(
+				createMockConfig({ agents: "/my/agents" }),
+			)
+
+			await serve.parseAsync(["bun", "test", "coding-agent", "--remote"])
+
+			expect(mockPerformRemoteSync).toHaveBeenCalledWith(
+				[{ name: "coding-agent", type: "agents" }],
+				{ yes: false },
+			)
+			expect(mockStartServer).toHaveBeenCalledWith(
+				expect.objectContaining({
+					agentPaths: ["/my/agents", "/cache/agents"],
+				}),
+			)
+		})
+
+		it("serves only remote agents with --remote-only", async () => {
+			await serve.parseAsync(["bun", "test", "coding-agent", "--remote-only"])
+
+			expect(mockStartServer).toHaveBeenCalledWith(
+				expect.objectContaining({ agentPaths: ["/cache/agents"] }),
+			)
+		})
+	})
+})
@@ -0,0 +1,175 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { startMockRegistry, stopMockRegistry } from "./lib/mock-registry"
+import { createTestProject, runCLI } from "./lib/test-utils"
+
+describe("update command", () => {
+	let registryUrl: string
+
+	beforeAll(async () => {
+		const registry = await startMockRegistry()
+		registryUrl = registry.url
+	})
+
+	afterAll(async () => {
+		await stopMockRegistry()
+	})
+
+	function createProjectWithRegistry() {
+		return createTestProject({
+			packageJson: { name: "test-project" },
+			tsconfig: {
+				compilerOptions: {
+					baseUrl: ".",
+					paths: {
+						"@/*": ["./*"],
+					},
+				},
+			},
+			files: {
+				"agents.json": JSON.stringify({
+					tsx: true,
+					aliases: {
+						agents: "@/agents",
+						tools: "@/tools",
+						prompts: "@/prompts",
+					},
+					registries: {
+						"@test": `${registryUrl}/{type}/{name}.json`,
+					},
+				}),
+			},
+		})
+	}
+
+	it("requires agents-lock.json", async () => {
+		const project = await createProjectWithRegistry()
+
+		const result = await runCLI(["update", "--all"], { cwd: project.path })
+
+		expect(result.exitCode).toBe(1)
+		expect(result.stdout + result.stderr).toContain("agents-lock.json")
+	})
+
+	it("requires item names or --all", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/test-tool", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		const result = await runCLI(["update"], { cwd: project.path })
+
+		expect(result.exitCode).toBe(1)
+		expect(result.stdout).toContain("specify the items to update")
+	})
+
+	it("fails for items that are not installed", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/test-tool", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		const result = await runCLI(["update", "missing-tool"], {
+			cwd: project.path,
+		})
+
+		expect(result.exitCode).toBe(1)
+		expect(result.stdout).toContain("is not installed")
+	})
+
+	it("reports items that are already up to date", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/test-tool", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		const result = await runCLI(["update", "test-tool"], {
+			cwd: project.path,
+		})
+
+		expect(result.exitCode).toBe(0)
+		expect(result.stdout).toContain("Already up to date")
+	})
+
+	it("restores deleted files and keeps local changes", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/tool-with-lib", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		const content = await project.readFile("tools/tool-with-lib.ts")
+		await project.writeFile("tools/tool-with-lib.ts", `// local\n${content}`)
+		await fs.rm(path.join(project.path, "tools/lib/helper.ts"))
+
+		const result = await runCLI(["update", "--all"], { cwd: project.path })
+
+		expect(result.exitCode).toBe(0)
+		expect(await project.exists("tools/lib/helper.ts")).toBe(true)
+		expect(await project.readFile("tools/tool-with-lib.ts")).toContain(
+			"// local",
+		)
+	})
+
+	it("updates files at their locked targets", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/test-tool", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		const lockfile = JSON.parse(await project.readFile("agents-lock.json"))
+		lockfile.items["tools/test-tool"].files[0].target = "custom/test-tool.ts"
+		await project.writeFile("agents-lock.json", JSON.stringify(lockfile))
+		await fs.mkdir(path.join(project.path, "custom"))
+		await fs.rename(
+			path.join(project.path, "tools/test-tool.ts"),
+			path.join(project.path, "custom/test-tool.ts"),
+		)
+
+		const result = await runCLI(["update", "test-tool"], {
+			cwd: project.path,
+		})
+
+		expect(result.exitCode).toBe(0)
+		expect(result.stdout).toContain("Already up to date")
+		expect(await project.exists("tools/test-tool.ts")).toBe(false)
+		const updated = JSON.parse(await project.readFile("agents-lock.json"))
+		expect(updated.items["tools/test-tool"].files[0].target).toBe(
+			"custom/test-tool.ts",
+		)
+	})
+
+	it("fetches the installed version when it's not in the cache", async () => {
+		const project = await createProjectWithRegistry()
+
+		await runCLI(["add", "@test/versioned-tool@1.0.0", "--tool", "--yes"], {
+			cwd: project.path,
+		})
+
+		// Locked from a range before a newer version was published
+		const lockfile = JSON.parse(await project.readFile("agents-lock.json"))
+		lockfile.items["tools/versioned-tool"].source =
+			"@test/versioned-tool@^1.0.0"
+		await project.writeFile("agents-lock.json", JSON.stringify(lockfile))
+		await project.writeFile(
+			"tools/versioned-tool.ts",
+			'export const version = "1.0.0"\n// local\n',
+		)
+
+		const result = await runCLI(["update", "versioned-tool", "--yes"], {
+			cwd: project.path,
+			env: { XDG_CACHE_HOME: path.join(project.path, ".empty-cache") },
+		})
+
+		expect(result.exitCode).toBe(0)
+		expect(result.stdout).not.toContain("No installed version")
+		expect(await project.readFile("tools/versioned-tool.ts")).toContain(
+			'||||||| base\nexport const version = "1.0.0"\n',
+		)
+	})
+})
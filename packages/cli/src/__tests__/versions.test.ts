@@ -0,0 +1,111 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { configWithDefaults } from "../registry/config"
+import {
+	RegistryVersionConflictError,
+	RegistryVersionNotFoundError,
+} from "../registry/errors"
+import { parseRegistryAndItemFromString } from "../registry/parser"
+import { resolveRegistryTree } from "../registry/resolver"
+import {
+	getRegistryPattern,
+	startMockRegistry,
+	stopMockRegistry,
+} from "./lib/mock-registry"
+
+describe("parseRegistryAndItemFromString", () => {
+	it("parses a version from namespaced items", () => {
+		expect(
+			parseRegistryAndItemFromString("@awesome-ai/coding-agent@1.2.0"),
+		).toEqual({
+			registry: "@awesome-ai",
+			item: "coding-agent",
+			version: "1.2.0",
+		})
+	})
+
+	it("parses a version from unnamespaced items", () => {
+		expect(parseRegistryAndItemFromString("coding-agent@^1.2")).toEqual({
+			registry: null,
+			item: "coding-agent",
+			version: "^1.2",
+		})
+		expect(parseRegistryAndItemFromString("@awesome-ai/bash")).toEqual({
+			registry: "@awesome-ai",
+			item: "bash",
+			version: null,
+		})
+	})
+})
+
+describe("resolveRegistryTree with versions", () => {
+	beforeAll(async () => {
+		await startMockRegistry()
+	})
+
+	afterAll(async () => {
+		await stopMockRegistry()
+	})
+
+	function getConfig() {
+		return configWithDefaults({
+			registries: { "@test": getRegistryPattern() },
+		})
+	}
+
+	it("resolves dependency ranges to the highest matching version", async () => {
+		const tree = await resolveRegistryTree(
+			["@test/versioned-agent"],
+			"agents",
+			getConfig(),
+		)
+
+		const tool = tree.items.find((item) => item.name === "versioned-tool")
+		expect(tool?.version).toBe("1.1.0")
+		expect(tool?._source).toContain("versioned-tool@1.1.0.json")
+	})
+
+	it("resolves ranges of requested items", async () => {
+		const tree = await resolveRegistryTree(
+			["@test/versioned-tool@~1.0.0"],
+			"tools",
+			getConfig(),
+		)
+
+		expect(tree.items[0]?.version).toBe("1.0.0")
+		expect(tree.items[0]?._source).toBe("@test/versioned-tool@~1.0.0")
+	})
+
+	it("reports when no version matches", async () => {
+		await expect(
+			resolveRegistryTree(
+				["@test/versioned-tool@^3.0.0"],
+				"tools",
+				getConfig(),
+			),
+		).rejects.toThrow(RegistryVersionNotFoundError)
+	})
+
+	it("picks a version that satisfies every range", async () => {
+		const tree = await resolveRegistryTree(
+			["@test/versioned-agent", "@test/patch-range-agent"],
+			"agents",
+			getConfig(),
+		)
+
+		const tool = tree.items.find((item) => item.name === "versioned-tool")
+		expect(tool?.version).toBe("1.0.0")
+		expect(tool?._source).toContain("versioned-tool@1.0.0.json")
+	})
+
+	it("reports conflicting ranges", async () => {
+		const error = await resolveRegistryTree(
+			["@test/versioned-agent", "@test/conflicting-agent"],
+			"agents",
+			getConfig(),
+		).catch((error) => error)
+
+		expect(error).toBeInstanceOf(RegistryVersionConflictError)
+		expect(error.message).toContain("^1.0.0 by versioned-agent")
+		expect(error.message).toContain("^2.0.0 by conflicting-agent")
+	})
+})
@@ -9,6 +9,18 @@ import { loadEnvFiles } from "../utils/env-loader"
 import { createConfig, getConfig } from "../utils/get-config"
 import { handleError } from "../utils/handle-error"
 import { highlighter } from "../utils/highlighter"
+import {
+	getInstalledItems,
+	getItemsStatus,
+	type ItemStatus,
+	type ItemStatusResult,
+} from "../utils/item-status"
+import {
+	findLockfileItems,
+	getLockfileKey,
+	hashContent,
+	readLockfile,
+} from "../utils/lockfile"
 import { logger } from "../utils/logger"
 import { transformImports } from "../utils/transform-import"
 
@@ -16,6 +28,7 @@ const diffOptionsSchema = z.object({
 	item: z.string().optional(),
 	type: z.enum(["agents", "tools", "prompts"]).optional(),
 	cwd: z.string(),
+	json: z.boolean(),
 })
 
 export const diff = new Command()
@@ -28,12 +41,14 @@ export const diff = new Command()
 		process.cwd(),
 	)
 	.option("-t, --type <type>", "the type of item (agents, tools, prompts)")
+	.option("--json", "output the status of installed items as JSON.", false)
 	.action(async (name, opts) => {
 		try {
 			const options = diffOptionsSchema.parse({
 				item: name,
 				cwd: path.resolve(opts.cwd),
 				type: opts.type,
+				json: opts.json,
 			})
 
 			await loadEnvFiles(options.cwd)
@@ -47,27 +62,59 @@ export const diff = new Command()
 				})
 			}
 
-			if (!options.item || !options.type) {
-				logger.error("Please specify both item name and type using --type.")
+			const lockfile = await readLockfile(options.cwd)
+
+			// Without an item, check every installed item
+			if (!options.item) {
+				const items = await getInstalledItems(config, lockfile, options.type)
+				const results = await getItemsStatus(items, config)
+				const hasDrift = results.some((item) => item.status !== "up-to-date")
+
+				if (options.json) {
+					process.stdout.write(`${JSON.stringify(results, null, 2)}\n`)
+				} else {
+					printStatusTable(results)
+				}
+
+				process.exit(hasDrift ? 1 : 0)
+			}
+
+			// The lockfile knows the type of installed items
+			let type = options.type
+			if (!type) {
+				const [locked, ...rest] = findLockfileItems(lockfile, options.item)
+				if (locked && !rest.length) {
+					type = locked.category
+				}
+			}
+
+			if (!type) {
+				logger.error("Please specify the item type using --type.")
 				process.exit(1)
 			}
 
-			const [registryItem] = await getRegistryItems(
-				[options.item],
-				options.type,
-				{ config },
-			)
+			const [registryItem] = await getRegistryItems([options.item], type, {
+				config,
+			})
 
 			if (!registryItem) {
 				logger.error(`Item ${options.item} not found in registry.`)
 				process.exit(1)
 			}
 
+			const locked =
+				lockfile?.items[
+					getLockfileKey({ category: type, name: registryItem.name })
+				]
+
 			for (const file of registryItem.files) {
-				const filePath = path.resolve(
-					config.resolvedPaths[options.type],
-					file.path.replace(new RegExp(`^${options.type}/`), ""),
-				)
+				const lockedFile = locked?.files.find((f) => f.path === file.path)
+				const filePath = lockedFile
+					? path.resolve(options.cwd, lockedFile.target)
+					: path.resolve(
+							config.resolvedPaths[type],
+							file.path.replace(new RegExp(`^${type}/`), ""),
+						)
 
 				if (!existsSync(filePath)) {
 					logger.info(`File ${filePath} does not exist locally.`)
@@ -75,6 +122,12 @@ export const diff = new Command()
 				}
 
 				const localContent = await fs.readFile(filePath, "utf-8")
+
+				if (lockedFile && lockedFile.hash !== hashContent(localContent)) {
+					logger.info(
+						`File ${highlighter.info(file.path)} has local changes since it was installed.`,
+					)
+				}
 				const transformedContent = await transformImports({
 					filename: file.path,
 					raw: file.content,
@@ -108,3 +161,38 @@ function printDiff(diff: Change[]) {
 		}
 	}
 }
+
+const STATUS_LABELS: Record<ItemStatus, string> = {
+	"up-to-date": highlighter.success("up to date"),
+	"modified-locally": highlighter.warn("modified locally"),
+	"update-available": highlighter.info("update available"),
+	"removed-upstream": highlighter.error("removed upstream"),
+}
+
+function printStatusTable(results: ItemStatusResult[]) {
+	if (!results.length) {
+		logger.info("No installed items found.")
+		return
+	}
+
+	const nameWidth = Math.max(4, ...results.map((result) => result.name.length))
+	const typeWidth = Math.max(4, ...results.map((result) => result.type.length))
+
+	logger.log(
+		highlighter.dim(
+			`${"Item".padEnd(nameWidth)}  ${"Type".padEnd(typeWidth)}  Status`,
+		),
+	)
+	for (const result of results) {
+		logger.log(
+			`${result.name.padEnd(nameWidth)}  ${result.type.padEnd(typeWidth)}  ${STATUS_LABELS[result.status]}`,
+		)
+	}
+
+	if (results.some((result) => result.status !== "up-to-date")) {
+		logger.break()
+		logger.info(
+			`Run ${highlighter.info("awesome-ai diff <item>")} to see the changes, or ${highlighter.info("awesome-ai update <item>")} to update.`,
+		)
+	}
+}
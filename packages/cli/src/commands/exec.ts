@@ -1,8 +1,8 @@
-import { runTui } from "awesome-ai-tui"
+import { runHeadless, runTui } from "awesome-ai-tui"
 import { Command } from "commander"
 import path from "path"
 import { z } from "zod"
-import { getConfig } from "../utils/get-config"
+import { getConfig, getInstalledDirectories } from "../utils/get-config"
 import { handleError } from "../utils/handle-error"
 import { logger } from "../utils/logger"
 import { performRemoteSync } from "../utils/remote-approval"
@@ -15,6 +15,9 @@ export const execOptionsSchema = z.object({
 	remote: z.boolean(),
 	remoteOnly: z.boolean(),
 	yes: z.boolean(),
+	print: z.boolean(),
+	approve: z.enum(["none", "read-only", "all"]),
+	outputFormat: z.enum(["text", "stream-json"]),
 })
 
 export const exec = new Command()
@@ -38,6 +41,21 @@ export const exec = new Command()
 		false,
 	)
 	.option("-y, --yes", "skip confirmation prompt for remote sync", false)
+	.option(
+		"-p, --print",
+		"run the prompt without the TUI and print the response",
+		false,
+	)
+	.option(
+		"--approve <policy>",
+		"how tool approvals are answered with --print: none, read-only, or all",
+		"none",
+	)
+	.option(
+		"--output-format <format>",
+		"output format without the TUI: text, or stream-json for one JSON event per line. stream-json implies --print.",
+		"text",
+	)
 	.action(async (promptName: string, agent: string | undefined, opts) => {
 		try {
 			const options = execOptionsSchema.parse({
@@ -47,10 +65,36 @@ export const exec = new Command()
 				remote: opts.remote ?? false,
 				remoteOnly: opts.remoteOnly ?? false,
 				yes: opts.yes ?? false,
+				print: opts.print || opts.outputFormat === "stream-json",
+				approve: opts.approve,
+				outputFormat: opts.outputFormat,
 			})
 			const config = await getConfig(options.cwd)
 			const remotePaths = getCachedItemsPaths()
 
+			const start = async (agentPaths: string[], promptsPaths: string[]) => {
+				const runOptions = {
+					agentPaths,
+					promptsPaths,
+					promptName: options.promptName,
+					initialAgent: options.agent,
+					cwd: options.cwd,
+					protectedDirectories: getInstalledDirectories(config),
+				}
+
+				if (!options.print) {
+					await runTui(runOptions)
+					return
+				}
+
+				const exitCode = await runHeadless({
+					...runOptions,
+					approve: options.approve,
+					outputFormat: options.outputFormat,
+				})
+				process.exit(exitCode)
+			}
+
 			if ((options.remote || options.remoteOnly) && !options.agent) {
 				logger.error(
 					"An agent name is required when using --remote or --remote-only.",
@@ -76,13 +120,7 @@ export const exec = new Command()
 				}
 
 				if (options.remoteOnly || (!config && options.remote)) {
-					await runTui({
-						agentPaths: [remotePaths.agents],
-						promptsPaths: [remotePaths.prompts],
-						promptName: options.promptName,
-						initialAgent: options.agent,
-						cwd: options.cwd,
-					})
+					await start([remotePaths.agents], [remotePaths.prompts])
 					return
 				}
 			}
@@ -115,13 +153,7 @@ export const exec = new Command()
 				? [promptsPath, remotePaths.prompts]
 				: [promptsPath]
 
-			await runTui({
-				agentPaths,
-				promptsPaths,
-				promptName: options.promptName,
-				initialAgent: options.agent,
-				cwd: options.cwd,
-			})
+			await start(agentPaths, promptsPaths)
 		} catch (error) {
 			logger.break()
 			handleError(error)
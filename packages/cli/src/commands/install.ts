@@ -0,0 +1,104 @@
+import { Command } from "commander"
+import path from "path"
+import { z } from "zod"
+import { clearRegistryContext } from "../registry/context"
+import { addItems } from "../utils/add-items"
+import { loadEnvFiles } from "../utils/env-loader"
+import { getConfig } from "../utils/get-config"
+import { handleError } from "../utils/handle-error"
+import { highlighter } from "../utils/highlighter"
+import { installItems } from "../utils/install-items"
+import {
+	LOCKFILE_NAME,
+	type LockfileItem,
+	readLockfile,
+} from "../utils/lockfile"
+import { logger } from "../utils/logger"
+
+export const installOptionsSchema = z.object({
+	cwd: z.string(),
+	yes: z.boolean(),
+	overwrite: z.boolean(),
+	resolve: z.boolean(),
+	silent: z.boolean(),
+})
+
+export const install = new Command()
+	.name("install")
+	.description("install every item recorded in agents-lock.json")
+	.option("-y, --yes", "skip confirmation prompt.", false)
+	.option("-o, --overwrite", "overwrite existing files.", false)
+	.option(
+		"--resolve",
+		"resolve items again from the registry and update the lockfile.",
+		false,
+	)
+	.option(
+		"-c, --cwd <cwd>",
+		"the working directory. defaults to the current directory.",
+		process.cwd(),
+	)
+	.option("-s, --silent", "mute output.", false)
+	.action(async (opts) => {
+		try {
+			const options = installOptionsSchema.parse({
+				...opts,
+				cwd: path.resolve(opts.cwd),
+			})
+
+			await loadEnvFiles(options.cwd)
+
+			const config = await getConfig(options.cwd)
+			if (!config) {
+				logger.error(
+					`No ${highlighter.info("agents.json")} found. Run ${highlighter.info("awesome-ai init")} first.`,
+				)
+				process.exit(1)
+			}
+
+			const lockfile = await readLockfile(options.cwd)
+			if (!lockfile || !Object.keys(lockfile.items).length) {
+				logger.error(
+					`No ${highlighter.info(LOCKFILE_NAME)} found. Add items with ${highlighter.info("awesome-ai add")} to create it.`,
+				)
+				process.exit(1)
+			}
+
+			const lockedItems = Object.values(lockfile.items)
+
+			if (!options.resolve) {
+				await installItems(lockedItems, lockfile, config, {
+					overwrite: options.overwrite,
+					silent: options.silent,
+					yes: options.yes,
+				})
+				return
+			}
+
+			// Dependencies are resolved again from the items that were requested
+			// directly. Lockfiles without direct items install everything.
+			const directItems = lockedItems.some((item) => item.direct)
+				? lockedItems.filter((item) => item.direct)
+				: lockedItems
+
+			const itemsByCategory = new Map<LockfileItem["category"], string[]>()
+			for (const item of directItems) {
+				const sources = itemsByCategory.get(item.category) ?? []
+				sources.push(item.source)
+				itemsByCategory.set(item.category, sources)
+			}
+
+			for (const [category, sources] of itemsByCategory) {
+				await addItems(sources, category, config, {
+					overwrite: options.overwrite,
+					silent: options.silent,
+					yes: options.yes,
+				})
+			}
+		} catch (error) {
+			logger.break()
+			handleError(error)
+		} finally {
+			clearRegistryContext()
+		}
+	})
@@ -2,7 +2,7 @@ import { discoverAgents, runTui } from "awesome-ai-tui"
 import { Command } from "commander"
 import path from "path"
 import { z } from "zod"
-import { getConfig } from "../utils/get-config"
+import { getConfig, getInstalledDirectories } from "../utils/get-config"
 import { handleError } from "../utils/handle-error"
 import { logger } from "../utils/logger"
 import { performRemoteSync } from "../utils/remote-approval"
@@ -76,6 +76,7 @@ export const migrate = new Command()
 						promptName: options.promptName,
 						initialAgent: "migration-planning-agent",
 						cwd: options.cwd,
+						protectedDirectories: getInstalledDirectories(config),
 					})
 					return
 				}
@@ -132,6 +133,7 @@ export const migrate = new Command()
 				promptName: options.promptName,
 				initialAgent: "migration-planning-agent",
 				cwd: options.cwd,
+				protectedDirectories: getInstalledDirectories(config),
 			})
 		} catch (error) {
 			logger.break()
@@ -0,0 +1,256 @@
+import { Command } from "commander"
+import path from "path"
+import prompts from "prompts"
+import { z } from "zod"
+import { loadEnvFiles } from "../utils/env-loader"
+import { getConfig } from "../utils/get-config"
+import { handleError } from "../utils/handle-error"
+import { highlighter } from "../utils/highlighter"
+import {
+	findLockfileItems,
+	getLockfileKey,
+	LOCKFILE_NAME,
+	type LockfileItem,
+	readLockfile,
+	writeLockfile,
+} from "../utils/lockfile"
+import { logger } from "../utils/logger"
+import {
+	planRemoval,
+	type RemovalPlan,
+	removeFiles,
+} from "../utils/remove-items"
+import { spinner } from "../utils/spinner"
+import { removeDependencies } from "../utils/update-dependencies"
+
+export const removeOptionsSchema = z.object({
+	items: z.array(z.string()),
+	type: z.enum(["agents", "tools", "prompts"]).optional(),
+	dryRun: z.boolean(),
+	yes: z.boolean(),
+	cwd: z.string(),
+	silent: z.boolean(),
+})
+
+export const remove = new Command()
+	.name("remove")
+	.description("remove installed agents, tools, or prompts from your project")
+	.argument("<items...>", "names of items to remove")
+	.option("-t, --type <type>", "the type of item (agents, tools, prompts)")
+	.option("--dry-run", "show what would be removed without removing it.", false)
+	.option("-y, --yes", "skip confirmation prompts.", false)
+	.option(
+		"-c, --cwd <cwd>",
+		"the working directory. defaults to the current directory.",
+		process.cwd(),
+	)
+	.option("-s, --silent", "mute output.", false)
+	.action(async (items, opts) => {
+		try {
+			const options = removeOptionsSchema.parse({
+				items,
+				...opts,
+				cwd: path.resolve(opts.cwd),
+			})
+
+			await loadEnvFiles(options.cwd)
+
+			const config = await getConfig(options.cwd)
+			if (!config) {
+				logger.error(
+					`No ${highlighter.info("agents.json")} found. Run ${highlighter.info("awesome-ai init")} first.`,
+				)
+				process.exit(1)
+			}
+
+			const lockfile = await readLockfile(options.cwd)
+			if (!lockfile) {
+				logger.error(
+					`No ${highlighter.info(LOCKFILE_NAME)} found. Only items added with ${highlighter.info("awesome-ai add")} can be removed.`,
+				)
+				process.exit(1)
+			}
+
+			const itemsToRemove: LockfileItem[] = []
+			for (const name of options.items) {
+				let found = findLockfileItems(lockfile, name, options.type)
+
+				// Prefer items that were added directly over their dependencies
+				if (found.some((item) => item.direct)) {
+					found = found.filter((item) => item.direct)
+				}
+
+				if (!found.length) {
+					logger.error(`Item ${highlighter.info(name)} is not installed.`)
+					process.exit(1)
+				}
+
+				if (found.length > 1) {
+					logger.error(
+						`Found multiple items named ${highlighter.info(name)}. Please specify the type using --type.`,
+					)
+					process.exit(1)
+				}
+
+				itemsToRemove.push(...found)
+			}
+
+			const plan = planRemoval(lockfile, itemsToRemove, config)
+			const hasOrphans =
+				plan.orphanedFiles.length > 0 || plan.orphanedDependencies.length > 0
+
+			if (!options.silent || options.dryRun) {
+				printPlan(plan)
+			}
+
+			if (options.dryRun) {
+				return
+			}
+
+			if (!options.yes) {
+				const { proceed } = await prompts({
+					type: "confirm",
+					name: "proceed",
+					message: `Remove ${itemsToRemove.map((item) => highlighter.info(item.name)).join(", ")}?`,
+					initial: true,
+				})
+
+				if (!proceed) {
+					logger.break()
+					process.exit(1)
+				}
+			}
+
+			let removeOrphans = true
+			if (hasOrphans && !options.yes) {
+				const { confirmed } = await prompts({
+					type: "confirm",
+					name: "confirmed",
+					message:
+						"Also remove the files and dependencies that are no longer used?",
+					initial: true,
+				})
+				removeOrphans = !!confirmed
+			}
+
+			let filesToRemove = removeOrphans
+				? [...plan.files, ...plan.orphanedFiles]
+				: plan.files
+
+			// Files with local changes are kept unless removing them is confirmed
+			const modifiedFiles = plan.modifiedFiles.filter((file) =>
+				filesToRemove.includes(file),
+			)
+			if (modifiedFiles.length) {
+				let removeModified = false
+				if (!options.yes) {
+					const { confirmed } = await prompts({
+						type: "confirm",
+						name: "confirmed",
+						message:
+							"Some files were changed since they were installed. Remove them anyway?",
+						initial: false,
+					})
+					removeModified = !!confirmed
+				}
+
+				if (!removeModified) {
+					filesToRemove = filesToRemove.filter(
+						(file) => !modifiedFiles.includes(file),
+					)
+				}
+			}
+
+			const removeSpinner = spinner(`Removing files.`, {
+				silent: options.silent,
+			})?.start()
+
+			await removeFiles(filesToRemove, config)
+
+			for (const item of plan.items) {
+				delete lockfile.items[getLockfileKey(item)]
+			}
+
+			// Items other items depend on are only no longer direct
+			for (const item of plan.dependedItems) {
+				lockfile.items[getLockfileKey(item)] = { ...item, direct: false }
+			}
+
+			// Orphans that are kept are tracked as if they were added directly
+			for (const item of plan.orphanedItems) {
+				const key = getLockfileKey(item)
+				if (removeOrphans) {
+					delete lockfile.items[key]
+				} else {
+					lockfile.items[key] = { ...item, direct: true }
+				}
+			}
+
+			if (removeOrphans) {
+				lockfile.addedDependencies = lockfile.addedDependencies.filter(
+					(name) => !plan.orphanedDependencies.includes(name),
+				)
+			}
+
+			await writeLockfile(options.cwd, lockfile)
+
+			removeSpinner?.succeed()
+
+			const keptFiles = modifiedFiles.filter(
+				(file) => !filesToRemove.includes(file),
+			)
+			if (keptFiles.length && !options.silent) {
+				logger.warn(
+					`Kept ${keptFiles.map((file) => highlighter.info(file)).join(", ")} because of local changes.`,
+				)
+			}
+
+			if (removeOrphans) {
+				await removeDependencies(plan.orphanedDependencies, config, {
+					silent: options.silent,
+				})
+			}
+		} catch (error) {
+			logger.break()
+			handleError(error)
+		}
+	})
+
+function printPlan(plan: RemovalPlan) {
+	const printList = (title: string, values: string[]) => {
+		if (!values.length) return
+		logger.info(title)
+		for (const value of values) {
+			logger.log(`  - ${value}`)
+		}
+	}
+
+	printList(
+		"The following items are still used by other items and will be kept as their dependencies:",
+		plan.dependedItems.map((item) => item.name),
+	)
+	printList("The following files will be removed:", plan.files)
+	printList(
+		"The following files are no longer used by other items:",
+		plan.orphanedFiles,
+	)
+	printList(
+		"The following dependencies are no longer used:",
+		plan.orphanedDependencies,
+	)
+
+	if (plan.modifiedFiles.length) {
+		logger.warn("The following files were changed since they were installed:")
+		for (const file of plan.modifiedFiles) {
+			logger.log(`  - ${file}`)
+		}
+	}
+
+	if (
+		!plan.files.length &&
+		!plan.orphanedFiles.length &&
+		!plan.orphanedDependencies.length
+	) {
+		logger.info("No files to remove.")
+	}
+}
@@ -1,10 +1,11 @@
-import { discoverAgents, runTui } from "awesome-ai-tui"
+import { discoverAgents, runHeadless, runTui } from "awesome-ai-tui"
 import { Command } from "commander"
 import path from "path"
 import { z } from "zod"
-import { getConfig } from "../utils/get-config"
+import { getConfig, getInstalledDirectories } from "../utils/get-config"
 import { handleError } from "../utils/handle-error"
 import { logger } from "../utils/logger"
+import { readStdin } from "../utils/read-stdin"
 import { performRemoteSync } from "../utils/remote-approval"
 import { getCachedItemsPaths } from "../utils/remote-cache"
 
@@ -14,11 +15,17 @@ export const runOptionsSchema = z.object({
 	remote: z.boolean(),
 	remoteOnly: z.boolean(),
 	yes: z.boolean(),
+	print: z.boolean(),
+	prompt: z.string().optional(),
+	approve: z.enum(["none", "read-only", "all"]),
+	outputFormat: z.enum(["text", "stream-json"]),
 })
 
 export const run = new Command()
 	.name("run")
-	.description("start an interactive TUI chat with an agent")
+	.description(
+		"start an interactive TUI chat with an agent, or run a single prompt with --print",
+	)
 	.argument("[agent]", "name of the agent to run")
 	.option(
 		"-c, --cwd <cwd>",
@@ -36,6 +43,20 @@ export const run = new Command()
 		false,
 	)
 	.option("-y, --yes", "skip confirmation prompt for remote sync", false)
+	.option(
+		"-p, --print [prompt]",
+		"run the prompt without the TUI and print the response. reads the prompt from stdin if omitted.",
+	)
+	.option(
+		"--approve <policy>",
+		"how tool approvals are answered with --print: none, read-only, or all",
+		"none",
+	)
+	.option(
+		"--output-format <format>",
+		"output format without the TUI: text, or stream-json for one JSON event per line. stream-json implies --print.",
+		"text",
+	)
 	.action(async (agent, opts) => {
 		try {
 			const options = runOptionsSchema.parse({
@@ -44,10 +65,49 @@ export const run = new Command()
 				remote: opts.remote ?? false,
 				remoteOnly: opts.remoteOnly ?? false,
 				yes: opts.yes ?? false,
+				print: opts.print !== undefined || opts.outputFormat === "stream-json",
+				prompt: typeof opts.print === "string" ? opts.print : undefined,
+				approve: opts.approve,
+				outputFormat: opts.outputFormat,
 			})
 			const config = await getConfig(options.cwd)
 			const remotePaths = getCachedItemsPaths()
 
+			const start = async (agentPaths: string[]) => {
+				if (!options.print) {
+					await runTui({
+						agentPaths,
+						initialAgent: options.agent,
+						cwd: options.cwd,
+						protectedDirectories: getInstalledDirectories(config),
+					})
+					return
+				}
+
+				const exitCode = await runHeadless({
+					agentPaths,
+					initialAgent: options.agent,
+					cwd: options.cwd,
+					protectedDirectories: getInstalledDirectories(config),
+					prompt: options.prompt,
+					approve: options.approve,
+					outputFormat: options.outputFormat,
+				})
+				process.exit(exitCode)
+			}
+
+			if (options.print && !options.prompt) {
+				options.prompt = (await readStdin()) ?? undefined
+
+				if (!options.prompt) {
+					logger.error(
+						"A prompt is required with --print. Pass it as an argument or pipe it to stdin.",
+					)
+					logger.info('Usage: awesome-ai run <agent> --print "<prompt>"')
+					process.exit(1)
+				}
+			}
+
 			// Require agent name when using remote options
 			if ((options.remote || options.remoteOnly) && !options.agent) {
 				logger.error(
@@ -57,7 +117,7 @@ export const run = new Command()
 				process.exit(1)
 			}
 
-			if (!options.agent) {
+			if (!options.agent && !options.print) {
 				if (!config) {
 					logger.error(
 						`agents.json not found in ${options.cwd}. Run 'awesome-ai init' to create one.`,
@@ -82,7 +142,7 @@ export const run = new Command()
 
 			if (options.remote || options.remoteOnly) {
 				const result = await performRemoteSync(
-					[{ name: options.agent, type: "agents" }],
+					[{ name: options.agent!, type: "agents" }],
 					{ yes: options.yes },
 				)
 				if (result.cancelled) {
@@ -94,11 +154,7 @@ export const run = new Command()
 				}
 
 				if (options.remoteOnly || (!config && options.remote)) {
-					await runTui({
-						agentPaths: [remotePaths.agents],
-						initialAgent: options.agent,
-						cwd: options.cwd,
-					})
+					await start([remotePaths.agents])
 					return
 				}
 			}
@@ -122,11 +178,7 @@ export const run = new Command()
 				? [agentsPath, remotePaths.agents]
 				: [agentsPath]
 
-			await runTui({
-				agentPaths,
-				initialAgent: options.agent,
-				cwd: options.cwd,
-			})
+			await start(agentPaths)
 		} catch (error) {
 			logger.break()
 			handleError(error)
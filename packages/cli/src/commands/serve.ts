@@ -0,0 +1,128 @@
+import { startServer } from "awesome-ai-tui"
+import { Command } from "commander"
+import path from "path"
+import { z } from "zod"
+import { getConfig, getInstalledDirectories } from "../utils/get-config"
+import { handleError } from "../utils/handle-error"
+import { logger } from "../utils/logger"
+import { performRemoteSync } from "../utils/remote-approval"
+import { getCachedItemsPaths } from "../utils/remote-cache"
+
+export const serveOptionsSchema = z.object({
+	agent: z.string().optional(),
+	cwd: z.string(),
+	port: z.coerce.number().int().min(0).max(65535),
+	host: z.string(),
+	remote: z.boolean(),
+	remoteOnly: z.boolean(),
+	yes: z.boolean(),
+})
+
+export const serve = new Command()
+	.name("serve")
+	.description("start a local HTTP server to run agents from other tools")
+	.argument("[agent]", "agent used by sessions that don't ask for one")
+	.option(
+		"-c, --cwd <cwd>",
+		"the working directory. defaults to the current directory.",
+		process.cwd(),
+	)
+	.option("--port <port>", "the port to listen on", "4242")
+	.option("--host <host>", "the hostname to listen on", "127.0.0.1")
+	.option(
+		"-r, --remote",
+		"use agents from the remote registry (downloads if missing)",
+		false,
+	)
+	.option(
+		"--remote-only",
+		"use only remote agents (ignore local agents.json)",
+		false,
+	)
+	.option("-y, --yes", "skip confirmation prompt for remote sync", false)
+	.action(async (agent, opts) => {
+		try {
+			const options = serveOptionsSchema.parse({
+				agent,
+				cwd: path.resolve(opts.cwd),
+				port: opts.port,
+				host: opts.host,
+				remote: opts.remote ?? false,
+				remoteOnly: opts.remoteOnly ?? false,
+				yes: opts.yes ?? false,
+			})
+			const config = await getConfig(options.cwd)
+			const remotePaths = getCachedItemsPaths()
+
+			if ((options.remote || options.remoteOnly) && !options.agent) {
+				logger.error(
+					"An agent name is required when using --remote or --remote-only.",
+				)
+				logger.info("Usage: awesome-ai serve <agent> --remote")
+				process.exit(1)
+			}
+
+			let agentPaths: string[]
+
+			if (options.remote || options.remoteOnly) {
+				const result = await performRemoteSync(
+					[{ name: options.agent!, type: "agents" }],
+					{ yes: options.yes },
+				)
+				if (result.cancelled) {
+					logger.info("Remote sync cancelled.")
+					process.exit(0)
+				}
+				if (!result.success) {
+					process.exit(1)
+				}
+			}
+
+			if (options.remoteOnly || (!config && options.remote)) {
+				agentPaths = [remotePaths.agents]
+			} else {
+				if (!config) {
+					logger.error(
+						`agents.json not found in ${options.cwd}. Run 'awesome-ai init' to create one, or use --remote to serve remote agents.`,
+					)
+					process.exit(1)
+				}
+
+				const agentsPath = config.resolvedPaths.agents
+
+				if (!agentsPath) {
+					logger.error("Could not resolve agents path from agents.json")
+					process.exit(1)
+				}
+
+				// Build paths array - local path first, then remote if enabled
+				agentPaths = options.remote
+					? [agentsPath, remotePaths.agents]
+					: [agentsPath]
+			}
+
+			const server = await startServer({
+				agentPaths,
+				initialAgent: options.agent,
+				cwd: options.cwd,
+				protectedDirectories: getInstalledDirectories(config),
+				port: options.port,
+				hostname: options.host,
+			})
+
+			logger.success(`Serving agents at ${server.url}`)
+			logger.info(`Token: ${server.token}`)
+			logger.info(
+				"Send it with every request as Authorization: Bearer <token>. Press Ctrl+C to stop.",
+			)
+
+			if (!["127.0.0.1", "localhost", "::1"].includes(options.host)) {
+				logger.warn(
+					`Listening on ${options.host} makes the server reachable from other machines. Anyone with the token can run agents with access to your files.`,
+				)
+			}
+		} catch (error) {
+			logger.break()
+			handleError(error)
+		}
+	})
@@ -0,0 +1,113 @@
+import { Command } from "commander"
+import path from "path"
+import { z } from "zod"
+import { clearRegistryContext } from "../registry/context"
+import { loadEnvFiles } from "../utils/env-loader"
+import { getConfig } from "../utils/get-config"
+import { handleError } from "../utils/handle-error"
+import { highlighter } from "../utils/highlighter"
+import {
+	findLockfileItems,
+	LOCKFILE_NAME,
+	type LockfileItem,
+	readLockfile,
+} from "../utils/lockfile"
+import { logger } from "../utils/logger"
+import { updateItems } from "../utils/update-items"
+
+export const updateOptionsSchema = z.object({
+	items: z.array(z.string()).optional(),
+	all: z.boolean(),
+	type: z.enum(["agents", "tools", "prompts"]).optional(),
+	yes: z.boolean(),
+	cwd: z.string(),
+	silent: z.boolean(),
+})
+
+export const update = new Command()
+	.name("update")
+	.description("update installed items, merging local changes")
+	.argument("[items...]", "names of items to update")
+	.option("-a, --all", "update every installed item.", false)
+	.option("-t, --type <type>", "the type of item (agents, tools, prompts)")
+	.option(
+		"-y, --yes",
+		"skip conflict prompts and write conflict markers instead.",
+		false,
+	)
+	.option(
+		"-c, --cwd <cwd>",
+		"the working directory. defaults to the current directory.",
+		process.cwd(),
+	)
+	.option("-s, --silent", "mute output.", false)
+	.action(async (items, opts) => {
+		try {
+			const options = updateOptionsSchema.parse({
+				items,
+				...opts,
+				cwd: path.resolve(opts.cwd),
+			})
+
+			await loadEnvFiles(options.cwd)
+
+			const config = await getConfig(options.cwd)
+			if (!config) {
+				logger.error(
+					`No ${highlighter.info("agents.json")} found. Run ${highlighter.info("awesome-ai init")} first.`,
+				)
+				process.exit(1)
+			}
+
+			const lockfile = await readLockfile(options.cwd)
+			if (!lockfile) {
+				logger.error(
+					`No ${highlighter.info(LOCKFILE_NAME)} found. Add items with ${highlighter.info("awesome-ai add")} to create it.`,
+				)
+				process.exit(1)
+			}
+
+			if (!options.all && !options.items?.length) {
+				logger.error("Please specify the items to update or use --all.")
+				process.exit(1)
+			}
+
+			let itemsToUpdate: LockfileItem[] = []
+
+			if (options.all) {
+				itemsToUpdate = Object.values(lockfile.items).filter(
+					(item) => item.direct,
+				)
+			} else {
+				for (const name of options.items ?? []) {
+					const found = findLockfileItems(lockfile, name, options.type)
+
+					if (!found.length) {
+						logger.error(
+							`Item ${highlighter.info(name)} is not installed. Use ${highlighter.info("awesome-ai add")} to add it.`,
+						)
+						process.exit(1)
+					}
+
+					if (found.length > 1) {
+						logger.error(
+							`Found multiple items named ${highlighter.info(name)}. Please specify the type using --type.`,
+						)
+						process.exit(1)
+					}
+
+					itemsToUpdate.push(...found)
+				}
+			}
+
+			await updateItems(itemsToUpdate, lockfile, config, {
+				yes: options.yes,
+				silent: options.silent,
+			})
+		} catch (error) {
+			logger.break()
+			handleError(error)
+		} finally {
+			clearRegistryContext()
+		}
+	})
@@ -5,10 +5,14 @@ import { add } from "./commands/add"
 import { diff } from "./commands/diff"
 import { exec } from "./commands/exec"
 import { init } from "./commands/init"
+import { install } from "./commands/install"
 import { list } from "./commands/list"
 import { migrate } from "./commands/migrate"
+import { remove } from "./commands/remove"
 import { run } from "./commands/run"
 import { search } from "./commands/search"
+import { serve } from "./commands/serve"
+import { update } from "./commands/update"
 import { view } from "./commands/view"
 
 process.on("SIGINT", () => process.exit(0))
@@ -29,9 +33,13 @@ async function main() {
 	program
 		.addCommand(init)
 		.addCommand(add)
+		.addCommand(install)
+		.addCommand(update)
+		.addCommand(remove)
 		.addCommand(list)
 		.addCommand(run)
 		.addCommand(exec)
+		.addCommand(serve)
 		.addCommand(migrate)
 		.addCommand(search)
 		.addCommand(view)
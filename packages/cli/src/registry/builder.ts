@@ -32,7 +32,7 @@ export function buildUrlAndHeadersForRegistryItem(
 	type: RegistryItemCategory,
 	config?: Config,
 ) {
-	const { registry, item } = parseRegistryAndItemFromString(name)
+	const { registry, item, version } = parseRegistryAndItemFromString(name)
 
 	if (!registry) {
 		return null
@@ -47,8 +47,14 @@ export function buildUrlAndHeadersForRegistryItem(
 	validateRegistryConfig(registry, registryConfig)
 
 	return {
-		url: buildUrlFromRegistryConfig(item, type, registryConfig, config),
+		url: buildUrlFromRegistryConfig(
+			version ? `${item}@${version}` : item,
+			type,
+			registryConfig,
+			config,
+		),
 		headers: buildHeadersFromRegistryConfig(registryConfig),
+		publicKey: buildPublicKeyFromRegistryConfig(registryConfig),
 	}
 }
 
@@ -99,6 +105,16 @@ export function buildHeadersFromRegistryConfig(
 	return headers
 }
 
+export function buildPublicKeyFromRegistryConfig(
+	config: z.infer<typeof registryConfigItemSchema>,
+) {
+	if (typeof config === "string" || !config.publicKey) {
+		return undefined
+	}
+
+	return expandEnvVars(config.publicKey).trim() || undefined
+}
+
 function appendQueryParams(baseUrl: string, params: Record<string, string>) {
 	const urlParams = new URLSearchParams()
 
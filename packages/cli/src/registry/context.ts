@@ -1,9 +1,11 @@
 interface RegistryContext {
 	headers: Record<string, Record<string, string>>
+	publicKeys: Record<string, string>
 }
 
 const context: RegistryContext = {
 	headers: {},
+	publicKeys: {},
 }
 
 export function setRegistryHeaders(
@@ -18,6 +20,15 @@ export function getRegistryHeadersFromContext(
 	return context.headers[url] || {}
 }
 
+export function setRegistryPublicKeys(publicKeys: Record<string, string>) {
+	context.publicKeys = { ...context.publicKeys, ...publicKeys }
+}
+
+export function getRegistryPublicKeyFromContext(url: string) {
+	return context.publicKeys[url]
+}
+
 export function clearRegistryContext() {
 	context.headers = {}
+	context.publicKeys = {}
 }
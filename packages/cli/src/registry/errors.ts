@@ -12,6 +12,9 @@ export const RegistryErrorCode = {
 	LOCAL_FILE_ERROR: "LOCAL_FILE_ERROR",
 	PARSE_ERROR: "PARSE_ERROR",
 	VALIDATION_ERROR: "VALIDATION_ERROR",
+	VERSION_NOT_FOUND: "VERSION_NOT_FOUND",
+	VERSION_CONFLICT: "VERSION_CONFLICT",
+	INTEGRITY_ERROR: "INTEGRITY_ERROR",
 	UNKNOWN_ERROR: "UNKNOWN_ERROR",
 } as const
 
@@ -242,6 +245,68 @@ export class RegistryInvalidNamespaceError extends RegistryError {
 	}
 }
 
+export class RegistryVersionNotFoundError extends RegistryError {
+	constructor(
+		public readonly item: string,
+		public readonly range: string,
+		public readonly versions: string[],
+	) {
+		const message = versions.length
+			? `No version of ${item} matches ${range}. Available versions: ${versions.join(", ")}.`
+			: `No version of ${item} matches ${range}. The registry doesn't publish versions for this item.`
+
+		super(message, {
+			code: RegistryErrorCode.VERSION_NOT_FOUND,
+			context: { item, range, versions },
+			suggestion:
+				"Check the version range of the item, or remove it to use the latest version.",
+		})
+		this.name = "RegistryVersionNotFoundError"
+	}
+}
+
+export class RegistryVersionConflictError extends RegistryError {
+	constructor(
+		public readonly item: string,
+		public readonly version: string,
+		public readonly requirements: { range: string; requiredBy?: string }[],
+	) {
+		const message = `Conflicting versions of ${item} are required:\n${requirements
+			.map(
+				({ range, requiredBy }) =>
+					`  - ${range} by ${requiredBy ?? "the command"}`,
+			)
+			.join(
+				"\n",
+			)}\nVersion ${version} was resolved first but doesn't satisfy every range.`
+
+		super(message, {
+			code: RegistryErrorCode.VERSION_CONFLICT,
+			context: { item, version, requirements },
+			suggestion:
+				"Update the registryDependencies of these items so their version ranges overlap, or add the items separately.",
+		})
+		this.name = "RegistryVersionConflictError"
+	}
+}
+
+export class RegistryIntegrityError extends RegistryError {
+	constructor(
+		public readonly item: string,
+		public readonly reason: string,
+	) {
+		const message = `Integrity check failed for ${item}. ${reason}`
+
+		super(message, {
+			code: RegistryErrorCode.INTEGRITY_ERROR,
+			context: { item, reason },
+			suggestion:
+				"The item may have been tampered with. Check the registry, or contact its maintainers if the problem persists.",
+		})
+		this.name = "RegistryIntegrityError"
+	}
+}
+
 export class ConfigMissingError extends RegistryError {
 	constructor(public readonly cwd: string) {
 		const message = `No agents.json found in ${cwd} or parent directories.`
@@ -0,0 +1,112 @@
+import { createHash, createPublicKey, type KeyObject, verify } from "crypto"
+import { RegistryIntegrityError } from "./errors"
+import type { RegistryItem } from "./schema"
+
+const PEM_HEADER = "-----BEGIN PUBLIC KEY-----"
+
+export function computeFileIntegrity(content: string) {
+	return `sha256-${createHash("sha256").update(content).digest("base64")}`
+}
+
+/**
+ * Hash the parts of an item that end up in a project: its identity, the
+ * packages and registry items it installs, and every file. Registries compute
+ * the same hash in `build-registry.ts`, so the key order here must not change.
+ */
+export function computeItemIntegrity(item: RegistryItem) {
+	const payload = JSON.stringify({
+		name: item.name,
+		type: item.type,
+		version: item.version ?? null,
+		dependencies: item.dependencies ?? [],
+		devDependencies: item.devDependencies ?? [],
+		registryDependencies: item.registryDependencies ?? [],
+		files: item.files.map((file) => ({
+			path: file.path,
+			type: file.type,
+			target: file.target ?? null,
+			integrity: computeFileIntegrity(file.content),
+		})),
+	})
+
+	return `sha256-${createHash("sha256").update(payload).digest("base64")}`
+}
+
+function parsePublicKey(publicKey: string): KeyObject {
+	const key = publicKey.trim()
+
+	if (key.startsWith(PEM_HEADER)) {
+		return createPublicKey(key)
+	}
+
+	return createPublicKey({
+		key: Buffer.from(key, "base64"),
+		format: "der",
+		type: "spki",
+	})
+}
+
+/**
+ * Check the integrity metadata of a fetched item. Items without integrity
+ * metadata are accepted, unless the registry requires a signature.
+ */
+export function verifyRegistryItem(
+	item: RegistryItem,
+	source: string,
+	options: { publicKey?: string } = {},
+) {
+	for (const file of item.files) {
+		if (!file.integrity) continue
+
+		const actual = computeFileIntegrity(file.content)
+		if (actual !== file.integrity) {
+			throw new RegistryIntegrityError(
+				source,
+				`The content of ${file.path} doesn't match its integrity hash (expected ${file.integrity}, got ${actual}).`,
+			)
+		}
+	}
+
+	const integrity = computeItemIntegrity(item)
+	if (item.integrity && item.integrity !== integrity) {
+		throw new RegistryIntegrityError(
+			source,
+			`The item doesn't match its integrity hash (expected ${item.integrity}, got ${integrity}).`,
+		)
+	}
+
+	if (!options.publicKey) {
+		return
+	}
+
+	if (!item.integrity || !item.signature) {
+		throw new RegistryIntegrityError(
+			source,
+			"The registry requires signed items, but the item has no signature.",
+		)
+	}
+
+	let key: KeyObject
+	try {
+		key = parsePublicKey(options.publicKey)
+	} catch (error) {
+		throw new RegistryIntegrityError(
+			source,
+			`The public key configured for the registry is invalid: ${error instanceof Error ? error.message : String(error)}`,
+		)
+	}
+
+	const valid = verify(
+		null,
+		Buffer.from(item.integrity),
+		key,
+		Buffer.from(item.signature, "base64"),
+	)
+
+	if (!valid) {
+		throw new RegistryIntegrityError(
+			source,
+			"The item's signature doesn't match the public key configured for the registry.",
+		)
+	}
+}
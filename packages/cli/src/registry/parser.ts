@@ -1,23 +1,46 @@
 const REGISTRY_PATTERN = /^(@[a-zA-Z0-9](?:[a-zA-Z0-9-_]*[a-zA-Z0-9])?)\/(.+)$/
 
+/**
+ * Split a version or range from an item name, e.g. "coding-agent@1.2.0",
+ * "tools:bash@^1.0.0" or "@awesome-ai/coding-agent@~1.2".
+ */
+export function parseItemVersion(name: string) {
+	// Skip the leading "@" of a namespace
+	const index = name.indexOf("@", 1)
+
+	if (index === -1) {
+		return { name, version: null }
+	}
+
+	return {
+		name: name.substring(0, index),
+		version: name.substring(index + 1) || null,
+	}
+}
+
 export function parseRegistryAndItemFromString(name: string) {
-	if (!name.startsWith("@")) {
+	const { name: itemName, version } = parseItemVersion(name)
+
+	if (!itemName.startsWith("@")) {
 		return {
 			registry: null,
-			item: name,
+			item: itemName,
+			version,
 		}
 	}
 
-	const match = name.match(REGISTRY_PATTERN)
+	const match = itemName.match(REGISTRY_PATTERN)
 	if (match) {
 		return {
 			registry: match[1],
 			item: match[2],
+			version,
 		}
 	}
 
 	return {
 		registry: null,
-		item: name,
+		item: itemName,
+		version,
 	}
 }
@@ -1,13 +1,27 @@
 import { createHash } from "crypto"
 import deepmerge from "deepmerge"
 import path from "path"
+import semver from "semver"
 import { z } from "zod"
 import type { Config } from "../schema"
-import { buildUrlAndHeadersForRegistryItem } from "./builder"
-import { setRegistryHeaders } from "./context"
-import { RegistryNotConfiguredError, RegistryParseError } from "./errors"
+import {
+	buildUrlAndHeadersForRegistryItem,
+	resolveRegistryUrl,
+} from "./builder"
+import {
+	getRegistryPublicKeyFromContext,
+	setRegistryHeaders,
+	setRegistryPublicKeys,
+} from "./context"
+import {
+	RegistryNotConfiguredError,
+	RegistryParseError,
+	RegistryVersionConflictError,
+	RegistryVersionNotFoundError,
+} from "./errors"
 import { fetchRegistry, fetchRegistryLocal } from "./fetcher"
-import { parseRegistryAndItemFromString } from "./parser"
+import { verifyRegistryItem } from "./integrity"
+import { parseItemVersion, parseRegistryAndItemFromString } from "./parser"
 import {
 	type RegistryItem,
 	type RegistryItemCategory,
@@ -20,12 +34,31 @@ const registryItemWithSourceSchema = registryItemSchema.extend({
 	_source: z.string().optional(),
 })
 
+interface ResolvedVersions {
+	// Versions picked for each item while resolving a tree, keyed by
+	// "{type}/{name}", with the ranges that required them
+	picked: Map<
+		string,
+		{
+			version: string
+			requirements: { range: string; requiredBy?: string }[]
+		}
+	>
+	// Ranges of items whose first pick didn't satisfy a later range. The tree
+	// is resolved again, and these items pick a version that satisfies them all
+	ranges: Map<string, string[]>
+}
+
+// Thrown to resolve the tree again after `ranges` learned about a conflict
+class VersionConflictRetry extends Error {}
+
 export function resolveRegistryItemsFromRegistries(
 	items: string[],
 	type: RegistryItemCategory,
 	config: Config,
 ) {
 	const registryHeaders: Record<string, Record<string, string>> = {}
+	const registryPublicKeys: Record<string, string> = {}
 	const resolvedItems = [...items]
 
 	if (!config?.registries) {
@@ -61,14 +94,53 @@ export function resolveRegistryItemsFromRegistries(
 			if (Object.keys(resolved.headers).length > 0) {
 				registryHeaders[resolved.url] = resolved.headers
 			}
+
+			if (resolved.publicKey) {
+				registryPublicKeys[resolved.url] = resolved.publicKey
+			}
 		}
 	}
 
 	setRegistryHeaders(registryHeaders)
+	setRegistryPublicKeys(registryPublicKeys)
 
 	return resolvedItems
 }
 
+/**
+ * Resolve the URL (or local path) an item is fetched from, following the same
+ * rules as `fetchRegistryItems`.
+ */
+export function resolveRegistryItemUrl(
+	item: string,
+	type: RegistryItemCategory,
+	config: Config,
+) {
+	if (isLocalFile(item) || isUrl(item)) {
+		return item
+	}
+
+	if (item.startsWith("@") && config?.registries) {
+		const resolved = buildUrlAndHeadersForRegistryItem(item, type, config)
+		if (resolved) {
+			return resolved.url
+		}
+	}
+
+	let itemType = type
+	let itemName = item
+	const colonIndex = item.indexOf(":")
+	if (colonIndex > 0) {
+		const prefix = item.substring(0, colonIndex)
+		if (prefix === "agents" || prefix === "tools" || prefix === "prompts") {
+			itemType = prefix
+			itemName = item.substring(colonIndex + 1)
+		}
+	}
+
+	return resolveRegistryUrl(`${itemType}/${itemName}.json`)
+}
+
 export async function fetchRegistryItems(
 	items: string[],
 	type: RegistryItemCategory,
@@ -129,17 +201,45 @@ export async function resolveRegistryTree(
 	type: RegistryItemCategory,
 	config: Config,
 ) {
-	let payload: z.infer<typeof registryItemWithSourceSchema>[] = []
+	const ranges = new Map<string, string[]>()
+
+	for (;;) {
+		try {
+			return await resolveTree(names, type, config, {
+				picked: new Map(),
+				ranges,
+			})
+		} catch (error) {
+			if (!(error instanceof VersionConflictRetry)) throw error
+		}
+	}
+}
+
+async function resolveTree(
+	names: string[],
+	type: RegistryItemCategory,
+	config: Config,
+	versions: ResolvedVersions,
+) {
+	const payload: z.infer<typeof registryItemWithSourceSchema>[] = []
 	const allDependencyItems: z.infer<typeof registryItemWithSourceSchema>[] = []
 
 	const uniqueNames = Array.from(new Set(names))
+	const versionedNames = await resolveItemVersions(
+		uniqueNames,
+		type,
+		config,
+		versions,
+	)
 
-	const results = await fetchRegistryItems(uniqueNames, type, config)
+	const results = await fetchRegistryItems(versionedNames, type, config)
 
 	const resultMap = new Map<string, RegistryItem>()
 	for (let i = 0; i < results.length; i++) {
-		if (results[i]) {
-			resultMap.set(uniqueNames[i], results[i])
+		const result = results[i]
+		if (result) {
+			verifyItem(result, versionedNames[i]!, type, config)
+			resultMap.set(uniqueNames[i]!, result)
 		}
 	}
 
@@ -151,8 +251,6 @@ export async function resolveRegistryTree(
 		payload.push(itemWithSource)
 
 		if (item.registryDependencies) {
-			let resolvedDependencies = item.registryDependencies
-
 			if (!config?.registries) {
 				const namespacedDeps = item.registryDependencies.filter((dep: string) =>
 					dep.startsWith("@"),
@@ -161,9 +259,19 @@ export async function resolveRegistryTree(
 					const { registry } = parseRegistryAndItemFromString(namespacedDeps[0])
 					throw new RegistryNotConfiguredError(registry)
 				}
-			} else {
+			}
+
+			let resolvedDependencies = await resolveItemVersions(
+				item.registryDependencies,
+				type,
+				config,
+				versions,
+				item.name,
+			)
+
+			if (config?.registries) {
 				resolvedDependencies = resolveRegistryItemsFromRegistries(
-					item.registryDependencies,
+					resolvedDependencies,
 					type,
 					config,
 				)
@@ -174,6 +282,7 @@ export async function resolveRegistryTree(
 				type,
 				config,
 				new Set(uniqueNames),
+				versions,
 			)
 			allDependencyItems.push(...items)
 		}
@@ -181,6 +290,36 @@ export async function resolveRegistryTree(
 
 	payload.push(...allDependencyItems)
 
+	return createResolvedTree(payload)
+}
+
+/**
+ * Fetch items without resolving their registry dependencies, for sources that
+ * already list every dependency, e.g. the items of agents-lock.json.
+ */
+export async function resolveRegistryItems(
+	names: string[],
+	type: RegistryItemCategory,
+	config: Config,
+) {
+	const uniqueNames = Array.from(new Set(names))
+	const results = await fetchRegistryItems(uniqueNames, type, config)
+	const payload: z.infer<typeof registryItemWithSourceSchema>[] = []
+
+	for (let i = 0; i < results.length; i++) {
+		const result = results[i]
+		if (result) {
+			verifyItem(result, uniqueNames[i]!, type, config)
+			payload.push({ ...result, _source: uniqueNames[i] })
+		}
+	}
+
+	return createResolvedTree(payload)
+}
+
+function createResolvedTree(
+	payload: z.infer<typeof registryItemWithSourceSchema>[],
+) {
 	const sourceMap = new Map<RegistryItem, string>()
 	for (const item of payload) {
 		const source = item._source || item.name
@@ -201,7 +340,7 @@ export async function resolveRegistryTree(
 			.join("\n"),
 	})
 
-	return parsed
+	return { ...parsed, items: payload }
 }
 
 async function resolveDependenciesRecursively(
@@ -209,6 +348,7 @@ async function resolveDependenciesRecursively(
 	type: RegistryItemCategory,
 	config: Config,
 	visited: Set<string> = new Set(),
+	versions: ResolvedVersions = { picked: new Map(), ranges: new Map() },
 ) {
 	const items: z.infer<typeof registryItemWithSourceSchema>[] = []
 
@@ -229,22 +369,28 @@ async function resolveDependenciesRecursively(
 		const [item] = await fetchRegistryItems([dep], type, config)
 		if (!item) continue
 
+		verifyItem(item, dep, type, config)
+
 		items.push({ ...item, _source: dep })
 
 		if (item.registryDependencies) {
+			const versionedDeps = await resolveItemVersions(
+				item.registryDependencies,
+				type,
+				config,
+				versions,
+				item.name,
+			)
 			const resolvedDeps = config?.registries
-				? resolveRegistryItemsFromRegistries(
-						item.registryDependencies,
-						type,
-						config,
-					)
-				: item.registryDependencies
+				? resolveRegistryItemsFromRegistries(versionedDeps, type, config)
+				: versionedDeps
 
 			const nested = await resolveDependenciesRecursively(
 				resolvedDeps,
 				type,
 				config,
 				visited,
+				versions,
 			)
 			items.push(...nested.items)
 		}
@@ -253,6 +399,147 @@ async function resolveDependenciesRecursively(
 	return { items }
 }
 
+function verifyItem(
+	item: RegistryItem,
+	source: string,
+	type: RegistryItemCategory,
+	config: Config,
+) {
+	let publicKey: string | undefined
+	if (source.startsWith("@") && config?.registries) {
+		publicKey = buildUrlAndHeadersForRegistryItem(
+			source,
+			type,
+			config,
+		)?.publicKey
+	} else {
+		publicKey = getRegistryPublicKeyFromContext(source)
+	}
+
+	verifyRegistryItem(item, source, { publicKey })
+}
+
+/**
+ * Replace version ranges in item names with the highest published version
+ * that satisfies them, e.g. "tools:bash@^1.0.0" becomes "tools:bash@1.2.0".
+ * An item required more than once keeps the version it was first resolved to.
+ * When a later range isn't satisfied by it but another version satisfies
+ * every range, the tree is resolved again with that version.
+ */
+async function resolveItemVersions(
+	items: string[],
+	type: RegistryItemCategory,
+	config: Config,
+	versions: ResolvedVersions,
+	requiredBy?: string,
+) {
+	const resolved: string[] = []
+
+	for (const item of items) {
+		if (isUrl(item) || isLocalFile(item)) {
+			resolved.push(item)
+			continue
+		}
+
+		const { name, version: range } = parseItemVersion(item)
+		if (!range) {
+			resolved.push(item)
+			continue
+		}
+
+		const key = getVersionKey(name, type)
+		const existing = versions.picked.get(key)
+		const required = versions.ranges.get(key) ?? []
+
+		if (existing) {
+			existing.requirements.push({ range, requiredBy })
+
+			if (!semver.satisfies(existing.version, range)) {
+				const ranges = [
+					...new Set([
+						...required,
+						...existing.requirements.map((requirement) => requirement.range),
+					]),
+				]
+				const available = await fetchAvailableVersions(name, type, config)
+
+				if (!pickVersion(available, ranges)) {
+					throw new RegistryVersionConflictError(
+						key,
+						existing.version,
+						existing.requirements,
+					)
+				}
+
+				versions.ranges.set(key, ranges)
+				throw new VersionConflictRetry()
+			}
+
+			resolved.push(`${name}@${existing.version}`)
+			continue
+		}
+
+		let version: string | null = range
+		if (!semver.valid(range) || required.length > 0) {
+			const available = await fetchAvailableVersions(name, type, config)
+			version = pickVersion(available, [range, ...required])
+
+			if (!version) {
+				throw new RegistryVersionNotFoundError(key, range, available)
+			}
+		}
+
+		versions.picked.set(key, {
+			version,
+			requirements: [{ range, requiredBy }],
+		})
+		resolved.push(`${name}@${version}`)
+	}
+
+	return resolved
+}
+
+/**
+ * Get the highest version that satisfies every range.
+ */
+function pickVersion(available: string[], ranges: string[]) {
+	const matching = available.filter((version) =>
+		ranges.every((range) => semver.satisfies(version, range)),
+	)
+
+	return semver.rsort(matching)[0] ?? null
+}
+
+function getVersionKey(name: string, type: RegistryItemCategory) {
+	let itemType = type
+	let itemName = name
+	const colonIndex = name.indexOf(":")
+	if (colonIndex > 0) {
+		const prefix = name.substring(0, colonIndex)
+		if (prefix === "agents" || prefix === "tools" || prefix === "prompts") {
+			itemType = prefix
+			itemName = name.substring(colonIndex + 1)
+		}
+	}
+
+	return `${itemType}/${parseRegistryAndItemFromString(itemName).item}`
+}
+
+// The unversioned item is the latest version, and lists every published one
+async function fetchAvailableVersions(
+	name: string,
+	type: RegistryItemCategory,
+	config: Config,
+) {
+	const [source = name] = config?.registries
+		? resolveRegistryItemsFromRegistries([name], type, config)
+		: [name]
+
+	const [item] = await fetchRegistryItems([source], type, config)
+
+	return item?.versions ?? (item?.version ? [item.version] : [])
+}
+
 function computeItemHash(item: Pick<RegistryItem, "name">, source?: string) {
 	const identifier = source || item.name
 
@@ -15,6 +15,8 @@ export const registryItemFileSchema = z.object({
 	content: z.string(),
 	type: registryItemTypeSchema,
 	target: z.string().optional(),
+	// Subresource Integrity hash of the content, e.g. "sha256-<base64>"
+	integrity: z.string().optional(),
 })
 
 // Base fields shared between index entries and full items
@@ -22,6 +24,10 @@ const registryItemBaseSchema = z.object({
 	$schema: z.string().optional(),
 	name: z.string(),
 	type: registryItemTypeSchema,
+	// Semver version of the item, published as `{type}/{name}@{version}.json`
+	version: z.string().optional(),
+	// Every published version of the item
+	versions: z.array(z.string()).optional(),
 	title: z.string().optional(),
 	author: z.string().min(2).optional(),
 	description: z.string().optional(),
@@ -36,6 +42,11 @@ const registryItemBaseSchema = z.object({
 // Full registry item - has files with content
 export const registryItemSchema = registryItemBaseSchema.extend({
 	files: z.array(registryItemFileSchema),
+	// Hash of the item's metadata and files, see `computeItemIntegrity`
+	integrity: z.string().optional(),
+	// Base64 ed25519 signature of `integrity`, verified when the registry has a
+	// `publicKey`
+	signature: z.string().optional(),
 })
 
 export type RegistryItem = z.infer<typeof registryItemSchema>
@@ -66,6 +77,8 @@ export const registryConfigItemSchema = z.union([
 		url: z.string(),
 		params: z.record(z.string(), z.string()).optional(),
 		headers: z.record(z.string(), z.string()).optional(),
+		// ed25519 public key (PEM or base64 DER) that items must be signed with
+		publicKey: z.string().optional(),
 	}),
 ])
 
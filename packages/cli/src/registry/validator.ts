@@ -36,6 +36,12 @@ export function extractEnvVarsFromRegistryConfig(
 				}
 			}
 		}
+
+		if (config.publicKey) {
+			for (const v of extractEnvVars(config.publicKey)) {
+				vars.add(v)
+			}
+		}
 	}
 
 	return Array.from(vars)
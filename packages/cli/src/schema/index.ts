@@ -5,6 +5,40 @@ const coerceBoolean = z
 	.union([z.boolean(), z.string().transform((v) => v === "true" || v === "1")])
 	.default(true)
 
+export const mcpServerSchema = z.union([
+	z
+		.object({
+			type: z.literal("stdio").optional(),
+			command: z.string(),
+			args: z.array(z.string()).optional(),
+			env: z.record(z.string(), z.string()).optional(),
+			cwd: z.string().optional(),
+		})
+		.strict(),
+	z
+		.object({
+			type: z.literal("http").optional(),
+			url: z.string(),
+			headers: z.record(z.string(), z.string()).optional(),
+		})
+		.strict(),
+])
+
+export const permissionSchema = z.enum(["allow", "ask", "deny"])
+
+// Permission patterns per tool, e.g. `{ bash: { "pnpm test*": "allow" } }`
+export const toolPermissionsSchema = z.record(
+	z.string(),
+	z.record(z.string(), permissionSchema),
+)
+
+// Permission patterns for every agent, with overrides for single agents
+export const permissionPolicySchema = z
+	.object({
+		agents: z.record(z.string(), toolPermissionsSchema).optional(),
+	})
+	.catchall(z.record(z.string(), permissionSchema))
+
 export const rawConfigSchema = z
 	.object({
 		$schema: z.string().optional(),
@@ -15,6 +49,8 @@ export const rawConfigSchema = z
 			prompts: z.string(),
 		}),
 		registries: registryConfigSchema.optional(),
+		mcpServers: z.record(z.string(), mcpServerSchema).optional(),
+		permissions: permissionPolicySchema.optional(),
 	})
 	.strict()
 
@@ -29,3 +65,6 @@ export const configSchema = rawConfigSchema.extend({
 
 export type Config = z.infer<typeof configSchema>
 export type RawConfig = z.infer<typeof rawConfigSchema>
+export type McpServerConfig = z.infer<typeof mcpServerSchema>
+export type ToolPermissions = z.infer<typeof toolPermissionsSchema>
+export type PermissionPolicy = z.infer<typeof permissionPolicySchema>
@@ -1,12 +1,30 @@
+import path from "path"
 import { configWithDefaults } from "../registry/config"
-import { resolveRegistryTree } from "../registry/resolver"
-import type { RegistryItemCategory } from "../registry/schema"
+import {
+	resolveRegistryItemUrl,
+	resolveRegistryTree,
+} from "../registry/resolver"
+import type { RegistryItem, RegistryItemCategory } from "../registry/schema"
 import type { Config } from "../schema"
+import { storeContent } from "./content-store"
+import { getTargetDir } from "./file-type"
+import { getProjectInfo } from "./get-project-info"
 import { handleError } from "./handle-error"
+import { highlighter } from "./highlighter"
+import {
+	getLockedFileHashes,
+	getLockfileKey,
+	getPinnedSource,
+	type LockfileItem,
+	mergeLockfileItems,
+	readLockfile,
+	writeLockfile,
+} from "./lockfile"
 import { logger } from "./logger"
 import { spinner } from "./spinner"
+import { transformImports } from "./transform-import"
 import { updateDependencies } from "./update-dependencies"
-import { updateFiles } from "./update-files"
+import { resolveFilePath, updateFiles } from "./update-files"
 
 export async function addItems(
 	items: string[],
@@ -34,11 +52,8 @@ export async function addItems(
 		silent: options.silent,
 	})?.start()
 
-	const tree = await resolveRegistryTree(
-		items,
-		type,
-		configWithDefaults(config),
-	)
+	const resolvedConfig = configWithDefaults(config)
+	const tree = await resolveRegistryTree(items, type, resolvedConfig)
 
 	if (!tree) {
 		registrySpinner?.fail()
@@ -47,7 +62,30 @@ export async function addItems(
 
 	registrySpinner?.succeed()
 
-	const { filesCreated, filesUpdated } = await updateFiles(
+	const cwd = config.resolvedPaths.cwd
+	const lockfile = await readLockfile(cwd)
+	const lockfileItems = await createLockfileItems(
+		tree.items,
+		items,
+		type,
+		resolvedConfig,
+		{ path: options.path },
+	)
+
+	const changedFiles: string[] = []
+	for (const item of lockfileItems) {
+		const locked = lockfile?.items[getLockfileKey(item)]
+		if (!locked) continue
+
+		for (const file of item.files) {
+			const lockedFile = locked.files.find((f) => f.path === file.path)
+			if (lockedFile && lockedFile.hash !== file.hash) {
+				changedFiles.push(file.target)
+			}
+		}
+	}
+
+	const { filesCreated, filesUpdated, filesDeclined } = await updateFiles(
 		tree.files,
 		type,
 		config,
@@ -56,17 +94,107 @@ export async function addItems(
 			silent: options.silent,
 			path: options.path,
 			yes: options.yes,
+			lockedHashes: getLockedFileHashes(lockfile, cwd),
 		},
 	)
 
 	// Only install dependencies if files were actually created or updated
+	let addedDependencies: string[] = []
 	if (filesCreated.length || filesUpdated.length) {
-		await updateDependencies(tree.dependencies, tree.devDependencies, config, {
-			silent: options.silent,
+		addedDependencies = await updateDependencies(
+			tree.dependencies,
+			tree.devDependencies,
+			config,
+			{ silent: options.silent },
+		)
+	}
+
+	// Declined files still have the previously installed content
+	for (const item of lockfileItems) {
+		const locked = lockfile?.items[getLockfileKey(item)]
+		item.files = item.files.map((file) => {
+			const lockedFile = locked?.files.find((f) => f.target === file.target)
+			return lockedFile && filesDeclined.includes(file.target)
+				? lockedFile
+				: file
 		})
 	}
 
+	await writeLockfile(
+		cwd,
+		mergeLockfileItems(lockfile, lockfileItems, addedDependencies),
+	)
+
+	if (changedFiles.length && !options.silent) {
+		logger.warn(
+			`Updated ${highlighter.info("agents-lock.json")} for files that changed in the registry since they were locked.`,
+		)
+	}
+
 	if (tree.docs) {
 		logger.info(tree.docs)
 	}
 }
+
+/**
+ * Build the agents-lock.json entries for the resolved items. File hashes are
+ * computed from the transformed content, which is what gets written to disk.
+ */
+export async function createLockfileItems(
+	resolvedItems: (RegistryItem & { _source?: string })[],
+	requested: string[],
+	type: RegistryItemCategory,
+	config: Config,
+	options: { path?: string; targets?: Map<string, string> },
+) {
+	const projectInfo = await getProjectInfo(config.resolvedPaths.cwd)
+	const lockfileItems: LockfileItem[] = []
+
+	for (const item of resolvedItems) {
+		const source = item._source || item.name
+		const category = getTargetDir(
+			{ type: item.type, path: item.files[0]?.path ?? "" },
+			type,
+		)
+
+		const files: LockfileItem["files"] = []
+		for (const file of item.files) {
+			const filePath = resolveFilePath(file, type, config, {
+				path: options.path,
+				targets: options.targets,
+				projectInfo,
+			})
+			const content = await transformImports({
+				filename: file.path,
+				raw: file.content,
+				config,
+				isRemote: false,
+			})
+
+			files.push({
+				path: file.path,
+				target: path.relative(config.resolvedPaths.cwd, filePath),
+				hash: await storeContent(content),
+			})
+		}
+
+		// Sources can be version ranges, lock the version that was installed
+		const pinned = getPinnedSource(source, item.version)
+
+		lockfileItems.push({
+			name: item.name,
+			type: item.type,
+			category,
+			version: item.version,
+			source,
+			resolved: resolveRegistryItemUrl(pinned, category, config),
+			direct: requested.includes(source),
+			registryDependencies: item.registryDependencies ?? [],
+			dependencies: item.dependencies ?? [],
+			devDependencies: item.devDependencies ?? [],
+			files,
+		})
+	}
+
+	return lockfileItems
+}
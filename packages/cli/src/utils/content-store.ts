@@ -0,0 +1,40 @@
+import { existsSync, promises as fs } from "fs"
+import { homedir } from "os"
+import path from "path"
+import { hashContent } from "./lockfile"
+
+const APP_NAME = "awesome-ai"
+
+/**
+ * Content-addressed store for the original content of installed files, keyed
+ * by the hash recorded in agents-lock.json. `update` uses it as the base of
+ * the three-way merge.
+ */
+function getContentStorePath() {
+	const xdgCache = process.env.XDG_CACHE_HOME || path.join(homedir(), ".cache")
+	return path.join(xdgCache, APP_NAME, "content")
+}
+
+function getContentPath(hash: string) {
+	return path.join(getContentStorePath(), hash.replace(/^sha256-/, ""))
+}
+
+export async function storeContent(content: string) {
+	const hash = hashContent(content)
+	const contentPath = getContentPath(hash)
+
+	if (!existsSync(contentPath)) {
+		await fs.mkdir(path.dirname(contentPath), { recursive: true })
+		await fs.writeFile(contentPath, content, "utf-8")
+	}
+
+	return hash
+}
+
+export async function readStoredContent(hash: string) {
+	try {
+		return await fs.readFile(getContentPath(hash), "utf-8")
+	} catch {
+		return null
+	}
+}
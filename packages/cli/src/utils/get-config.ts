@@ -29,6 +29,16 @@ export async function getConfig(cwd: string): Promise<Config | null> {
 	return await resolveConfigPaths(cwd, config)
 }
 
+/**
+ * The directories agents, tools and prompts are installed in, which commands
+ * the agents run without approval must not change.
+ */
+export function getInstalledDirectories(config: Config | null): string[] {
+	if (!config) return []
+	const { agents, tools, prompts } = config.resolvedPaths
+	return [agents, tools, prompts]
+}
+
 export async function resolveConfigPaths(
 	cwd: string,
 	config: RawConfig,
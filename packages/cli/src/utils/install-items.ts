@@ -0,0 +1,136 @@
+import { configWithDefaults } from "../registry/config"
+import { resolveRegistryItems } from "../registry/resolver"
+import type { Config } from "../schema"
+import { createLockfileItems } from "./add-items"
+import {
+	getLockedFileHashes,
+	getLockedTargets,
+	getLockfileKey,
+	getPinnedSource,
+	type Lockfile,
+	type LockfileItem,
+} from "./lockfile"
+import { logger } from "./logger"
+import { spinner } from "./spinner"
+import { updateDependencies } from "./update-dependencies"
+import { updateFiles } from "./update-files"
+
+/**
+ * Install items exactly as they're recorded in agents-lock.json. Every item
+ * is fetched at its locked version, dependencies aren't resolved again, and
+ * the install fails if the registry content doesn't match the locked hashes.
+ */
+export async function installItems(
+	items: LockfileItem[],
+	lockfile: Lockfile,
+	config: Config,
+	options: {
+		overwrite?: boolean
+		silent?: boolean
+		yes?: boolean
+	},
+) {
+	options = {
+		overwrite: false,
+		silent: false,
+		yes: false,
+		...options,
+	}
+
+	const cwd = config.resolvedPaths.cwd
+	const resolvedConfig = configWithDefaults(config)
+	// Files are installed where they were added, e.g. with --path
+	const targets = getLockedTargets(items)
+
+	const registrySpinner = spinner(`Checking registry.`, {
+		silent: options.silent,
+	})?.start()
+
+	const itemsByCategory = new Map<LockfileItem["category"], LockfileItem[]>()
+	for (const item of items) {
+		const categoryItems = itemsByCategory.get(item.category) ?? []
+		categoryItems.push(item)
+		itemsByCategory.set(item.category, categoryItems)
+	}
+
+	const trees: {
+		category: LockfileItem["category"]
+		tree: Awaited<ReturnType<typeof resolveRegistryItems>>
+	}[] = []
+	const changedFiles: string[] = []
+
+	for (const [category, categoryItems] of itemsByCategory) {
+		const sources = categoryItems.map((item) =>
+			getPinnedSource(item.source, item.version),
+		)
+		const tree = await resolveRegistryItems(sources, category, resolvedConfig)
+		const fetchedItems = await createLockfileItems(
+			tree.items,
+			sources,
+			category,
+			resolvedConfig,
+			{ targets },
+		)
+
+		for (const locked of categoryItems) {
+			const fetched = fetchedItems.find(
+				(item) => getLockfileKey(item) === getLockfileKey(locked),
+			)
+
+			for (const file of locked.files) {
+				const fetchedFile = fetched?.files.find((f) => f.path === file.path)
+				if (fetchedFile?.hash !== file.hash) {
+					changedFiles.push(file.target)
+				}
+			}
+		}
+
+		trees.push({ category, tree })
+	}
+
+	if (changedFiles.length) {
+		registrySpinner?.fail()
+		throw new Error(
+			`The registry content no longer matches agents-lock.json:\n${changedFiles
+				.map((file) => `  - ${file}`)
+				.join(
+					"\n",
+				)}\nRun the install command with --resolve to install the latest content and update the lockfile.`,
+		)
+	}
+
+	registrySpinner?.succeed()
+
+	let filesChanged = false
+	for (const { category, tree } of trees) {
+		const { filesCreated, filesUpdated } = await updateFiles(
+			tree.files,
+			category,
+			config,
+			{
+				overwrite: options.overwrite,
+				silent: options.silent,
+				yes: options.yes,
+				lockedHashes: getLockedFileHashes(lockfile, cwd),
+				targets,
+			},
+		)
+		filesChanged ||= !!(filesCreated.length || filesUpdated.length)
+	}
+
+	// Only install dependencies if files were actually created or updated
+	if (filesChanged) {
+		await updateDependencies(
+			items.flatMap((item) => item.dependencies),
+			items.flatMap((item) => item.devDependencies),
+			config,
+			{ silent: options.silent },
+		)
+	}
+
+	for (const { tree } of trees) {
+		if (tree.docs) {
+			logger.info(tree.docs)
+		}
+	}
+}
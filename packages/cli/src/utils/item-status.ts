@@ -0,0 +1,200 @@
+import fg from "fast-glob"
+import { existsSync, promises as fs } from "fs"
+import path from "path"
+import { getRegistryItems } from "../registry/api"
+import {
+	RegistryLocalFileError,
+	RegistryNotFoundError,
+} from "../registry/errors"
+import type { RegistryItem, RegistryItemCategory } from "../registry/schema"
+import type { Config } from "../schema"
+import { getProjectInfo } from "./get-project-info"
+import { hashContent, type Lockfile, type LockfileItem } from "./lockfile"
+import { transformImports } from "./transform-import"
+import { resolveFilePath } from "./update-files"
+
+export type ItemStatus =
+	| "up-to-date"
+	| "modified-locally"
+	| "update-available"
+	| "removed-upstream"
+
+export interface InstalledItem {
+	name: string
+	category: RegistryItemCategory
+	source: string
+	locked?: LockfileItem
+}
+
+export interface ItemStatusResult {
+	name: string
+	type: RegistryItemCategory
+	status: ItemStatus
+	files: {
+		path: string
+		target: string
+		status: Exclude<ItemStatus, "removed-upstream">
+	}[]
+}
+
+const CATEGORIES: RegistryItemCategory[] = ["agents", "tools", "prompts"]
+
+// Sorted from least to most important, an item gets the status of its most
+// important file
+const STATUS_PRIORITY: ItemStatus[] = [
+	"up-to-date",
+	"modified-locally",
+	"update-available",
+	"removed-upstream",
+]
+
+/**
+ * Find the items installed in the project. Items in agents-lock.json are used
+ * as is, other files in the agents, tools and prompts directories are mapped
+ * to registry items by their path (e.g. `tools/nested/tool.ts` is
+ * `nested/tool`). Files in `lib/` folders belong to other items and are
+ * skipped.
+ */
+export async function getInstalledItems(
+	config: Config,
+	lockfile: Lockfile | null,
+	type?: RegistryItemCategory,
+) {
+	const categories = type ? [type] : CATEGORIES
+	const items = new Map<string, InstalledItem>()
+	const lockedTargets = new Set<string>()
+
+	for (const locked of Object.values(lockfile?.items ?? {})) {
+		for (const file of locked.files) {
+			lockedTargets.add(path.resolve(config.resolvedPaths.cwd, file.target))
+		}
+
+		if (!locked.direct || !categories.includes(locked.category)) continue
+
+		items.set(`${locked.category}/${locked.name}`, {
+			name: locked.name,
+			category: locked.category,
+			source: locked.source,
+			locked,
+		})
+	}
+
+	for (const category of categories) {
+		const dir = config.resolvedPaths[category]
+		if (!existsSync(dir)) continue
+
+		const files = await fg.glob("**/*.{ts,tsx,js,jsx}", {
+			cwd: dir,
+			ignore: ["**/lib/**", "**/node_modules/**", "**/*.d.ts"],
+		})
+
+		for (const file of files.sort()) {
+			if (lockedTargets.has(path.resolve(dir, file))) continue
+
+			const name = file.replace(/\.(ts|tsx|js|jsx)$/, "")
+			const key = `${category}/${name}`
+
+			if (!items.has(key)) {
+				items.set(key, { name, category, source: name })
+			}
+		}
+	}
+
+	return Array.from(items.values())
+}
+
+/**
+ * Compare installed items against the registry. Items are fetched
+ * concurrently.
+ *
+ * With a lockfile entry, local changes and registry updates are told apart by
+ * comparing both sides with the installed content. Without one, any
+ * difference is reported as an available update.
+ */
+export async function getItemsStatus(items: InstalledItem[], config: Config) {
+	const projectInfo = await getProjectInfo(config.resolvedPaths.cwd)
+
+	const results = await Promise.all(
+		items.map(async (item) => {
+			let registryItem: RegistryItem | undefined
+			try {
+				;[registryItem] = await getRegistryItems([item.source], item.category, {
+					config,
+				})
+			} catch (error) {
+				if (
+					!(error instanceof RegistryNotFoundError) &&
+					!(error instanceof RegistryLocalFileError)
+				) {
+					throw error
+				}
+			}
+
+			if (!registryItem) {
+				// Files that were never installed from a registry aren't tracked
+				if (!item.locked) return null
+
+				return {
+					name: item.name,
+					type: item.category,
+					status: "removed-upstream",
+					files: [],
+				} satisfies ItemStatusResult
+			}
+
+			const files: ItemStatusResult["files"] = []
+
+			for (const file of registryItem.files) {
+				const lockedFile = item.locked?.files.find((f) => f.path === file.path)
+				const filePath = lockedFile
+					? path.resolve(config.resolvedPaths.cwd, lockedFile.target)
+					: resolveFilePath(file, item.category, config, { projectInfo })
+				const target = path.relative(config.resolvedPaths.cwd, filePath)
+
+				const registryHash = hashContent(
+					await transformImports({
+						filename: file.path,
+						raw: file.content,
+						config,
+						isRemote: false,
+					}),
+				)
+				const localHash = existsSync(filePath)
+					? hashContent(await fs.readFile(filePath, "utf-8"))
+					: null
+
+				let status: ItemStatusResult["files"][number]["status"]
+
+				if (localHash === registryHash) {
+					status = "up-to-date"
+				} else if (lockedFile && lockedFile.hash !== registryHash) {
+					status = "update-available"
+				} else if (lockedFile) {
+					status = "modified-locally"
+				} else {
+					status = "update-available"
+				}
+
+				files.push({ path: file.path, target, status })
+			}
+
+			const status = files.reduce<ItemStatus>(
+				(current, file) =>
+					STATUS_PRIORITY.indexOf(file.status) >
+					STATUS_PRIORITY.indexOf(current)
+						? file.status
+						: current,
+				"up-to-date",
+			)
+
+			return {
+				name: item.name,
+				type: item.category,
+				status,
+				files,
+			} satisfies ItemStatusResult
+		}),
+	)
+
+	return results.filter((result): result is ItemStatusResult => !!result)
+}
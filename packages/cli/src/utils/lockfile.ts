@@ -0,0 +1,219 @@
+import { createHash } from "crypto"
+import { existsSync, promises as fs } from "fs"
+import path from "path"
+import { z } from "zod"
+import {
+	parseItemVersion,
+	parseRegistryAndItemFromString,
+} from "../registry/parser"
+import { registryItemTypeSchema } from "../registry/schema"
+import { isLocalFile, isUrl } from "../registry/utils"
+
+export const LOCKFILE_NAME = "agents-lock.json"
+export const LOCKFILE_VERSION = 1
+
+export const lockfileFileSchema = z.object({
+	// Path of the file in the registry item, e.g. "agents/lib/context.ts"
+	path: z.string(),
+	// Path of the file on disk, relative to the project root
+	target: z.string(),
+	// sha256 of the content written to disk (after import transforms)
+	hash: z.string(),
+})
+
+export const lockfileItemSchema = z.object({
+	name: z.string(),
+	type: registryItemTypeSchema,
+	category: z.enum(["agents", "tools", "prompts"]),
+	version: z.string().optional(),
+	source: z.string(),
+	resolved: z.string(),
+	// Whether the item was requested directly or pulled in as a dependency
+	direct: z.boolean().default(false),
+	registryDependencies: z.array(z.string()).default([]),
+	dependencies: z.array(z.string()).default([]),
+	devDependencies: z.array(z.string()).default([]),
+	files: z.array(lockfileFileSchema),
+})
+
+export const lockfileSchema = z.object({
+	lockfileVersion: z.literal(LOCKFILE_VERSION),
+	// npm packages that weren't in package.json until they were installed for
+	// an item. Only these are offered for removal when no item needs them
+	addedDependencies: z.array(z.string()).default([]),
+	items: z.record(z.string(), lockfileItemSchema),
+})
+
+export type Lockfile = z.infer<typeof lockfileSchema>
+export type LockfileItem = z.infer<typeof lockfileItemSchema>
+
+export function getLockfilePath(cwd: string) {
+	return path.resolve(cwd, LOCKFILE_NAME)
+}
+
+export function getLockfileKey(item: Pick<LockfileItem, "category" | "name">) {
+	return `${item.category}/${item.name}`
+}
+
+export function hashContent(content: string) {
+	const normalized = content.replace(/\r\n/g, "\n")
+	return `sha256-${createHash("sha256").update(normalized).digest("hex")}`
+}
+
+export async function readLockfile(cwd: string): Promise<Lockfile | null> {
+	const lockfilePath = getLockfilePath(cwd)
+
+	if (!existsSync(lockfilePath)) {
+		return null
+	}
+
+	const content = await fs.readFile(lockfilePath, "utf-8")
+
+	try {
+		return lockfileSchema.parse(JSON.parse(content))
+	} catch (error) {
+		throw new Error(
+			`Invalid ${LOCKFILE_NAME} at ${lockfilePath}. Delete it and run the add command again to regenerate it.`,
+			{ cause: error },
+		)
+	}
+}
+
+export async function writeLockfile(cwd: string, lockfile: Lockfile) {
+	// Sort the keys so the lockfile produces stable diffs
+	const items = Object.fromEntries(
+		Object.entries(lockfile.items).sort(([a], [b]) => a.localeCompare(b)),
+	)
+
+	await fs.writeFile(
+		getLockfilePath(cwd),
+		`${JSON.stringify({ ...lockfile, items }, null, 2)}\n`,
+		"utf-8",
+	)
+}
+
+/**
+ * Merge newly installed items, and the packages installed for them, into the
+ * lockfile. An item keeps its `direct` flag once it has been requested
+ * directly, even if it's later installed as a dependency of something else.
+ */
+export function mergeLockfileItems(
+	lockfile: Lockfile | null,
+	items: LockfileItem[],
+	addedDependencies: string[] = [],
+): Lockfile {
+	const merged: Lockfile = {
+		lockfileVersion: LOCKFILE_VERSION,
+		addedDependencies: Array.from(
+			new Set([...(lockfile?.addedDependencies ?? []), ...addedDependencies]),
+		).sort(),
+		items: { ...(lockfile?.items ?? {}) },
+	}
+
+	for (const item of items) {
+		const key = getLockfileKey(item)
+		const existing = merged.items[key]
+
+		merged.items[key] = {
+			...item,
+			direct: item.direct || !!existing?.direct,
+		}
+	}
+
+	return merged
+}
+
+/**
+ * Pin a source to the version that was installed, e.g. "tools:bash" or
+ * "tools:bash@^1.0.0" becomes "tools:bash@1.2.0". URLs and local files are
+ * already pinned.
+ */
+export function getPinnedSource(source: string, version?: string) {
+	if (!version || isUrl(source) || isLocalFile(source)) {
+		return source
+	}
+
+	return `${parseItemVersion(source).name}@${version}`
+}
+
+/**
+ * Find locked items by name, optionally limited to a category.
+ */
+export function findLockfileItems(
+	lockfile: Lockfile | null,
+	name: string,
+	category?: LockfileItem["category"],
+) {
+	if (!lockfile) return []
+
+	return Object.values(lockfile.items).filter(
+		(item) =>
+			(item.name === name || item.source === name) &&
+			(!category || item.category === category),
+	)
+}
+
+/**
+ * Map each locked file target (absolute path) to its recorded hash.
+ */
+export function getLockedFileHashes(lockfile: Lockfile | null, cwd: string) {
+	const hashes = new Map<string, string>()
+
+	if (!lockfile) return hashes
+
+	for (const item of Object.values(lockfile.items)) {
+		for (const file of item.files) {
+			hashes.set(path.resolve(cwd, file.target), file.hash)
+		}
+	}
+
+	return hashes
+}
+
+/**
+ * Map each locked file's registry path to its target, relative to the
+ * project, so files installed with `--path` are written there again.
+ */
+export function getLockedTargets(items: LockfileItem[]) {
+	const targets = new Map<string, string>()
+
+	for (const item of items) {
+		for (const file of item.files) {
+			targets.set(file.path, file.target)
+		}
+	}
+
+	return targets
+}
+
+/**
+ * Find the locked item for a `registryDependencies` entry, e.g. "tools:bash",
+ * "@awesome-ai/bash" or a URL. Dependencies without a type prefix have the
+ * type of the item that depends on them.
+ */
+export function findLockfileDependency(
+	lockfile: Lockfile,
+	dependency: string,
+	category: LockfileItem["category"],
+) {
+	const items = Object.values(lockfile.items)
+	const bySource = items.find(
+		(item) => item.source === dependency || item.resolved === dependency,
+	)
+	if (bySource) return bySource
+
+	let name = parseItemVersion(dependency).name
+	const colonIndex = name.indexOf(":")
+	const prefix = name.substring(0, colonIndex)
+
+	if (prefix === "agents" || prefix === "tools" || prefix === "prompts") {
+		category = prefix
+		name = name.substring(colonIndex + 1)
+	}
+
+	if (name.startsWith("@")) {
+		name = parseRegistryAndItemFromString(name).item ?? name
+	}
+
+	return lockfile.items[getLockfileKey({ category, name })]
+}
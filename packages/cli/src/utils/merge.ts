@@ -0,0 +1,207 @@
+import { diffArrays } from "diff"
+
+export type MergeChunk =
+	| { type: "ok"; lines: string[] }
+	| { type: "conflict"; base: string[]; local: string[]; registry: string[] }
+
+export type ConflictResolution = "local" | "registry" | "both"
+
+interface Hunk {
+	// Range of base lines replaced by this hunk, end is exclusive
+	start: number
+	end: number
+	lines: string[]
+}
+
+export const CONFLICT_MARKERS = {
+	start: "<<<<<<< local",
+	base: "||||||| base",
+	separator: "=======",
+	end: ">>>>>>> registry",
+}
+
+function splitLines(content: string) {
+	const lines = content.replace(/\r\n/g, "\n").split("\n")
+	if (lines[lines.length - 1] === "") lines.pop()
+	return lines
+}
+
+function getHunks(base: string[], changed: string[]) {
+	const hunks: Hunk[] = []
+	let baseIndex = 0
+	let current: Hunk | null = null
+
+	for (const part of diffArrays(base, changed)) {
+		if (!part.added && !part.removed) {
+			if (current) hunks.push(current)
+			current = null
+			baseIndex += part.count ?? part.value.length
+			continue
+		}
+
+		current ??= { start: baseIndex, end: baseIndex, lines: [] }
+
+		if (part.removed) {
+			baseIndex += part.count ?? part.value.length
+			current.end = baseIndex
+		} else {
+			current.lines.push(...part.value)
+		}
+	}
+
+	if (current) hunks.push(current)
+
+	return hunks
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]) {
+	const lines: string[] = []
+	let index = start
+
+	for (const hunk of hunks) {
+		lines.push(...base.slice(index, hunk.start), ...hunk.lines)
+		index = hunk.end
+	}
+	lines.push(...base.slice(index, end))
+
+	return lines
+}
+
+function isSameLines(a: string[], b: string[]) {
+	return a.length === b.length && a.every((line, i) => line === b[i])
+}
+
+/**
+ * Three-way merge of a file at the line level. `base` is the content that was
+ * originally installed, `local` is the file on disk and `registry` is the new
+ * content from the registry.
+ *
+ * Changes that only happened on one side are applied cleanly, changes that
+ * overlap and differ are returned as conflicts.
+ */
+export function mergeThreeWay(base: string, local: string, registry: string) {
+	const baseLines = splitLines(base)
+	const localHunks = getHunks(baseLines, splitLines(local)).map((hunk) => ({
+		...hunk,
+		side: "local" as const,
+	}))
+	const registryHunks = getHunks(baseLines, splitLines(registry)).map(
+		(hunk) => ({ ...hunk, side: "registry" as const }),
+	)
+
+	const hunks = [...localHunks, ...registryHunks].sort(
+		(a, b) => a.start - b.start || a.end - b.end,
+	)
+
+	const chunks: MergeChunk[] = []
+	let index = 0
+
+	const pushLines = (lines: string[]) => {
+		if (!lines.length) return
+		const last = chunks[chunks.length - 1]
+		if (last?.type === "ok") {
+			last.lines.push(...lines)
+		} else {
+			chunks.push({ type: "ok", lines: [...lines] })
+		}
+	}
+
+	let i = 0
+	while (i < hunks.length) {
+		const first = hunks[i]!
+		const group = [first]
+		let end = first.end
+		i++
+
+		// Group hunks that overlap or touch, a change on one side right next to
+		// a change on the other side can't be merged safely
+		while (i < hunks.length && hunks[i]!.start <= end) {
+			const hunk = hunks[i]!
+			group.push(hunk)
+			end = Math.max(end, hunk.end)
+			i++
+		}
+
+		const start = first.start
+		pushLines(baseLines.slice(index, start))
+		index = end
+
+		const local = group.filter((hunk) => hunk.side === "local")
+		const registry = group.filter((hunk) => hunk.side === "registry")
+
+		if (!local.length || !registry.length) {
+			pushLines(applyHunks(baseLines, start, end, group))
+			continue
+		}
+
+		const localLines = applyHunks(baseLines, start, end, local)
+		const registryLines = applyHunks(baseLines, start, end, registry)
+
+		if (isSameLines(localLines, registryLines)) {
+			pushLines(localLines)
+			continue
+		}
+
+		chunks.push({
+			type: "conflict",
+			base: baseLines.slice(start, end),
+			local: localLines,
+			registry: registryLines,
+		})
+	}
+
+	pushLines(baseLines.slice(index))
+
+	return chunks
+}
+
+export function hasConflicts(chunks: MergeChunk[]) {
+	return chunks.some((chunk) => chunk.type === "conflict")
+}
+
+/**
+ * Turn merge chunks back into file content. Conflicts are resolved with
+ * `resolve`, or written with conflict markers when it returns "both".
+ */
+export function formatMergeResult(
+	chunks: MergeChunk[],
+	resolve: (
+		chunk: Extract<MergeChunk, { type: "conflict" }>,
+		index: number,
+	) => ConflictResolution = () => "both",
+) {
+	const lines: string[] = []
+	let conflictIndex = 0
+	let conflicts = 0
+
+	for (const chunk of chunks) {
+		if (chunk.type === "ok") {
+			lines.push(...chunk.lines)
+			continue
+		}
+
+		const resolution = resolve(chunk, conflictIndex++)
+
+		if (resolution === "local") {
+			lines.push(...chunk.local)
+		} else if (resolution === "registry") {
+			lines.push(...chunk.registry)
+		} else {
+			conflicts++
+			lines.push(
+				CONFLICT_MARKERS.start,
+				...chunk.local,
+				CONFLICT_MARKERS.base,
+				...chunk.base,
+				CONFLICT_MARKERS.separator,
+				...chunk.registry,
+				CONFLICT_MARKERS.end,
+			)
+		}
+	}
+
+	return {
+		content: lines.length ? `${lines.join("\n")}\n` : "",
+		conflicts,
+	}
+}
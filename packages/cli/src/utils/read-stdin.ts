@@ -0,0 +1,17 @@
+/**
+ * Read everything piped to stdin. Returns null when stdin is a terminal, so
+ * commands don't wait for input that will never come.
+ */
+export async function readStdin(): Promise<string | null> {
+	if (process.stdin.isTTY) {
+		return null
+	}
+
+	const chunks: Buffer[] = []
+	for await (const chunk of process.stdin) {
+		chunks.push(Buffer.from(chunk))
+	}
+
+	const content = Buffer.concat(chunks).toString("utf-8").trim()
+	return content || null
+}
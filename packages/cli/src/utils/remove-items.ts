@@ -0,0 +1,180 @@
+import { existsSync, promises as fs, readFileSync } from "fs"
+import path from "path"
+import type { Config } from "../schema"
+import { getRelativePath } from "./file-type"
+import { getPackageInfo } from "./get-package-info"
+import {
+	findLockfileDependency,
+	getLockfileKey,
+	hashContent,
+	type Lockfile,
+	type LockfileItem,
+} from "./lockfile"
+import { getPackageName } from "./update-dependencies"
+
+export interface RemovalPlan {
+	// Items that were requested to be removed
+	items: LockfileItem[]
+	// Requested items that other items still depend on, they stay installed
+	// as dependencies
+	dependedItems: LockfileItem[]
+	// Files that only belong to the removed items
+	files: string[]
+	// Dependencies of the removed items that nothing else needs anymore
+	orphanedItems: LockfileItem[]
+	// Lib files and files of orphaned items that nothing else uses anymore
+	orphanedFiles: string[]
+	// npm packages that were only added for the removed items
+	orphanedDependencies: string[]
+	// Files to remove that were changed since they were installed
+	modifiedFiles: string[]
+}
+
+function collectDependencies(lockfile: Lockfile, roots: LockfileItem[]) {
+	const visited = new Map<string, LockfileItem>()
+	const queue = [...roots]
+
+	while (queue.length) {
+		const item = queue.shift()!
+		const key = getLockfileKey(item)
+		if (visited.has(key)) continue
+		visited.set(key, item)
+
+		for (const dependency of item.registryDependencies) {
+			const found = findLockfileDependency(lockfile, dependency, item.category)
+			if (found) queue.push(found)
+		}
+	}
+
+	return visited
+}
+
+/**
+ * Work out what removing `items` leaves behind. An item or file is orphaned
+ * when none of the remaining directly installed items depend on it.
+ */
+export function planRemoval(
+	lockfile: Lockfile,
+	items: LockfileItem[],
+	config: Config,
+): RemovalPlan {
+	const removedKeys = new Set(items.map(getLockfileKey))
+
+	const kept = collectDependencies(
+		lockfile,
+		Object.values(lockfile.items).filter(
+			(item) => item.direct && !removedKeys.has(getLockfileKey(item)),
+		),
+	)
+	const dependedItems = items.filter((item) => kept.has(getLockfileKey(item)))
+	const orphanedItems = Array.from(
+		collectDependencies(lockfile, items).values(),
+	).filter((item) => {
+		const key = getLockfileKey(item)
+		return !removedKeys.has(key) && !kept.has(key)
+	})
+
+	const keptFiles = new Set<string>()
+	const keptPackages = new Set<string>()
+	for (const item of kept.values()) {
+		for (const file of item.files) keptFiles.add(file.target)
+		for (const dep of [...item.dependencies, ...item.devDependencies]) {
+			keptPackages.add(getPackageName(dep))
+		}
+	}
+
+	const files = new Set<string>()
+	const orphanedFiles = new Set<string>()
+
+	for (const item of items) {
+		for (const file of item.files) {
+			if (keptFiles.has(file.target)) continue
+
+			if (getRelativePath(file.path).startsWith("lib/")) {
+				orphanedFiles.add(file.target)
+			} else {
+				files.add(file.target)
+			}
+		}
+	}
+
+	for (const item of orphanedItems) {
+		for (const file of item.files) {
+			if (!keptFiles.has(file.target) && !files.has(file.target)) {
+				orphanedFiles.add(file.target)
+			}
+		}
+	}
+
+	// Only packages that add installed and that are still in package.json can
+	// be removed, the project may have needed the others before
+	const addedPackages = new Set(lockfile.addedDependencies)
+	const packageInfo = getPackageInfo(config.resolvedPaths.cwd)
+	const installedPackages = new Set([
+		...Object.keys(packageInfo?.dependencies ?? {}),
+		...Object.keys(packageInfo?.devDependencies ?? {}),
+	])
+
+	const orphanedDependencies = new Set<string>()
+	for (const item of [...items, ...orphanedItems]) {
+		for (const dep of [...item.dependencies, ...item.devDependencies]) {
+			const name = getPackageName(dep)
+			if (
+				!keptPackages.has(name) &&
+				addedPackages.has(name) &&
+				installedPackages.has(name)
+			) {
+				orphanedDependencies.add(name)
+			}
+		}
+	}
+
+	const lockedHashes = new Map<string, string>()
+	for (const item of [...items, ...orphanedItems]) {
+		for (const file of item.files) lockedHashes.set(file.target, file.hash)
+	}
+
+	const modifiedFiles = [...files, ...orphanedFiles].filter((file) => {
+		const filePath = path.resolve(config.resolvedPaths.cwd, file)
+		return (
+			existsSync(filePath) &&
+			hashContent(readFileSync(filePath, "utf-8")) !== lockedHashes.get(file)
+		)
+	})
+
+	return {
+		items,
+		dependedItems,
+		files: Array.from(files),
+		orphanedItems,
+		orphanedFiles: Array.from(orphanedFiles),
+		orphanedDependencies: Array.from(orphanedDependencies),
+		modifiedFiles,
+	}
+}
+
+/**
+ * Delete files relative to the project root, and the folders they leave
+ * empty.
+ */
+export async function removeFiles(files: string[], config: Config) {
+	const cwd = config.resolvedPaths.cwd
+	const roots = new Set([
+		cwd,
+		config.resolvedPaths.agents,
+		config.resolvedPaths.tools,
+		config.resolvedPaths.prompts,
+	])
+
+	for (const file of files) {
+		const filePath = path.resolve(cwd, file)
+		await fs.rm(filePath, { force: true })
+
+		let dir = path.dirname(filePath)
+		while (!roots.has(dir) && dir.startsWith(cwd) && existsSync(dir)) {
+			if ((await fs.readdir(dir)).length) break
+			await fs.rmdir(dir)
+			dir = path.dirname(dir)
+		}
+	}
+}
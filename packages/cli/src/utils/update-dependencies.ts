@@ -1,9 +1,14 @@
 import { execa } from "execa"
 import type { RegistryItem } from "../registry/schema"
 import type { Config } from "../schema"
+import { getPackageInfo } from "./get-package-info"
 import { getPackageManager } from "./get-package-manager"
 import { spinner } from "./spinner"
 
+/**
+ * Install the dependencies of items. Returns the names of the packages that
+ * weren't in package.json before.
+ */
 export async function updateDependencies(
 	dependencies: RegistryItem["dependencies"],
 	devDependencies: RegistryItem["devDependencies"],
@@ -16,7 +21,7 @@ export async function updateDependencies(
 	devDependencies = Array.from(new Set(devDependencies || []))
 
 	if (!dependencies?.length && !devDependencies?.length) {
-		return
+		return []
 	}
 
 	options = {
@@ -29,6 +34,14 @@ export async function updateDependencies(
 	})?.start()
 
 	const packageManager = await getPackageManager(config.resolvedPaths.cwd)
+	const packageInfo = getPackageInfo(config.resolvedPaths.cwd)
+	const addedDependencies = Array.from(
+		new Set([...dependencies, ...devDependencies].map(getPackageName)),
+	).filter(
+		(name) =>
+			!(name in (packageInfo?.dependencies ?? {})) &&
+			!(name in (packageInfo?.devDependencies ?? {})),
+	)
 
 	dependenciesSpinner?.start()
 
@@ -40,6 +53,8 @@ export async function updateDependencies(
 	)
 
 	dependenciesSpinner?.succeed()
+
+	return addedDependencies
 }
 
 async function installWithPackageManager(
@@ -102,3 +117,40 @@ async function installWithDeno(
 		)
 	}
 }
+
+export async function removeDependencies(
+	packages: string[],
+	config: Config,
+	options: {
+		silent?: boolean
+	} = {},
+) {
+	packages = Array.from(new Set(packages.map(getPackageName)))
+
+	if (!packages.length) {
+		return
+	}
+
+	const dependenciesSpinner = spinner(`Removing dependencies.`, {
+		silent: options.silent,
+	})?.start()
+
+	const packageManager = await getPackageManager(config.resolvedPaths.cwd)
+	const cwd = config.resolvedPaths.cwd
+
+	if (packageManager === "npm") {
+		await execa("npm", ["uninstall", ...packages], { cwd })
+	} else {
+		await execa(packageManager, ["remove", ...packages], { cwd })
+	}
+
+	dependenciesSpinner?.succeed()
+}
+
+/**
+ * Get the package name of a dependency, e.g. "ai@beta" -> "ai".
+ */
+export function getPackageName(dependency: string) {
+	const atIndex = dependency.lastIndexOf("@")
+	return atIndex > 0 ? dependency.slice(0, atIndex) : dependency
+}
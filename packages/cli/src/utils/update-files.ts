@@ -6,8 +6,9 @@ import type { RegistryItem, RegistryItemCategory } from "../registry/schema"
 import type { Config } from "../schema"
 import { isContentSame } from "./compare"
 import { getRelativePath, getTargetDir } from "./file-type"
-import { getProjectInfo } from "./get-project-info"
+import { getProjectInfo, type ProjectInfo } from "./get-project-info"
 import { highlighter } from "./highlighter"
+import { hashContent } from "./lockfile"
 import { logger } from "./logger"
 import { spinner } from "./spinner"
 import { transformImports } from "./transform-import"
@@ -21,6 +22,10 @@ export async function updateFiles(
 		silent?: boolean
 		path?: string
 		yes?: boolean
+		// Hashes recorded in agents-lock.json, keyed by absolute file path
+		lockedHashes?: Map<string, string>
+		// Targets recorded in agents-lock.json, keyed by registry file path
+		targets?: Map<string, string>
 	},
 ) {
 	if (!files?.length) {
@@ -51,26 +56,14 @@ export async function updateFiles(
 	const filesDeclined: string[] = []
 
 	for (const file of files) {
-		const fileType = getTargetDir(file, type)
-		const relativePath = getRelativePath(file.path)
-		const basePath = options.path || config.resolvedPaths[fileType]
-
-		let filePath = path.resolve(basePath, relativePath)
-
-		if (projectInfo?.isSrcDir && !filePath.includes("src")) {
-			const srcPath = path.resolve(config.resolvedPaths.cwd, "src")
-			filePath = path.resolve(srcPath, relativePath)
-		}
-
+		const filePath = resolveFilePath(file, type, config, {
+			path: options.path,
+			targets: options.targets,
+			projectInfo,
+		})
 		const fileName = basename(file.path)
 		const targetDir = path.dirname(filePath)
 
-		if (!config.tsx && projectInfo?.isTsx) {
-			filePath = filePath.replace(/\.tsx?$/, (match) =>
-				match === ".tsx" ? ".jsx" : ".js",
-			)
-		}
-
 		const existingFile = existsSync(filePath)
 
 		if (existingFile && statSync(filePath).isDirectory()) {
@@ -86,6 +79,35 @@ export async function updateFiles(
 			isRemote: false,
 		})
 
+		// Files that no longer match the lockfile have local changes, confirm
+		// before overwriting them
+		if (existingFile && options.overwrite && !options.yes) {
+			const lockedHash = options.lockedHashes?.get(filePath)
+			const existingFileContent = await fs.readFile(filePath, "utf-8")
+
+			if (
+				lockedHash &&
+				lockedHash !== hashContent(existingFileContent) &&
+				!isContentSame(existingFileContent, content)
+			) {
+				filesCreatedSpinner.stop()
+
+				const { overwrite } = await prompts({
+					type: "confirm",
+					name: "overwrite",
+					message: `The file ${highlighter.info(
+						fileName,
+					)} has local changes that will be lost. Would you like to overwrite?`,
+					initial: false,
+				})
+
+				if (!overwrite) {
+					filesDeclined.push(path.relative(config.resolvedPaths.cwd, filePath))
+					continue
+				}
+			}
+		}
+
 		if (existingFile && !options.overwrite) {
 			const existingFileContent = await fs.readFile(filePath, "utf-8")
 
@@ -167,6 +189,46 @@ export async function updateFiles(
 	}
 }
 
+/**
+ * Resolve the absolute path a registry file is written to. Files with a
+ * locked target are written there.
+ */
+export function resolveFilePath(
+	file: Pick<RegistryItem["files"][number], "path" | "type">,
+	type: RegistryItemCategory,
+	config: Config,
+	options: {
+		path?: string
+		targets?: Map<string, string>
+		projectInfo?: ProjectInfo | null
+	} = {},
+) {
+	const target = options.targets?.get(file.path)
+	if (target) {
+		return path.resolve(config.resolvedPaths.cwd, target)
+	}
+
+	const { projectInfo } = options
+	const fileType = getTargetDir(file, type)
+	const relativePath = getRelativePath(file.path)
+	const basePath = options.path || config.resolvedPaths[fileType]
+
+	let filePath = path.resolve(basePath, relativePath)
+
+	if (projectInfo?.isSrcDir && !filePath.includes("src")) {
+		const srcPath = path.resolve(config.resolvedPaths.cwd, "src")
+		filePath = path.resolve(srcPath, relativePath)
+	}
+
+	if (!config.tsx && projectInfo?.isTsx) {
+		filePath = filePath.replace(/\.tsx?$/, (match) =>
+			match === ".tsx" ? ".jsx" : ".js",
+		)
+	}
+
+	return filePath
+}
+
 const CONTEXT_LINES = 3
 
 /**
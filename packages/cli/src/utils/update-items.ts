@@ -0,0 +1,279 @@
+import { existsSync, promises as fs } from "fs"
+import path from "path"
+import prompts from "prompts"
+import { configWithDefaults } from "../registry/config"
+import { resolveRegistryItems, resolveRegistryTree } from "../registry/resolver"
+import type { Config } from "../schema"
+import { createLockfileItems } from "./add-items"
+import { readStoredContent } from "./content-store"
+import { highlighter } from "./highlighter"
+import {
+	getLockedTargets,
+	getLockfileKey,
+	getPinnedSource,
+	hashContent,
+	type Lockfile,
+	type LockfileItem,
+	mergeLockfileItems,
+	writeLockfile,
+} from "./lockfile"
+import { logger } from "./logger"
+import {
+	type ConflictResolution,
+	formatMergeResult,
+	hasConflicts,
+	type MergeChunk,
+	mergeThreeWay,
+} from "./merge"
+import { spinner } from "./spinner"
+import { updateDependencies } from "./update-dependencies"
+
+/**
+ * Update installed items to the latest registry content. Local changes are
+ * kept by merging them with the registry changes, using the content recorded
+ * in agents-lock.json as the common base.
+ */
+export async function updateItems(
+	items: LockfileItem[],
+	lockfile: Lockfile,
+	config: Config,
+	options: {
+		yes?: boolean
+		silent?: boolean
+	},
+) {
+	options = {
+		yes: false,
+		silent: false,
+		...options,
+	}
+
+	const cwd = config.resolvedPaths.cwd
+	const resolvedConfig = configWithDefaults(config)
+	// Files stay where they were installed, e.g. with --path
+	const targets = getLockedTargets(Object.values(lockfile.items))
+
+	const registrySpinner = spinner(`Checking registry.`, {
+		silent: options.silent,
+	})?.start()
+
+	const sourcesByCategory = new Map<LockfileItem["category"], string[]>()
+	for (const item of items) {
+		const sources = sourcesByCategory.get(item.category) ?? []
+		sources.push(item.source)
+		sourcesByCategory.set(item.category, sources)
+	}
+
+	const updatedItems: LockfileItem[] = []
+	const dependencies: string[] = []
+	const devDependencies: string[] = []
+
+	for (const [category, sources] of sourcesByCategory) {
+		const tree = await resolveRegistryTree(sources, category, resolvedConfig)
+		updatedItems.push(
+			...(await createLockfileItems(
+				tree.items,
+				sources,
+				category,
+				resolvedConfig,
+				{ targets },
+			)),
+		)
+		dependencies.push(...(tree.dependencies ?? []))
+		devDependencies.push(...(tree.devDependencies ?? []))
+	}
+
+	registrySpinner?.succeed()
+
+	const filesCreated: string[] = []
+	const filesUpdated: string[] = []
+	const filesMerged: string[] = []
+	const filesConflicted: string[] = []
+	const seen = new Set<string>()
+
+	for (const item of updatedItems) {
+		const locked = lockfile.items[getLockfileKey(item)]
+
+		for (const file of item.files) {
+			if (seen.has(file.target)) continue
+			seen.add(file.target)
+
+			const content = await readStoredContent(file.hash)
+			if (content === null) {
+				throw new Error(`Failed to read the registry content of ${file.path}.`)
+			}
+
+			const filePath = path.resolve(cwd, file.target)
+
+			if (!existsSync(filePath)) {
+				await fs.mkdir(path.dirname(filePath), { recursive: true })
+				await fs.writeFile(filePath, content, "utf-8")
+				filesCreated.push(file.target)
+				continue
+			}
+
+			const localContent = await fs.readFile(filePath, "utf-8")
+			const localHash = hashContent(localContent)
+
+			if (localHash === file.hash) {
+				continue
+			}
+
+			const lockedFile = locked?.files.find((f) => f.path === file.path)
+
+			// No local changes, the registry version can be written as is
+			if (lockedFile?.hash === localHash) {
+				await fs.writeFile(filePath, content, "utf-8")
+				filesUpdated.push(file.target)
+				continue
+			}
+
+			let base = lockedFile ? await readStoredContent(lockedFile.hash) : null
+			if (locked && lockedFile && base === null) {
+				base = await fetchLockedContent(locked, lockedFile.hash, resolvedConfig)
+			}
+			if (base === null && !options.silent) {
+				logger.warn(
+					`\nNo installed version of ${highlighter.info(file.target)} was found, the whole file will be merged as a conflict.`,
+				)
+			}
+
+			const chunks = mergeThreeWay(base ?? "", localContent, content)
+			let resolutions: ConflictResolution[] = []
+
+			if (hasConflicts(chunks) && !options.yes) {
+				registrySpinner?.stop()
+				resolutions = await promptConflictResolutions(file.target, chunks)
+			}
+
+			const merged = formatMergeResult(
+				chunks,
+				(_chunk, index) => resolutions[index] ?? "both",
+			)
+
+			// Only local changes, nothing to merge in
+			if (merged.content === localContent) {
+				continue
+			}
+
+			await fs.writeFile(filePath, merged.content, "utf-8")
+
+			if (merged.conflicts) {
+				filesConflicted.push(file.target)
+			} else {
+				filesMerged.push(file.target)
+			}
+		}
+	}
+
+	const filesChanged =
+		filesCreated.length +
+		filesUpdated.length +
+		filesMerged.length +
+		filesConflicted.length
+
+	let addedDependencies: string[] = []
+	if (filesChanged) {
+		addedDependencies = await updateDependencies(
+			dependencies,
+			devDependencies,
+			config,
+			{ silent: options.silent },
+		)
+	}
+
+	await writeLockfile(
+		cwd,
+		mergeLockfileItems(lockfile, updatedItems, addedDependencies),
+	)
+
+	if (options.silent) {
+		return { filesCreated, filesUpdated, filesMerged, filesConflicted }
+	}
+
+	if (!filesChanged) {
+		logger.info("Already up to date.")
+	}
+
+	for (const file of filesCreated) {
+		logger.success(`Created ${file}`)
+	}
+	for (const file of filesUpdated) {
+		logger.success(`Updated ${file}`)
+	}
+	for (const file of filesMerged) {
+		logger.success(`Merged local changes in ${file}`)
+	}
+	if (filesConflicted.length) {
+		logger.warn(
+			`\nConflicts were written with markers to the following files, resolve them manually:`,
+		)
+		for (const file of filesConflicted) {
+			logger.warn(`  - ${file}`)
+		}
+	}
+
+	return { filesCreated, filesUpdated, filesMerged, filesConflicted }
+}
+
+/**
+ * Fetch the installed version of an item again when the content store doesn't
+ * have it, e.g. after cloning the project or clearing the cache. Items that
+ * publish versions are fetched at their locked version.
+ */
+async function fetchLockedContent(
+	item: LockfileItem,
+	hash: string,
+	config: Config,
+) {
+	const source = getPinnedSource(item.source, item.version)
+
+	try {
+		const tree = await resolveRegistryItems([source], item.category, config)
+		// Stores the content of every file of the item, keyed by its hash
+		await createLockfileItems(tree.items, [source], item.category, config, {})
+	} catch {
+		return null
+	}
+
+	// Null when the registry content changed since it was locked
+	return readStoredContent(hash)
+}
+
+async function promptConflictResolutions(file: string, chunks: MergeChunk[]) {
+	const conflicts = chunks.filter(
+		(chunk): chunk is Extract<MergeChunk, { type: "conflict" }> =>
+			chunk.type === "conflict",
+	)
+	const resolutions: ConflictResolution[] = []
+
+	for (const [index, conflict] of conflicts.entries()) {
+		logger.info(
+			`\nConflict ${index + 1} of ${conflicts.length} in ${highlighter.info(file)}`,
+		)
+		logger.log(highlighter.dim("Local:"))
+		for (const line of conflict.local) {
+			process.stdout.write(`${highlighter.error(`- ${line}`)}\n`)
+		}
+		logger.log(highlighter.dim("Registry:"))
+		for (const line of conflict.registry) {
+			process.stdout.write(`${highlighter.success(`+ ${line}`)}\n`)
+		}
+
+		const { resolution } = await prompts({
+			type: "select",
+			name: "resolution",
+			message: "How do you want to resolve this conflict?",
+			choices: [
+				{ title: "Keep local changes", value: "local" },
+				{ title: "Use registry version", value: "registry" },
+				{ title: "Write conflict markers", value: "both" },
+			],
+			initial: 2,
+		})
+
+		resolutions.push(resolution ?? "both")
+	}
+
+	return resolutions
+}
@@ -0,0 +1,52 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { describe, expect, it } from "vitest"
+
+const SRC_DIR = path.resolve(import.meta.dirname, "../../src")
+const OUTPUT_DIR = path.resolve(import.meta.dirname, "../../registry")
+
+async function findItems(type: string, dir = path.join(SRC_DIR, type)) {
+	const items: string[] = []
+
+	for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+		const fullPath = path.join(dir, entry.name)
+
+		if (entry.isDirectory()) {
+			if (entry.name === "lib" || entry.name === "__tests__") continue
+			items.push(...(await findItems(type, fullPath)))
+		} else if (entry.name.endsWith(".ts") && !entry.name.includes(".test.")) {
+			items.push(path.relative(path.join(SRC_DIR, type), fullPath))
+		}
+	}
+
+	return items
+}
+
+// The registry output is committed, so it has to be built again with every
+// change to the sources, or `add` installs an old version or nothing at all
+describe("registry output", () => {
+	for (const type of ["tools", "agents", "prompts"]) {
+		it(`is up to date with the ${type} sources`, async () => {
+			for (const item of await findItems(type)) {
+				const name = item.replace(/\.ts$/, "")
+				const outputPath = path.join(OUTPUT_DIR, type, `${name}.json`)
+				const output = await fs.readFile(outputPath, "utf-8").catch(() => null)
+				expect(output, `${type}/${name}.json is missing`).not.toBeNull()
+
+				const { files } = JSON.parse(output!) as {
+					files: { path: string; content: string }[]
+				}
+				for (const file of files) {
+					const source = await fs.readFile(
+						path.join(SRC_DIR, file.path),
+						"utf-8",
+					)
+					expect(
+						file.content === source,
+						`${file.path} in ${type}/${name}.json is out of date, run build:registry`,
+					).toBe(true)
+				}
+			}
+		})
+	}
+})
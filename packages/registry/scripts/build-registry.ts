@@ -8,8 +8,20 @@
  * 3. Generates JSON files in the registry/ output directory
  * 4. Creates index.json files for each type
  * 5. Validates output against Zod schemas
+ * 6. Formats the output with Biome, like the rest of the repo
+ *
+ * Every item gets sha256 integrity hashes for its files and for the item
+ * itself. When REGISTRY_SIGNING_KEY is set to an ed25519 private key (PEM),
+ * items are also signed so the CLI can verify them against the registry's
+ * `publicKey`.
+ *
+ * Items with a `@version` JSDoc tag are also written to
+ * `{type}/{name}@{version}.json`. Versioned files are never deleted or
+ * changed, so every published version stays available to the CLI.
  */
 
+import { execFileSync } from "child_process"
+import { createHash, createPrivateKey, type KeyObject, sign } from "crypto"
 import { promises as fs } from "fs"
 import path from "path"
 import { z } from "zod"
@@ -50,28 +62,55 @@ function formatDependency(name: string): string {
 	return name
 }
 
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/
+
+/**
+ * Compare two semver versions. Prereleases sort before their release.
+ */
+function compareVersions(a: string, b: string): number {
+	const left = a.match(VERSION_PATTERN)!
+	const right = b.match(VERSION_PATTERN)!
+
+	for (let i = 1; i <= 3; i++) {
+		const diff = Number(left[i]) - Number(right[i])
+		if (diff !== 0) return diff
+	}
+
+	if (left[4] === right[4]) return 0
+	if (!left[4]) return 1
+	if (!right[4]) return -1
+	return left[4].localeCompare(right[4], undefined, { numeric: true })
+}
+
 // Zod schemas for validation
 const registryFileSchema = z.object({
 	path: z.string(),
 	type: z.string(),
 	content: z.string(),
+	integrity: z.string().optional(),
 })
 
 const registryItemSchema = z.object({
 	$schema: z.string().optional(),
 	name: z.string(),
 	type: z.string(),
+	version: z.string().regex(VERSION_PATTERN).optional(),
+	versions: z.array(z.string()).optional(),
 	title: z.string(),
 	description: z.string(),
 	dependencies: z.array(z.string()).optional(),
 	devDependencies: z.array(z.string()).optional(),
 	registryDependencies: z.array(z.string()).optional(),
 	files: z.array(registryFileSchema),
+	integrity: z.string().optional(),
+	signature: z.string().optional(),
 })
 
 const registryIndexItemSchema = z.object({
 	name: z.string(),
 	type: z.string(),
+	version: z.string().optional(),
+	versions: z.array(z.string()).optional(),
 	title: z.string(),
 	description: z.string(),
 	dependencies: z.array(z.string()).optional(),
@@ -145,6 +184,14 @@ function extractDescription(
 	return defaults[type] || `${toTitleCase(name)} for AI agents`
 }
 
+/**
+ * Read the version from a `@version` JSDoc tag, e.g. ` * @version 1.2.0`.
+ */
+function extractVersion(content: string): string | undefined {
+	const match = content.match(/^\s*\*\s*@version\s+(\S+)/m)
+	return match?.[1]
+}
+
 async function readLibFile(
 	libName: string,
 	type: "tools" | "agents" = "tools",
@@ -249,6 +296,11 @@ async function processFile(
 		files,
 	}
 
+	const version = extractVersion(content)
+	if (version) {
+		item.version = version
+	}
+
 	if (npmDeps.length > 0) {
 		item.dependencies = npmDeps.map(formatDependency)
 	}
@@ -302,6 +354,84 @@ async function processDirectory(
 	return items
 }
 
+function computeFileIntegrity(content: string): string {
+	return `sha256-${createHash("sha256").update(content).digest("base64")}`
+}
+
+/**
+ * Must match `computeItemIntegrity` in the CLI (packages/cli/src/registry/integrity.ts).
+ */
+function computeItemIntegrity(item: RegistryItem): string {
+	const payload = JSON.stringify({
+		name: item.name,
+		type: item.type,
+		version: item.version ?? null,
+		dependencies: item.dependencies ?? [],
+		devDependencies: item.devDependencies ?? [],
+		registryDependencies: item.registryDependencies ?? [],
+		files: item.files.map((file) => ({
+			path: file.path,
+			type: file.type,
+			target: null,
+			integrity: computeFileIntegrity(file.content),
+		})),
+	})
+
+	return `sha256-${createHash("sha256").update(payload).digest("base64")}`
+}
+
+function loadSigningKey(): KeyObject | null {
+	const key = process.env.REGISTRY_SIGNING_KEY
+	// Allow keys with escaped newlines, e.g. from CI secrets
+	return key ? createPrivateKey(key.replace(/\\n/g, "\n")) : null
+}
+
+/**
+ * Add integrity hashes to the item and its files, and sign it if a signing
+ * key is available.
+ */
+function addIntegrity(item: RegistryItem, signingKey: KeyObject | null): void {
+	for (const file of item.files) {
+		file.integrity = computeFileIntegrity(file.content)
+	}
+
+	item.integrity = computeItemIntegrity(item)
+
+	if (signingKey) {
+		item.signature = sign(
+			null,
+			Buffer.from(item.integrity),
+			signingKey,
+		).toString("base64")
+	}
+}
+
+/**
+ * Require a compatible version of versioned dependencies, e.g. "tools:bash"
+ * becomes "tools:bash@^1.2.0" when bash is at version 1.2.0.
+ */
+function addDependencyVersionRanges(
+	itemsByType: Map<string, RegistryItem[]>,
+): void {
+	const versions = new Map<string, string>()
+	for (const [type, items] of itemsByType) {
+		for (const item of items) {
+			if (item.version) {
+				versions.set(`${type}:${item.name}`, item.version)
+			}
+		}
+	}
+
+	for (const items of itemsByType.values()) {
+		for (const item of items) {
+			item.registryDependencies = item.registryDependencies?.map((dep) => {
+				const version = versions.get(dep)
+				return version ? `${dep}@^${version}` : dep
+			})
+		}
+	}
+}
+
 async function writeRegistryItem(
 	item: RegistryItem,
 	type: string,
@@ -318,10 +448,100 @@ async function writeRegistryItem(
 
 	const outputPath = path.join(OUTPUT_DIR, type, `${item.name}.json`)
 	await fs.mkdir(path.dirname(outputPath), { recursive: true })
-	await fs.writeFile(outputPath, `${JSON.stringify(result.data, null, "\t")}\n`)
+
+	if (result.data.version) {
+		const versionedName = `${item.name}@${result.data.version}.json`
+		const versionedPath = path.join(OUTPUT_DIR, type, versionedName)
+		const content = `${JSON.stringify(result.data, null, "\t")}\n`
+
+		const existing = await fs
+			.readFile(versionedPath, "utf-8")
+			.then((json) => registryItemSchema.parse(JSON.parse(json)))
+			.catch(() => null)
+		if (existing !== null && !isSamePublishedItem(existing, result.data)) {
+			console.error(
+				`  ✗ ${type}/${versionedName} - version ${result.data.version} was already published with different content. Bump the @version tag.`,
+			)
+			throw new Error(`Version already published: ${item.name}`)
+		}
+
+		// Signing a published version doesn't change it, so it can be added later
+		if (existing === null || (!existing.signature && result.data.signature)) {
+			await fs.writeFile(versionedPath, content)
+			console.log(`  ✓ ${type}/${versionedName}`)
+		}
+	}
+
+	// The latest item lists every published version so the CLI can resolve
+	// version ranges
+	const versions = await findPublishedVersions(item.name, type)
+	if (versions.length > 0) {
+		item.versions = versions
+	}
+
+	// Parse again so `versions` follows the schema's key order
+	const latest = registryItemSchema.parse({
+		...result.data,
+		versions: item.versions,
+	})
+	await fs.writeFile(outputPath, `${JSON.stringify(latest, null, "\t")}\n`)
 	console.log(`  ✓ ${type}/${item.name}.json`)
 }
 
+/**
+ * Compare a published version with a new build of it. The signature is left
+ * out, it depends on whether `REGISTRY_SIGNING_KEY` is set for the build.
+ */
+function isSamePublishedItem(published: RegistryItem, item: RegistryItem) {
+	const { signature: _published, ...publishedContent } = published
+	const { signature: _item, ...itemContent } = item
+
+	return JSON.stringify(publishedContent) === JSON.stringify(itemContent)
+}
+
+/**
+ * Find the versions of an item that have been written to the output
+ * directory, sorted from oldest to newest.
+ */
+async function findPublishedVersions(
+	name: string,
+	type: string,
+): Promise<string[]> {
+	const itemPath = path.join(OUTPUT_DIR, type, name)
+	const prefix = `${path.basename(itemPath)}@`
+
+	const entries = await fs.readdir(path.dirname(itemPath)).catch(() => [])
+
+	return entries
+		.filter((entry) => entry.startsWith(prefix) && entry.endsWith(".json"))
+		.map((entry) => entry.slice(prefix.length, -".json".length))
+		.filter((version) => VERSION_PATTERN.test(version))
+		.sort(compareVersions)
+}
+
+/**
+ * Remove the generated files, keeping published versions
+ * (`{name}@{version}.json`).
+ */
+async function cleanOutputDirectory(dirPath: string): Promise<void> {
+	const entries = await fs
+		.readdir(dirPath, { withFileTypes: true })
+		.catch(() => [])
+
+	for (const entry of entries) {
+		const fullPath = path.join(dirPath, entry.name)
+
+		if (entry.isDirectory()) {
+			await cleanOutputDirectory(fullPath)
+			if ((await fs.readdir(fullPath)).length === 0) {
+				await fs.rmdir(fullPath)
+			}
+		} else if (!entry.name.includes("@")) {
+			await fs.rm(fullPath)
+		}
+	}
+}
+
 async function writeRegistryIndex(
 	items: RegistryItem[],
 	type: string,
@@ -332,6 +552,8 @@ async function writeRegistryIndex(
 		items: items.map((item) => ({
 			name: item.name,
 			type: item.type,
+			version: item.version,
+			versions: item.versions,
 			title: item.title,
 			description: item.description,
 			dependencies: item.dependencies,
@@ -359,6 +581,17 @@ async function writeRegistryIndex(
 	console.log(`  ✓ ${type}/registry.json`)
 }
 
+/**
+ * Format the generated JSON with the repo's Biome config, so the output
+ * passes `biome check` without another step.
+ */
+function formatOutput(dir: string) {
+	execFileSync("npx", ["--no-install", "biome", "format", "--write", dir], {
+		cwd: path.resolve(import.meta.dirname, "../../.."),
+		stdio: ["ignore", "ignore", "inherit"],
+	})
+}
+
 async function main() {
 	console.log("Building registry...\n")
 
@@ -369,16 +602,34 @@ async function main() {
 	)
 
 	// Clean output directory
-	await fs.rm(OUTPUT_DIR, { recursive: true, force: true })
+	await cleanOutputDirectory(OUTPUT_DIR)
 	await fs.mkdir(OUTPUT_DIR, { recursive: true })
 
 	const types = ["tools", "agents", "prompts"] as const
 	let totalItems = 0
 	let totalErrors = 0
 
+	const itemsByType = new Map<(typeof types)[number], RegistryItem[]>()
+	for (const type of types) {
+		itemsByType.set(type, await processDirectory(type))
+	}
+
+	addDependencyVersionRanges(itemsByType)
+
+	const signingKey = loadSigningKey()
+	if (signingKey) {
+		console.log("Signing items with REGISTRY_SIGNING_KEY\n")
+	}
+
+	for (const items of itemsByType.values()) {
+		for (const item of items) {
+			addIntegrity(item, signingKey)
+		}
+	}
+
 	for (const type of types) {
 		console.log(`Processing ${type}...`)
-		const items = await processDirectory(type)
+		const items = itemsByType.get(type) ?? []
 
 		for (const item of items) {
 			try {
@@ -401,6 +652,8 @@ async function main() {
 		console.log(`  Found ${items.length} ${type}\n`)
 	}
 
+	formatOutput(OUTPUT_DIR)
+
 	if (totalErrors > 0) {
 		console.error(`\nRegistry build completed with ${totalErrors} error(s).`)
 		process.exit(1)
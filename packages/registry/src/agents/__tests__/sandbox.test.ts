@@ -0,0 +1,303 @@
+import { promises as fs } from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import {
+	checkPathPermission,
+	createSandbox,
+	isPathInSandbox,
+	resolveRealPath,
+} from "@/agents/lib/sandbox"
+
+describe("sandbox", () => {
+	let tempDir: string
+	let project: string
+	let outside: string
+
+	beforeEach(async () => {
+		// Resolve the temp dir itself, it's a symlink on macOS
+		tempDir = await fs.realpath(
+			await fs.mkdtemp(path.join(os.tmpdir(), "sandbox-test-")),
+		)
+		project = path.join(tempDir, "project")
+		outside = path.join(tempDir, "outside")
+		await fs.mkdir(project)
+		await fs.mkdir(outside)
+		await fs.writeFile(path.join(outside, "secret.txt"), "secret")
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	// ==========================================================================
+	// resolveRealPath tests
+	// ==========================================================================
+
+	describe("resolveRealPath", () => {
+		it("resolves symlinks", async () => {
+			await fs.symlink(outside, path.join(project, "link"))
+
+			expect(resolveRealPath(path.join(project, "link", "secret.txt"))).toBe(
+				path.join(outside, "secret.txt"),
+			)
+		})
+
+		it("resolves paths that don't exist through their parents", async () => {
+			await fs.symlink(outside, path.join(project, "link"))
+
+			expect(resolveRealPath(path.join(project, "link", "new", "a.ts"))).toBe(
+				path.join(outside, "new", "a.ts"),
+			)
+		})
+
+		it("resolves dangling symlinks to their target", async () => {
+			await fs.symlink(
+				path.join(outside, "new.txt"),
+				path.join(project, "dangling"),
+			)
+
+			expect(resolveRealPath(path.join(project, "dangling"))).toBe(
+				path.join(outside, "new.txt"),
+			)
+		})
+
+		it("handles symlink loops", async () => {
+			await fs.symlink(path.join(project, "b"), path.join(project, "a"))
+			await fs.symlink(path.join(project, "a"), path.join(project, "b"))
+
+			expect(resolveRealPath(path.join(project, "a"))).toMatch(
+				/project[/\\][ab]$/,
+			)
+		})
+	})
+
+	// ==========================================================================
+	// isPathInSandbox tests
+	// ==========================================================================
+
+	describe("isPathInSandbox", () => {
+		it("defaults to cwd", () => {
+			const sandbox = createSandbox({}, project)
+
+			expect(isPathInSandbox(sandbox, path.join(project, "src/a.ts"))).toBe(
+				true,
+			)
+			expect(isPathInSandbox(sandbox, path.join(outside, "secret.txt"))).toBe(
+				false,
+			)
+		})
+
+		it("doesn't match directories with the same prefix", () => {
+			const sandbox = createSandbox({}, project)
+
+			expect(isPathInSandbox(sandbox, `${project}-other/a.ts`)).toBe(false)
+			expect(isPathInSandbox(sandbox, path.join(project, "../outside"))).toBe(
+				false,
+			)
+		})
+
+		it("includes allowed directories", () => {
+			const sandbox = createSandbox(
+				{ allowedDirectories: ["../outside"] },
+				project,
+			)
+
+			expect(isPathInSandbox(sandbox, path.join(outside, "secret.txt"))).toBe(
+				true,
+			)
+		})
+
+		it("uses custom roots instead of cwd", () => {
+			const sandbox = createSandbox({ roots: [outside] }, project)
+
+			expect(isPathInSandbox(sandbox, path.join(project, "a.ts"))).toBe(false)
+			expect(isPathInSandbox(sandbox, path.join(outside, "a.ts"))).toBe(true)
+		})
+
+		it("expands the home directory", () => {
+			const sandbox = createSandbox(
+				{ allowedDirectories: ["~/.config"] },
+				project,
+			)
+
+			expect(
+				isPathInSandbox(
+					sandbox,
+					path.join(os.homedir(), ".config", "tool", "config.json"),
+				),
+			).toBe(true)
+		})
+
+		it("rejects symlinks that lead out of the sandbox", async () => {
+			await fs.symlink(outside, path.join(project, "link"))
+			const sandbox = createSandbox({}, project)
+
+			expect(
+				isPathInSandbox(sandbox, path.join(project, "link", "secret.txt")),
+			).toBe(false)
+		})
+	})
+
+	// ==========================================================================
+	// createSandbox tests
+	// ==========================================================================
+
+	describe("createSandbox", () => {
+		it("doesn't sandbox bash by default", () => {
+			expect(createSandbox({}, project).bash).toBeUndefined()
+			expect(createSandbox({ bash: false }, project).bash).toBeUndefined()
+		})
+
+		it("disables the network and auto-allows sandboxed commands", () => {
+			expect(createSandbox({ bash: true }, project).bash).toEqual({
+				network: false,
+				allowedEnv: [],
+				autoAllow: true,
+				protectedDirectories: [],
+			})
+		})
+
+		it("doesn't auto-allow commands with network access", () => {
+			expect(createSandbox({ bash: { network: true } }, project).bash).toEqual({
+				network: true,
+				allowedEnv: [],
+				autoAllow: false,
+				protectedDirectories: [],
+			})
+			expect(
+				createSandbox({ bash: { network: true, autoAllow: true } }, project)
+					.bash?.autoAllow,
+			).toBe(true)
+		})
+
+		it("resolves protected directories from the project", async () => {
+			await fs.mkdir(path.join(project, "src", "agents"), { recursive: true })
+			const sandbox = createSandbox(
+				{ bash: { protectedDirectories: ["src/agents"] } },
+				project,
+			)
+
+			expect(sandbox.bash?.protectedDirectories).toEqual([
+				path.join(project, "src", "agents"),
+			])
+		})
+	})
+
+	// ==========================================================================
+	// checkPathPermission tests
+	// ==========================================================================
+
+	describe("checkPathPermission", () => {
+		const secret = () => path.join(outside, "secret.txt")
+
+		it("only checks patterns without a sandbox", () => {
+			expect(checkPathPermission(secret(), { "*": "allow" })).toBe("allow")
+		})
+
+		it("checks patterns for paths inside the sandbox", () => {
+			const sandbox = createSandbox({}, project)
+			const file = path.join(project, "a.ts")
+
+			expect(checkPathPermission(file, { "*": "allow" }, sandbox)).toBe("allow")
+			expect(checkPathPermission(file, { "*": "ask" }, sandbox)).toBe("ask")
+			expect(checkPathPermission(file, { "*.ts": "deny" }, sandbox)).toBe(
+				"deny",
+			)
+		})
+
+		it("asks for paths outside the sandbox", () => {
+			const sandbox = createSandbox({}, project)
+
+			expect(checkPathPermission(secret(), { "*": "allow" }, sandbox)).toBe(
+				"ask",
+			)
+			expect(checkPathPermission(secret(), { "*.txt": "allow" }, sandbox)).toBe(
+				"ask",
+			)
+			expect(checkPathPermission(secret(), { "*": "deny" }, sandbox)).toBe(
+				"deny",
+			)
+		})
+
+		it("allows paths outside the sandbox with a pattern for them", () => {
+			const sandbox = createSandbox({}, project)
+
+			expect(
+				checkPathPermission(
+					secret(),
+					{ [`${outside}/*`]: "allow", "*": "ask" },
+					sandbox,
+				),
+			).toBe("allow")
+		})
+
+		it("denies paths outside the sandbox when it denies them", () => {
+			const sandbox = createSandbox({ outside: "deny" }, project)
+
+			expect(
+				checkPathPermission(secret(), { [`${outside}/*`]: "allow" }, sandbox),
+			).toBe("deny")
+		})
+
+		it("checks where symlinks lead", async () => {
+			await fs.symlink(outside, path.join(project, "link"))
+			const sandbox = createSandbox({ outside: "deny" }, project)
+
+			expect(
+				checkPathPermission(
+					path.join(project, "link", "secret.txt"),
+					{ "*": "allow" },
+					sandbox,
+				),
+			).toBe("deny")
+		})
+
+		it("doesn't follow allowed directories through symlinks", async () => {
+			const ssh = path.join(tempDir, "home", ".ssh")
+			await fs.mkdir(ssh, { recursive: true })
+			await fs.writeFile(path.join(ssh, "id_rsa"), "key")
+			await fs.symlink(ssh, path.join(outside, "ssh"))
+			const sandbox = createSandbox({}, project)
+
+			expect(
+				checkPathPermission(
+					path.join(outside, "ssh", "id_rsa"),
+					{ [`${outside}/*`]: "allow", "*": "ask" },
+					sandbox,
+				),
+			).toBe("ask")
+		})
+
+		it("denies paths that a symlink leads to", async () => {
+			await fs.mkdir(path.join(project, "secrets"))
+			await fs.writeFile(path.join(project, "secrets", "key"), "key")
+			await fs.symlink(
+				path.join(project, "secrets"),
+				path.join(project, "link"),
+			)
+			const sandbox = createSandbox({}, project)
+
+			expect(
+				checkPathPermission(
+					path.join(project, "link", "key"),
+					{ [`${project}/secrets/*`]: "deny", "*": "allow" },
+					sandbox,
+				),
+			).toBe("deny")
+		})
+
+		it("matches patterns written with symlinks", async () => {
+			await fs.symlink(outside, path.join(tempDir, "link"))
+			const sandbox = createSandbox({}, project)
+
+			expect(
+				checkPathPermission(
+					secret(),
+					{ [`${tempDir}/link/*`]: "allow", "*": "ask" },
+					sandbox,
+				),
+			).toBe("allow")
+		})
+	})
+})
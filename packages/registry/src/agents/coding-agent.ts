@@ -1,24 +1,51 @@
-import { Experimental_Agent as Agent, type LanguageModel } from "ai"
-import { summarizeMessages } from "@/agents/lib/context"
+import {
+	Experimental_Agent as Agent,
+	type LanguageModel,
+	type ModelMessage,
+} from "ai"
+import {
+	type CompactionSettings,
+	createCompactionStep,
+	resolveCompaction,
+	summarizeMessages,
+} from "@/agents/lib/context"
 import {
 	type EnvironmentOptions,
 	getEnvironmentContext,
 } from "@/agents/lib/environment"
+import {
+	type GenerationSettings,
+	getGenerationOptions,
+} from "@/agents/lib/generation"
+import {
+	createMcpTools,
+	type McpServerError,
+	type McpToolsOptions,
+} from "@/agents/lib/mcp"
 import {
 	DANGEROUS_COMMANDS,
 	FILE_READ_COMMANDS,
 	GIT_READ_COMMANDS,
+	loadPermissions,
 	type Permission,
 	SEARCH_COMMANDS,
 	TEXT_PROCESSING_COMMANDS,
+	type ToolPermissions,
 } from "@/agents/lib/permissions"
+import { createSandbox, type SandboxOptions } from "@/agents/lib/sandbox"
+import { createAgent as createResearchAgent } from "@/agents/research-agent"
 import { prompt } from "@/prompts/coding-agent"
+import { createApplyPatchTool } from "@/tools/apply-patch"
 import { createBashTool } from "@/tools/bash"
 import { createEditTool } from "@/tools/edit"
-import { globTool } from "@/tools/glob"
-import { grepTool } from "@/tools/grep"
-import { listTool } from "@/tools/list"
-import { readTool } from "@/tools/read"
+import { createGlobTool } from "@/tools/glob"
+import { createGrepTool } from "@/tools/grep"
+import type { CheckpointStorage } from "@/tools/lib/checkpoints"
+import { createFileTracker, type FileTracker } from "@/tools/lib/file-tracker"
+import { createListTool } from "@/tools/list"
+import { createMultiEditTool } from "@/tools/multi-edit"
+import { createReadTool } from "@/tools/read"
+import { createTaskTool } from "@/tools/task"
 import { createTodoTools, type TodoStorage } from "@/tools/todo"
 import { createWriteTool } from "@/tools/write"
 
@@ -31,11 +58,33 @@ const BASH_PERMISSIONS: Record<string, Permission> = {
 	"*": "ask",
 }
 
-export interface AgentSettings {
+export interface AgentSettings extends GenerationSettings {
 	model: LanguageModel
 	cwd?: string
 	environment?: EnvironmentOptions
 	todoStorage?: TodoStorage
+	/** Permission patterns merged over the agents.json policy */
+	permissions?: ToolPermissions
+	/**
+	 * Directories the file tools, and optionally bash, are limited to.
+	 * Defaults to `cwd`.
+	 */
+	sandbox?: SandboxOptions
+	/** Snapshots files before the write and edit tools change them */
+	checkpoints?: CheckpointStorage
+	/**
+	 * Files the agent has read. Pass the same tracker when the agent is created
+	 * again for a conversation, so it doesn't have to read them again.
+	 */
+	fileTracker?: FileTracker
+	/** When to summarize the conversation, every option has a default */
+	compaction?: CompactionSettings
+	/** Closes the MCP servers when aborted, e.g. when the agent is replaced */
+	signal?: AbortSignal
+	/** Whether to start a stdio MCP server from agents.json */
+	trustMcpServer?: McpToolsOptions["trustServer"]
+	/** Called for every MCP server that fails to connect */
+	onMcpError?: (error: McpServerError) => void
 }
 
 export async function createAgent({
@@ -43,55 +92,94 @@ export async function createAgent({
 	cwd,
 	environment,
 	todoStorage,
+	permissions,
+	sandbox: sandboxOptions,
+	checkpoints,
+	fileTracker = createFileTracker(),
+	compaction,
+	signal,
+	trustMcpServer,
+	onMcpError,
+	...generation
 }: AgentSettings) {
 	const env = await getEnvironmentContext({ cwd, ...environment })
+	const policy = await loadPermissions({
+		cwd,
+		agent: "coding-agent",
+		permissions,
+	})
+	const sandbox = createSandbox(sandboxOptions, cwd)
+	const mcp = await createMcpTools({
+		cwd,
+		permissions: { "*": "ask", ...policy.mcp },
+		signal,
+		trustServer: trustMcpServer,
+		onError: onMcpError,
+	})
 	const instructions = prompt(env)
 	const { todoRead, todoWrite } = createTodoTools(todoStorage)
 	const tools = {
-		read: readTool,
-		write: createWriteTool(),
-		edit: createEditTool(),
-		bash: createBashTool(BASH_PERMISSIONS),
-		list: listTool,
-		grep: grepTool,
-		glob: globTool,
+		read: createReadTool(
+			{ "*": "allow", ...policy.read },
+			sandbox,
+			fileTracker,
+		),
+		write: createWriteTool(
+			{ "*": "ask", ...policy.write },
+			sandbox,
+			checkpoints,
+			fileTracker,
+		),
+		edit: createEditTool(
+			{ "*": "ask", ...policy.edit },
+			sandbox,
+			checkpoints,
+			fileTracker,
+		),
+		multiEdit: createMultiEditTool(
+			{ "*": "ask", ...policy.edit },
+			sandbox,
+			checkpoints,
+			fileTracker,
+		),
+		applyPatch: createApplyPatchTool(
+			{ "*": "ask", ...policy.edit },
+			sandbox,
+			checkpoints,
+			fileTracker,
+		),
+		bash: createBashTool({ ...BASH_PERMISSIONS, ...policy.bash }, sandbox),
+		list: createListTool({ "*": "allow", ...policy.read }, sandbox),
+		grep: createGrepTool({ "*": "allow", ...policy.read }, sandbox),
+		glob: createGlobTool({ "*": "allow", ...policy.read }, sandbox),
+		task: createTaskTool({
+			"research-agent": {
+				description:
+					"Read-only agent that explores the codebase and answers questions about it",
+				create: () =>
+					createResearchAgent({
+						model,
+						cwd,
+						environment,
+						permissions,
+						sandbox: sandboxOptions,
+						mcp: false,
+						compaction,
+						...generation,
+					}),
+			},
+		}),
 		todoRead,
 		todoWrite,
+		...mcp.tools,
 	}
 
 	const agent = new Agent({
 		model,
 		instructions,
 		tools,
-		async prepareStep({ steps, messages }) {
-			const threshold = 200_000
-			const lastStep = steps.at(-1)
-			const inputTokens = lastStep?.usage?.inputTokens
-
-			if (!inputTokens || inputTokens < threshold) {
-				return {}
-			}
-
-			const summarized = await summarizeMessages(messages, model, {
-				threshold,
-				keepRecent: 8,
-				protectTokens: 40_000,
-			})
-
-			return summarized ? { messages: summarized } : {}
-		},
-		providerOptions: {
-			openai: {
-				reasoningEffort: "medium",
-				reasoningSummary: "detailed",
-			},
-			anthropic: {
-				thinking: {
-					type: "enabled",
-					budgetTokens: 10000,
-				},
-			},
-		},
+		prepareStep: createCompactionStep(model, compaction),
+		...getGenerationOptions(generation),
 		stopWhen: ({ steps }) => {
 			if (steps.length === 0) return false
 
@@ -110,3 +198,19 @@ export async function createAgent({
 
 	return agent
 }
+
+/**
+ * Summarize the conversation now, with the settings of the automatic
+ * compaction. Returns null when there's not enough to summarize yet.
+ */
+export function summarize(
+	messages: ModelMessage[],
+	{ model, compaction }: Pick<AgentSettings, "model" | "compaction">,
+) {
+	return summarizeMessages(messages, model, resolveCompaction(compaction))
+}
+
+// Apps that create the agent again for a conversation, e.g. after changing
+// its model, keep a tracker for every conversation and pass it as
+// `fileTracker`
+export { createFileTracker }
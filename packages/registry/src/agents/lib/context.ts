@@ -19,6 +19,32 @@ export interface SummarizeConfig {
 	summaryModel?: LanguageModel
 }
 
+/**
+ * When and how agents summarize the conversation. Every option has a default,
+ * so agents only set what they change.
+ */
+export interface CompactionSettings {
+	/**
+	 * Input tokens that trigger summarization. Defaults to 80% of
+	 * `contextWindow`, or 200k tokens when the context window isn't known.
+	 */
+	threshold?: number
+	/** Context window of the model, in tokens */
+	contextWindow?: number
+	/** Recent messages to preserve untouched, defaults to 8 */
+	keepRecent?: number
+	/** Tool output tokens to protect from pruning, defaults to 40k */
+	protectTokens?: number
+	/** Cheaper model to write the summary, defaults to the agent's model */
+	summaryModel?: LanguageModel
+}
+
+const DEFAULT_THRESHOLD = 200_000
+const DEFAULT_KEEP_RECENT = 8
+const DEFAULT_PROTECT_TOKENS = 40_000
+// Share of the context window that triggers summarization
+const CONTEXT_WINDOW_RATIO = 0.8
+
 const CLEARED_PLACEHOLDER = "[Output cleared - see summary]"
 
 function estimateTokens(text: string): number {
@@ -201,3 +227,53 @@ export async function summarizeMessages(
 
 	return [systemMsg, summaryMsg, ...recentMessages]
 }
+
+/**
+ * Fill in the defaults of compaction settings.
+ */
+export function resolveCompaction(
+	settings: CompactionSettings = {},
+): SummarizeConfig {
+	const { contextWindow, summaryModel } = settings
+	return {
+		threshold:
+			settings.threshold ??
+			(contextWindow
+				? Math.floor(contextWindow * CONTEXT_WINDOW_RATIO)
+				: DEFAULT_THRESHOLD),
+		keepRecent: settings.keepRecent ?? DEFAULT_KEEP_RECENT,
+		protectTokens: settings.protectTokens ?? DEFAULT_PROTECT_TOKENS,
+		summaryModel,
+	}
+}
+
+/**
+ * Create a `prepareStep` function that summarizes the conversation once the
+ * last step's input tokens reach the threshold.
+ *
+ * @example
+ * new Agent({ model, prepareStep: createCompactionStep(model, compaction) })
+ */
+export function createCompactionStep(
+	model: LanguageModel,
+	settings?: CompactionSettings,
+) {
+	const config = resolveCompaction(settings)
+
+	return async ({
+		steps,
+		messages,
+	}: {
+		steps: { usage?: { inputTokens?: number } }[]
+		messages: ModelMessage[]
+	}): Promise<{ messages?: ModelMessage[] }> => {
+		const inputTokens = steps.at(-1)?.usage?.inputTokens
+
+		if (!inputTokens || inputTokens < config.threshold) {
+			return {}
+		}
+
+		const summarized = await summarizeMessages(messages, model, config)
+		return summarized ? { messages: summarized } : {}
+	}
+}
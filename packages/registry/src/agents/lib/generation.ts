@@ -0,0 +1,59 @@
+/**
+ * Model settings agents accept in `createAgent`. Provider specific options
+ * only apply to models of that provider.
+ */
+export interface GenerationSettings {
+	temperature?: number
+	maxOutputTokens?: number
+	/** Reasoning effort of OpenAI reasoning models */
+	reasoningEffort?: "minimal" | "low" | "medium" | "high"
+	/** Tokens Anthropic models can use for thinking, 0 disables thinking */
+	thinkingBudget?: number
+}
+
+const DEFAULT_REASONING_EFFORT = "medium"
+const DEFAULT_THINKING_BUDGET = 10_000
+
+/**
+ * Get the call settings and provider options of an agent.
+ *
+ * @param settings - Settings passed to `createAgent`
+ * @param defaults - The agent's own defaults, used for unset settings
+ *
+ * @example
+ * new Agent({ model, ...getGenerationOptions(generation) })
+ */
+export function getGenerationOptions(
+	settings: GenerationSettings,
+	defaults: GenerationSettings = {},
+) {
+	const {
+		temperature,
+		maxOutputTokens,
+		reasoningEffort = DEFAULT_REASONING_EFFORT,
+		thinkingBudget = DEFAULT_THINKING_BUDGET,
+	} = { ...defaults, ...withoutUndefined(settings) }
+
+	return {
+		temperature,
+		maxOutputTokens,
+		providerOptions: {
+			openai: {
+				reasoningEffort,
+				reasoningSummary: "detailed",
+			},
+			anthropic: {
+				thinking:
+					thinkingBudget > 0
+						? { type: "enabled", budgetTokens: thinkingBudget }
+						: { type: "disabled" },
+			},
+		},
+	}
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+	return Object.fromEntries(
+		Object.entries(value).filter(([, v]) => v !== undefined),
+	) as Partial<T>
+}
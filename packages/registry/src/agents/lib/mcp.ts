@@ -0,0 +1,699 @@
+import {
+	dynamicTool,
+	type JSONSchema7,
+	jsonSchema,
+	parseJsonEventStream,
+	type Tool,
+} from "ai"
+import { type ChildProcess, spawn } from "child_process"
+import { readFile } from "fs/promises"
+import type { Socket } from "net"
+import { join, resolve } from "path"
+import { z } from "zod"
+import {
+	checkPermission,
+	type Permission,
+	PermissionDeniedError,
+} from "@/agents/lib/permissions"
+
+const PROTOCOL_VERSION = "2025-06-18"
+const CONNECT_TIMEOUT = 30 * 1000 // 30 seconds
+const MAX_TOOL_NAME_LENGTH = 64
+
+/** An MCP server started as a subprocess that talks over stdin/stdout */
+export interface McpStdioServerConfig {
+	type?: "stdio"
+	command: string
+	args?: string[]
+	env?: Record<string, string>
+	cwd?: string
+}
+
+/** An MCP server reached over the streamable HTTP transport */
+export interface McpHttpServerConfig {
+	type?: "http"
+	url: string
+	headers?: Record<string, string>
+}
+
+export type McpServerConfig = McpStdioServerConfig | McpHttpServerConfig
+
+export interface McpToolInfo {
+	name: string
+	description?: string
+	inputSchema: JSONSchema7
+}
+
+export interface McpConnection {
+	name: string
+	listTools(signal?: AbortSignal): Promise<McpToolInfo[]>
+	callTool(
+		name: string,
+		args: unknown,
+		signal?: AbortSignal,
+	): Promise<McpToolResult>
+	close(): Promise<void>
+}
+
+export interface McpToolResult {
+	content: string
+	isError: boolean
+}
+
+export interface McpToolsOptions {
+	cwd?: string
+	/** Servers to connect to, defaults to `mcpServers` in agents.json */
+	servers?: Record<string, McpServerConfig>
+	/**
+	 * Whether to start a stdio server from agents.json. Anyone who can change
+	 * the project can change the command, so these servers are only started
+	 * when this returns true. Servers passed as `servers` are always started.
+	 */
+	trustServer?: (
+		name: string,
+		config: McpStdioServerConfig,
+	) => boolean | Promise<boolean>
+	/**
+	 * Permissions for MCP tools, matched against the tool name
+	 * (`mcp__<server>__<tool>`). Defaults to asking for every call.
+	 */
+	permissions?: Permission | Record<string, Permission>
+	/** Closes the servers when aborted, e.g. when the agent is replaced */
+	signal?: AbortSignal
+	/** Called for every server that failed to connect */
+	onError?: (error: McpServerError) => void
+}
+
+export interface McpServerError {
+	server: string
+	error: string
+}
+
+export interface McpTools {
+	tools: Record<string, Tool>
+	/** Servers that failed to connect, the agent runs without their tools */
+	errors: McpServerError[]
+	close(): Promise<void>
+}
+
+const jsonRpcMessageSchema = z.object({
+	jsonrpc: z.literal("2.0"),
+	id: z.union([z.string(), z.number()]).optional(),
+	method: z.string().optional(),
+	params: z.unknown().optional(),
+	result: z.unknown().optional(),
+	error: z
+		.object({
+			code: z.number(),
+			message: z.string(),
+			data: z.unknown().optional(),
+		})
+		.optional(),
+})
+
+type JsonRpcMessage = z.infer<typeof jsonRpcMessageSchema>
+
+const listToolsResultSchema = z.object({
+	tools: z.array(
+		z.object({
+			name: z.string(),
+			description: z.string().optional(),
+			inputSchema: z.record(z.string(), z.unknown()),
+		}),
+	),
+	nextCursor: z.string().optional(),
+})
+
+const callToolResultSchema = z.object({
+	content: z
+		.array(z.object({ type: z.string() }).passthrough())
+		.optional()
+		.default([]),
+	structuredContent: z.unknown().optional(),
+	isError: z.boolean().optional(),
+})
+
+export class McpError extends Error {
+	constructor(
+		public readonly server: string,
+		message: string,
+	) {
+		super(`MCP server "${server}": ${message}`)
+		this.name = "McpError"
+	}
+}
+
+/**
+ * Expand `${VAR}` references with environment variables, so secrets can stay
+ * out of agents.json.
+ */
+function expandEnvVars(value: string) {
+	return value.replace(/\${(\w+)}/g, (_match, key) => process.env[key] || "")
+}
+
+function expandRecord(record: Record<string, string> = {}) {
+	return Object.fromEntries(
+		Object.entries(record).map(([key, value]) => [key, expandEnvVars(value)]),
+	)
+}
+
+function isHttpConfig(config: McpServerConfig): config is McpHttpServerConfig {
+	return "url" in config
+}
+
+/**
+ * Create a tool name that providers accept: letters, numbers, `_` and `-`,
+ * up to 64 characters.
+ */
+export function getMcpToolName(server: string, tool: string) {
+	const sanitize = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, "_")
+	return `mcp__${sanitize(server)}__${sanitize(tool)}`.slice(
+		0,
+		MAX_TOOL_NAME_LENGTH,
+	)
+}
+
+function formatToolResult(result: z.infer<typeof callToolResultSchema>) {
+	const parts = result.content.map((item) => {
+		switch (item.type) {
+			case "text":
+				return String(item.text ?? "")
+			case "image":
+			case "audio":
+				return `[${item.type}: ${item.mimeType ?? "unknown"}]`
+			case "resource": {
+				const resource = item.resource as
+					| { uri?: string; text?: string }
+					| undefined
+				return resource?.text ?? `[resource: ${resource?.uri ?? "unknown"}]`
+			}
+			case "resource_link":
+				return `[resource: ${item.uri ?? "unknown"}]`
+			default:
+				return JSON.stringify(item)
+		}
+	})
+
+	if (parts.length === 0 && result.structuredContent !== undefined) {
+		parts.push(JSON.stringify(result.structuredContent, null, 2))
+	}
+
+	return parts.join("\n")
+}
+
+function setProcessActive(proc: ChildProcess, active: boolean) {
+	// Idle servers shouldn't keep the agent process alive
+	const handles = [proc, proc.stdin, proc.stdout, proc.stderr] as Array<Pick<
+		Socket,
+		"ref" | "unref"
+	> | null>
+	for (const handle of handles) {
+		if (active) handle?.ref?.()
+		else handle?.unref?.()
+	}
+}
+
+function connectStdio(name: string, config: McpStdioServerConfig, cwd: string) {
+	const proc = spawn(
+		expandEnvVars(config.command),
+		(config.args ?? []).map(expandEnvVars),
+		{
+			cwd: config.cwd ? resolve(cwd, config.cwd) : cwd,
+			env: { ...process.env, ...expandRecord(config.env) },
+			stdio: ["pipe", "pipe", "pipe"],
+			shell: process.platform === "win32",
+		},
+	)
+	const pending = new Map<
+		JsonRpcMessage["id"],
+		{ resolve: (message: JsonRpcMessage) => void; reject: (e: Error) => void }
+	>()
+	let closed: Error | null = null
+	let buffer = ""
+
+	const write = (message: JsonRpcMessage) => {
+		if (!proc.stdin?.writable) return
+		proc.stdin.write(`${JSON.stringify(message)}\n`)
+	}
+
+	const fail = (error: Error) => {
+		closed = error
+		for (const request of pending.values()) request.reject(error)
+		pending.clear()
+	}
+
+	const handleMessage = (message: JsonRpcMessage) => {
+		if (message.method) {
+			// Requests from the server, like sampling, aren't supported
+			if (message.id !== undefined) {
+				write(
+					message.method === "ping"
+						? { jsonrpc: "2.0", id: message.id, result: {} }
+						: {
+								jsonrpc: "2.0",
+								id: message.id,
+								error: { code: -32601, message: "Method not found" },
+							},
+				)
+			}
+			return
+		}
+
+		const request = pending.get(message.id)
+		if (!request) return
+
+		pending.delete(message.id)
+		if (pending.size === 0) setProcessActive(proc, false)
+		request.resolve(message)
+	}
+
+	// Servers log to stderr, which would corrupt the TUI
+	proc.stderr?.resume()
+	proc.stdout?.setEncoding("utf-8")
+	proc.stdout?.on("data", (chunk: string) => {
+		buffer += chunk
+		const lines = buffer.split("\n")
+		buffer = lines.pop() ?? ""
+
+		for (const line of lines) {
+			if (!line.trim()) continue
+			try {
+				const result = jsonRpcMessageSchema.safeParse(JSON.parse(line))
+				if (result.success) handleMessage(result.data)
+			} catch {
+				// Ignore lines that aren't JSON-RPC messages
+			}
+		}
+	})
+	proc.once("error", (error) => {
+		fail(new McpError(name, `Failed to start: ${error.message}`))
+	})
+	proc.once("exit", (code) => {
+		fail(new McpError(name, `Exited with code ${code ?? "unknown"}`))
+	})
+
+	return {
+		request(message: JsonRpcMessage, signal?: AbortSignal) {
+			return new Promise<JsonRpcMessage>((resolve, reject) => {
+				if (closed) return reject(closed)
+				if (signal?.aborted) {
+					return reject(new McpError(name, "Request aborted"))
+				}
+
+				const onAbort = () => {
+					pending.delete(message.id)
+					if (pending.size === 0) setProcessActive(proc, false)
+					write({
+						jsonrpc: "2.0",
+						method: "notifications/cancelled",
+						params: { requestId: message.id, reason: "Aborted" },
+					})
+					reject(new McpError(name, "Request aborted"))
+				}
+				signal?.addEventListener("abort", onAbort, { once: true })
+
+				// Long-lived signals, like the agent's, would keep a listener for
+				// every request that failed or timed out
+				pending.set(message.id, {
+					resolve: (response) => {
+						signal?.removeEventListener("abort", onAbort)
+						resolve(response)
+					},
+					reject: (error) => {
+						signal?.removeEventListener("abort", onAbort)
+						reject(error)
+					},
+				})
+				setProcessActive(proc, true)
+				write(message)
+			})
+		},
+		async notify(message: JsonRpcMessage) {
+			write(message)
+		},
+		async close() {
+			fail(new McpError(name, "The server was closed"))
+			proc.stdin?.end()
+			proc.kill()
+		},
+	}
+}
+
+function connectHttp(name: string, config: McpHttpServerConfig) {
+	const url = expandEnvVars(config.url)
+	const headers = expandRecord(config.headers)
+	let sessionId: string | null = null
+
+	const post = async (message: JsonRpcMessage, signal?: AbortSignal) => {
+		const response = await fetch(url, {
+			method: "POST",
+			headers: {
+				...headers,
+				"Content-Type": "application/json",
+				Accept: "application/json, text/event-stream",
+				"MCP-Protocol-Version": PROTOCOL_VERSION,
+				...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+			},
+			body: JSON.stringify(message),
+			signal,
+		})
+
+		sessionId = response.headers.get("mcp-session-id") ?? sessionId
+
+		if (!response.ok) {
+			throw new McpError(
+				name,
+				`Request failed with ${response.status} ${response.statusText}`,
+			)
+		}
+
+		return response
+	}
+
+	return {
+		async request(message: JsonRpcMessage, signal?: AbortSignal) {
+			const response = await post(message, signal)
+			const contentType = response.headers.get("content-type") ?? ""
+
+			if (contentType.includes("text/event-stream") && response.body) {
+				const events = parseJsonEventStream({
+					stream: response.body,
+					schema: jsonRpcMessageSchema,
+				})
+
+				for await (const event of events) {
+					// Returning early cancels the rest of the stream
+					if (event.success && event.value.id === message.id) {
+						return event.value
+					}
+				}
+
+				throw new McpError(name, "The response stream ended without a result")
+			}
+
+			const body: unknown = await response.json()
+			const messages = z
+				.array(jsonRpcMessageSchema)
+				.parse(Array.isArray(body) ? body : [body])
+			const result = messages.find((m) => m.id === message.id)
+
+			if (!result) {
+				throw new McpError(name, "The response has no result")
+			}
+
+			return result
+		},
+		async notify(message: JsonRpcMessage) {
+			await post(message)
+		},
+		async close() {
+			if (!sessionId) return
+
+			await fetch(url, {
+				method: "DELETE",
+				headers: { ...headers, "Mcp-Session-Id": sessionId },
+			}).catch(() => {})
+		},
+	}
+}
+
+/**
+ * Connect to an MCP server and run the initialization handshake.
+ */
+export async function connectMcpServer(
+	name: string,
+	config: McpServerConfig,
+	cwd = process.cwd(),
+): Promise<McpConnection> {
+	const transport = isHttpConfig(config)
+		? connectHttp(name, config)
+		: connectStdio(name, config, cwd)
+	let nextId = 1
+
+	const request = async (
+		method: string,
+		params: unknown,
+		signal?: AbortSignal,
+	) => {
+		const response = await transport.request(
+			{ jsonrpc: "2.0", id: nextId++, method, params },
+			signal,
+		)
+
+		if (response.error) {
+			throw new McpError(name, response.error.message)
+		}
+
+		return response.result
+	}
+
+	try {
+		await request(
+			"initialize",
+			{
+				protocolVersion: PROTOCOL_VERSION,
+				capabilities: {},
+				clientInfo: { name: "awesome-ai", version: "1.0.0" },
+			},
+			AbortSignal.timeout(CONNECT_TIMEOUT),
+		)
+		await transport.notify({
+			jsonrpc: "2.0",
+			method: "notifications/initialized",
+		})
+	} catch (error) {
+		await transport.close()
+		throw error
+	}
+
+	return {
+		name,
+		async listTools(signal) {
+			const tools: McpToolInfo[] = []
+			let cursor: string | undefined
+
+			do {
+				const result = listToolsResultSchema.parse(
+					await request("tools/list", cursor ? { cursor } : {}, signal),
+				)
+				for (const tool of result.tools) {
+					tools.push({ ...tool, inputSchema: tool.inputSchema as JSONSchema7 })
+				}
+				cursor = result.nextCursor
+			} while (cursor)
+
+			return tools
+		},
+		async callTool(toolName, args, signal) {
+			const result = callToolResultSchema.parse(
+				await request(
+					"tools/call",
+					{ name: toolName, arguments: args },
+					signal,
+				),
+			)
+
+			return {
+				content: formatToolResult(result),
+				isError: result.isError ?? false,
+			}
+		},
+		close: () => transport.close(),
+	}
+}
+
+/**
+ * Load the `mcpServers` section of agents.json.
+ */
+export async function loadMcpServers(
+	cwd = process.cwd(),
+): Promise<Record<string, McpServerConfig>> {
+	try {
+		const content = await readFile(join(cwd, "agents.json"), "utf-8")
+		const config = JSON.parse(content) as {
+			mcpServers?: Record<string, McpServerConfig>
+		}
+		return config.mcpServers ?? {}
+	} catch {
+		return {}
+	}
+}
+
+function createMcpTool(
+	connection: McpConnection,
+	info: McpToolInfo,
+	toolName: string,
+	permissions: Record<string, Permission>,
+) {
+	return dynamicTool({
+		description:
+			info.description ?? `${info.name} from the ${connection.name} MCP server`,
+		inputSchema: jsonSchema(info.inputSchema),
+		needsApproval: () => {
+			const permission = checkPermission(toolName, permissions)
+
+			if (permission === "deny") {
+				throw new PermissionDeniedError("mcp", toolName)
+			}
+
+			// Return true if approval needed (ask), false if auto-allowed
+			return permission === "ask"
+		},
+		toModelOutput: (output) => {
+			const result = output as {
+				status: string
+				error?: string
+				output?: string
+			}
+			if (result.status === "error") {
+				return { type: "error-text", value: result.error ?? "Unknown error" }
+			}
+			return { type: "text", value: result.output ?? "" }
+		},
+		async execute(input, { abortSignal }) {
+			try {
+				const result = await connection.callTool(info.name, input, abortSignal)
+
+				if (result.isError) {
+					return {
+						status: "error",
+						message: `${info.name} failed`,
+						server: connection.name,
+						tool: info.name,
+						error: result.content,
+					}
+				}
+
+				return {
+					status: "success",
+					message: `Called ${info.name}`,
+					server: connection.name,
+					tool: info.name,
+					output: result.content,
+				}
+			} catch (error) {
+				return {
+					status: "error",
+					message: `${info.name} failed`,
+					server: connection.name,
+					tool: info.name,
+					error: error instanceof Error ? error.message : String(error),
+				}
+			}
+		},
+	})
+}
+
+/**
+ * Connect to MCP servers and expose their tools as AI SDK tools, named
+ * `mcp__<server>__<tool>`. Every call goes through the permission check, so
+ * MCP tools ask for approval like the built-in tools. Names that are the same
+ * after being cut to 64 characters get a `_2`, `_3`, ... suffix.
+ *
+ * Stdio servers from agents.json are only started when `trustServer` returns
+ * true for them. Stdio servers keep running until `close()` is called or
+ * `signal` is aborted.
+ *
+ * @example
+ * const mcp = await createMcpTools({
+ *   cwd,
+ *   trustServer: (name) => trustedServers.includes(name),
+ * })
+ * const tools = { read: readTool, ...mcp.tools }
+ *
+ * @example
+ * // Allow every tool of the "docs" server without approval
+ * const mcp = await createMcpTools({
+ *   permissions: { "mcp__docs__*": "allow", "*": "ask" },
+ * })
+ */
+export async function createMcpTools({
+	cwd = process.cwd(),
+	servers,
+	trustServer,
+	permissions = "ask",
+	signal,
+	onError,
+}: McpToolsOptions = {}): Promise<McpTools> {
+	const permissionPatterns =
+		typeof permissions === "string" ? { "*": permissions } : permissions
+	const configs = servers ?? (await loadMcpServers(cwd))
+	const tools: Record<string, Tool> = {}
+	const errors: McpTools["errors"] = []
+	const connections: McpConnection[] = []
+
+	const results = await Promise.allSettled(
+		Object.entries(configs).map(async ([name, config]) => {
+			if (
+				!servers &&
+				!isHttpConfig(config) &&
+				!(await trustServer?.(name, config))
+			) {
+				throw new McpError(
+					name,
+					`Not started, the server has to be trusted to run "${config.command}"`,
+				)
+			}
+
+			const connection = await connectMcpServer(name, config, cwd)
+
+			try {
+				const infos = await connection.listTools(
+					AbortSignal.timeout(CONNECT_TIMEOUT),
+				)
+				connections.push(connection)
+				return { connection, infos }
+			} catch (error) {
+				await connection.close()
+				throw error
+			}
+		}),
+	)
+
+	const close = async () => {
+		await Promise.all(connections.map((connection) => connection.close()))
+	}
+
+	if (signal?.aborted) {
+		await close()
+	} else {
+		signal?.addEventListener("abort", close, { once: true })
+	}
+
+	for (const [index, result] of results.entries()) {
+		if (result.status === "rejected") {
+			const error = {
+				server: Object.keys(configs)[index]!,
+				error:
+					result.reason instanceof Error
+						? result.reason.message
+						: String(result.reason),
+			}
+			errors.push(error)
+			onError?.(error)
+			continue
+		}
+
+		const { connection, infos } = result.value
+		for (const info of infos) {
+			let toolName = getMcpToolName(connection.name, info.name)
+			for (let i = 2; tools[toolName]; i++) {
+				const suffix = `_${i}`
+				toolName =
+					getMcpToolName(connection.name, info.name).slice(
+						0,
+						MAX_TOOL_NAME_LENGTH - suffix.length,
+					) + suffix
+			}
+
+			tools[toolName] = createMcpTool(
+				connection,
+				info,
+				toolName,
+				permissionPatterns,
+			)
+		}
+	}
+
+	return { tools, errors, close }
+}
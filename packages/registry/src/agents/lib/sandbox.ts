@@ -0,0 +1,223 @@
+import { readlinkSync, realpathSync } from "fs"
+import { homedir } from "os"
+import * as path from "path"
+import {
+	checkPermission,
+	matchWildcard,
+	type Permission,
+} from "@/agents/lib/permissions"
+
+// Same limit as Linux, for symlinks that point to each other
+const MAX_SYMLINKS = 40
+
+/**
+ * Run bash commands in an OS-level sandbox with bubblewrap, on Linux. The
+ * sandbox directories are writable, the rest of the filesystem is read-only,
+ * and secrets are removed from the environment. Without bubblewrap, commands
+ * run as usual.
+ */
+export interface BashSandboxOptions {
+	/** Allow network access, off by default */
+	network?: boolean
+	/** Environment variables to keep even though they look like secrets */
+	allowedEnv?: string[]
+	/**
+	 * Run commands that would need approval without asking, denied commands
+	 * stay denied. Defaults to true unless network access is allowed.
+	 */
+	autoAllow?: boolean
+	/**
+	 * Directories commands that run without approval can't change, like the
+	 * ones agents, tools and prompts are installed in. Relative paths are
+	 * resolved from `cwd`.
+	 */
+	protectedDirectories?: string[]
+}
+
+/**
+ * Directories the file tools (read, write, edit, list, glob and grep) work
+ * in. Paths are resolved with symlinks before they're checked, so a link in
+ * the project can't point the tools somewhere else.
+ *
+ * @example
+ * {
+ *   roots: ["/path/to/project"],
+ *   allowedDirectories: ["~/.config/my-tool"],
+ *   outside: "deny",
+ *   bash: { network: false },
+ * }
+ */
+export interface SandboxOptions {
+	/** Workspace roots, defaults to the agent's `cwd` */
+	roots?: string[]
+	/** Extra directories outside the roots the tools can access */
+	allowedDirectories?: string[]
+	/**
+	 * What happens to paths outside the roots and allowed directories:
+	 * - "ask": Require approval, unless a permission pattern for the path
+	 *   allows it (default)
+	 * - "deny": Block them
+	 */
+	outside?: "ask" | "deny"
+	/** Also run bash commands in the sandbox directories, off by default */
+	bash?: boolean | BashSandboxOptions
+}
+
+/** Sandbox with its directories resolved to real, absolute paths */
+export interface Sandbox {
+	directories: string[]
+	outside: "ask" | "deny"
+	bash?: Required<BashSandboxOptions>
+}
+
+function expandHome(dir: string) {
+	return dir === "~" || dir.startsWith("~/")
+		? path.join(homedir(), dir.slice(1))
+		: dir
+}
+
+function resolveSymlinks(filepath: string, depth: number): string {
+	try {
+		return realpathSync(filepath)
+	} catch {
+		// Writing to a dangling symlink creates its target, so resolve it too
+		if (depth < MAX_SYMLINKS) {
+			try {
+				const target = readlinkSync(filepath)
+				return resolveSymlinks(
+					path.resolve(path.dirname(filepath), target),
+					depth + 1,
+				)
+			} catch {
+				// Not a symlink
+			}
+		}
+
+		const parent = path.dirname(filepath)
+		if (parent === filepath) return filepath
+		return path.join(resolveSymlinks(parent, depth), path.basename(filepath))
+	}
+}
+
+/**
+ * Resolve a path with its symlinks. Paths that don't exist yet, like files
+ * about to be written, are resolved through their closest existing parent.
+ */
+export function resolveRealPath(filepath: string): string {
+	return resolveSymlinks(path.resolve(filepath), 0)
+}
+
+/**
+ * Resolve the symlinks of the directory an absolute pattern starts with, so
+ * it matches real paths, e.g. "/tmp/*" is "/private/tmp/*" on macOS.
+ */
+function resolvePatternPath(pattern: string) {
+	const wildcard = pattern.indexOf("*")
+	if (wildcard === -1) return resolveRealPath(pattern)
+
+	const prefix = pattern.slice(0, wildcard)
+	const dir = prefix.endsWith("/") ? prefix.slice(0, -1) : path.dirname(prefix)
+
+	return path.join(resolveRealPath(dir || "/"), pattern.slice(dir.length))
+}
+
+/**
+ * Check if a path is contained within a directory
+ */
+function isPathWithin(directory: string, filepath: string): boolean {
+	const relative = path.relative(directory, filepath)
+	return !relative.startsWith("..") && !path.isAbsolute(relative)
+}
+
+/**
+ * Create a sandbox from its options. Relative directories are resolved from
+ * `cwd`, and `~` from the home directory.
+ *
+ * @example
+ * const sandbox = createSandbox({ allowedDirectories: ["/tmp"] }, cwd)
+ * const read = createReadTool("allow", sandbox)
+ */
+export function createSandbox(
+	{
+		roots,
+		allowedDirectories = [],
+		outside = "ask",
+		bash,
+	}: SandboxOptions = {},
+	cwd = process.cwd(),
+): Sandbox {
+	const directories = [...(roots ?? [cwd]), ...allowedDirectories]
+	const bashOptions = bash === true ? {} : bash || undefined
+
+	return {
+		directories: directories.map((dir) =>
+			resolveRealPath(path.resolve(cwd, expandHome(dir))),
+		),
+		outside,
+		bash: bashOptions && {
+			network: bashOptions.network ?? false,
+			allowedEnv: bashOptions.allowedEnv ?? [],
+			autoAllow: bashOptions.autoAllow ?? !bashOptions.network,
+			protectedDirectories: (bashOptions.protectedDirectories ?? []).map(
+				(dir) => resolveRealPath(path.resolve(cwd, expandHome(dir))),
+			),
+		},
+	}
+}
+
+/**
+ * Check if a path is inside the sandbox, after resolving symlinks.
+ */
+export function isPathInSandbox(sandbox: Sandbox, filepath: string): boolean {
+	const realPath = resolveRealPath(filepath)
+	return sandbox.directories.some((dir) => isPathWithin(dir, realPath))
+}
+
+/**
+ * Check permission for a file path against permission patterns and a
+ * sandbox.
+ *
+ * Paths inside the sandbox are checked against the patterns as usual. Paths
+ * outside are denied when the sandbox denies them. Otherwise they need
+ * approval, unless an absolute pattern like `/path/to/dir/*` matches them, so
+ * rules written for a directory still apply.
+ *
+ * Patterns are matched against the real path, with the symlinks of absolute
+ * patterns resolved too, so a symlink can't reach a denied directory or lead
+ * an allowed one somewhere else. Patterns that deny the path as it was given
+ * still deny it.
+ *
+ * @example
+ * const sandbox = createSandbox({ roots: ["/repo"] })
+ * checkPathPermission("/repo/a.ts", { "*": "allow" }, sandbox) // "allow"
+ * checkPathPermission("/home/me/.ssh/id_rsa", { "*": "allow" }, sandbox) // "ask"
+ */
+export function checkPathPermission(
+	filepath: string,
+	patterns: Record<string, Permission>,
+	sandbox?: Sandbox,
+): Permission {
+	const realPath = resolveRealPath(filepath)
+	const realPatterns = Object.fromEntries(
+		Object.entries(patterns).map(([pattern, permission]) => [
+			path.isAbsolute(pattern) ? resolvePatternPath(pattern) : pattern,
+			permission,
+		]),
+	)
+	const permission =
+		checkPermission(filepath, patterns) === "deny"
+			? "deny"
+			: checkPermission(realPath, realPatterns)
+
+	if (!sandbox || isPathInSandbox(sandbox, filepath)) return permission
+	if (sandbox.outside === "deny" || permission === "deny") return "deny"
+
+	const hasPathPattern = Object.keys(realPatterns).some(
+		(pattern) =>
+			pattern !== "*" &&
+			path.isAbsolute(pattern) &&
+			matchWildcard(realPath, pattern),
+	)
+
+	return hasPathPattern ? permission : "ask"
+}
@@ -0,0 +1,374 @@
+import { promises as fs } from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterEach, assert, beforeEach, describe, expect, it } from "vitest"
+import { PermissionDeniedError } from "@/agents/lib/permissions"
+import {
+	applyHunks,
+	applyPatchTool,
+	createApplyPatchTool,
+	parsePatch,
+} from "../apply-patch"
+import { createFileTracker } from "../lib/file-tracker"
+import { executeTool } from "./lib/test-utils"
+
+describe("parsePatch", () => {
+	it("parses files and hunks", () => {
+		const files = parsePatch(
+			[
+				"--- a/src/a.ts\t2024-01-01 00:00:00",
+				"+++ b/src/a.ts",
+				"@@ -1,2 +1,2 @@",
+				" const a = 1",
+				"-const b = 2",
+				"+const b = 3",
+				"--- /dev/null",
+				"+++ b/src/new.ts",
+				"@@ -0,0 +1 @@",
+				"+export {}",
+			].join("\n"),
+		)
+
+		expect(files).toEqual([
+			{
+				oldPath: "src/a.ts",
+				newPath: "src/a.ts",
+				hunks: [
+					{
+						header: "@@ -1,2 +1,2 @@",
+						oldStart: 1,
+						lines: [" const a = 1", "-const b = 2", "+const b = 3"],
+					},
+				],
+			},
+			{
+				oldPath: null,
+				newPath: "src/new.ts",
+				hunks: [
+					{ header: "@@ -0,0 +1 @@", oldStart: 0, lines: ["+export {}"] },
+				],
+			},
+		])
+	})
+
+	it("parses git renames and deletes", () => {
+		const files = parsePatch(
+			[
+				"diff --git a/old.ts b/new.ts",
+				"similarity index 100%",
+				"rename from old.ts",
+				"rename to new.ts",
+				"diff --git a/gone.ts b/gone.ts",
+				"deleted file mode 100644",
+				"--- a/gone.ts",
+				"+++ /dev/null",
+				"@@ -1 +0,0 @@",
+				"-export {}",
+			].join("\n"),
+		)
+
+		expect(files).toMatchObject([
+			{ oldPath: "old.ts", newPath: "new.ts", hunks: [] },
+			{ oldPath: "gone.ts", newPath: null },
+		])
+	})
+
+	it("treats empty lines in hunks as context, except at the end", () => {
+		const [file] = parsePatch(
+			[
+				"--- a/a.ts",
+				"+++ b/a.ts",
+				"@@ -1,3 +1,3 @@",
+				" a",
+				"",
+				"-b",
+				"+c",
+				"",
+				"",
+			].join("\n"),
+		)
+
+		expect(file?.hunks[0]?.lines).toEqual([" a", " ", "-b", "+c"])
+	})
+})
+
+describe("applyHunks", () => {
+	it("applies hunks when the line numbers are off", () => {
+		const content = "a\nb\nc\nd\ne\nf\n"
+		const [file] = parsePatch(
+			["--- a/x", "+++ b/x", "@@ -1,3 +1,3 @@", " d", "-e", "+E", " f"].join(
+				"\n",
+			),
+		)
+
+		expect(applyHunks(content, file!.hunks)).toEqual({
+			content: "a\nb\nc\nd\nE\nf\n",
+			failures: [],
+		})
+	})
+
+	it("uses the match nearest to the hunk header", () => {
+		const content = "x\ny\nfiller\nfiller\nx\ny\n"
+		const [file] = parsePatch(
+			["--- a/x", "+++ b/x", "@@ -5,2 +5,2 @@", " x", "-y", "+z"].join("\n"),
+		)
+
+		expect(applyHunks(content, file!.hunks).content).toBe(
+			"x\ny\nfiller\nfiller\nx\nz\n",
+		)
+	})
+
+	it("tolerates differences in whitespace and in the middle of a block", () => {
+		const content =
+			"function a() {\n\tconst x = 1\n\tconst y = 2\n\treturn x + y\n}\n"
+		const [file] = parsePatch(
+			[
+				"--- a/x",
+				"+++ b/x",
+				"@@ -1,5 +1,5 @@",
+				" function a() {",
+				"   const x = 1",
+				"-  const y = 3",
+				"+  const y = 4",
+				"   return x + y",
+				" }",
+			].join("\n"),
+		)
+
+		expect(applyHunks(content, file!.hunks).content).toBe(
+			"function a() {\n  const x = 1\n  const y = 4\n  return x + y\n}\n",
+		)
+	})
+
+	it("reports the hunks that don't match", () => {
+		const [file] = parsePatch(
+			[
+				"--- a/x",
+				"+++ b/x",
+				"@@ -1 +1 @@",
+				"-a",
+				"+A",
+				"@@ -3 +3 @@",
+				"-missing",
+				"+found",
+			].join("\n"),
+		)
+
+		const result = applyHunks("a\nb\nc\n", file!.hunks)
+		expect(result.content).toBe("A\nb\nc\n")
+		expect(result.failures).toEqual([
+			{
+				hunk: 2,
+				header: "@@ -3 +3 @@",
+				reason: "Could not find the lines to change:\nmissing",
+			},
+		])
+	})
+})
+
+describe("applyPatchTool", () => {
+	let tempDir: string
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "apply-patch-test-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	it("updates, creates, deletes and renames files", async () => {
+		const updated = path.join(tempDir, "updated.ts")
+		const deleted = path.join(tempDir, "deleted.ts")
+		const renamed = path.join(tempDir, "renamed.ts")
+		await fs.writeFile(updated, "const a = 1\nconst b = 2\n", "utf-8")
+		await fs.writeFile(deleted, "export {}\n", "utf-8")
+		await fs.writeFile(renamed, "const c = 3\n", "utf-8")
+
+		const patch = [
+			`--- ${updated}`,
+			`+++ ${updated}`,
+			"@@ -1,2 +1,2 @@",
+			" const a = 1",
+			"-const b = 2",
+			"+const b = 20",
+			"--- /dev/null",
+			`+++ ${path.join(tempDir, "nested/created.ts")}`,
+			"@@ -0,0 +1,2 @@",
+			"+export const d = 4",
+			"+export const e = 5",
+			`--- ${deleted}`,
+			"+++ /dev/null",
+			"@@ -1 +0,0 @@",
+			"-export {}",
+			`diff --git a${renamed} b${path.join(tempDir, "moved.ts")}`,
+			`rename from ${renamed}`,
+			`rename to ${path.join(tempDir, "moved.ts")}`,
+			"@@ -1 +1 @@",
+			"-const c = 3",
+			"+const c = 30",
+		].join("\n")
+
+		const results = await executeTool(applyPatchTool, { patch })
+
+		const finalResult = results[results.length - 1] as {
+			status: string
+			diff: string
+			files: { filePath: string; action: string }[]
+		}
+		expect(finalResult?.status).toBe("success")
+		expect(finalResult?.files.map((file) => file.action)).toEqual([
+			"updated",
+			"created",
+			"deleted",
+			"renamed",
+		])
+		expect(finalResult?.diff).toContain("+const b = 20")
+
+		expect(await fs.readFile(updated, "utf-8")).toBe(
+			"const a = 1\nconst b = 20\n",
+		)
+		expect(
+			await fs.readFile(path.join(tempDir, "nested/created.ts"), "utf-8"),
+		).toBe("export const d = 4\nexport const e = 5\n")
+		await expect(fs.access(deleted)).rejects.toThrow()
+		await expect(fs.access(renamed)).rejects.toThrow()
+		expect(await fs.readFile(path.join(tempDir, "moved.ts"), "utf-8")).toBe(
+			"const c = 30\n",
+		)
+	})
+
+	it("changes no files when a hunk fails", async () => {
+		const first = path.join(tempDir, "first.ts")
+		const second = path.join(tempDir, "second.ts")
+		await fs.writeFile(first, "const a = 1\n", "utf-8")
+		await fs.writeFile(second, "const b = 2\n", "utf-8")
+
+		const patch = [
+			`--- ${first}`,
+			`+++ ${first}`,
+			"@@ -1 +1 @@",
+			"-const a = 1",
+			"+const a = 10",
+			`--- ${second}`,
+			`+++ ${second}`,
+			"@@ -1 +1 @@",
+			"-const c = 3",
+			"+const c = 30",
+		].join("\n")
+
+		const results = await executeTool(applyPatchTool, { patch })
+
+		const finalResult = results[results.length - 1] as {
+			status: string
+			error?: string
+		}
+		expect(finalResult?.status).toBe("error")
+		expect(finalResult?.error).toContain("no files were changed")
+		expect(finalResult?.error).toContain(`${second}, hunk 1 (@@ -1 +1 @@)`)
+		expect(await fs.readFile(first, "utf-8")).toBe("const a = 1\n")
+	})
+
+	it("doesn't create files that exist or delete files that don't", async () => {
+		const existing = path.join(tempDir, "existing.ts")
+		await fs.writeFile(existing, "export {}\n", "utf-8")
+
+		const patch = [
+			"--- /dev/null",
+			`+++ ${existing}`,
+			"@@ -0,0 +1 @@",
+			"+export {}",
+			`--- ${path.join(tempDir, "missing.ts")}`,
+			"+++ /dev/null",
+			"@@ -1 +0,0 @@",
+			"-export {}",
+		].join("\n")
+
+		const results = await executeTool(applyPatchTool, { patch })
+
+		const finalResult = results[results.length - 1] as {
+			status: string
+			error?: string
+		}
+		expect(finalResult?.status).toBe("error")
+		expect(finalResult?.error).toContain("File already exists")
+		expect(finalResult?.error).toContain("File not found")
+	})
+
+	it("returns an error for patches without files", async () => {
+		const results = await executeTool(applyPatchTool, { patch: "nothing" })
+
+		expect(results[results.length - 1]).toMatchObject({
+			status: "error",
+			error: expect.stringContaining("No file changes found"),
+		})
+	})
+
+	it("snapshots files and checks that they were read", async () => {
+		const file = path.join(tempDir, "test.ts")
+		await fs.writeFile(file, "const a = 1\n", "utf-8")
+		const patch = [
+			`--- ${file}`,
+			`+++ ${file}`,
+			"@@ -1 +1 @@",
+			"-const a = 1",
+			"+const a = 2",
+		].join("\n")
+
+		const snapshots: string[] = []
+		const fileTracker = createFileTracker()
+		const applyPatch = createApplyPatchTool(
+			"allow",
+			undefined,
+			{
+				snapshot: async (filePath) => {
+					snapshots.push(await fs.readFile(filePath, "utf-8"))
+				},
+			},
+			fileTracker,
+		)
+
+		const unread = await executeTool(applyPatch, { patch })
+		expect(unread[unread.length - 1]).toMatchObject({
+			status: "error",
+			error: expect.stringContaining("File has not been read yet"),
+		})
+
+		await fileTracker.record(file)
+		const results = await executeTool(applyPatch, { patch })
+		expect(results[results.length - 1]).toMatchObject({ status: "success" })
+		expect(snapshots).toEqual(["const a = 1\n"])
+	})
+
+	it("checks the permissions of every touched path", () => {
+		const applyPatch = createApplyPatchTool({
+			"*.ts": "allow",
+			"*node_modules*": "deny",
+			"*": "ask",
+		})
+
+		const { needsApproval } = applyPatch
+		assert(typeof needsApproval === "function")
+
+		const opts = { toolCallId: "test", messages: [] }
+		const patchFor = (...files: string[]) =>
+			files
+				.map((file) =>
+					[`--- ${file}`, `+++ ${file}`, "@@ -1 +1 @@", "-a", "+b"].join("\n"),
+				)
+				.join("\n")
+
+		expect(
+			needsApproval({ patch: patchFor("/src/a.ts", "/src/b.ts") }, opts),
+		).toBe(false)
+		expect(
+			needsApproval({ patch: patchFor("/src/a.ts", "/src/b.js") }, opts),
+		).toBe(true)
+		expect(() =>
+			needsApproval(
+				{ patch: patchFor("/src/a.ts", "/node_modules/pkg/index.js") },
+				opts,
+			),
+		).toThrow(PermissionDeniedError)
+	})
+})
@@ -1,6 +1,9 @@
+import * as os from "os"
 import { assert, describe, expect, it } from "vitest"
 import { PermissionDeniedError } from "@/agents/lib/permissions"
+import { createSandbox } from "@/agents/lib/sandbox"
 import { bashTool, createBashTool } from "../bash"
+import { getBubblewrapPath } from "../lib/bubblewrap"
 import { executeTool } from "./lib/test-utils"
 
 describe("bashTool", () => {
@@ -332,4 +335,106 @@ describe("bashTool", () => {
 			needsApproval({ command: "rm -rf /", description: "" }, opts),
 		).toThrow(PermissionDeniedError)
 	})
+
+	it("checks each command of a command line", () => {
+		const bash = createBashTool({
+			"echo*": "allow",
+			"rm*": "deny",
+			"*": "ask",
+		})
+
+		const { needsApproval } = bash
+		assert(typeof needsApproval === "function")
+
+		const opts = { toolCallId: "test", messages: [] }
+
+		expect(
+			needsApproval({ command: "echo a && echo b", description: "" }, opts),
+		).toBe(false)
+		expect(
+			needsApproval({ command: "echo a; curl evil", description: "" }, opts),
+		).toBe(true)
+		expect(
+			needsApproval({ command: "echo a > file", description: "" }, opts),
+		).toBe(true)
+		expect(() =>
+			needsApproval({ command: "echo $(rm -rf /)", description: "" }, opts),
+		).toThrow(PermissionDeniedError)
+	})
+
+	describe("sandbox", () => {
+		const opts = { toolCallId: "test", messages: [] }
+		const hasBubblewrap = getBubblewrapPath() !== null
+
+		it.skipIf(hasBubblewrap)("asks as usual without bubblewrap", () => {
+			const bash = createBashTool({ "*": "ask" }, createSandbox({ bash: true }))
+			const { needsApproval } = bash
+			assert(typeof needsApproval === "function")
+
+			expect(
+				needsApproval({ command: "npm install", description: "" }, opts),
+			).toBe(true)
+		})
+
+		it.skipIf(!hasBubblewrap)("auto-allows sandboxed commands", () => {
+			const bash = createBashTool(
+				{ "rm*": "deny", "*": "ask" },
+				createSandbox({ bash: true }),
+			)
+			const { needsApproval } = bash
+			assert(typeof needsApproval === "function")
+
+			expect(
+				needsApproval({ command: "npm install", description: "" }, opts),
+			).toBe(false)
+			expect(() =>
+				needsApproval({ command: "rm -rf /", description: "" }, opts),
+			).toThrow(PermissionDeniedError)
+		})
+
+		it.skipIf(!hasBubblewrap)(
+			"makes everything but the sandbox read-only",
+			async () => {
+				const bash = createBashTool(
+					{ "*": "allow" },
+					createSandbox({ bash: true }),
+				)
+
+				const results = await executeTool(bash, {
+					command: `touch ${os.homedir()}/sandbox-test && echo written`,
+					description: "Write outside the sandbox",
+				})
+
+				const finalResult = results[results.length - 1] as {
+					output: string
+					exitCode: number
+				}
+				expect(finalResult?.exitCode).not.toBe(0)
+				expect(finalResult?.output).not.toContain("written")
+			},
+		)
+
+		it.skipIf(!hasBubblewrap)(
+			"removes secrets from the environment",
+			async () => {
+				process.env.SANDBOX_TEST_TOKEN = "secret"
+				try {
+					const bash = createBashTool(
+						{ "*": "allow" },
+						createSandbox({ bash: true }),
+					)
+
+					const results = await executeTool(bash, {
+						command: "echo token=$SANDBOX_TEST_TOKEN",
+						description: "Print a secret",
+					})
+
+					const finalResult = results[results.length - 1] as { output: string }
+					expect(finalResult?.output).toContain("token=\n")
+				} finally {
+					delete process.env.SANDBOX_TEST_TOKEN
+				}
+			},
+		)
+	})
 })
@@ -17,6 +17,8 @@ import {
 	TrimmedBoundaryReplacer,
 	WhitespaceNormalizedReplacer,
 } from "../edit"
+import { createFileTracker } from "../lib/file-tracker"
+import { createReadTool } from "../read"
 import { executeTool } from "./lib/test-utils"
 
 // Helper to collect all values from a generator
@@ -528,4 +530,124 @@ describe("editTool", () => {
 			),
 		).toThrow(PermissionDeniedError)
 	})
+
+	it("snapshots the file before editing it", async () => {
+		await fs.writeFile(tempFile, "Hello, world!", "utf-8")
+
+		const snapshots: Array<{ filePath: string; content: string }> = []
+		const edit = createEditTool("allow", undefined, {
+			snapshot: async (filePath) => {
+				snapshots.push({
+					filePath,
+					content: await fs.readFile(filePath, "utf-8"),
+				})
+			},
+		})
+
+		await executeTool(edit, {
+			filePath: tempFile,
+			oldString: "world",
+			newString: "there",
+		})
+
+		expect(snapshots).toEqual([
+			{ filePath: tempFile, content: "Hello, world!" },
+		])
+		expect(await fs.readFile(tempFile, "utf-8")).toBe("Hello, there!")
+	})
+
+	it("doesn't snapshot when the edit fails", async () => {
+		await fs.writeFile(tempFile, "Hello, world!", "utf-8")
+
+		const snapshots: string[] = []
+		const edit = createEditTool("allow", undefined, {
+			snapshot: async (filePath) => {
+				snapshots.push(filePath)
+			},
+		})
+
+		await executeTool(edit, {
+			filePath: tempFile,
+			oldString: "missing",
+			newString: "there",
+		})
+
+		expect(snapshots).toEqual([])
+	})
+
+	describe("file tracker", () => {
+		it("rejects files that weren't read", async () => {
+			await fs.writeFile(tempFile, "Hello, world!", "utf-8")
+
+			const edit = createEditTool(
+				"allow",
+				undefined,
+				undefined,
+				createFileTracker(),
+			)
+			const results = await executeTool(edit, {
+				filePath: tempFile,
+				oldString: "world",
+				newString: "there",
+			})
+
+			const finalResult = results[results.length - 1] as {
+				status: string
+				error?: string
+			}
+			expect(finalResult?.status).toBe("error")
+			expect(finalResult?.error).toContain("has not been read yet")
+			expect(await fs.readFile(tempFile, "utf-8")).toBe("Hello, world!")
+		})
+
+		it("edits files after they're read, and again after editing", async () => {
+			await fs.writeFile(tempFile, "Hello, world!", "utf-8")
+
+			const fileTracker = createFileTracker()
+			const read = createReadTool("allow", undefined, fileTracker)
+			const edit = createEditTool("allow", undefined, undefined, fileTracker)
+
+			await executeTool(read, { filePath: tempFile, offset: 0, limit: 2000 })
+			await executeTool(edit, {
+				filePath: tempFile,
+				oldString: "world",
+				newString: "there",
+			})
+			const results = await executeTool(edit, {
+				filePath: tempFile,
+				oldString: "Hello",
+				newString: "Hi",
+			})
+
+			const finalResult = results[results.length - 1] as { status: string }
+			expect(finalResult?.status).toBe("success")
+			expect(await fs.readFile(tempFile, "utf-8")).toBe("Hi, there!")
+		})
+
+		it("rejects files that changed since they were read", async () => {
+			await fs.writeFile(tempFile, "Hello, world!", "utf-8")
+
+			const fileTracker = createFileTracker()
+			const read = createReadTool("allow", undefined, fileTracker)
+			const edit = createEditTool("allow", undefined, undefined, fileTracker)
+
+			await executeTool(read, { filePath: tempFile, offset: 0, limit: 2000 })
+			await fs.writeFile(tempFile, "Hello, user!", "utf-8")
+			await fs.utimes(tempFile, new Date(), new Date(Date.now() + 1000))
+
+			const results = await executeTool(edit, {
+				filePath: tempFile,
+				oldString: "Hello",
+				newString: "Hi",
+			})
+
+			const finalResult = results[results.length - 1] as {
+				status: string
+				error?: string
+			}
+			expect(finalResult?.status).toBe("error")
+			expect(finalResult?.error).toContain("modified since it was last read")
+			expect(await fs.readFile(tempFile, "utf-8")).toBe("Hello, user!")
+		})
+	})
 })
@@ -1,8 +1,9 @@
 import { promises as fs } from "fs"
 import * as os from "os"
 import * as path from "path"
-import { afterEach, beforeEach, describe, expect, it } from "vitest"
-import { globTool } from "../glob"
+import { afterEach, assert, beforeEach, describe, expect, it } from "vitest"
+import { PermissionDeniedError } from "@/agents/lib/permissions"
+import { createGlobTool, globTool } from "../glob"
 import { executeTool } from "./lib/test-utils"
 
 // Increase timeout for all tests in this file as ripgrep has initialization overhead
@@ -239,4 +240,48 @@ describe("globTool", () => {
 		},
 		TEST_TIMEOUT,
 	)
+
+	describe("permissions", () => {
+		const opts = { toolCallId: "test", messages: [] }
+
+		it("denies searching denied directories", () => {
+			const { needsApproval } = createGlobTool({
+				"*": "allow",
+				[`${tempDir}/secrets*`]: "deny",
+			})
+			assert(typeof needsApproval === "function")
+
+			expect(needsApproval({ pattern: "*", path: tempDir }, opts)).toBe(false)
+			expect(() =>
+				needsApproval(
+					{ pattern: "*", path: path.join(tempDir, "secrets") },
+					opts,
+				),
+			).toThrow(PermissionDeniedError)
+		})
+
+		it(
+			"leaves denied files out",
+			async () => {
+				await fs.mkdir(path.join(tempDir, "secrets"))
+				await fs.writeFile(path.join(tempDir, "a.txt"), "a")
+				await fs.writeFile(path.join(tempDir, "secrets", "key.txt"), "key")
+
+				const results = await executeTool(
+					createGlobTool({ "*": "allow", [`${tempDir}/secrets/*`]: "deny" }),
+					{ pattern: "**/*.txt", path: tempDir },
+				)
+
+				const finalResult = results[results.length - 1] as {
+					status: string
+					result: string
+					fileCount: number
+				}
+				expect(finalResult?.status).toBe("success")
+				expect(finalResult?.fileCount).toBe(1)
+				expect(finalResult?.result).not.toContain("key.txt")
+			},
+			TEST_TIMEOUT,
+		)
+	})
 })
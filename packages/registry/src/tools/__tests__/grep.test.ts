@@ -1,8 +1,9 @@
 import { promises as fs } from "fs"
 import * as os from "os"
 import * as path from "path"
-import { afterEach, beforeEach, describe, expect, it } from "vitest"
-import { grepTool } from "../grep"
+import { afterEach, assert, beforeEach, describe, expect, it } from "vitest"
+import { PermissionDeniedError } from "@/agents/lib/permissions"
+import { createGrepTool, grepTool } from "../grep"
 import { executeTool } from "./lib/test-utils"
 
 describe("grepTool", () => {
@@ -274,4 +275,44 @@ describe("grepTool", () => {
 		expect(finalResult?.status).toBe("success")
 		expect(finalResult?.result).toContain(tempDir)
 	})
+
+	describe("permissions", () => {
+		const opts = { toolCallId: "test", messages: [] }
+
+		it("denies searching denied directories", () => {
+			const { needsApproval } = createGrepTool({
+				"*": "allow",
+				[`${tempDir}/secrets*`]: "deny",
+			})
+			assert(typeof needsApproval === "function")
+
+			expect(needsApproval({ pattern: "key", path: tempDir }, opts)).toBe(false)
+			expect(() =>
+				needsApproval(
+					{ pattern: "key", path: path.join(tempDir, "secrets") },
+					opts,
+				),
+			).toThrow(PermissionDeniedError)
+		})
+
+		it("leaves matches in denied files out", async () => {
+			await fs.mkdir(path.join(tempDir, "secrets"))
+			await fs.writeFile(path.join(tempDir, "a.txt"), "key = public")
+			await fs.writeFile(path.join(tempDir, "secrets", "b.txt"), "key = 123")
+
+			const results = await executeTool(
+				createGrepTool({ "*": "allow", [`${tempDir}/secrets/*`]: "deny" }),
+				{ pattern: "key", path: tempDir },
+			)
+
+			const finalResult = results[results.length - 1] as {
+				status: string
+				result: string
+				matchCount: number
+			}
+			expect(finalResult?.status).toBe("success")
+			expect(finalResult?.matchCount).toBe(1)
+			expect(finalResult?.result).not.toContain("123")
+		})
+	})
 })
@@ -0,0 +1,72 @@
+import { promises as fs } from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { createFileTracker } from "../../lib/file-tracker"
+
+describe("createFileTracker", () => {
+	let tempDir: string
+	let tempFile: string
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "file-tracker-test-"))
+		tempFile = path.join(tempDir, "test.txt")
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	it("passes files that don't exist", async () => {
+		const tracker = createFileTracker()
+		await expect(tracker.check(tempFile)).resolves.toBeUndefined()
+	})
+
+	it("rejects files that weren't read", async () => {
+		await fs.writeFile(tempFile, "content")
+
+		const tracker = createFileTracker()
+		await expect(tracker.check(tempFile)).rejects.toThrow(
+			"File has not been read yet",
+		)
+	})
+
+	it("passes files that didn't change since they were read", async () => {
+		await fs.writeFile(tempFile, "content")
+
+		const tracker = createFileTracker()
+		await tracker.record(tempFile)
+		await expect(tracker.check(tempFile)).resolves.toBeUndefined()
+	})
+
+	it("rejects files that changed since they were read", async () => {
+		await fs.writeFile(tempFile, "content")
+
+		const tracker = createFileTracker()
+		await tracker.record(tempFile)
+		await fs.writeFile(tempFile, "changed by the user")
+		await fs.utimes(tempFile, new Date(), new Date(Date.now() + 1000))
+
+		await expect(tracker.check(tempFile)).rejects.toThrow(
+			"File has been modified since it was last read",
+		)
+	})
+
+	it("passes files that were only touched", async () => {
+		await fs.writeFile(tempFile, "content")
+
+		const tracker = createFileTracker()
+		await tracker.record(tempFile)
+		await fs.utimes(tempFile, new Date(), new Date(Date.now() + 1000))
+
+		await expect(tracker.check(tempFile)).resolves.toBeUndefined()
+	})
+
+	it("tracks relative and absolute paths as the same file", async () => {
+		await fs.writeFile(tempFile, "content")
+
+		const tracker = createFileTracker()
+		await tracker.record(path.relative(process.cwd(), tempFile))
+		await expect(tracker.check(tempFile)).resolves.toBeUndefined()
+	})
+})
@@ -1,8 +1,9 @@
 import { promises as fs } from "fs"
 import * as os from "os"
 import * as path from "path"
-import { afterEach, beforeEach, describe, expect, it } from "vitest"
-import { listTool } from "../list"
+import { afterEach, assert, beforeEach, describe, expect, it } from "vitest"
+import { PermissionDeniedError } from "@/agents/lib/permissions"
+import { createListTool, listTool } from "../list"
 import { executeTool } from "./lib/test-utils"
 
 describe("listTool", () => {
@@ -230,4 +231,41 @@ describe("listTool", () => {
 		expect(appleIndex).toBeLessThan(mangoIndex)
 		expect(mangoIndex).toBeLessThan(zebraIndex)
 	})
+
+	describe("permissions", () => {
+		const opts = { toolCallId: "test", messages: [] }
+
+		it("denies listing denied directories", () => {
+			const { needsApproval } = createListTool({
+				"*": "allow",
+				[`${tempDir}/secrets*`]: "deny",
+			})
+			assert(typeof needsApproval === "function")
+
+			expect(needsApproval({ path: tempDir }, opts)).toBe(false)
+			expect(() =>
+				needsApproval({ path: path.join(tempDir, "secrets") }, opts),
+			).toThrow(PermissionDeniedError)
+		})
+
+		it("leaves denied files out", async () => {
+			await fs.mkdir(path.join(tempDir, "secrets"))
+			await fs.writeFile(path.join(tempDir, "a.txt"), "a")
+			await fs.writeFile(path.join(tempDir, "secrets", "key.txt"), "key")
+
+			const results = await executeTool(
+				createListTool({ "*": "allow", [`${tempDir}/secrets/*`]: "deny" }),
+				{ path: tempDir },
+			)
+
+			const finalResult = results[results.length - 1] as {
+				status: string
+				result: string
+				fileCount: number
+			}
+			expect(finalResult?.status).toBe("success")
+			expect(finalResult?.fileCount).toBe(1)
+			expect(finalResult?.result).not.toContain("key.txt")
+		})
+	})
 })
@@ -0,0 +1,196 @@
+import { promises as fs } from "fs"
+import * as os from "os"
+import * as path from "path"
+import { afterEach, assert, beforeEach, describe, expect, it } from "vitest"
+import { PermissionDeniedError } from "@/agents/lib/permissions"
+import { createFileTracker } from "../lib/file-tracker"
+import { createMultiEditTool, multiEditTool } from "../multi-edit"
+import { executeTool } from "./lib/test-utils"
+
+describe("multiEditTool", () => {
+	let tempDir: string
+	let tempFile: string
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "multi-edit-test-"))
+		tempFile = path.join(tempDir, "test.ts")
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	it("applies the edits in order", async () => {
+		await fs.writeFile(
+			tempFile,
+			"const foo = 1\nconst bar = foo + 1\nexport { foo, bar }\n",
+			"utf-8",
+		)
+
+		const results = await executeTool(multiEditTool, {
+			filePath: tempFile,
+			edits: [
+				{ oldString: "foo", newString: "first", replaceAll: true },
+				{ oldString: "const bar = first + 1", newString: "const bar = 2" },
+			],
+		})
+
+		const finalResult = results[results.length - 1] as {
+			status: string
+			editCount: number
+			diff: string
+		}
+		expect(finalResult?.status).toBe("success")
+		expect(finalResult?.editCount).toBe(2)
+		expect(finalResult?.diff).toContain("-const foo = 1")
+		expect(finalResult?.diff).toContain("+const first = 1")
+		expect(finalResult?.diff).toContain("+const bar = 2")
+
+		const content = await fs.readFile(tempFile, "utf-8")
+		expect(content).toBe(
+			"const first = 1\nconst bar = 2\nexport { first, bar }\n",
+		)
+	})
+
+	it("uses the fuzzy matching strategies", async () => {
+		await fs.writeFile(tempFile, "function a() {\n\treturn 1\n}\n", "utf-8")
+
+		const results = await executeTool(multiEditTool, {
+			filePath: tempFile,
+			edits: [{ oldString: "    return 1", newString: "\treturn 2" }],
+		})
+
+		const finalResult = results[results.length - 1] as { status: string }
+		expect(finalResult?.status).toBe("success")
+		expect(await fs.readFile(tempFile, "utf-8")).toBe(
+			"function a() {\n\treturn 2\n}\n",
+		)
+	})
+
+	it("applies no edits when one doesn't match", async () => {
+		const original = "const a = 1\nconst b = 2\n"
+		await fs.writeFile(tempFile, original, "utf-8")
+
+		const results = await executeTool(multiEditTool, {
+			filePath: tempFile,
+			edits: [
+				{ oldString: "const a = 1", newString: "const a = 10" },
+				{ oldString: "const c = 3", newString: "const c = 30" },
+			],
+		})
+
+		const finalResult = results[results.length - 1] as {
+			status: string
+			error?: string
+		}
+		expect(finalResult?.status).toBe("error")
+		expect(finalResult?.error).toContain("Edit 2 of 2 failed")
+		expect(finalResult?.error).toContain("oldString not found in content")
+		expect(await fs.readFile(tempFile, "utf-8")).toBe(original)
+	})
+
+	it("fails when a later edit looks for text an earlier one changed", async () => {
+		await fs.writeFile(tempFile, "const a = 1\n", "utf-8")
+
+		const results = await executeTool(multiEditTool, {
+			filePath: tempFile,
+			edits: [
+				{ oldString: "a = 1", newString: "b = 1" },
+				{ oldString: "const a", newString: "let a" },
+			],
+		})
+
+		const finalResult = results[results.length - 1] as {
+			status: string
+			error?: string
+		}
+		expect(finalResult?.status).toBe("error")
+		expect(finalResult?.error).toContain("Edit 2 of 2 failed")
+	})
+
+	it("rejects empty and unchanged edits", async () => {
+		await fs.writeFile(tempFile, "const a = 1\n", "utf-8")
+
+		const empty = await executeTool(multiEditTool, {
+			filePath: tempFile,
+			edits: [{ oldString: "", newString: "const b = 2" }],
+		})
+		expect(empty[empty.length - 1]).toMatchObject({
+			status: "error",
+			error: expect.stringContaining("oldString is empty"),
+		})
+
+		const unchanged = await executeTool(multiEditTool, {
+			filePath: tempFile,
+			edits: [{ oldString: "a", newString: "a" }],
+		})
+		expect(unchanged[unchanged.length - 1]).toMatchObject({
+			status: "error",
+			error: expect.stringContaining("must be different"),
+		})
+	})
+
+	it("returns an error for files that don't exist", async () => {
+		const results = await executeTool(multiEditTool, {
+			filePath: path.join(tempDir, "missing.ts"),
+			edits: [{ oldString: "a", newString: "b" }],
+		})
+
+		const finalResult = results[results.length - 1] as {
+			status: string
+			error?: string
+		}
+		expect(finalResult?.status).toBe("error")
+		expect(finalResult?.error).toContain("not found")
+	})
+
+	it("snapshots the file and tracks it once", async () => {
+		await fs.writeFile(tempFile, "const a = 1\n", "utf-8")
+
+		const snapshots: string[] = []
+		const fileTracker = createFileTracker()
+		await fileTracker.record(tempFile)
+		const multiEdit = createMultiEditTool(
+			"allow",
+			undefined,
+			{
+				snapshot: async (filePath) => {
+					snapshots.push(await fs.readFile(filePath, "utf-8"))
+				},
+			},
+			fileTracker,
+		)
+
+		await executeTool(multiEdit, {
+			filePath: tempFile,
+			edits: [
+				{ oldString: "const", newString: "let" },
+				{ oldString: "1", newString: "2" },
+			],
+		})
+
+		expect(snapshots).toEqual(["const a = 1\n"])
+		// Written files count as read
+		await expect(fileTracker.check(tempFile)).resolves.toBeUndefined()
+	})
+
+	it("respects custom permissions", () => {
+		const multiEdit = createMultiEditTool({
+			"*.ts": "allow",
+			"*node_modules*": "deny",
+			"*": "ask",
+		})
+
+		const { needsApproval } = multiEdit
+		assert(typeof needsApproval === "function")
+
+		const opts = { toolCallId: "test", messages: [] }
+		const edits = [{ oldString: "a", newString: "b" }]
+
+		expect(needsApproval({ filePath: "/src/file.ts", edits }, opts)).toBe(false)
+		expect(needsApproval({ filePath: "/src/file.js", edits }, opts)).toBe(true)
+		expect(() =>
+			needsApproval({ filePath: "/node_modules/pkg/index.js", edits }, opts),
+		).toThrow(PermissionDeniedError)
+	})
+})
@@ -1,8 +1,10 @@
 import { promises as fs } from "fs"
 import * as os from "os"
 import * as path from "path"
-import { afterEach, beforeEach, describe, expect, it } from "vitest"
-import { readTool } from "../read"
+import { afterEach, assert, beforeEach, describe, expect, it } from "vitest"
+import { PermissionDeniedError } from "@/agents/lib/permissions"
+import { createSandbox } from "@/agents/lib/sandbox"
+import { createReadTool, readTool } from "../read"
 import { executeTool } from "./lib/test-utils"
 
 describe("readTool", () => {
@@ -484,4 +486,84 @@ describe("readTool", () => {
 			expect(finalResult?.content).toContain("content")
 		})
 	})
+
+	describe("permissions", () => {
+		const opts = { toolCallId: "test", messages: [] }
+
+		it("allows all reads by default", () => {
+			const { needsApproval } = readTool
+			assert(typeof needsApproval === "function")
+
+			expect(
+				needsApproval(
+					{ filePath: "/any/file.txt", offset: 0, limit: 10 },
+					opts,
+				),
+			).toBe(false)
+		})
+
+		it("respects custom permissions", () => {
+			const { needsApproval } = createReadTool({
+				"/project/*": "allow",
+				"/secrets/*": "deny",
+				"*": "ask",
+			})
+			assert(typeof needsApproval === "function")
+
+			expect(
+				needsApproval(
+					{ filePath: "/project/a.ts", offset: 0, limit: 10 },
+					opts,
+				),
+			).toBe(false)
+			expect(
+				needsApproval({ filePath: "/other/a.ts", offset: 0, limit: 10 }, opts),
+			).toBe(true)
+			expect(() =>
+				needsApproval({ filePath: "/secrets/key", offset: 0, limit: 10 }, opts),
+			).toThrow(PermissionDeniedError)
+		})
+
+		it("asks before reading outside the sandbox", () => {
+			const { needsApproval } = createReadTool(
+				"allow",
+				createSandbox({}, "/project"),
+			)
+			assert(typeof needsApproval === "function")
+
+			expect(
+				needsApproval(
+					{ filePath: "/project/a.ts", offset: 0, limit: 10 },
+					opts,
+				),
+			).toBe(false)
+			expect(
+				needsApproval(
+					{ filePath: "/home/user/.ssh/id_rsa", offset: 0, limit: 10 },
+					opts,
+				),
+			).toBe(true)
+		})
+
+		it("blocks sensitive files behind symlinks", async () => {
+			await fs.writeFile(path.join(tempDir, ".env"), "SECRET=1")
+			await fs.symlink(
+				path.join(tempDir, ".env"),
+				path.join(tempDir, "config.txt"),
+			)
+
+			const results = await executeTool(readTool, {
+				filePath: path.join(tempDir, "config.txt"),
+				offset: 0,
+				limit: 10,
+			})
+
+			const finalResult = results[results.length - 1] as {
+				status: string
+				error: string
+			}
+			expect(finalResult?.status).toBe("error")
+			expect(finalResult?.error).toContain("sensitive file")
+		})
+	})
 })
@@ -0,0 +1,223 @@
+import {
+	Experimental_Agent as Agent,
+	simulateReadableStream,
+	type ToolSet,
+	tool,
+} from "ai"
+import { MockLanguageModelV3 } from "ai/test"
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import { createTaskTool, type SubAgentActivity } from "../task"
+import { executeTool } from "./lib/test-utils"
+
+type StreamPart =
+	Awaited<
+		ReturnType<MockLanguageModelV3["doStream"]>
+	>["stream"] extends ReadableStream<infer T>
+		? T
+		: never
+
+const usage = { inputTokens: 10, outputTokens: 10, totalTokens: 20 }
+
+function toolCallStep(toolName: string, input: unknown) {
+	return [
+		{ type: "stream-start", warnings: [] },
+		{
+			type: "tool-call",
+			toolCallId: `call-${toolName}`,
+			toolName,
+			input: JSON.stringify(input),
+		},
+		{ type: "finish", finishReason: "tool-calls", usage },
+	] satisfies StreamPart[]
+}
+
+function textStep(text: string) {
+	return [
+		{ type: "stream-start", warnings: [] },
+		{ type: "text-start", id: "text" },
+		{ type: "text-delta", id: "text", delta: text },
+		{ type: "text-end", id: "text" },
+		{ type: "finish", finishReason: "stop", usage },
+	] satisfies StreamPart[]
+}
+
+/**
+ * Create a model that streams the given steps in order, and records the
+ * prompts it was called with.
+ */
+function createModel(steps: StreamPart[][]) {
+	const prompts: unknown[] = []
+	const model = new MockLanguageModelV3({
+		doStream: async ({ prompt }) => {
+			prompts.push(prompt)
+			const chunks = steps[prompts.length - 1] ?? textStep("")
+			return { stream: simulateReadableStream({ chunks }) }
+		},
+	})
+	return { model, prompts }
+}
+
+function createSubAgent(steps: StreamPart[][], tools: ToolSet = {}) {
+	const { model, prompts } = createModel(steps)
+	let created = 0
+	return {
+		prompts,
+		getCreated: () => created,
+		subAgent: {
+			description: "Test agent",
+			create: async () => {
+				created++
+				return new Agent({ model, tools })
+			},
+		},
+	}
+}
+
+const lookupTool = tool({
+	description: "Look something up",
+	inputSchema: z.object({ query: z.string() }),
+	execute: async ({ query }) => ({
+		status: "success",
+		message: `Looked up ${query}`,
+	}),
+})
+
+describe("taskTool", () => {
+	it("runs the agent and returns its report", async () => {
+		const { subAgent, prompts } = createSubAgent(
+			[
+				toolCallStep("lookup", { query: "auth" }),
+				textStep("Auth is in src/auth.ts"),
+			],
+			{ lookup: lookupTool },
+		)
+		const task = createTaskTool({ "test-agent": subAgent })
+
+		const results = await executeTool(task, {
+			agent: "test-agent",
+			description: "Find auth",
+			prompt: "Where is auth implemented?",
+		})
+
+		const finalResult = results[results.length - 1] as {
+			status: string
+			result: string
+			activity: SubAgentActivity[]
+		}
+		expect(finalResult?.status).toBe("success")
+		expect(finalResult?.result).toBe("Auth is in src/auth.ts")
+		expect(finalResult?.activity).toEqual([
+			{
+				toolCallId: "call-lookup",
+				toolName: "lookup",
+				status: "success",
+				message: "Looked up auth",
+			},
+		])
+		// The first step only sees the prompt
+		expect(prompts[0]).toEqual([
+			{
+				role: "user",
+				content: [{ type: "text", text: "Where is auth implemented?" }],
+				providerOptions: undefined,
+			},
+		])
+
+		// Progress is reported while the agent runs
+		expect(results).toContainEqual(
+			expect.objectContaining({
+				status: "pending",
+				activity: [expect.objectContaining({ status: "running" })],
+			}),
+		)
+	})
+
+	it("creates a new agent for every task", async () => {
+		const { subAgent, getCreated } = createSubAgent([
+			textStep("first"),
+			textStep("second"),
+		])
+		const task = createTaskTool({ "test-agent": subAgent })
+		const input = { agent: "test-agent", description: "Task", prompt: "Go" }
+
+		await executeTool(task, input)
+		await executeTool(task, input)
+
+		expect(getCreated()).toBe(2)
+	})
+
+	it("denies tool calls that need approval", async () => {
+		let executed = false
+		const { subAgent, prompts } = createSubAgent(
+			[toolCallStep("dangerous", {}), textStep("I couldn't do it")],
+			{
+				dangerous: tool({
+					description: "Needs approval",
+					inputSchema: z.object({}),
+					needsApproval: true,
+					execute: async () => {
+						executed = true
+						return "done"
+					},
+				}),
+			},
+		)
+		const task = createTaskTool({ "test-agent": subAgent })
+
+		const results = await executeTool(task, {
+			agent: "test-agent",
+			description: "Task",
+			prompt: "Do something dangerous",
+		})
+
+		const finalResult = results[results.length - 1] as {
+			status: string
+			result: string
+			activity: SubAgentActivity[]
+		}
+		expect(executed).toBe(false)
+		expect(finalResult?.status).toBe("success")
+		expect(finalResult?.result).toBe("I couldn't do it")
+		expect(finalResult?.activity[0]?.status).toBe("denied")
+		// The agent was told why the call was denied
+		expect(JSON.stringify(prompts[1])).toContain(
+			"Sub-agents can't ask the user for approval",
+		)
+	})
+
+	it("returns an error when the agent fails", async () => {
+		const task = createTaskTool({
+			"test-agent": {
+				description: "Test agent",
+				create: async () => {
+					throw new Error("No model")
+				},
+			},
+		})
+
+		const results = await executeTool(task, {
+			agent: "test-agent",
+			description: "Task",
+			prompt: "Go",
+		})
+
+		expect(results[results.length - 1]).toMatchObject({
+			status: "error",
+			error: "No model",
+		})
+	})
+
+	it("lists the agents in the description", () => {
+		const task = createTaskTool({
+			"research-agent": {
+				description: "Explores the codebase",
+				create: async () => new Agent({ model: createModel([]).model }),
+			},
+		})
+
+		expect(task.description).toContain(
+			"- research-agent: Explores the codebase",
+		)
+	})
+})
@@ -3,6 +3,7 @@ import * as os from "os"
 import * as path from "path"
 import { afterEach, assert, beforeEach, describe, expect, it } from "vitest"
 import { PermissionDeniedError } from "@/agents/lib/permissions"
+import { createFileTracker } from "../lib/file-tracker"
 import { createWriteTool, writeTool } from "../write"
 import { executeTool } from "./lib/test-utils"
 
@@ -251,4 +252,101 @@ describe("writeTool", () => {
 			needsApproval({ filePath: "/.env.local", content: "SECRET=value" }, opts),
 		).toThrow(PermissionDeniedError)
 	})
+
+	it("snapshots files before writing them", async () => {
+		const existing = path.join(tempDir, "existing.txt")
+		const created = path.join(tempDir, "created.txt")
+		await fs.writeFile(existing, "original content", "utf-8")
+
+		const snapshots: Array<{ filePath: string; content: string | null }> = []
+		const write = createWriteTool("allow", undefined, {
+			snapshot: async (filePath) => {
+				const content = await fs.readFile(filePath, "utf-8").catch(() => null)
+				snapshots.push({ filePath, content })
+			},
+		})
+
+		await executeTool(write, { filePath: existing, content: "new content" })
+		await executeTool(write, { filePath: created, content: "created" })
+
+		expect(snapshots).toEqual([
+			{ filePath: existing, content: "original content" },
+			{ filePath: created, content: null },
+		])
+	})
+
+	it("doesn't write when the snapshot fails", async () => {
+		const filePath = path.join(tempDir, "existing.txt")
+		await fs.writeFile(filePath, "original content", "utf-8")
+
+		const write = createWriteTool("allow", undefined, {
+			snapshot: async () => {
+				throw new Error("Disk full")
+			},
+		})
+
+		const results = await executeTool(write, { filePath, content: "new" })
+		const finalResult = results[results.length - 1] as {
+			status: string
+			error?: string
+		}
+		expect(finalResult?.status).toBe("error")
+		expect(finalResult?.error).toBe("Disk full")
+		expect(await fs.readFile(filePath, "utf-8")).toBe("original content")
+	})
+
+	describe("file tracker", () => {
+		it("creates new files without reading them", async () => {
+			const filePath = path.join(tempDir, "new-file.txt")
+			const write = createWriteTool(
+				"allow",
+				undefined,
+				undefined,
+				createFileTracker(),
+			)
+
+			const results = await executeTool(write, { filePath, content: "new" })
+
+			const finalResult = results[results.length - 1] as { status: string }
+			expect(finalResult?.status).toBe("success")
+		})
+
+		it("rejects existing files that weren't read", async () => {
+			const filePath = path.join(tempDir, "existing.txt")
+			await fs.writeFile(filePath, "original content", "utf-8")
+
+			const write = createWriteTool(
+				"allow",
+				undefined,
+				undefined,
+				createFileTracker(),
+			)
+			const results = await executeTool(write, { filePath, content: "new" })
+
+			const finalResult = results[results.length - 1] as {
+				status: string
+				error?: string
+			}
+			expect(finalResult?.status).toBe("error")
+			expect(finalResult?.error).toContain("has not been read yet")
+			expect(await fs.readFile(filePath, "utf-8")).toBe("original content")
+		})
+
+		it("overwrites files it wrote", async () => {
+			const filePath = path.join(tempDir, "new-file.txt")
+			const write = createWriteTool(
+				"allow",
+				undefined,
+				undefined,
+				createFileTracker(),
+			)
+
+			await executeTool(write, { filePath, content: "first" })
+			const results = await executeTool(write, { filePath, content: "second" })
+
+			const finalResult = results[results.length - 1] as { status: string }
+			expect(finalResult?.status).toBe("success")
+			expect(await fs.readFile(filePath, "utf-8")).toBe("second")
+		})
+	})
 })
@@ -0,0 +1,620 @@
+import { tool } from "ai"
+import { createTwoFilesPatch } from "diff"
+import { promises as fs } from "fs"
+import * as path from "path"
+import { z } from "zod"
+import {
+	type Permission,
+	PermissionDeniedError,
+} from "@/agents/lib/permissions"
+import { checkPathPermission, type Sandbox } from "@/agents/lib/sandbox"
+import {
+	BlockAnchorReplacer,
+	IndentationFlexibleReplacer,
+	LineTrimmedReplacer,
+	type Replacer,
+	SimpleReplacer,
+} from "@/tools/edit"
+import type { CheckpointStorage } from "@/tools/lib/checkpoints"
+import type { FileTracker } from "@/tools/lib/file-tracker"
+import { toolOutput } from "@/tools/lib/tool-output"
+import { trimDiff } from "@/tools/lib/trim-diff"
+
+// ============================================================================
+// Patch Parsing
+// ============================================================================
+
+export interface PatchHunk {
+	/** The `@@ ... @@` line */
+	header: string
+	/** Line the hunk starts at in the old file, undefined if it isn't given */
+	oldStart?: number
+	/** Hunk lines, each starting with " ", "-" or "+" */
+	lines: string[]
+}
+
+export interface FilePatch {
+	/** Path of the file before the patch, null when it's created */
+	oldPath: string | null
+	/** Path of the file after the patch, null when it's deleted */
+	newPath: string | null
+	hunks: PatchHunk[]
+}
+
+/**
+ * Normalize line endings to Unix style
+ */
+function normalizeLineEndings(text: string): string {
+	return text.replaceAll("\r\n", "\n")
+}
+
+function parseFileName(line: string, prefix: "a/" | "b/"): string | null {
+	// Drop the timestamp some diff tools add after a tab
+	const name = line.slice(4).split("\t")[0]!.trim()
+	if (name === "/dev/null") return null
+	return name.startsWith(prefix) ? name.slice(prefix.length) : name
+}
+
+/**
+ * Parse a unified diff with one or more files. Git headers are used for
+ * created, deleted and renamed files.
+ *
+ * The parser is lenient, because models often get the details wrong: hunk
+ * line counts are ignored, an empty line in a hunk is an empty context line,
+ * and lines that don't belong to a hunk end it.
+ */
+export function parsePatch(patch: string): FilePatch[] {
+	const lines = normalizeLineEndings(patch).split("\n")
+	const files: FilePatch[] = []
+	let file: FilePatch | null = null
+	let hunk: PatchHunk | null = null
+	// Whether the file was started by a git header, which the ---/+++ lines
+	// that follow belong to
+	let gitHeader = false
+	// Empty lines at the end of a hunk are usually separators, not context
+	let trailingEmptyLines = 0
+
+	const endHunk = () => {
+		if (hunk && trailingEmptyLines > 0) {
+			hunk.lines.splice(hunk.lines.length - trailingEmptyLines)
+		}
+		hunk = null
+		trailingEmptyLines = 0
+	}
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i]!
+
+		const gitMatch = line.match(/^diff --git a\/(.+) b\/(.+)$/)
+		if (gitMatch) {
+			endHunk()
+			file = { oldPath: gitMatch[1]!, newPath: gitMatch[2]!, hunks: [] }
+			files.push(file)
+			gitHeader = true
+			continue
+		}
+
+		if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+			endHunk()
+			const oldPath = parseFileName(line, "a/")
+			const newPath = parseFileName(lines[i + 1]!, "b/")
+			if (file && gitHeader) {
+				file.oldPath = oldPath
+				file.newPath = newPath
+			} else {
+				file = { oldPath, newPath, hunks: [] }
+				files.push(file)
+			}
+			gitHeader = false
+			i++
+			continue
+		}
+
+		const hunkMatch = line.match(/^@@(?: -(\d+)(?:,\d+)? \+\d+(?:,\d+)?)? @@/)
+		if (hunkMatch || line === "@@") {
+			endHunk()
+			gitHeader = false
+			if (!file) continue
+			hunk = {
+				header: line,
+				oldStart: hunkMatch?.[1] ? Number(hunkMatch[1]) : undefined,
+				lines: [],
+			}
+			file.hunks.push(hunk)
+			continue
+		}
+
+		if (hunk) {
+			if (line === "") {
+				hunk.lines.push(" ")
+				trailingEmptyLines++
+				continue
+			}
+			if (
+				line.startsWith(" ") ||
+				line.startsWith("-") ||
+				line.startsWith("+")
+			) {
+				hunk.lines.push(line)
+				trailingEmptyLines = 0
+				continue
+			}
+			// "\ No newline at end of file" is ignored, files keep their ending
+			if (line.startsWith("\\")) continue
+			endHunk()
+		}
+
+		if (file && gitHeader) {
+			if (line.startsWith("new file mode")) file.oldPath = null
+			else if (line.startsWith("deleted file mode")) file.newPath = null
+			else if (line.startsWith("rename from ")) {
+				file.oldPath = line.slice("rename from ".length)
+			} else if (line.startsWith("rename to ")) {
+				file.newPath = line.slice("rename to ".length)
+			}
+		}
+	}
+	endHunk()
+
+	return files
+}
+
+// ============================================================================
+// Hunk Application
+// ============================================================================
+
+// Strategies from the edit tool that match whole lines, most exact first.
+// BlockAnchorReplacer lets the middle of a hunk differ from the file, when its
+// first and last lines match.
+const HUNK_REPLACERS: Replacer[] = [
+	SimpleReplacer,
+	LineTrimmedReplacer,
+	IndentationFlexibleReplacer,
+	BlockAnchorReplacer,
+]
+
+export interface HunkFailure {
+	/** 1-based hunk number in the file's patch */
+	hunk: number
+	header: string
+	reason: string
+}
+
+interface LineMatch {
+	start: number
+	count: number
+}
+
+function splitLines(content: string): string[] {
+	if (content === "") return []
+	return (content.endsWith("\n") ? content.slice(0, -1) : content).split("\n")
+}
+
+/**
+ * Find the places where a block of lines matches the file, trying the
+ * replacers in order and stopping at the first one that finds any.
+ */
+function findLineMatches(lines: string[], block: string[]): LineMatch[] {
+	const content = lines.join("\n")
+	const find = block.join("\n")
+
+	for (const replacer of HUNK_REPLACERS) {
+		const matches: LineMatch[] = []
+
+		for (const candidate of replacer(content, find)) {
+			let index = content.indexOf(candidate)
+			while (index !== -1) {
+				const end = index + candidate.length
+				// Only matches of whole lines can be replaced by the hunk
+				const atLineStart = index === 0 || content[index - 1] === "\n"
+				const atLineEnd = end === content.length || content[end] === "\n"
+				if (atLineStart && atLineEnd) {
+					const start = content.slice(0, index).split("\n").length - 1
+					const count = candidate.split("\n").length
+					if (!matches.some((match) => match.start === start)) {
+						matches.push({ start, count })
+					}
+				}
+				index = content.indexOf(candidate, index + 1)
+			}
+		}
+
+		if (matches.length > 0) return matches
+	}
+
+	return []
+}
+
+/**
+ * Apply the hunks of one file to its content. A hunk doesn't have to match
+ * the file exactly: its lines are found with the edit tool's fuzzy matching,
+ * and the match nearest to the line given in the hunk header is used. Hunks
+ * that can't be applied are returned as failures, the others are applied.
+ */
+export function applyHunks(
+	content: string,
+	hunks: PatchHunk[],
+): { content: string; failures: HunkFailure[] } {
+	const normalized = normalizeLineEndings(content)
+	const lines = splitLines(normalized)
+	// Keep a missing newline at the end of the file, new files get one
+	const trailingNewline = normalized === "" || normalized.endsWith("\n")
+	const failures: HunkFailure[] = []
+	// How far the file has moved from the hunk headers, by earlier hunks and
+	// by headers that are off
+	let offset = 0
+	// Hunks are in file order, so a hunk can't match before the previous one
+	let minStart = 0
+
+	for (const [index, hunk] of hunks.entries()) {
+		const oldLines: string[] = []
+		const newLines: string[] = []
+		for (const line of hunk.lines) {
+			if (!line.startsWith("+")) oldLines.push(line.slice(1))
+			if (!line.startsWith("-")) newLines.push(line.slice(1))
+		}
+
+		const expected = Math.max(
+			minStart,
+			hunk.oldStart === undefined
+				? minStart
+				: // A pure insertion's header gives the line it comes after
+					hunk.oldStart - (oldLines.length === 0 ? 0 : 1) + offset,
+		)
+
+		let match: LineMatch | undefined
+		if (oldLines.length === 0) {
+			match = { start: Math.min(expected, lines.length), count: 0 }
+		} else {
+			match = findLineMatches(lines, oldLines)
+				.filter((candidate) => candidate.start >= minStart)
+				.sort(
+					(a, b) => Math.abs(a.start - expected) - Math.abs(b.start - expected),
+				)[0]
+		}
+
+		if (!match) {
+			const preview = oldLines.slice(0, 3).join("\n")
+			failures.push({
+				hunk: index + 1,
+				header: hunk.header,
+				reason: `Could not find the lines to change:\n${preview}`,
+			})
+			continue
+		}
+
+		lines.splice(match.start, match.count, ...newLines)
+		if (hunk.oldStart !== undefined) offset += match.start - expected
+		offset += newLines.length - match.count
+		minStart = match.start + newLines.length
+	}
+
+	return {
+		content:
+			lines.length > 0 ? lines.join("\n") + (trailingNewline ? "\n" : "") : "",
+		failures,
+	}
+}
+
+// ============================================================================
+// Tool
+// ============================================================================
+
+const description = `Applies a unified diff to one or more files, like \`git apply\`. Files can be updated, created, deleted and renamed.
+
+Usage:
+- Prefer this tool over the Edit tool for changes across several files, or for many changes in one file.
+- You must use your Read tool at least once in the conversation before changing a file. This tool will error if you attempt to change a file without reading it, or if the file changed since you read it.
+- Use the unified diff format, with "--- a/path" and "+++ b/path" lines for each file, and "@@ -line,count +line,count @@" before each hunk. Paths are relative to the working directory or absolute.
+- Include about 3 unchanged context lines around each change, with their exact content. The line numbers and counts don't have to be exact, hunks are found by their lines.
+- To create a file, use "--- /dev/null". To delete a file, use "+++ /dev/null". To rename a file, use a git diff header with "rename from" and "rename to" lines.
+- The patch is atomic: if any hunk fails, no files are changed and the error lists every failed hunk.`
+
+const inputSchema = z.object({
+	patch: z
+		.string()
+		.describe("The unified diff to apply, with one or more files"),
+})
+
+const fileChangeSchema = z.object({
+	filePath: z.string(),
+	action: z.enum(["created", "updated", "deleted", "renamed"]),
+})
+
+const outputSchema = toolOutput({
+	pending: {
+		result: z.undefined(),
+	},
+	success: {
+		result: z.string(),
+		diff: z.string(),
+		files: z.array(fileChangeSchema),
+	},
+	error: {},
+})
+
+interface FileChange {
+	action: z.infer<typeof fileChangeSchema>["action"]
+	oldPath: string | null
+	newPath: string | null
+	before: string
+	after: string
+}
+
+function resolvePath(filePath: string) {
+	return path.isAbsolute(filePath)
+		? filePath
+		: path.join(process.cwd(), filePath)
+}
+
+/**
+ * Get the absolute paths a patch touches, for checking permissions.
+ */
+function getPatchPaths(files: FilePatch[]) {
+	const paths = new Set<string>()
+	for (const file of files) {
+		if (file.oldPath) paths.add(resolvePath(file.oldPath))
+		if (file.newPath) paths.add(resolvePath(file.newPath))
+	}
+	return [...paths]
+}
+
+async function exists(filePath: string) {
+	try {
+		await fs.access(filePath)
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Create an apply-patch tool with custom permission patterns. Every file the
+ * patch touches, including both paths of a rename, is checked against the
+ * patterns: a denied file rejects the whole patch, and the patch needs
+ * approval if any file does.
+ *
+ * @param permissions - File path pattern to permission mapping, or a single
+ * permission for all files, the same as for the edit tool. By default requires
+ * approval for all patches.
+ * @param sandbox - Directories patches are limited to. Changes outside them
+ * need approval or are denied, see `checkPathPermission`.
+ * @param checkpoints - Snapshots files before the patch changes them, so the
+ * patch can be undone.
+ * @param fileTracker - Files read in the session. Files can only be changed
+ * after they're read, and not when they changed on disk since.
+ *
+ * @example
+ * // Use the same permissions as the edit tool
+ * const applyPatch = createApplyPatchTool({ "*.ts": "allow", "*": "ask" })
+ */
+export function createApplyPatchTool(
+	permissions: Permission | Record<string, Permission> = "ask",
+	sandbox?: Sandbox,
+	checkpoints?: CheckpointStorage,
+	fileTracker?: FileTracker,
+) {
+	const permissionPatterns =
+		typeof permissions === "string" ? { "*": permissions } : permissions
+
+	return tool({
+		description,
+		inputSchema,
+		outputSchema,
+		needsApproval: ({ patch }) => {
+			let needsApproval = false
+
+			for (const filepath of getPatchPaths(parsePatch(patch))) {
+				const permission = checkPathPermission(
+					filepath,
+					permissionPatterns,
+					sandbox,
+				)
+
+				if (permission === "deny") {
+					throw new PermissionDeniedError("edit", filepath)
+				}
+				if (permission === "ask") needsApproval = true
+			}
+
+			// Return true if approval needed (ask), false if auto-allowed
+			return needsApproval
+		},
+		toModelOutput: (output) => {
+			if (output.status === "error") {
+				return {
+					type: "error-text",
+					value: `Error applying patch: ${output.error}`,
+				}
+			}
+			if (output.status === "success") {
+				return { type: "text", value: output.result }
+			}
+			throw new Error("Invalid output status in toModelOutput")
+		},
+		async *execute({ patch }) {
+			yield {
+				status: "pending",
+				message: "Applying patch",
+				result: undefined,
+			}
+
+			try {
+				const files = parsePatch(patch)
+				if (files.length === 0) {
+					throw new Error(
+						'No file changes found in the patch. Use "--- a/path" and "+++ b/path" lines for each file.',
+					)
+				}
+
+				// Content of the files as the patch leaves them, so a file can
+				// appear more than once. null means the file is deleted.
+				const contents = new Map<string, string | null>()
+				const readCurrent = async (filepath: string) => {
+					if (contents.has(filepath)) return contents.get(filepath)!
+					if (!(await exists(filepath))) return null
+
+					const stats = await fs.stat(filepath)
+					if (stats.isDirectory()) {
+						throw new Error(`Path is a directory, not a file: ${filepath}`)
+					}
+					// Don't overwrite changes the agent hasn't seen
+					await fileTracker?.check(filepath)
+					return normalizeLineEndings(await fs.readFile(filepath, "utf-8"))
+				}
+
+				const fileExists = async (filepath: string) =>
+					contents.has(filepath)
+						? contents.get(filepath) !== null
+						: await exists(filepath)
+
+				const changes: FileChange[] = []
+				const errors: string[] = []
+
+				// Work out every change in memory first, so a failing hunk changes
+				// nothing
+				for (const file of files) {
+					const oldPath = file.oldPath && resolvePath(file.oldPath)
+					const newPath = file.newPath && resolvePath(file.newPath)
+					const name = file.newPath ?? file.oldPath
+
+					try {
+						if (!oldPath && !newPath) {
+							throw new Error("Missing file paths")
+						}
+
+						if (!oldPath) {
+							if (await fileExists(newPath!)) {
+								throw new Error(
+									"File already exists, use a patch that updates it instead",
+								)
+							}
+							const { content, failures } = applyHunks("", file.hunks)
+							if (failures.length > 0) {
+								throw new Error("Hunks of a new file can only add lines")
+							}
+							contents.set(newPath!, content)
+							changes.push({
+								action: "created",
+								oldPath: null,
+								newPath,
+								before: "",
+								after: content,
+							})
+							continue
+						}
+
+						const before = await readCurrent(oldPath)
+						if (before === null) {
+							throw new Error("File not found")
+						}
+
+						if (!newPath) {
+							contents.set(oldPath, null)
+							changes.push({
+								action: "deleted",
+								oldPath,
+								newPath: null,
+								before,
+								after: "",
+							})
+							continue
+						}
+
+						if (newPath !== oldPath && (await fileExists(newPath))) {
+							throw new Error(`Can't rename, ${file.newPath} already exists`)
+						}
+
+						const { content, failures } = applyHunks(before, file.hunks)
+						for (const failure of failures) {
+							errors.push(
+								`- ${name}, hunk ${failure.hunk} (${failure.header}): ${failure.reason}`,
+							)
+						}
+						if (failures.length > 0) continue
+
+						if (newPath !== oldPath) contents.set(oldPath, null)
+						contents.set(newPath, content)
+						changes.push({
+							action: newPath === oldPath ? "updated" : "renamed",
+							oldPath,
+							newPath,
+							before,
+							after: content,
+						})
+					} catch (error) {
+						const reason =
+							error instanceof Error ? error.message : String(error)
+						errors.push(`- ${name}: ${reason}`)
+					}
+				}
+
+				if (errors.length > 0) {
+					throw new Error(
+						`Patch failed, no files were changed:\n${errors.join("\n")}\nRead the files again and fix the failed hunks, or use the edit tool.`,
+					)
+				}
+
+				for (const change of changes) {
+					if (change.oldPath) await checkpoints?.snapshot(change.oldPath)
+					if (change.newPath && change.newPath !== change.oldPath) {
+						await checkpoints?.snapshot(change.newPath)
+					}
+				}
+
+				for (const change of changes) {
+					if (change.newPath) {
+						await fs.mkdir(path.dirname(change.newPath), { recursive: true })
+						await fs.writeFile(change.newPath, change.after, "utf-8")
+						await fileTracker?.record(change.newPath)
+					}
+					if (change.oldPath && change.oldPath !== change.newPath) {
+						await fs.rm(change.oldPath, { force: true })
+					}
+				}
+
+				const summary = changes.map((change) =>
+					change.action === "renamed"
+						? `Renamed: ${change.oldPath} -> ${change.newPath}`
+						: `${change.action[0]!.toUpperCase()}${change.action.slice(1)}: ${change.newPath ?? change.oldPath}`,
+				)
+				const message = `Patch applied to ${changes.length} ${changes.length === 1 ? "file" : "files"}`
+				const diff = changes
+					.map((change) =>
+						trimDiff(
+							createTwoFilesPatch(
+								change.oldPath ?? "/dev/null",
+								change.newPath ?? "/dev/null",
+								change.before,
+								change.after,
+							),
+						),
+					)
+					.join("\n")
+
+				yield {
+					status: "success",
+					message,
+					result: `${message}:\n${summary.join("\n")}`,
+					diff,
+					files: changes.map((change) => ({
+						filePath: (change.newPath ?? change.oldPath)!,
+						action: change.action,
+					})),
+				}
+			} catch (error) {
+				yield {
+					status: "error",
+					message: "Failed to apply patch",
+					error: error instanceof Error ? error.message : String(error),
+				}
+			}
+		},
+	})
+}
+
+/**
+ * Default apply-patch tool with standard permissions.
+ * All patches require approval by default.
+ */
+export const applyPatchTool = createApplyPatchTool()
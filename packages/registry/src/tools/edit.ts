@@ -4,10 +4,12 @@ import { promises as fs } from "fs"
 import * as path from "path"
 import { z } from "zod"
 import {
-	checkPermission,
 	type Permission,
 	PermissionDeniedError,
 } from "@/agents/lib/permissions"
+import { checkPathPermission, type Sandbox } from "@/agents/lib/sandbox"
+import type { CheckpointStorage } from "@/tools/lib/checkpoints"
+import type { FileTracker } from "@/tools/lib/file-tracker"
 import { toolOutput } from "@/tools/lib/tool-output"
 import { trimDiff } from "@/tools/lib/trim-diff"
 
@@ -557,7 +559,7 @@ function normalizeLineEndings(text: string): string {
 const description = `Performs string replacements in files with fuzzy matching.
 
 Usage:
-- You must use your Read tool at least once in the conversation before editing. This tool will error if you attempt an edit without reading the file.
+- You must use your Read tool at least once in the conversation before editing. This tool will error if you attempt an edit without reading the file, or if the file changed since you read it.
 - When editing text from Read tool output, ensure you preserve the exact indentation (tabs/spaces) as it appears AFTER the line number prefix. The line number prefix format is: spaces + line number + tab. Everything after that tab is the actual file content to match. Never include any part of the line number prefix in the oldString or newString.
 - ALWAYS prefer editing existing files in the codebase. NEVER write new files unless explicitly required.
 - Only use emojis if the user explicitly requests it. Avoid adding emojis to files unless asked.
@@ -608,6 +610,12 @@ const outputSchema = toolOutput({
  * @param permissions - File path pattern to permission mapping, or a single
  * permission for all files. Patterns support wildcards (*) for matching. By
  * default requires approval for all edits.
+ * @param sandbox - Directories edits are limited to. Edits outside them need
+ * approval or are denied, see `checkPathPermission`.
+ * @param checkpoints - Snapshots files before they're edited, so the edits
+ * can be undone.
+ * @param fileTracker - Files read in the session. Files can only be edited
+ * after they're read, and not when they changed on disk since.
  *
  * @example
  * // Allow editing all .ts files without approval
@@ -623,6 +631,9 @@ const outputSchema = toolOutput({
  */
 export function createEditTool(
 	permissions: Permission | Record<string, Permission> = "ask",
+	sandbox?: Sandbox,
+	checkpoints?: CheckpointStorage,
+	fileTracker?: FileTracker,
 ) {
 	const permissionPatterns =
 		typeof permissions === "string" ? { "*": permissions } : permissions
@@ -636,7 +647,11 @@ export function createEditTool(
 				? filePath
 				: path.join(process.cwd(), filePath)
 
-			const permission = checkPermission(filepath, permissionPatterns)
+			const permission = checkPathPermission(
+				filepath,
+				permissionPatterns,
+				sandbox,
+			)
 
 			if (permission === "deny") {
 				throw new PermissionDeniedError("edit", filepath)
@@ -685,12 +700,17 @@ export function createEditTool(
 					throw new Error(`Path is a directory, not a file: ${filepath}`)
 				}
 
+				// Don't overwrite changes the agent hasn't seen
+				await fileTracker?.check(filepath)
+
 				const contentRaw = await fs.readFile(filepath, "utf-8")
 				const content = normalizeLineEndings(contentRaw)
 
 				// Handle empty oldString as creating/overwriting file
 				if (oldString === "") {
+					await checkpoints?.snapshot(filepath)
 					await fs.writeFile(filepath, newString, "utf-8")
+					await fileTracker?.record(filepath)
 					const diff = trimDiff(
 						createTwoFilesPatch(filepath, filepath, content, newString),
 					)
@@ -707,7 +727,9 @@ export function createEditTool(
 				// Use the replace function with all strategies
 				const result = replace(content, oldString, newString, replaceAll)
 
+				await checkpoints?.snapshot(filepath)
 				await fs.writeFile(filepath, result, "utf-8")
+				await fileTracker?.record(filepath)
 
 				const message = `File edited: ${filepath}`
 				const diff = trimDiff(
@@ -2,6 +2,15 @@ import { tool } from "ai"
 import { promises as fs } from "fs"
 import * as path from "path"
 import { z } from "zod"
+import {
+	type Permission,
+	PermissionDeniedError,
+} from "@/agents/lib/permissions"
+import {
+	checkPathPermission,
+	isPathInSandbox,
+	type Sandbox,
+} from "@/agents/lib/sandbox"
 import * as ripgrep from "@/tools/lib/ripgrep"
 import { toolOutput } from "@/tools/lib/tool-output"
 
@@ -19,6 +28,8 @@ async function globFiles(
 	searchPath: string,
 	pattern: string,
 	limit: number,
+	permissions: Record<string, Permission>,
+	sandbox?: Sandbox,
 ): Promise<FileWithMtime[]> {
 	const files: FileWithMtime[] = []
 
@@ -28,6 +39,10 @@ async function globFiles(
 	})) {
 		const fullPath = path.resolve(searchPath, file)
 
+		// ripgrep follows symlinks, skip the ones that lead out of the sandbox
+		if (sandbox && !isPathInSandbox(sandbox, fullPath)) continue
+		if (checkPathPermission(fullPath, permissions) === "deny") continue
+
 		// Get modification time for sorting
 		let mtime = 0
 		try {
@@ -54,98 +69,146 @@ Usage:
 - Supports full glob syntax: **, {a,b}, [abc]
 - Useful for finding files by name or extension`
 
-export const globTool = tool({
-	description,
-	inputSchema: z.object({
-		pattern: z.string().describe("The glob pattern to match files against"),
-		path: z
-			.string()
-			.optional()
-			.describe(
-				"The directory to search in. Defaults to the current working directory.",
-			),
-	}),
-	outputSchema: toolOutput({
-		pending: {
-			pattern: z.string(),
-			searchPath: z.string(),
-			result: z.undefined(),
-		},
-		success: {
-			pattern: z.string(),
-			searchPath: z.string(),
-			result: z.string(),
-			fileCount: z.number(),
-		},
-		error: {
-			pattern: z.string(),
-			searchPath: z.string(),
-		},
-	}),
-	toModelOutput: (output) => {
-		if (output.status === "error") {
-			return {
-				type: "error-text",
-				value: `Error searching for "${output.pattern}" in ${output.searchPath}: ${output.error}`,
+/**
+ * Create a glob tool with custom permission patterns.
+ *
+ * @param permissions - File path pattern to permission mapping, or a single
+ * permission for all files, like the read tool's. Searching a denied
+ * directory fails and denied files are left out. By default everything can be
+ * searched.
+ * @param sandbox - Directories the tool can search. Searching others needs
+ * approval or is denied, and files reached through symlinks that lead out of
+ * the sandbox are skipped.
+ */
+export function createGlobTool(
+	permissions: Permission | Record<string, Permission> = "allow",
+	sandbox?: Sandbox,
+) {
+	const permissionPatterns =
+		typeof permissions === "string" ? { "*": permissions } : permissions
+
+	return tool({
+		description,
+		inputSchema: z.object({
+			pattern: z.string().describe("The glob pattern to match files against"),
+			path: z
+				.string()
+				.optional()
+				.describe(
+					"The directory to search in. Defaults to the current working directory.",
+				),
+		}),
+		outputSchema: toolOutput({
+			pending: {
+				pattern: z.string(),
+				searchPath: z.string(),
+				result: z.undefined(),
+			},
+			success: {
+				pattern: z.string(),
+				searchPath: z.string(),
+				result: z.string(),
+				fileCount: z.number(),
+			},
+			error: {
+				pattern: z.string(),
+				searchPath: z.string(),
+			},
+		}),
+		needsApproval: ({ path: searchPath = "." }) => {
+			const resolvedPath = path.resolve(process.cwd(), searchPath)
+			const permission = checkPathPermission(
+				resolvedPath,
+				permissionPatterns,
+				sandbox,
+			)
+
+			if (permission === "deny") {
+				throw new PermissionDeniedError("glob", resolvedPath)
 			}
-		}
-		if (output.status === "success") {
-			return { type: "text", value: output.result }
-		}
-		throw new Error("Invalid output status in toModelOutput")
-	},
-	async *execute({ pattern, path: searchPath = "." }) {
-		const cwd = path.resolve(process.cwd(), searchPath)
-
-		yield {
-			status: "pending",
-			message: `Searching for files matching: ${pattern}`,
-			pattern,
-			searchPath: cwd,
-			result: undefined,
-		}
 
-		try {
-			// Verify directory exists
-			try {
-				await fs.access(cwd)
-			} catch {
-				throw new Error(`Directory not found: ${cwd}`)
+			// Return true if approval needed (ask), false if auto-allowed
+			return permission === "ask"
+		},
+		toModelOutput: (output) => {
+			if (output.status === "error") {
+				return {
+					type: "error-text",
+					value: `Error searching for "${output.pattern}" in ${output.searchPath}: ${output.error}`,
+				}
 			}
-
-			const files = await globFiles(cwd, pattern, LIMIT)
-
-			// Sort by modification time (most recent first)
-			files.sort((a, b) => b.mtime - a.mtime)
-
-			const truncated = files.length >= LIMIT
-			const output =
-				files.length === 0
-					? "No files found"
-					: files.map((f) => f.path).join("\n")
-
-			const result =
-				output +
-				(truncated
-					? "\n\n(Results are truncated. Consider using a more specific path or pattern.)"
-					: "")
+			if (output.status === "success") {
+				return { type: "text", value: output.result }
+			}
+			throw new Error("Invalid output status in toModelOutput")
+		},
+		async *execute({ pattern, path: searchPath = "." }) {
+			const cwd = path.resolve(process.cwd(), searchPath)
 
 			yield {
-				status: "success",
-				message: `Found ${files.length} files matching pattern: ${pattern}`,
+				status: "pending",
+				message: `Searching for files matching: ${pattern}`,
 				pattern,
 				searchPath: cwd,
-				result,
-				fileCount: files.length,
+				result: undefined,
 			}
-		} catch (error) {
-			yield {
-				status: "error",
-				message: `Failed to search for ${pattern} in ${cwd}`,
-				pattern,
-				searchPath: cwd,
-				error: error instanceof Error ? error.message : String(error),
+
+			try {
+				// Verify directory exists
+				try {
+					await fs.access(cwd)
+				} catch {
+					throw new Error(`Directory not found: ${cwd}`)
+				}
+
+				// Searches outside the sandbox were approved, only filter inside it
+				const searchSandbox =
+					sandbox && isPathInSandbox(sandbox, cwd) ? sandbox : undefined
+				const files = await globFiles(
+					cwd,
+					pattern,
+					LIMIT,
+					permissionPatterns,
+					searchSandbox,
+				)
+
+				// Sort by modification time (most recent first)
+				files.sort((a, b) => b.mtime - a.mtime)
+
+				const truncated = files.length >= LIMIT
+				const output =
+					files.length === 0
+						? "No files found"
+						: files.map((f) => f.path).join("\n")
+
+				const result =
+					output +
+					(truncated
+						? "\n\n(Results are truncated. Consider using a more specific path or pattern.)"
+						: "")
+
+				yield {
+					status: "success",
+					message: `Found ${files.length} files matching pattern: ${pattern}`,
+					pattern,
+					searchPath: cwd,
+					result,
+					fileCount: files.length,
+				}
+			} catch (error) {
+				yield {
+					status: "error",
+					message: `Failed to search for ${pattern} in ${cwd}`,
+					pattern,
+					searchPath: cwd,
+					error: error instanceof Error ? error.message : String(error),
+				}
 			}
-		}
-	},
-})
+		},
+	})
+}
+
+/**
+ * Default glob tool without a sandbox.
+ */
+export const globTool = createGlobTool()
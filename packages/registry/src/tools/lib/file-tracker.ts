@@ -0,0 +1,85 @@
+import { createHash } from "crypto"
+import { promises as fs } from "fs"
+import * as path from "path"
+
+interface FileState {
+	mtimeMs: number
+	hash: string
+}
+
+/**
+ * Tracks the files an agent has read in a session, so the write and edit
+ * tools only change files the agent has seen, as they are now.
+ */
+export interface FileTracker {
+	/** Remember the file's current state, after reading or changing it */
+	record: (filePath: string) => Promise<void>
+	/**
+	 * Throw if the file exists and wasn't read, or changed on disk since it was
+	 * last read, e.g. by the user's editor or a bash command. Files that don't
+	 * exist yet pass.
+	 */
+	check: (filePath: string) => Promise<void>
+}
+
+function hashContent(content: Buffer) {
+	return createHash("sha256").update(content).digest("hex")
+}
+
+/**
+ * Create a file tracker for one session. Pass the same tracker to the read,
+ * write and edit tools of an agent.
+ *
+ * @example
+ * const files = createFileTracker()
+ * const tools = {
+ *   read: createReadTool("allow", sandbox, files),
+ *   write: createWriteTool("ask", sandbox, undefined, files),
+ * }
+ */
+export function createFileTracker(): FileTracker {
+	const states = new Map<string, FileState>()
+
+	return {
+		async record(filePath) {
+			const filepath = path.resolve(filePath)
+			const [stats, content] = await Promise.all([
+				fs.stat(filepath),
+				fs.readFile(filepath),
+			])
+			states.set(filepath, {
+				mtimeMs: stats.mtimeMs,
+				hash: hashContent(content),
+			})
+		},
+		async check(filePath) {
+			const filepath = path.resolve(filePath)
+
+			let stats: Awaited<ReturnType<typeof fs.stat>>
+			try {
+				stats = await fs.stat(filepath)
+			} catch {
+				// New files can be written without reading them
+				return
+			}
+
+			const state = states.get(filepath)
+			if (!state) {
+				throw new Error(
+					`File has not been read yet: ${filepath}\nUse the read tool to read it first, then try again.`,
+				)
+			}
+
+			if (stats.mtimeMs === state.mtimeMs) return
+
+			// Saving without changes, or touching the file, only changes mtime
+			const hash = hashContent(await fs.readFile(filepath))
+			if (hash !== state.hash) {
+				throw new Error(
+					`File has been modified since it was last read: ${filepath}\nIt may have been changed by the user or another tool. Read it again and make your change to its current content, keeping the other changes.`,
+				)
+			}
+			state.mtimeMs = stats.mtimeMs
+		},
+	}
+}
@@ -0,0 +1,224 @@
+import { tool } from "ai"
+import { createTwoFilesPatch } from "diff"
+import { promises as fs } from "fs"
+import * as path from "path"
+import { z } from "zod"
+import {
+	type Permission,
+	PermissionDeniedError,
+} from "@/agents/lib/permissions"
+import { checkPathPermission, type Sandbox } from "@/agents/lib/sandbox"
+import { replace } from "@/tools/edit"
+import type { CheckpointStorage } from "@/tools/lib/checkpoints"
+import type { FileTracker } from "@/tools/lib/file-tracker"
+import { toolOutput } from "@/tools/lib/tool-output"
+import { trimDiff } from "@/tools/lib/trim-diff"
+
+/**
+ * Normalize line endings to Unix style
+ */
+function normalizeLineEndings(text: string): string {
+	return text.replaceAll("\r\n", "\n")
+}
+
+const description = `Performs multiple string replacements in one file at once, with the same fuzzy matching as the Edit tool.
+
+Usage:
+- Prefer this tool over the Edit tool when you need to make several changes to the same file, like refactors and renames.
+- You must use your Read tool at least once in the conversation before editing. This tool will error if you attempt an edit without reading the file, or if the file changed since you read it.
+- Edits are applied in order, each one to the result of the previous one. Make sure an earlier edit doesn't change the text a later edit is looking for.
+- The edits are atomic: if any edit fails, none of them are applied and the error says which one failed.
+- Each edit follows the rules of the Edit tool: oldString must match the file exactly once unless replaceAll is set, and oldString and newString must be different.
+- When editing text from Read tool output, ensure you preserve the exact indentation (tabs/spaces) as it appears AFTER the line number prefix. Never include any part of the line number prefix in oldString or newString.
+- To create a file, use the Write tool instead.`
+
+const inputSchema = z.object({
+	filePath: z.string().describe("The absolute path to the file to modify"),
+	edits: z
+		.array(
+			z.object({
+				oldString: z.string().describe("The text to replace"),
+				newString: z
+					.string()
+					.describe(
+						"The text to replace it with (must be different from oldString)",
+					),
+				replaceAll: z
+					.boolean()
+					.optional()
+					.describe("Replace all occurrences of oldString (default false)"),
+			}),
+		)
+		.min(1)
+		.describe(
+			"Edits to apply in order, each to the result of the previous one",
+		),
+})
+
+const outputSchema = toolOutput({
+	pending: {
+		filePath: z.string(),
+		result: z.undefined(),
+	},
+	success: {
+		filePath: z.string(),
+		result: z.string(),
+		diff: z.string(),
+		editCount: z.number(),
+	},
+	error: {
+		filePath: z.string(),
+	},
+})
+
+/**
+ * Create a multi-edit tool with custom permission patterns. It applies a list
+ * of edits to one file in memory and writes the file once, so the edits need
+ * one approval and produce one diff.
+ *
+ * @param permissions - File path pattern to permission mapping, or a single
+ * permission for all files, the same as for the edit tool. By default requires
+ * approval for all edits.
+ * @param sandbox - Directories edits are limited to. Edits outside them need
+ * approval or are denied, see `checkPathPermission`.
+ * @param checkpoints - Snapshots files before they're edited, so the edits
+ * can be undone.
+ * @param fileTracker - Files read in the session. Files can only be edited
+ * after they're read, and not when they changed on disk since.
+ *
+ * @example
+ * // Use the same permissions as the edit tool
+ * const multiEdit = createMultiEditTool({ "*.ts": "allow", "*": "ask" })
+ */
+export function createMultiEditTool(
+	permissions: Permission | Record<string, Permission> = "ask",
+	sandbox?: Sandbox,
+	checkpoints?: CheckpointStorage,
+	fileTracker?: FileTracker,
+) {
+	const permissionPatterns =
+		typeof permissions === "string" ? { "*": permissions } : permissions
+
+	return tool({
+		description,
+		inputSchema,
+		outputSchema,
+		needsApproval: ({ filePath }) => {
+			const filepath = path.isAbsolute(filePath)
+				? filePath
+				: path.join(process.cwd(), filePath)
+
+			const permission = checkPathPermission(
+				filepath,
+				permissionPatterns,
+				sandbox,
+			)
+
+			if (permission === "deny") {
+				throw new PermissionDeniedError("edit", filepath)
+			}
+
+			// Return true if approval needed (ask), false if auto-allowed
+			return permission === "ask"
+		},
+		toModelOutput: (output) => {
+			if (output.status === "error") {
+				return {
+					type: "error-text",
+					value: `Error editing ${output.filePath}: ${output.error}`,
+				}
+			}
+			if (output.status === "success") {
+				return { type: "text", value: "" }
+			}
+			throw new Error("Invalid output status in toModelOutput")
+		},
+		async *execute({ filePath, edits }) {
+			const filepath = path.isAbsolute(filePath)
+				? filePath
+				: path.join(process.cwd(), filePath)
+
+			yield {
+				status: "pending",
+				message: `Editing file: ${filepath}`,
+				filePath: filepath,
+				result: undefined,
+			}
+
+			try {
+				try {
+					await fs.access(filepath)
+				} catch {
+					throw new Error(`File ${filepath} not found`)
+				}
+
+				const stats = await fs.stat(filepath)
+				if (stats.isDirectory()) {
+					throw new Error(`Path is a directory, not a file: ${filepath}`)
+				}
+
+				// Don't overwrite changes the agent hasn't seen
+				await fileTracker?.check(filepath)
+
+				const content = normalizeLineEndings(
+					await fs.readFile(filepath, "utf-8"),
+				)
+
+				// Apply every edit in memory first, so a failing one changes nothing
+				let result = content
+				for (const [index, edit] of edits.entries()) {
+					try {
+						if (edit.oldString === "") {
+							throw new Error(
+								"oldString is empty, use the Write tool to replace the whole file",
+							)
+						}
+						result = replace(
+							result,
+							edit.oldString,
+							edit.newString,
+							edit.replaceAll,
+						)
+					} catch (error) {
+						const reason =
+							error instanceof Error ? error.message : String(error)
+						throw new Error(
+							`Edit ${index + 1} of ${edits.length} failed: ${reason}\nNo edits were applied.`,
+						)
+					}
+				}
+
+				await checkpoints?.snapshot(filepath)
+				await fs.writeFile(filepath, result, "utf-8")
+				await fileTracker?.record(filepath)
+
+				const message = `File edited: ${filepath} (${edits.length} ${edits.length === 1 ? "edit" : "edits"})`
+				const diff = trimDiff(
+					createTwoFilesPatch(filepath, filepath, content, result),
+				)
+
+				yield {
+					status: "success",
+					message,
+					filePath: filepath,
+					result: message,
+					diff,
+					editCount: edits.length,
+				}
+			} catch (error) {
+				yield {
+					status: "error",
+					message: `Failed to edit ${filepath}`,
+					filePath: filepath,
+					error: error instanceof Error ? error.message : String(error),
+				}
+			}
+		},
+	})
+}
+
+/**
+ * Default multi-edit tool with standard permissions.
+ * All file edits require approval by default.
+ */
+export const multiEditTool = createMultiEditTool()
@@ -2,6 +2,16 @@ import { tool } from "ai"
 import { promises as fs } from "fs"
 import * as path from "path"
 import { z } from "zod"
+import {
+	type Permission,
+	PermissionDeniedError,
+} from "@/agents/lib/permissions"
+import {
+	checkPathPermission,
+	resolveRealPath,
+	type Sandbox,
+} from "@/agents/lib/sandbox"
+import type { FileTracker } from "@/tools/lib/file-tracker"
 import { toolOutput } from "@/tools/lib/tool-output"
 
 const DEFAULT_READ_LIMIT = 2000
@@ -159,173 +169,230 @@ Usage:
 - Results are returned using cat -n format, with line numbers starting at 1
 - You have the capability to call multiple tools in a single response. It is always better to speculatively read multiple files as a batch that are potentially useful.
 - If you read a file that exists but has empty contents you will receive a system reminder warning in place of file contents.
+- Files outside the project may need approval or be blocked.
 - Sensitive files like .env are blocked for security (but .env.example, .env.sample are allowed).
 - Binary files cannot be read and will return an error.`
 
-export const readTool = tool({
-	description,
-	inputSchema: z.object({
-		filePath: z.string().describe("The path to the file to read"),
-		offset: z
-			.number()
-			.default(0)
-			.describe("The line number to start reading from (0-based)"),
-		limit: z
-			.number()
-			.default(DEFAULT_READ_LIMIT)
-			.describe("The number of lines to read (defaults to 2000)"),
-	}),
-	outputSchema: toolOutput({
-		pending: {
-			filePath: z.string(),
-			content: z.undefined(),
-		},
-		success: {
-			filePath: z.string(),
-			content: z.string(),
-			linesRead: z.number(),
-			totalLines: z.number(),
-			warning: z.string().optional(),
-		},
-		error: {
-			filePath: z.string(),
-		},
-	}),
-	toModelOutput: (output) => {
-		if (output.status === "error") {
-			return {
-				type: "error-text",
-				value: `Error reading ${output.filePath}: ${output.error}`,
-			}
-		}
-		if (output.status === "success") {
-			let result = output.content
+const inputSchema = z.object({
+	filePath: z.string().describe("The path to the file to read"),
+	offset: z
+		.number()
+		.default(0)
+		.describe("The line number to start reading from (0-based)"),
+	limit: z
+		.number()
+		.default(DEFAULT_READ_LIMIT)
+		.describe("The number of lines to read (defaults to 2000)"),
+})
 
-			// Add warning if present
-			if (output.warning) {
-				result = `⚠️ ${output.warning}\n\n${result}`
+const outputSchema = toolOutput({
+	pending: {
+		filePath: z.string(),
+		content: z.undefined(),
+	},
+	success: {
+		filePath: z.string(),
+		content: z.string(),
+		linesRead: z.number(),
+		totalLines: z.number(),
+		warning: z.string().optional(),
+	},
+	error: {
+		filePath: z.string(),
+	},
+})
+
+/**
+ * Create a read tool with custom permission patterns.
+ *
+ * @param permissions - File path pattern to permission mapping, or a single
+ * permission for all files. Patterns support wildcards (*) for matching. By
+ * default all reads are allowed.
+ * @param sandbox - Directories reads are limited to. Reads outside them need
+ * approval or are denied, see `checkPathPermission`.
+ * @param fileTracker - Records the files that are read, so the write and edit
+ * tools can check they were read first.
+ *
+ * @example
+ * // Ask before reading files outside the project
+ * const read = createReadTool({ "/path/to/project/*": "allow", "*": "ask" })
+ */
+export function createReadTool(
+	permissions: Permission | Record<string, Permission> = "allow",
+	sandbox?: Sandbox,
+	fileTracker?: FileTracker,
+) {
+	const permissionPatterns =
+		typeof permissions === "string" ? { "*": permissions } : permissions
+
+	return tool({
+		description,
+		inputSchema,
+		outputSchema,
+		needsApproval: ({ filePath }) => {
+			const filepath = path.isAbsolute(filePath)
+				? filePath
+				: path.join(process.cwd(), filePath)
+
+			const permission = checkPathPermission(
+				filepath,
+				permissionPatterns,
+				sandbox,
+			)
+
+			if (permission === "deny") {
+				throw new PermissionDeniedError("read", filepath)
 			}
 
-			return { type: "text", value: result }
-		}
-		throw new Error("Invalid output status in toModelOutput")
-	},
-	async *execute({ filePath, offset, limit }) {
-		let filepath = filePath
-		if (!path.isAbsolute(filepath)) {
-			filepath = path.join(process.cwd(), filepath)
-		}
+			// Return true if approval needed (ask), false if auto-allowed
+			return permission === "ask"
+		},
+		toModelOutput: (output) => {
+			if (output.status === "error") {
+				return {
+					type: "error-text",
+					value: `Error reading ${output.filePath}: ${output.error}`,
+				}
+			}
+			if (output.status === "success") {
+				let result = output.content
 
-		yield {
-			status: "pending",
-			message: `Reading file: ${filepath}`,
-			filePath: filepath,
-			content: undefined,
-		}
+				// Add warning if present
+				if (output.warning) {
+					result = `⚠️ ${output.warning}\n\n${result}`
+				}
 
-		try {
-			// Check for sensitive files
-			if (isSensitiveFile(filepath)) {
-				throw new Error(
-					`Cannot read sensitive file: ${filepath}\nFor security, .env files are blocked. Use .env.example or .env.sample instead.`,
-				)
+				return { type: "text", value: result }
+			}
+			throw new Error("Invalid output status in toModelOutput")
+		},
+		async *execute({ filePath, offset, limit }) {
+			let filepath = filePath
+			if (!path.isAbsolute(filepath)) {
+				filepath = path.join(process.cwd(), filepath)
 			}
 
-			// Check if reading outside working directory
-			const cwd = process.cwd()
-			let warning: string | undefined
-			if (!isPathWithin(cwd, filepath)) {
-				warning = `Reading file outside working directory: ${filepath}`
+			yield {
+				status: "pending",
+				message: `Reading file: ${filepath}`,
+				filePath: filepath,
+				content: undefined,
 			}
 
-			// Check if file exists
 			try {
-				await fs.access(filepath)
-			} catch {
-				const dir = path.dirname(filepath)
-				const base = path.basename(filepath)
+				// Check for sensitive files, also behind symlinks
+				if (
+					isSensitiveFile(filepath) ||
+					isSensitiveFile(resolveRealPath(filepath))
+				) {
+					throw new Error(
+						`Cannot read sensitive file: ${filepath}\nFor security, .env files are blocked. Use .env.example or .env.sample instead.`,
+					)
+				}
 
+				// Check if reading outside working directory
+				const cwd = process.cwd()
+				let warning: string | undefined
+				if (!isPathWithin(cwd, filepath)) {
+					warning = `Reading file outside working directory: ${filepath}`
+				}
+
+				// Check if file exists
 				try {
-					const dirEntries = await fs.readdir(dir)
-					const suggestions = dirEntries
-						.filter(
-							(entry) =>
-								entry.toLowerCase().includes(base.toLowerCase()) ||
-								base.toLowerCase().includes(entry.toLowerCase()),
-						)
-						.map((entry) => path.join(dir, entry))
-						.slice(0, 3)
-
-					if (suggestions.length > 0) {
-						throw new Error(
-							`File not found: ${filepath}\n\nDid you mean one of these?\n${suggestions.join("\n")}`,
-						)
+					await fs.access(filepath)
+				} catch {
+					const dir = path.dirname(filepath)
+					const base = path.basename(filepath)
+
+					try {
+						const dirEntries = await fs.readdir(dir)
+						const suggestions = dirEntries
+							.filter(
+								(entry) =>
+									entry.toLowerCase().includes(base.toLowerCase()) ||
+									base.toLowerCase().includes(entry.toLowerCase()),
+							)
+							.map((entry) => path.join(dir, entry))
+							.slice(0, 3)
+
+						if (suggestions.length > 0) {
+							throw new Error(
+								`File not found: ${filepath}\n\nDid you mean one of these?\n${suggestions.join("\n")}`,
+							)
+						}
+					} catch (e) {
+						// Directory doesn't exist or can't be read - rethrow if it's our suggestion error
+						if (e instanceof Error && e.message.includes("Did you mean")) {
+							throw e
+						}
 					}
-				} catch (e) {
-					// Directory doesn't exist or can't be read - rethrow if it's our suggestion error
-					if (e instanceof Error && e.message.includes("Did you mean")) {
-						throw e
-					}
-				}
 
-				throw new Error(`File not found: ${filepath}`)
-			}
+					throw new Error(`File not found: ${filepath}`)
+				}
 
-			// Check if it's a directory
-			const stats = await fs.stat(filepath)
-			if (stats.isDirectory()) {
-				throw new Error(`Path is a directory, not a file: ${filepath}`)
-			}
+				// Check if it's a directory
+				const stats = await fs.stat(filepath)
+				if (stats.isDirectory()) {
+					throw new Error(`Path is a directory, not a file: ${filepath}`)
+				}
 
-			// Check if file is binary
-			if (await isBinaryFile(filepath)) {
-				throw new Error(`Cannot read binary file: ${filepath}`)
-			}
+				// Check if file is binary
+				if (await isBinaryFile(filepath)) {
+					throw new Error(`Cannot read binary file: ${filepath}`)
+				}
 
-			// Read and process the file
-			const content = await fs.readFile(filepath, "utf-8")
-			const lines = content.split("\n")
-			const totalLines = lines.length
+				// Read and process the file
+				const content = await fs.readFile(filepath, "utf-8")
+				await fileTracker?.record(filepath)
+				const lines = content.split("\n")
+				const totalLines = lines.length
 
-			const raw = lines.slice(offset, offset + limit).map((line) => {
-				return line.length > MAX_LINE_LENGTH
-					? `${line.substring(0, MAX_LINE_LENGTH)}...`
-					: line
-			})
+				const raw = lines.slice(offset, offset + limit).map((line) => {
+					return line.length > MAX_LINE_LENGTH
+						? `${line.substring(0, MAX_LINE_LENGTH)}...`
+						: line
+				})
 
-			const formattedLines = raw.map((line, index) => {
-				return `${(index + offset + 1).toString().padStart(5, "0")}| ${line}`
-			})
+				const formattedLines = raw.map((line, index) => {
+					return `${(index + offset + 1).toString().padStart(5, "0")}| ${line}`
+				})
 
-			let output = "<file>\n"
-			output += formattedLines.join("\n")
+				let output = "<file>\n"
+				output += formattedLines.join("\n")
 
-			const lastReadLine = offset + formattedLines.length
-			const hasMoreLines = totalLines > lastReadLine
+				const lastReadLine = offset + formattedLines.length
+				const hasMoreLines = totalLines > lastReadLine
 
-			if (hasMoreLines) {
-				output += `\n\n(File has more lines. Use 'offset' parameter to read beyond line ${lastReadLine})`
-			} else {
-				output += `\n\n(End of file - total ${totalLines} lines)`
+				if (hasMoreLines) {
+					output += `\n\n(File has more lines. Use 'offset' parameter to read beyond line ${lastReadLine})`
+				} else {
+					output += `\n\n(End of file - total ${totalLines} lines)`
+				}
+				output += "\n</file>"
+
+				yield {
+					status: "success",
+					message: `Successfully read ${formattedLines.length} lines from ${filepath}`,
+					filePath: filepath,
+					content: output,
+					linesRead: formattedLines.length,
+					totalLines,
+					warning,
+				}
+			} catch (error) {
+				yield {
+					status: "error",
+					message: `Failed to read ${filepath}`,
+					filePath: filepath,
+					error: error instanceof Error ? error.message : String(error),
+				}
 			}
-			output += "\n</file>"
+		},
+	})
+}
 
-			yield {
-				status: "success",
-				message: `Successfully read ${formattedLines.length} lines from ${filepath}`,
-				filePath: filepath,
-				content: output,
-				linesRead: formattedLines.length,
-				totalLines,
-				warning,
-			}
-		} catch (error) {
-			yield {
-				status: "error",
-				message: `Failed to read ${filepath}`,
-				filePath: filepath,
-				error: error instanceof Error ? error.message : String(error),
-			}
-		}
-	},
-})
+/**
+ * Default read tool with standard permissions.
+ * All file reads are allowed.
+ */
+export const readTool = createReadTool()
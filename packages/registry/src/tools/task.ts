@@ -0,0 +1,222 @@
+import { type Agent, type ModelMessage, tool } from "ai"
+import { z } from "zod"
+import { toolOutput } from "@/tools/lib/tool-output"
+
+// Sub-agents stop when a tool needs approval. Their calls are denied and they
+// continue, up to this many times.
+const MAX_APPROVAL_ROUNDS = 5
+
+const APPROVAL_DENIED_REASON =
+	"Sub-agents can't ask the user for approval. Use tools that don't need it, or say what you need in your report."
+
+/**
+ * An agent the task tool can start.
+ */
+export interface SubAgent {
+	/** What the agent is good at, shown to the model choosing an agent */
+	description: string
+	/** Create a new instance of the agent, every task gets a fresh context */
+	create: () => Promise<Agent<never, any, never>>
+}
+
+const description = `Launches a sub-agent to handle a scoped task on its own, and returns its final report.
+
+Usage:
+- The sub-agent starts with a fresh context: it doesn't see this conversation, so the prompt must include everything it needs to know, and say exactly what it should report back.
+- Use it for tasks that need many tool calls but only a short answer, like exploring a large codebase or finding where something is implemented. This keeps your context small.
+- Launch several sub-agents in the same message to run them in parallel, e.g. one per area of the codebase.
+- Sub-agents can't ask the user for approval, so tool calls that need it are denied.
+- The report is not shown to the user. Summarize what's relevant in your response.`
+
+const activitySchema = z.object({
+	toolCallId: z.string(),
+	toolName: z.string(),
+	status: z.enum(["running", "success", "error", "denied"]),
+	message: z.string().optional(),
+})
+
+export type SubAgentActivity = z.infer<typeof activitySchema>
+
+const outputSchema = toolOutput({
+	pending: {
+		agent: z.string(),
+		activity: z.array(activitySchema),
+		result: z.undefined(),
+	},
+	success: {
+		agent: z.string(),
+		activity: z.array(activitySchema),
+		result: z.string(),
+	},
+	error: {
+		agent: z.string(),
+		activity: z.array(activitySchema),
+	},
+})
+
+function getOutputField(output: unknown, field: "status" | "message") {
+	if (output && typeof output === "object" && field in output) {
+		const value = (output as Record<string, unknown>)[field]
+		return typeof value === "string" ? value : undefined
+	}
+}
+
+/**
+ * Create a task tool that runs sub-agents. Each task creates a new instance
+ * of the agent and runs it to completion with the prompt as its only message.
+ * Sub-agents can't ask for approval, so give them agents whose tools they can
+ * use without it, like the read-only research agent.
+ *
+ * The tool call's output lists the sub-agent's tool calls while it runs, so
+ * UIs can show its progress.
+ *
+ * @param agents - The agents the model can choose from, by name.
+ *
+ * @example
+ * const task = createTaskTool({
+ *   "research-agent": {
+ *     description: "Explores the codebase and answers questions about it",
+ *     create: () => createResearchAgent({ model, cwd, mcp: false }),
+ *   },
+ * })
+ */
+export function createTaskTool(agents: Record<string, SubAgent>) {
+	const names = Object.keys(agents)
+	if (names.length === 0) {
+		throw new Error("The task tool needs at least one agent")
+	}
+
+	const agentList = names
+		.map((name) => `- ${name}: ${agents[name]!.description}`)
+		.join("\n")
+
+	return tool({
+		description: `${description}\n\nAvailable agents:\n${agentList}`,
+		inputSchema: z.object({
+			agent: z
+				.enum(names as [string, ...string[]])
+				.describe("The agent to run the task"),
+			description: z
+				.string()
+				.describe("A short (3-5 words) description of the task"),
+			prompt: z
+				.string()
+				.describe("The task for the agent, with everything it needs to know"),
+		}),
+		outputSchema,
+		toModelOutput: (output) => {
+			if (output.status === "error") {
+				return {
+					type: "error-text",
+					value: `Error running ${output.agent}: ${output.error}`,
+				}
+			}
+			if (output.status === "success") {
+				return { type: "text", value: output.result }
+			}
+			throw new Error("Invalid output status in toModelOutput")
+		},
+		async *execute({ agent: name, description, prompt }, { abortSignal }) {
+			const activity: SubAgentActivity[] = []
+			const pending = () => ({
+				status: "pending" as const,
+				message: `${name}: ${description}`,
+				agent: name,
+				activity: activity.map((item) => ({ ...item })),
+				result: undefined,
+			})
+
+			yield pending()
+
+			try {
+				const agent = await agents[name]!.create()
+				const messages: ModelMessage[] = [{ role: "user", content: prompt }]
+				let report = ""
+
+				for (let round = 0; round < MAX_APPROVAL_ROUNDS; round++) {
+					const result = await agent.stream({ messages, abortSignal })
+					const approvalIds: string[] = []
+
+					for await (const part of result.fullStream) {
+						if (part.type === "error") throw part.error
+
+						if (part.type === "tool-call") {
+							activity.push({
+								toolCallId: part.toolCallId,
+								toolName: part.toolName,
+								status: "running",
+							})
+							yield pending()
+							continue
+						}
+
+						if (part.type === "tool-approval-request") {
+							const item = activity.find(
+								(item) => item.toolCallId === part.toolCall.toolCallId,
+							)
+							if (item) {
+								item.status = "denied"
+								item.message = "Needs approval, denied"
+							}
+							approvalIds.push(part.approvalId)
+							yield pending()
+							continue
+						}
+
+						const item = activity.find(
+							(item) =>
+								"toolCallId" in part && item.toolCallId === part.toolCallId,
+						)
+						if (!item) continue
+
+						if (part.type === "tool-result") {
+							const status = getOutputField(part.output, "status")
+							item.message = getOutputField(part.output, "message")
+							if (!part.preliminary) {
+								item.status = status === "error" ? "error" : "success"
+							}
+							yield pending()
+						} else if (part.type === "tool-error") {
+							item.status = "error"
+							item.message =
+								part.error instanceof Error
+									? part.error.message
+									: String(part.error)
+							yield pending()
+						}
+					}
+
+					messages.push(...(await result.response).messages)
+					report = await result.text
+					if (approvalIds.length === 0) break
+
+					messages.push({
+						role: "tool",
+						content: approvalIds.map((approvalId) => ({
+							type: "tool-approval-response",
+							approvalId,
+							approved: false,
+							reason: APPROVAL_DENIED_REASON,
+						})),
+					})
+				}
+
+				yield {
+					status: "success",
+					message: `${name}: ${description}`,
+					agent: name,
+					activity,
+					result: report || "The agent finished without a report.",
+				}
+			} catch (error) {
+				yield {
+					status: "error",
+					message: `${name} failed: ${description}`,
+					agent: name,
+					activity,
+					error: error instanceof Error ? error.message : String(error),
+				}
+			}
+		},
+	})
+}